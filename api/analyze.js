@@ -60,7 +60,7 @@ async function analyzeWithGPT(text, formType = 'patent') {
 
   try {
     const response = await openai.chat.completions.create({
-      model: 'gpt-4-turbo-preview',
+      model: process.env.OPENAI_MODEL || 'gpt-4o',
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: `Please analyze the following text and extract relevant information for a ${formType} application:\n\n${text}` }
@@ -86,7 +86,7 @@ async function analyzeWithClaude(text, formType = 'patent') {
 
   try {
     const response = await anthropic.messages.create({
-      model: 'claude-3-5-sonnet-20241022',
+      model: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-20250514',
       max_tokens: 4096,
       system: systemPrompt,
       messages: [
@@ -1,5 +1,8 @@
 /**
  * Entity extraction and normalization for IP forms
+ *
+ * Used by the standalone Express prototype only. In the app, extraction aliases
+ * are part of each field in src/lib/form-templates.ts.
  */
 
 const FIELD_MAPPINGS = {
@@ -1,5 +1,8 @@
 /**
  * IP Form Templates for Patent, Trademark, and Copyright applications
+ *
+ * Used by the standalone Express prototype only. The app's templates, covering
+ * every FormType, live in src/lib/form-templates.ts.
  */
 
 const formTemplates = {
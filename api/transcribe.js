@@ -1,25 +1,81 @@
 const OpenAI = require('openai');
 const fs = require('fs');
+const path = require('path');
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY
 });
 
-async function transcribeAudio(filePath) {
+// 'openai' (default), 'whisper-http' for a self-hosted whisper.cpp or
+// faster-whisper server at WHISPER_HTTP_URL, or 'fake' for tests
+const PROVIDER = process.env.TRANSCRIPTION_PROVIDER || 'openai';
+
+async function transcribeWithOpenAI(filePath) {
   if (!process.env.OPENAI_API_KEY) {
     throw new Error('OpenAI API key not configured');
   }
 
-  try {
-    const audioFile = fs.createReadStream(filePath);
+  const audioFile = fs.createReadStream(filePath);
+
+  return openai.audio.transcriptions.create({
+    file: audioFile,
+    model: 'whisper-1',
+    language: 'en',
+    response_format: 'verbose_json',
+    timestamp_granularities: ['segment']
+  });
+}
+
+async function transcribeWithWhisperServer(filePath) {
+  if (!process.env.WHISPER_HTTP_URL) {
+    throw new Error('Whisper server URL not configured');
+  }
+
+  const form = new FormData();
+  form.append('file', new Blob([fs.readFileSync(filePath)]), path.basename(filePath));
+  form.append('language', 'en');
+  form.append('response_format', 'verbose_json');
+  if (process.env.WHISPER_HTTP_MODEL) {
+    form.append('model', process.env.WHISPER_HTTP_MODEL);
+  }
+
+  const response = await fetch(process.env.WHISPER_HTTP_URL, {
+    method: 'POST',
+    headers: process.env.WHISPER_HTTP_API_KEY
+      ? { Authorization: `Bearer ${process.env.WHISPER_HTTP_API_KEY}` }
+      : undefined,
+    body: form
+  });
 
-    const transcription = await openai.audio.transcriptions.create({
-      file: audioFile,
-      model: 'whisper-1',
-      language: 'en',
-      response_format: 'verbose_json',
-      timestamp_granularities: ['segment']
-    });
+  if (!response.ok) {
+    throw new Error(`Whisper server returned ${response.status}`);
+  }
+
+  return response.json();
+}
+
+function transcribeWithFake(filePath) {
+  const name = path.basename(filePath);
+  const duration = Math.max(1, Math.round(fs.statSync(filePath).size / 16000));
+
+  return {
+    text: `Transcript of ${name}.`,
+    segments: [{ id: 0, start: 0, end: duration, text: `Transcript of ${name}.` }],
+    language: 'en',
+    duration
+  };
+}
+
+async function transcribeAudio(filePath) {
+  try {
+    let transcription;
+    if (PROVIDER === 'whisper-http') {
+      transcription = await transcribeWithWhisperServer(filePath);
+    } else if (PROVIDER === 'fake') {
+      transcription = transcribeWithFake(filePath);
+    } else {
+      transcription = await transcribeWithOpenAI(filePath);
+    }
 
     return {
       text: transcription.text,
@@ -28,7 +84,7 @@ async function transcribeAudio(filePath) {
       duration: transcription.duration
     };
   } catch (error) {
-    console.error('Whisper API error:', error);
+    console.error('Transcription error:', error);
     throw new Error(`Transcription failed: ${error.message}`);
   }
 }
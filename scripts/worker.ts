@@ -0,0 +1,88 @@
+import os from 'os';
+import { db } from '../src/lib/db';
+import { claimNextJob } from '../src/lib/jobs';
+import { runJob } from '../src/lib/job-handlers';
+import { sendDeadlineReminders } from '../src/lib/deadline-reminders';
+
+// Background worker for transcription, analysis and form population jobs,
+// which also sends deadline reminders on a schedule.
+// Run one or more instances alongside the web app with `npm run worker`.
+
+const POLL_INTERVAL_MS = parseInt(process.env.WORKER_POLL_INTERVAL_MS || '2000', 10);
+const CONCURRENCY = parseInt(process.env.WORKER_CONCURRENCY || '2', 10);
+// 0 disables reminders on this instance
+const REMINDER_INTERVAL_MS = parseInt(process.env.WORKER_REMINDER_INTERVAL_MS || '3600000', 10);
+
+const workerId = `${os.hostname()}:${process.pid}`;
+let stopping = false;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function poll(slot: number) {
+  while (!stopping) {
+    try {
+      const job = await claimNextJob(`${workerId}:${slot}`);
+
+      if (!job) {
+        await sleep(POLL_INTERVAL_MS);
+        continue;
+      }
+
+      console.log(`Running job ${job.id} (${job.type}), attempt ${job.attempts}/${job.maxAttempts}`);
+      const finished = await runJob(job);
+      console.log(`Job ${job.id} ${finished ? finished.status.toLowerCase() : 'lost its lock; outcome left to the worker holding it'}`);
+    } catch (error) {
+      console.error('Error polling for jobs:', error);
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+}
+
+// Checked in short sleeps so shutdown is not held up by the reminder interval
+async function remind() {
+  let nextRun = 0;
+
+  while (!stopping) {
+    if (Date.now() >= nextRun) {
+      nextRun = Date.now() + REMINDER_INTERVAL_MS;
+      try {
+        const { sent, failed } = await sendDeadlineReminders();
+        if (sent > 0 || failed > 0) {
+          console.log(`Deadline reminders: ${sent} sent, ${failed} failed`);
+        }
+      } catch (error) {
+        console.error('Error sending deadline reminders:', error);
+      }
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+}
+
+async function main() {
+  console.log(`Worker ${workerId} started with concurrency ${CONCURRENCY}`);
+
+  // Finish in-flight jobs before exiting; anything left is reclaimed after the lock timeout
+  const shutdown = () => {
+    if (!stopping) {
+      console.log('Shutting down after current jobs finish...');
+      stopping = true;
+    }
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  const loops = Array.from({ length: CONCURRENCY }, (_, slot) => poll(slot));
+  if (REMINDER_INTERVAL_MS > 0) {
+    loops.push(remind());
+  }
+
+  await Promise.all(loops);
+  await db.$disconnect();
+}
+
+main().catch((error) => {
+  console.error('Worker crashed:', error);
+  process.exit(1);
+});
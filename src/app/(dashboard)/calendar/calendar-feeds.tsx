@@ -0,0 +1,161 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Check, Copy, Loader2, Plus, Rss, Trash2 } from 'lucide-react';
+
+interface CalendarFeedItem {
+  id: string;
+  name: string;
+  owner: string | null;         // Set for another member's feed, shown to admins
+  tokenPrefix: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+interface CalendarFeedsProps {
+  feeds: CalendarFeedItem[];
+}
+
+export function CalendarFeeds({ feeds }: CalendarFeedsProps) {
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [newUrl, setNewUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/v1/calendar/feeds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create calendar feed');
+      }
+
+      setNewUrl(data.url);
+      setName('');
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (feed: CalendarFeedItem) => {
+    if (!confirm(`Revoke "${feed.name}"? Calendars subscribed to it will stop updating.`)) {
+      return;
+    }
+
+    setRevokingId(feed.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/calendar/feeds/${feed.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to revoke calendar feed');
+      }
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (newUrl) {
+      await navigator.clipboard.writeText(newUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border p-6">
+      <h2 className="font-semibold flex items-center gap-2 mb-1">
+        <Rss className="w-5 h-5 text-primary" />
+        Subscribe in Outlook or Google Calendar
+      </h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        A private feed of deadlines assigned to you, and unassigned deadlines on your teams&apos; cases.
+        Anyone with the link can read it, so revoke a feed you no longer use.
+      </p>
+
+      {newUrl && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
+          <p className="text-sm text-yellow-800 mb-2">
+            Copy the feed URL now. You won&apos;t be able to see it again!
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs bg-white px-3 py-2 rounded font-mono overflow-x-auto">{newUrl}</code>
+            <button onClick={handleCopy} className="p-2 hover:bg-yellow-100 rounded">
+              {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {feeds.length > 0 && (
+        <ul className="divide-y border rounded-lg mb-4">
+          {feeds.map((feed) => (
+            <li key={feed.id} className="flex items-center justify-between gap-4 px-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium">
+                  {feed.name}
+                  {feed.owner && <span className="ml-2 text-xs font-normal text-muted-foreground">{feed.owner}</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  <code className="font-mono">{feed.tokenPrefix}...</code> · created{' '}
+                  {new Date(feed.createdAt).toLocaleDateString()} · last synced{' '}
+                  {feed.lastUsedAt ? new Date(feed.lastUsedAt).toLocaleString() : 'never'}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(feed)}
+                disabled={revokingId !== null}
+                className="p-2 text-red-600 hover:bg-red-50 rounded transition disabled:opacity-50"
+                title="Revoke feed"
+              >
+                {revokingId === feed.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Feed name, e.g. Work laptop"
+          maxLength={100}
+          className="flex-1 px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <button
+          type="submit"
+          disabled={creating}
+          className="flex items-center gap-2 px-4 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+        >
+          {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Create Feed URL
+        </button>
+      </form>
+    </div>
+  );
+}
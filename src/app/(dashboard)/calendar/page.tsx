@@ -0,0 +1,340 @@
+import Link from 'next/link';
+import { CaseType, Prisma } from '@prisma/client';
+import { CalendarDays, ChevronLeft, ChevronRight, Filter } from 'lucide-react';
+import { requireOrg, getCurrentOrganization, getOrganizationMembers, hasRole } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { CALENDAR_VIEWS, CalendarView, getCalendarRange, shiftAnchor } from '@/lib/calendar';
+import { listCalendarFeeds } from '@/lib/calendar-feeds';
+import { formatDate, parseDate } from '@/lib/docketing';
+import { CalendarFeeds } from './calendar-feeds';
+
+interface CalendarPageProps {
+  searchParams: {
+    view?: string;
+    date?: string;
+    team?: string;
+    type?: CaseType;
+    assignee?: string;
+  };
+}
+
+const caseTypeLabels: Record<CaseType, string> = {
+  PATENT_PROVISIONAL: 'Provisional Patent',
+  PATENT_NONPROVISIONAL: 'Nonprovisional Patent',
+  PATENT_PCT: 'PCT Application',
+  TRADEMARK_FEDERAL: 'Federal Trademark',
+  TRADEMARK_STATE: 'State Trademark',
+  TRADEMARK_INTERNATIONAL: 'International Trademark',
+  COPYRIGHT_REGISTRATION: 'Copyright Registration',
+  COPYRIGHT_DMCA: 'DMCA',
+  TRADE_SECRET: 'Trade Secret',
+  LICENSING: 'Licensing',
+  LITIGATION: 'Litigation',
+  OTHER: 'Other',
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Deadlines shown in a month cell before collapsing the rest
+const MONTH_CELL_LIMIT = 3;
+
+export default async function CalendarPage({ searchParams }: CalendarPageProps) {
+  const authUser = await requireOrg();
+  const organization = await getCurrentOrganization();
+
+  if (!organization) {
+    return null;
+  }
+
+  const view: CalendarView = CALENDAR_VIEWS.includes(searchParams.view as CalendarView)
+    ? (searchParams.view as CalendarView)
+    : 'month';
+  const now = new Date();
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const anchor = parseDate(searchParams.date) || today;
+  const range = getCalendarRange(view, anchor);
+
+  const where: Prisma.DeadlineWhereInput = {
+    case: {
+      organizationId: organization.id,
+      ...(searchParams.team && { teamId: searchParams.team }),
+      ...(searchParams.type && { type: searchParams.type }),
+    },
+    status: { not: 'CANCELLED' },
+    dueDate: { gte: range.start, lt: range.end },
+  };
+  if (searchParams.assignee === 'unassigned') {
+    where.assignedTo = null;
+  } else if (searchParams.assignee) {
+    where.assignedTo = searchParams.assignee;
+  }
+
+  const [deadlines, teams, members, feeds] = await Promise.all([
+    db.deadline.findMany({
+      where,
+      orderBy: [{ dueDate: 'asc' }, { title: 'asc' }],
+      include: {
+        case: { select: { id: true, caseNumber: true, title: true, team: { select: { name: true } } } },
+      },
+    }),
+    db.team.findMany({
+      where: { organizationId: organization.id },
+      orderBy: { name: 'asc' },
+      select: { id: true, name: true },
+    }),
+    getOrganizationMembers(authUser.orgId),
+    // Admins see every member's feeds so they can revoke them
+    listCalendarFeeds(authUser.orgId, hasRole(authUser.role, 'ADMIN') ? undefined : authUser.userId),
+  ]);
+
+  const memberNames = new Map(members.map((member) => [member.userId, member.name]));
+  const todayKey = formatDate(today);
+
+  const deadlinesByDay = new Map<string, typeof deadlines>();
+  for (const deadline of deadlines) {
+    const key = formatDate(deadline.dueDate);
+    deadlinesByDay.set(key, [...(deadlinesByDay.get(key) || []), deadline]);
+  }
+
+  const href = (overrides: Partial<CalendarPageProps['searchParams']>) => {
+    const params = new URLSearchParams();
+    const merged = { ...searchParams, view, date: formatDate(anchor), ...overrides };
+    for (const [key, value] of Object.entries(merged)) {
+      if (value) params.set(key, value);
+    }
+    return `/calendar?${params.toString()}`;
+  };
+
+  const chipClass = (deadline: (typeof deadlines)[number]) => {
+    if (deadline.status === 'COMPLETED') return 'bg-green-50 text-green-700 line-through';
+    if (formatDate(deadline.dueDate) < todayKey) return 'bg-red-100 text-red-700';
+    return 'bg-blue-50 text-blue-700';
+  };
+
+  const title =
+    view === 'week'
+      ? `Week of ${formatDay(range.start, { month: 'long', day: 'numeric', year: 'numeric' })}`
+      : formatDay(anchor, { month: 'long', year: 'numeric' });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Calendar</h1>
+          <p className="text-muted-foreground">Docketed deadlines across all cases</p>
+        </div>
+        <div className="flex rounded-lg border bg-white overflow-hidden">
+          {CALENDAR_VIEWS.map((option) => (
+            <Link
+              key={option}
+              href={href({ view: option })}
+              className={`px-4 py-2 text-sm capitalize ${option === view ? 'bg-primary text-white' : 'hover:bg-slate-50'}`}
+            >
+              {option}
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl border p-4">
+        <form className="flex flex-wrap items-center gap-4">
+          <input type="hidden" name="view" value={view} />
+          <input type="hidden" name="date" value={formatDate(anchor)} />
+          <select
+            name="team"
+            defaultValue={searchParams.team || ''}
+            className="px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">All Teams</option>
+            {teams.map((team) => (
+              <option key={team.id} value={team.id}>
+                {team.name}
+              </option>
+            ))}
+          </select>
+          <select
+            name="type"
+            defaultValue={searchParams.type || ''}
+            className="px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">All Case Types</option>
+            {Object.entries(caseTypeLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            name="assignee"
+            defaultValue={searchParams.assignee || ''}
+            className="px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">All Assignees</option>
+            <option value={authUser.userId}>Assigned to me</option>
+            <option value="unassigned">Unassigned</option>
+            {members
+              .filter((member) => member.userId !== authUser.userId)
+              .map((member) => (
+                <option key={member.userId} value={member.userId}>
+                  {member.name}
+                </option>
+              ))}
+          </select>
+          <button
+            type="submit"
+            className="flex items-center gap-2 px-4 py-2 text-sm border rounded-lg hover:bg-slate-50 transition"
+          >
+            <Filter className="w-4 h-4" />
+            Filter
+          </button>
+        </form>
+      </div>
+
+      {/* Calendar */}
+      <div className="bg-white rounded-xl border">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="font-semibold flex items-center gap-2">
+            <CalendarDays className="w-5 h-5 text-primary" />
+            {title}
+            <span className="text-sm font-normal text-muted-foreground">
+              ({deadlines.length} deadline{deadlines.length === 1 ? '' : 's'})
+            </span>
+          </h2>
+          <div className="flex items-center gap-2">
+            <Link
+              href={href({ date: formatDate(shiftAnchor(view, anchor, -1)) })}
+              className="p-2 border rounded-lg hover:bg-slate-50 transition"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Link>
+            <Link
+              href={href({ date: todayKey })}
+              className="px-3 py-1.5 text-sm border rounded-lg hover:bg-slate-50 transition"
+            >
+              Today
+            </Link>
+            <Link
+              href={href({ date: formatDate(shiftAnchor(view, anchor, 1)) })}
+              className="p-2 border rounded-lg hover:bg-slate-50 transition"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Link>
+          </div>
+        </div>
+
+        {view === 'list' ? (
+          deadlinesByDay.size === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12">No deadlines this month</p>
+          ) : (
+            <div className="divide-y">
+              {Array.from(deadlinesByDay.entries()).map(([day, dayDeadlines]) => (
+                <div key={day} className="flex gap-6 px-6 py-4">
+                  <div className={`w-28 flex-shrink-0 text-sm ${day === todayKey ? 'font-semibold text-primary' : ''}`}>
+                    {formatDay(dayDeadlines[0].dueDate, { weekday: 'short', month: 'short', day: 'numeric' })}
+                  </div>
+                  <ul className="flex-1 space-y-3">
+                    {dayDeadlines.map((deadline) => (
+                      <li key={deadline.id} className="flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <Link
+                            href={`/cases/${deadline.case.id}`}
+                            className={`text-sm font-medium hover:text-primary ${deadline.status === 'COMPLETED' ? 'line-through text-muted-foreground' : ''}`}
+                          >
+                            {deadline.title}
+                          </Link>
+                          <p className="text-xs text-muted-foreground">
+                            {deadline.case.caseNumber} · {deadline.case.title}
+                            {deadline.case.team && ` · ${deadline.case.team.name}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-3 flex-shrink-0">
+                          <span className="text-xs text-muted-foreground">
+                            {deadline.assignedTo ? memberNames.get(deadline.assignedTo) || 'Former member' : 'Unassigned'}
+                          </span>
+                          <span className={`text-xs font-medium px-2 py-1 rounded ${chipClass(deadline)}`}>
+                            {deadline.status === 'COMPLETED' ? 'DONE' : day < todayKey ? 'OVERDUE' : 'OPEN'}
+                          </span>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )
+        ) : (
+          <div className="grid grid-cols-7">
+            {WEEKDAYS.map((weekday) => (
+              <div key={weekday} className="px-2 py-2 text-xs font-semibold text-muted-foreground border-b text-center">
+                {weekday}
+              </div>
+            ))}
+            {range.days.map((day) => {
+              const key = formatDate(day);
+              const dayDeadlines = deadlinesByDay.get(key) || [];
+              const visible = view === 'month' ? dayDeadlines.slice(0, MONTH_CELL_LIMIT) : dayDeadlines;
+              const outsideMonth = view === 'month' && day.getUTCMonth() !== anchor.getUTCMonth();
+
+              return (
+                <div
+                  key={key}
+                  className={`border-b border-r p-2 ${view === 'week' ? 'min-h-[320px]' : 'min-h-[110px]'} ${outsideMonth ? 'bg-slate-50' : ''}`}
+                >
+                  <p
+                    className={`text-xs mb-1 ${
+                      key === todayKey
+                        ? 'inline-flex w-6 h-6 items-center justify-center rounded-full bg-primary text-white'
+                        : outsideMonth
+                          ? 'text-muted-foreground'
+                          : ''
+                    }`}
+                  >
+                    {day.getUTCDate()}
+                  </p>
+                  <ul className="space-y-1">
+                    {visible.map((deadline) => (
+                      <li key={deadline.id}>
+                        <Link
+                          href={`/cases/${deadline.case.id}`}
+                          title={`${deadline.case.caseNumber}: ${deadline.title}`}
+                          className={`block truncate text-xs px-1.5 py-0.5 rounded ${chipClass(deadline)}`}
+                        >
+                          {view === 'week' && <span className="font-medium">{deadline.case.caseNumber} </span>}
+                          {deadline.title}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                  {visible.length < dayDeadlines.length && (
+                    <Link href={href({ view: 'week', date: key })} className="text-xs text-muted-foreground hover:text-primary">
+                      +{dayDeadlines.length - visible.length} more
+                    </Link>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Subscriptions */}
+      <CalendarFeeds
+        feeds={feeds.map((feed) => ({
+          id: feed.id,
+          name: feed.name,
+          owner: feed.userId === authUser.userId ? null : memberNames.get(feed.userId) || 'Former member',
+          tokenPrefix: feed.tokenPrefix,
+          lastUsedAt: feed.lastUsedAt?.toISOString() || null,
+          createdAt: feed.createdAt.toISOString(),
+        }))}
+      />
+    </div>
+  );
+}
+
+// Calendar days are UTC midnights, so format them in UTC
+function formatDay(date: Date, options: Intl.DateTimeFormatOptions): string {
+  return date.toLocaleDateString('en-US', { timeZone: 'UTC', ...options });
+}
@@ -1,5 +1,8 @@
-import { requireOrg, getCurrentOrganization } from '@/lib/auth';
+import { requireOrg, getCurrentOrganization, getOrganizationMembers } from '@/lib/auth';
 import { db } from '@/lib/db';
+import { getGlossary } from '@/lib/glossary';
+import { DOCKET_EVENT_LABELS, PATENT_APPLICATIONS, getDocketEventTypes } from '@/lib/docketing';
+import { formatDocumentNumber, isExaminerCited } from '@/lib/prior-art';
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import {
@@ -17,6 +20,10 @@ import {
   AlertCircle,
 } from 'lucide-react';
 import { CaseStatus, CaseType } from '@prisma/client';
+import { GlossaryEditor } from '@/components/dashboard/glossary-editor';
+import { DocketPanel } from '@/components/dashboard/docket-panel';
+import { OfficeActionUpload } from '@/components/dashboard/office-action-upload';
+import { PriorArtPanel } from '@/components/dashboard/prior-art-panel';
 
 interface CaseDetailPageProps {
   params: { id: string };
@@ -66,6 +73,28 @@ export default async function CaseDetailPage({ params }: CaseDetailPageProps) {
         orderBy: { createdAt: 'desc' },
         take: 20,
       },
+      docketEvents: {
+        orderBy: { date: 'desc' },
+      },
+      deadlines: {
+        orderBy: { dueDate: 'asc' },
+        include: {
+          reminders: { orderBy: { sentAt: 'desc' }, take: 1, select: { level: true, sentAt: true } },
+        },
+      },
+      priorArt: {
+        orderBy: [{ category: 'asc' }, { key: 'asc' }],
+        include: {
+          sources: {
+            select: {
+              documentId: true,
+              recording: { select: { name: true } },
+              document: { select: { name: true } },
+            },
+          },
+          idsForm: { select: { id: true, name: true } },
+        },
+      },
     },
   });
 
@@ -73,6 +102,9 @@ export default async function CaseDetailPage({ params }: CaseDetailPageProps) {
     notFound();
   }
 
+  const glossary = await getGlossary(organization.id, caseData.id);
+  const members = await getOrganizationMembers(authUser.orgId);
+
   const daysUntilDeadline = caseData.filingDeadline
     ? Math.ceil(
         (caseData.filingDeadline.getTime() - Date.now()) / (24 * 60 * 60 * 1000)
@@ -191,6 +223,60 @@ export default async function CaseDetailPage({ params }: CaseDetailPageProps) {
             )}
           </div>
 
+          {/* Docket */}
+          <DocketPanel
+            caseId={caseData.id}
+            eventTypes={getDocketEventTypes(caseData.type).map((type) => ({ value: type, label: DOCKET_EVENT_LABELS[type] }))}
+            events={caseData.docketEvents.map((event) => ({
+              id: event.id,
+              type: event.type,
+              label: DOCKET_EVENT_LABELS[event.type],
+              date: event.date.toISOString(),
+              note: event.note,
+            }))}
+            deadlines={caseData.deadlines.map((deadline) => ({
+              id: deadline.id,
+              title: deadline.title,
+              description: deadline.description,
+              opensAt: deadline.opensAt?.toISOString() || null,
+              dueDate: deadline.dueDate.toISOString(),
+              finalDate: deadline.finalDate?.toISOString() || null,
+              status: deadline.status,
+              assignedTo: deadline.assignedTo,
+              acknowledgedAt: deadline.acknowledgedAt?.toISOString() || null,
+              lastReminder: deadline.reminders[0]
+                ? { level: deadline.reminders[0].level, sentAt: deadline.reminders[0].sentAt.toISOString() }
+                : null,
+            }))}
+            members={members}
+          />
+
+          {/* Prior Art */}
+          {caseData.type.startsWith('PATENT_') && (
+            <PriorArtPanel
+              caseId={caseData.id}
+              canFileIds={PATENT_APPLICATIONS.includes(caseData.type)}
+              references={caseData.priorArt.map((reference) => ({
+                id: reference.id,
+                category: reference.category,
+                documentNumber: formatDocumentNumber(reference),
+                citation: reference.citation,
+                kindCode: reference.kindCode,
+                date: reference.date?.toISOString() || null,
+                name: reference.name,
+                sources: Array.from(
+                  new Set(
+                    reference.sources
+                      .map((source) => source.recording?.name || source.document?.name)
+                      .filter((name): name is string => Boolean(name))
+                  )
+                ),
+                examinerCited: isExaminerCited(reference),
+                idsForm: reference.idsForm,
+              }))}
+            />
+          )}
+
           {/* Forms */}
           <div className="bg-white rounded-xl border p-6">
             <div className="flex items-center justify-between mb-4">
@@ -304,10 +390,13 @@ export default async function CaseDetailPage({ params }: CaseDetailPageProps) {
                 <Files className="w-5 h-5 text-primary" />
                 Documents ({caseData.documents.length})
               </h2>
-              <button className="flex items-center gap-1 text-sm text-primary hover:underline">
-                <Plus className="w-4 h-4" />
-                Upload
-              </button>
+              <div className="flex items-center gap-4">
+                {PATENT_APPLICATIONS.includes(caseData.type) && <OfficeActionUpload caseId={caseData.id} />}
+                <button className="flex items-center gap-1 text-sm text-primary hover:underline">
+                  <Plus className="w-4 h-4" />
+                  Upload
+                </button>
+              </div>
             </div>
             {caseData.documents.length === 0 ? (
               <p className="text-sm text-muted-foreground text-center py-8">
@@ -318,7 +407,7 @@ export default async function CaseDetailPage({ params }: CaseDetailPageProps) {
                 {caseData.documents.map((doc) => (
                   <li key={doc.id}>
                     <a
-                      href={doc.fileUrl}
+                      href={`/api/v1/documents/${doc.id}/download`}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="flex items-center justify-between p-3 rounded-lg hover:bg-slate-50 transition"
@@ -370,6 +459,9 @@ export default async function CaseDetailPage({ params }: CaseDetailPageProps) {
             )}
           </div>
 
+          {/* Glossary */}
+          <GlossaryEditor terms={glossary} caseId={caseData.id} />
+
           {/* Quick Stats */}
           <div className="bg-white rounded-xl border p-6">
             <h2 className="font-semibold mb-4">Quick Stats</h2>
@@ -0,0 +1,324 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, ArrowDown, ArrowUp, GitBranch, ListTree, Loader2, Plus, Sparkles, Trash2 } from 'lucide-react';
+import {
+  AntecedentIssue,
+  ClaimEntry,
+  ClaimNode,
+  buildClaimTree,
+  findAntecedentIssues,
+  renumberClaims,
+  sortClaimsByTree,
+} from '@/lib/claims';
+import type { ClaimSuggestion } from '@/lib/claim-suggestions';
+
+const inputClass =
+  'w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent disabled:bg-slate-50';
+
+const BASIS_LABELS: Record<ClaimSuggestion['basis'], string> = {
+  technical_details: 'Technical Details',
+  claims_rights: 'Claims/Rights',
+};
+
+interface ClaimsWorkspaceProps {
+  formId: string;
+  claims: ClaimEntry[];
+  onChange: (claims: ClaimEntry[]) => void;
+  readOnly: boolean;
+}
+
+/**
+ * Editor for the claims of a claim set. Every structural change renumbers the
+ * claims and keeps dependent claims pointing at the same parents.
+ */
+export function ClaimsWorkspace({ formId, claims, onChange, readOnly }: ClaimsWorkspaceProps) {
+  const [suggestions, setSuggestions] = useState<ClaimSuggestion[]>([]);
+  const [suggesting, setSuggesting] = useState(false);
+  const [error, setError] = useState('');
+
+  const tree = buildClaimTree(claims);
+  const issues = findAntecedentIssues(claims);
+
+  const restructure = (next: ClaimEntry[]) => onChange(renumberClaims(next));
+
+  const setClaim = (index: number, changes: Partial<ClaimEntry>) => {
+    const next = [...claims];
+    next[index] = { ...next[index], ...changes };
+    onChange(next);
+  };
+
+  const moveClaim = (index: number, direction: -1 | 1) => {
+    const next = [...claims];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    restructure(next);
+  };
+
+  const addClaim = (claim: Omit<ClaimEntry, 'claimNumber'>) =>
+    restructure([...claims, { ...claim, claimNumber: claims.length + 1 }]);
+
+  const handleSuggest = async () => {
+    setSuggesting(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/forms/${formId}/claims/suggestions`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to suggest claims');
+      }
+      setSuggestions(data.suggestions);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  const acceptSuggestion = (suggestion: ClaimSuggestion) => {
+    // Insert after the parent's last dependent so the claim lands next to its family
+    const parentIndex = claims.findIndex((claim) => Number(claim.claimNumber) === suggestion.dependsOn);
+    let position = parentIndex + 1;
+    while (position < claims.length && claims[position].claimType === 'Dependent') position++;
+
+    const next = [...claims];
+    next.splice(position, 0, { claimNumber: '', claimType: 'Dependent', dependsOn: suggestion.dependsOn, claimText: suggestion.claimText });
+    restructure(next);
+    setSuggestions((prev) => prev.filter((item) => item !== suggestion));
+  };
+
+  return (
+    <div className="grid lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-4">
+        {claims.map((claim, index) => (
+          <ClaimCard
+            key={index}
+            claim={claim}
+            index={index}
+            claims={claims}
+            issues={issues.filter((issue) => issue.index === index)}
+            readOnly={readOnly}
+            onChange={(changes) => setClaim(index, changes)}
+            onMove={(direction) => moveClaim(index, direction)}
+            onRemove={() => restructure(claims.filter((_, i) => i !== index))}
+          />
+        ))}
+
+        {claims.length === 0 && <p className="text-xs text-red-500">At least one claim is required</p>}
+
+        {!readOnly && (
+          <div className="flex flex-wrap items-center gap-4">
+            <button
+              type="button"
+              onClick={() => addClaim({ claimType: 'Independent', dependsOn: '', claimText: '' })}
+              className="flex items-center gap-1 text-sm text-primary hover:underline"
+            >
+              <Plus className="w-4 h-4" />
+              Add independent claim
+            </button>
+            {claims.length > 0 && (
+              <button
+                type="button"
+                onClick={() => addClaim({ claimType: 'Dependent', dependsOn: claims.length, claimText: '' })}
+                className="flex items-center gap-1 text-sm text-primary hover:underline"
+              >
+                <GitBranch className="w-4 h-4" />
+                Add dependent claim
+              </button>
+            )}
+            {claims.length > 1 && (
+              <button
+                type="button"
+                onClick={() => onChange(sortClaimsByTree(claims))}
+                className="flex items-center gap-1 text-sm text-primary hover:underline"
+                title="Put each dependent claim after its parent and renumber"
+              >
+                <ListTree className="w-4 h-4" />
+                Order by claim tree
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-6">
+        <div>
+          <h3 className="text-sm font-medium mb-2">Claim Tree</h3>
+          {tree.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No claims yet</p>
+          ) : (
+            <ul className="space-y-1">
+              {tree.map((node) => (
+                <ClaimTreeNode key={node.index} node={node} />
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {!readOnly && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium">Suggested Dependent Claims</h3>
+              <button
+                type="button"
+                onClick={handleSuggest}
+                disabled={suggesting || claims.length === 0}
+                className="flex items-center gap-1 text-sm text-purple-600 hover:underline disabled:opacity-50"
+              >
+                {suggesting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                Suggest
+              </button>
+            </div>
+            <p className="text-xs text-muted-foreground mb-3">
+              Drawn from the Technical Details and Claims/Rights of analyzed recordings on this form&apos;s case.
+            </p>
+            {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+            <ul className="space-y-3">
+              {suggestions.map((suggestion, index) => (
+                <li key={index} className="p-3 rounded-lg border bg-purple-50/40">
+                  <p className="text-sm">{suggestion.claimText}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    From {BASIS_LABELS[suggestion.basis]} · {suggestion.rationale}
+                  </p>
+                  {suggestion.antecedentIssues.length > 0 && (
+                    <p className="flex items-center gap-1 text-xs text-yellow-700 mt-1">
+                      <AlertTriangle className="w-3 h-3" />
+                      No antecedent basis for {suggestion.antecedentIssues.map((term) => `"${term}"`).join(', ')}
+                    </p>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => acceptSuggestion(suggestion)}
+                    className="flex items-center gap-1 text-xs text-primary hover:underline mt-2"
+                  >
+                    <Plus className="w-3 h-3" />
+                    Add as dependent of claim {suggestion.dependsOn}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ClaimCardProps {
+  claim: ClaimEntry;
+  index: number;
+  claims: ClaimEntry[];
+  issues: AntecedentIssue[];
+  readOnly: boolean;
+  onChange: (changes: Partial<ClaimEntry>) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+}
+
+function ClaimCard({ claim, index, claims, issues, readOnly, onChange, onMove, onRemove }: ClaimCardProps) {
+  const dependent = claim.claimType === 'Dependent';
+  const parents = claims.slice(0, index).map((other) => Number(other.claimNumber)).filter(Boolean);
+
+  return (
+    <div className="p-4 rounded-lg border bg-slate-50/50">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div className="flex items-center gap-2">
+          <p className="text-sm font-medium">Claim {claim.claimNumber || index + 1}</p>
+          <select
+            value={claim.claimType}
+            onChange={(e) =>
+              onChange({
+                claimType: e.target.value as ClaimEntry['claimType'],
+                dependsOn: e.target.value === 'Dependent' ? parents[parents.length - 1] || '' : '',
+              })
+            }
+            disabled={readOnly}
+            className="px-2 py-1 border rounded text-xs disabled:bg-slate-50"
+          >
+            <option value="Independent">Independent</option>
+            <option value="Dependent">Dependent</option>
+          </select>
+          {dependent && (
+            <select
+              value={claim.dependsOn === '' ? '' : String(claim.dependsOn)}
+              onChange={(e) => onChange({ dependsOn: e.target.value ? Number(e.target.value) : '' })}
+              disabled={readOnly}
+              className={`px-2 py-1 border rounded text-xs disabled:bg-slate-50 ${claim.dependsOn === '' ? 'border-red-300' : ''}`}
+            >
+              <option value="">Depends on...</option>
+              {parents.map((number) => (
+                <option key={number} value={number}>
+                  Claim {number}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {!readOnly && (
+          <div className="flex items-center">
+            <button
+              type="button"
+              onClick={() => onMove(-1)}
+              disabled={index === 0}
+              className="p-1.5 text-muted-foreground hover:bg-slate-100 rounded-lg transition disabled:opacity-30"
+              title="Move up"
+            >
+              <ArrowUp className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onMove(1)}
+              disabled={index === claims.length - 1}
+              className="p-1.5 text-muted-foreground hover:bg-slate-100 rounded-lg transition disabled:opacity-30"
+              title="Move down"
+            >
+              <ArrowDown className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={onRemove}
+              className="p-1.5 text-muted-foreground hover:text-red-600 hover:bg-red-50 rounded-lg transition"
+              title="Remove"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+      <textarea
+        value={claim.claimText || ''}
+        onChange={(e) => onChange({ claimText: e.target.value })}
+        rows={4}
+        placeholder={dependent ? `The ... of claim ${claim.dependsOn || 'N'}, wherein ...` : 'A ... comprising: ...'}
+        disabled={readOnly}
+        className={`${inputClass} resize-y`}
+      />
+      {issues.length > 0 && (
+        <p className="flex items-start gap-1 text-xs text-yellow-700 mt-1">
+          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+          No antecedent basis for {issues.map((issue) => `"${issue.term}"`).join(', ')}. Introduce each with &quot;a&quot; or &quot;an&quot; in this claim or a claim it depends on.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ClaimTreeNode({ node }: { node: ClaimNode }) {
+  return (
+    <li>
+      <div className="flex items-baseline gap-2 text-sm">
+        <span className={`font-medium shrink-0 ${node.orphan ? 'text-red-600' : ''}`} title={node.orphan ? 'Depends on a missing or later claim' : undefined}>
+          {node.number}.
+        </span>
+        <span className="text-muted-foreground truncate">{node.text || 'Empty claim'}</span>
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-2 pl-3 border-l space-y-1 mt-1">
+          {node.children.map((child) => (
+            <ClaimTreeNode key={child.index} node={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
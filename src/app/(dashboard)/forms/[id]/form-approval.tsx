@@ -0,0 +1,215 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { AlertTriangle, BadgeCheck, Loader2, UserCheck, X } from 'lucide-react';
+
+interface Member {
+  userId: string;
+  name: string;
+}
+
+interface Decision {
+  id: string;
+  version: number;
+  decision: string;
+  comment: string | null;
+  signature: string | null;
+  dataHash: string;
+  createdAt: Date | string;
+  createdBy: string;
+}
+
+interface ApprovalPanelProps {
+  formId: string;
+  status: string;
+  reviewerId: string | null;
+  members: Member[];
+  decisions: Decision[];
+  dataHash: string;
+  ineligibleReviewerIds: string[];  // The current user and the form's author
+  canAssign: boolean;
+  canDecide: boolean;
+}
+
+export function ApprovalPanel({
+  formId,
+  status,
+  reviewerId,
+  members,
+  decisions,
+  dataHash,
+  ineligibleReviewerIds,
+  canAssign,
+  canDecide,
+}: ApprovalPanelProps) {
+  const router = useRouter();
+  const [pending, setPending] = useState<'assign' | 'approve' | 'reject' | null>(null);
+  const [signature, setSignature] = useState('');
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState('');
+
+  const memberName = (userId: string) => members.find((m) => m.userId === userId)?.name || 'Unknown member';
+  const latest = decisions[0];
+
+  const handleAssign = async (value: string) => {
+    setPending('assign');
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/forms/${formId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reviewerId: value || null }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to assign reviewer');
+      }
+
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleDecision = async (decision: 'approve' | 'reject') => {
+    setPending(decision);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/forms/${formId}/approval`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, signature, comment, dataHash }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Failed to ${decision} form`);
+      }
+
+      setSignature('');
+      setComment('');
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="font-semibold">Approval</h2>
+          <p className="text-sm text-muted-foreground">
+            {status === 'APPROVED'
+              ? 'Editing an approved form sends it back to review.'
+              : 'The assigned reviewer or an admin approves or rejects the form once it is in review.'}
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm flex-shrink-0">
+          <UserCheck className="w-4 h-4 text-muted-foreground" />
+          <select
+            value={reviewerId || ''}
+            onChange={(e) => handleAssign(e.target.value)}
+            disabled={!canAssign || pending !== null}
+            className="px-2 py-1 border rounded-lg bg-white disabled:opacity-50"
+          >
+            <option value="">No reviewer</option>
+            {members
+              .filter((member) => member.userId === reviewerId || !ineligibleReviewerIds.includes(member.userId))
+              .map((member) => (
+                <option key={member.userId} value={member.userId}>
+                  {member.name}
+                </option>
+              ))}
+          </select>
+        </label>
+      </div>
+
+      {latest && (
+        <div
+          className={`p-3 rounded-lg border text-sm ${
+            latest.decision === 'approved' ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'
+          }`}
+        >
+          <p className="flex items-center gap-2 font-medium">
+            {latest.decision === 'approved' ? (
+              <BadgeCheck className="w-4 h-4 text-green-600" />
+            ) : (
+              <X className="w-4 h-4 text-red-600" />
+            )}
+            {latest.decision === 'approved' ? 'Approved' : 'Rejected'} by {latest.signature || memberName(latest.createdBy)}
+            <span className="font-normal text-muted-foreground">
+              {format(new Date(latest.createdAt), 'MMM d, yyyy h:mm a')} · version {latest.version}
+            </span>
+          </p>
+          {latest.comment && <p className="mt-1 whitespace-pre-wrap">{latest.comment}</p>}
+          {latest.decision === 'approved' && (
+            <p className="mt-1 text-xs font-mono text-muted-foreground">
+              SHA-256 {latest.dataHash.slice(0, 16)}…
+              {status === 'APPROVED' && latest.dataHash !== dataHash && (
+                <span className="ml-2 inline-flex items-center gap-1 text-red-600 font-sans">
+                  <AlertTriangle className="w-3 h-3" />
+                  Data no longer matches the approval
+                </span>
+              )}
+            </p>
+          )}
+        </div>
+      )}
+
+      {status === 'IN_REVIEW' && canDecide && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <p className="text-sm">
+              I have reviewed this form and approve it for filing.
+            </p>
+            <input
+              type="text"
+              value={signature}
+              onChange={(e) => setSignature(e.target.value)}
+              placeholder="Type your full name to sign"
+              className="w-full px-3 py-2 text-sm border rounded-lg"
+            />
+            <button
+              onClick={() => handleDecision('approve')}
+              disabled={pending !== null || !signature.trim()}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+            >
+              {pending === 'approve' ? <Loader2 className="w-4 h-4 animate-spin" /> : <BadgeCheck className="w-4 h-4" />}
+              Sign and Approve
+            </button>
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm">Send the form back with what needs to change.</p>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={2}
+              placeholder="Reason for rejection (required)"
+              className="w-full px-3 py-2 text-sm border rounded-lg"
+            />
+            <button
+              onClick={() => handleDecision('reject')}
+              disabled={pending !== null || !comment.trim()}
+              className="flex items-center gap-2 px-4 py-2 text-sm border rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+            >
+              {pending === 'reject' ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+              Reject
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
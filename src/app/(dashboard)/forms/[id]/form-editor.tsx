@@ -0,0 +1,435 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AlertTriangle, Check, Loader2, Plus, Trash2 } from 'lucide-react';
+import type { FormTemplate, TemplateField, TemplateSection } from '@/lib/form-templates';
+import { getClaims } from '@/lib/claims';
+import { ClaimsWorkspace } from './claims-workspace';
+import { GoodsServicesClassifier, IdentificationWarnings } from './goods-services-classifier';
+
+type FormValues = Record<string, any>;
+type SaveState = 'idle' | 'saving' | 'saved' | 'error';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+const inputClass =
+  'w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent disabled:bg-slate-50';
+
+interface FormEditorProps {
+  formId: string;
+  template: FormTemplate;
+  data: FormValues;
+  readOnly: boolean;
+  flaggedPaths: string[];
+}
+
+export function FormEditor({ formId, template, data: savedData, readOnly, flaggedPaths }: FormEditorProps) {
+  const router = useRouter();
+  const [data, setData] = useState<FormValues>(savedData);
+  const [dirty, setDirty] = useState(false);
+  const [saveState, setSaveState] = useState<SaveState>('idle');
+  const [error, setError] = useState('');
+  const [touched, setTouched] = useState<Set<string>>(new Set());
+  const saveTimer = useRef<ReturnType<typeof setTimeout>>();
+  const editCount = useRef(0);
+
+  // Pick up server-side changes (e.g. accepted proposals) unless there are unsaved edits
+  const savedJson = JSON.stringify(savedData);
+  useEffect(() => {
+    if (!dirty) setData(JSON.parse(savedJson));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [savedJson]);
+
+  useEffect(() => {
+    if (!dirty) return;
+
+    clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(async () => {
+      const savedEdit = editCount.current;
+      setSaveState('saving');
+      setError('');
+
+      try {
+        const response = await fetch(`/api/v1/forms/${formId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ data }),
+        });
+
+        if (!response.ok) {
+          const body = await response.json();
+          throw new Error(body.error || 'Failed to save form');
+        }
+
+        // Edits made while the request was in flight still need saving
+        if (editCount.current === savedEdit) setDirty(false);
+        setSaveState('saved');
+        router.refresh();
+      } catch (err: any) {
+        setSaveState('error');
+        setError(err.message);
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(saveTimer.current);
+  }, [data, dirty, formId, router]);
+
+  const update = (next: FormValues, path: string) => {
+    editCount.current += 1;
+    setData(next);
+    setDirty(true);
+    setTouched((prev) => new Set(prev).add(path));
+  };
+
+  const setField = (fieldId: string, value: unknown) => update({ ...data, [fieldId]: value }, fieldId);
+
+  const setEntryField = (section: TemplateSection, index: number, fieldId: string, value: unknown) => {
+    const entries = [...getEntries(data, section)];
+    entries[index] = { ...entries[index], [fieldId]: value };
+    update({ ...data, [section.id]: entries }, `${section.id}.${index}.${fieldId}`);
+  };
+
+  const addEntry = (section: TemplateSection) => {
+    const entries = getEntries(data, section);
+    update({ ...data, [section.id]: [...entries, emptyEntry(section)] }, section.id);
+  };
+
+  // Adds to the entry for the class if there is one, otherwise fills a blank entry or adds one
+  const addIdentification = (section: TemplateSection, niceClass: number, description: string) => {
+    const entries = [...getEntries(data, section)];
+    let index = entries.findIndex((entry) => Number(entry.internationalClass) === niceClass);
+    if (index === -1) index = entries.findIndex((entry) => section.fields.every((field) => isEmpty(entry?.[field.id])));
+
+    if (index === -1) {
+      entries.push({ ...emptyEntry(section), internationalClass: niceClass, goodsServicesDescription: description });
+    } else {
+      const existing = String(entries[index].goodsServicesDescription || '').trim();
+      entries[index] = {
+        ...entries[index],
+        internationalClass: niceClass,
+        goodsServicesDescription: existing ? `${existing.replace(/[;.]$/, '')}; ${description}` : description,
+      };
+    }
+    update({ ...data, [section.id]: entries }, section.id);
+  };
+
+  const removeEntry = (section: TemplateSection, index: number) => {
+    const entries = getEntries(data, section).filter((_, i) => i !== index);
+    update({ ...data, [section.id]: entries }, section.id);
+  };
+
+  const overall = template.sections.reduce(
+    (totals, section) => {
+      const { filled, total } = getSectionCompletion(section, data);
+      return { filled: totals.filled + filled, total: totals.total + total };
+    },
+    { filled: 0, total: 0 }
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {percent(overall.filled, overall.total)}% complete · {template.name} v{template.version}
+        </p>
+        <SaveIndicator state={dirty && saveState !== 'saving' ? 'idle' : saveState} error={error} readOnly={readOnly} />
+      </div>
+
+      {template.sections.map((section) => {
+        const { filled, total } = getSectionCompletion(section, data);
+        const entries = getEntries(data, section);
+        const missingEntries = (section.minEntries || 0) - entries.length;
+
+        return (
+          <section key={section.id} className="bg-white rounded-xl border p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="font-semibold">{section.title}</h2>
+                {section.description && <p className="text-sm text-muted-foreground">{section.description}</p>}
+              </div>
+              <CompletionBadge filled={filled} total={total} />
+            </div>
+
+            {template.type === 'PATENT_CLAIMS' && section.id === 'claims' ? (
+              <ClaimsWorkspace
+                formId={formId}
+                claims={getClaims(data)}
+                onChange={(claims) => update({ ...data, claims }, 'claims')}
+                readOnly={readOnly}
+              />
+            ) : !section.repeatable ? (
+              <div className="grid md:grid-cols-2 gap-4">
+                {section.fields.map((field) => (
+                  <FieldInput
+                    key={field.id}
+                    field={field}
+                    value={data[field.id]}
+                    onChange={(value) => setField(field.id, value)}
+                    showError={touched.has(field.id)}
+                    flagged={flaggedPaths.includes(field.id)}
+                    readOnly={readOnly}
+                  />
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {section.id === 'goodsServices' && !readOnly && (
+                  <GoodsServicesClassifier
+                    formId={formId}
+                    onAdd={(niceClass, description) => addIdentification(section, niceClass, description)}
+                  />
+                )}
+
+                {entries.map((entry, index) => (
+                  <div key={index} className="p-4 rounded-lg border bg-slate-50/50">
+                    <div className="flex items-center justify-between mb-3">
+                      <p className="text-sm font-medium">
+                        {section.entryLabel || 'Entry'} {index + 1}
+                      </p>
+                      {!readOnly && (
+                        <button
+                          type="button"
+                          onClick={() => removeEntry(section, index)}
+                          className="p-1.5 text-muted-foreground hover:text-red-600 hover:bg-red-50 rounded-lg transition"
+                          title="Remove"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                    <div className="grid md:grid-cols-2 gap-4">
+                      {section.fields.map((field) => {
+                        const path = `${section.id}.${index}.${field.id}`;
+                        return (
+                          <FieldInput
+                            key={field.id}
+                            field={field}
+                            value={entry?.[field.id]}
+                            onChange={(value) => setEntryField(section, index, field.id, value)}
+                            showError={touched.has(path)}
+                            flagged={flaggedPaths.includes(path)}
+                            readOnly={readOnly}
+                          />
+                        );
+                      })}
+                    </div>
+                    {section.id === 'goodsServices' && <IdentificationWarnings description={entry?.goodsServicesDescription} />}
+                  </div>
+                ))}
+
+                {missingEntries > 0 && (
+                  <p className="text-xs text-red-500">
+                    At least {section.minEntries} {section.minEntries === 1 ? 'entry is' : 'entries are'} required
+                  </p>
+                )}
+
+                {!readOnly && (
+                  <button
+                    type="button"
+                    onClick={() => addEntry(section)}
+                    className="flex items-center gap-1 text-sm text-primary hover:underline"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add {(section.entryLabel || 'Entry').toLowerCase()}
+                  </button>
+                )}
+              </div>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
+
+interface FieldInputProps {
+  field: TemplateField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  showError: boolean;
+  flagged: boolean;
+  readOnly: boolean;
+}
+
+function FieldInput({ field, value, onChange, showError, flagged, readOnly }: FieldInputProps) {
+  const missing = field.required && isEmpty(value);
+  const wide = field.type === 'textarea';
+
+  return (
+    <div className={wide ? 'md:col-span-2' : undefined}>
+      {field.type === 'checkbox' ? (
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+            disabled={readOnly}
+            className="rounded"
+          />
+          {field.label}
+          {field.required && <span className="text-red-500">*</span>}
+        </label>
+      ) : (
+        <>
+          <label className="flex items-center gap-1 text-sm font-medium mb-1.5">
+            {field.label}
+            {field.required && <span className="text-red-500">*</span>}
+            {flagged && (
+              <span title="Low-confidence suggestion, not yet reviewed">
+                <AlertTriangle className="w-3.5 h-3.5 text-yellow-600" />
+              </span>
+            )}
+          </label>
+          {renderControl(field, value, onChange, readOnly, flagged)}
+        </>
+      )}
+      {showError && missing ? (
+        <p className="text-xs text-red-500 mt-1">{field.label} is required</p>
+      ) : (
+        field.helpText && <p className="text-xs text-muted-foreground mt-1">{field.helpText}</p>
+      )}
+    </div>
+  );
+}
+
+function renderControl(
+  field: TemplateField,
+  value: unknown,
+  onChange: (value: unknown) => void,
+  readOnly: boolean,
+  flagged: boolean
+) {
+  const className = `${inputClass} ${flagged ? 'border-yellow-400 bg-yellow-50' : ''}`;
+  const text = value === null || value === undefined ? '' : String(value);
+
+  switch (field.type) {
+    case 'textarea':
+      return (
+        <textarea
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          rows={field.rows || 3}
+          placeholder={field.placeholder}
+          disabled={readOnly}
+          className={`${className} resize-y`}
+        />
+      );
+    case 'select':
+      return (
+        <select value={text} onChange={(e) => onChange(e.target.value)} disabled={readOnly} className={className}>
+          <option value="">Select...</option>
+          {field.options?.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+          {/* Keep values that are not one of the options, e.g. from older templates */}
+          {text && !field.options?.includes(text) && <option value={text}>{text}</option>}
+        </select>
+      );
+    case 'number':
+      return (
+        <input
+          type="number"
+          value={text}
+          onChange={(e) => onChange(e.target.value === '' ? '' : Number(e.target.value))}
+          min={field.validation?.min}
+          max={field.validation?.max}
+          placeholder={field.placeholder}
+          disabled={readOnly}
+          className={className}
+        />
+      );
+    default:
+      return (
+        <input
+          type={field.type}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          disabled={readOnly}
+          className={className}
+        />
+      );
+  }
+}
+
+function SaveIndicator({ state, error, readOnly }: { state: SaveState; error: string; readOnly: boolean }) {
+  if (readOnly) {
+    return <span className="text-xs text-muted-foreground">Read only</span>;
+  }
+
+  switch (state) {
+    case 'saving':
+      return (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Saving...
+        </span>
+      );
+    case 'saved':
+      return (
+        <span className="flex items-center gap-1 text-xs text-green-600">
+          <Check className="w-3 h-3" />
+          Saved
+        </span>
+      );
+    case 'error':
+      return <span className="text-xs text-red-500">{error}</span>;
+    default:
+      return <span className="text-xs text-muted-foreground">Changes save automatically</span>;
+  }
+}
+
+function CompletionBadge({ filled, total }: { filled: number; total: number }) {
+  const value = percent(filled, total);
+  return (
+    <div className="flex items-center gap-2">
+      <div className="w-24 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${value === 100 ? 'bg-green-500' : 'bg-primary'}`}
+          style={{ width: `${value}%` }}
+        />
+      </div>
+      <span className="text-xs text-muted-foreground w-9 text-right">{value}%</span>
+    </div>
+  );
+}
+
+function getEntries(data: FormValues, section: TemplateSection): FormValues[] {
+  return Array.isArray(data[section.id]) ? data[section.id] : [];
+}
+
+function emptyEntry(section: TemplateSection): FormValues {
+  return Object.fromEntries(section.fields.map((field) => [field.id, field.type === 'checkbox' ? false : '']));
+}
+
+/**
+ * Filled vs. expected values in a section. Only required fields count when a section
+ * has any; a repeatable section expects at least minEntries entries.
+ */
+function getSectionCompletion(section: TemplateSection, data: FormValues) {
+  const required = section.fields.filter((field) => field.required);
+  const counted = required.length > 0 ? required : section.fields;
+  const count = (values: FormValues | undefined) => counted.filter((field) => !isEmpty(values?.[field.id])).length;
+
+  if (!section.repeatable) {
+    return { filled: count(data), total: counted.length };
+  }
+
+  const entries = getEntries(data, section);
+  const expected = Math.max(entries.length, section.minEntries || 0);
+  return {
+    filled: entries.reduce((sum, entry) => sum + count(entry), 0),
+    total: expected * counted.length,
+  };
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || value === false || (Array.isArray(value) && value.length === 0);
+}
+
+function percent(filled: number, total: number): number {
+  return total === 0 ? 100 : Math.round((filled / total) * 100);
+}
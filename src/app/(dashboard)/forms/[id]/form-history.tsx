@@ -0,0 +1,213 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { GitCompare, History, Loader2, RotateCcw } from 'lucide-react';
+import type { FieldDiff } from '@/lib/form-revisions';
+
+interface RevisionSummary {
+  id: string;
+  version: number;
+  name: string;
+  status: string;
+  source: string;
+  note: string | null;
+  createdAt: Date | string;
+}
+
+interface FormHistoryProps {
+  formId: string;
+  currentVersion: number;
+  revisions: RevisionSummary[];
+  readOnly: boolean;
+}
+
+const sourceLabels: Record<string, string> = {
+  created: 'Created',
+  edit: 'Edited',
+  status_change: 'Status changed',
+  populate: 'Populated',
+  changes_accepted: 'Changes accepted',
+  restore: 'Restored',
+};
+
+const kindStyles: Record<FieldDiff['kind'], string> = {
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-red-100 text-red-700',
+  changed: 'bg-yellow-100 text-yellow-700',
+};
+
+export function FormHistory({ formId, currentVersion, revisions, readOnly }: FormHistoryProps) {
+  const router = useRouter();
+  const [from, setFrom] = useState(revisions[1]?.version ?? 0);
+  const [to, setTo] = useState(revisions[0]?.version ?? 0);
+  const [diff, setDiff] = useState<{ from: number; to: number; changes: FieldDiff[] } | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  const handleCompare = async () => {
+    setComparing(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/forms/${formId}/revisions/diff?from=${from}&to=${to}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to compare revisions');
+      }
+
+      setDiff({ from, to, changes: data.changes });
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    if (!confirm(`Restore the form to version ${version}? The current values are kept in the history.`)) {
+      return;
+    }
+
+    setRestoring(version);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/forms/${formId}/revisions/${version}/restore`, { method: 'POST' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to restore revision');
+      }
+
+      setDiff(null);
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        No history yet. Revisions are recorded from the next change.
+      </p>
+    );
+  }
+
+  const versionOptions = revisions.map((revision) => (
+    <option key={revision.id} value={revision.version}>
+      Version {revision.version}
+    </option>
+  ));
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y border rounded-lg">
+        {revisions.map((revision) => (
+          <li key={revision.id} className="flex items-center justify-between gap-4 p-3">
+            <div className="flex items-start gap-3 min-w-0">
+              <History className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium">
+                  Version {revision.version} · {sourceLabels[revision.source] || revision.source}
+                  {revision.version === currentVersion && (
+                    <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded bg-blue-100 text-blue-700">Current</span>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                  {` · ${revision.status.replace(/_/g, ' ')}`}
+                  {revision.note && ` · ${revision.note}`}
+                </p>
+              </div>
+            </div>
+            {!readOnly && revision.version !== currentVersion && (
+              <button
+                onClick={() => handleRestore(revision.version)}
+                disabled={restoring !== null}
+                className="flex items-center gap-1 px-2 py-1 text-xs border rounded-lg hover:bg-slate-50 transition disabled:opacity-50 flex-shrink-0"
+              >
+                {restoring === revision.version ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : (
+                  <RotateCcw className="w-3 h-3" />
+                )}
+                Restore
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {revisions.length > 1 && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Compare</span>
+          <select
+            value={from}
+            onChange={(e) => setFrom(Number(e.target.value))}
+            className="px-2 py-1 border rounded-lg bg-white"
+          >
+            {versionOptions}
+          </select>
+          <span className="text-muted-foreground">with</span>
+          <select
+            value={to}
+            onChange={(e) => setTo(Number(e.target.value))}
+            className="px-2 py-1 border rounded-lg bg-white"
+          >
+            {versionOptions}
+          </select>
+          <button
+            onClick={handleCompare}
+            disabled={comparing || from === to}
+            className="flex items-center gap-1 px-3 py-1.5 border rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+          >
+            {comparing ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+            Compare
+          </button>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {diff && (
+        diff.changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No field values differ between these versions.</p>
+        ) : (
+          <div className="space-y-2">
+            {diff.changes.map((change) => (
+              <div key={change.path} className="p-3 rounded-lg border">
+                <div className="flex items-start justify-between gap-4">
+                  <p className="text-xs font-mono text-muted-foreground">{change.path}</p>
+                  <span className={`text-xs font-medium px-2 py-0.5 rounded flex-shrink-0 ${kindStyles[change.kind]}`}>
+                    {change.kind}
+                  </span>
+                </div>
+                <div className="grid grid-cols-2 gap-3 mt-2 text-sm">
+                  <div className="p-2 rounded bg-red-50">
+                    <p className="text-xs text-muted-foreground mb-1">Version {diff.from}</p>
+                    <p className="break-words">{formatValue(change.before)}</p>
+                  </div>
+                  <div className="p-2 rounded bg-green-50">
+                    <p className="text-xs text-muted-foreground mb-1">Version {diff.to}</p>
+                    <p className="break-words">{formatValue(change.after)}</p>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
@@ -0,0 +1,401 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { AlertTriangle, Check, CheckCheck, FileDown, Loader2, Send, ShieldCheck, Sparkles, X } from 'lucide-react';
+import type { FieldProvenance } from '@/lib/form-provenance';
+import type { FieldChange } from '@/lib/form-changes';
+import type { ValidationResult } from '@/lib/form-validation';
+
+// Mirrors LOW_CONFIDENCE_THRESHOLD in lib/form-provenance, which can't be imported client-side
+const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+interface PopulatedField {
+  path: string;
+  value: unknown;
+  provenance: FieldProvenance;
+  recordingName: string;
+}
+
+interface FieldProvenanceListProps {
+  formId: string;
+  fields: PopulatedField[];
+}
+
+export function FieldProvenanceList({ formId, fields }: FieldProvenanceListProps) {
+  const router = useRouter();
+  const [reviewing, setReviewing] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const handleReview = async (path: string) => {
+    setReviewing(path);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/forms/${formId}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paths: [path] }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to mark field as reviewed');
+      }
+
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {fields.map(({ path, value, provenance, recordingName }) => {
+        const lowConfidence = provenance.confidence < LOW_CONFIDENCE_THRESHOLD;
+        const flagged = lowConfidence && !provenance.reviewedAt;
+
+        return (
+          <div
+            key={path}
+            className={`p-3 rounded-lg border ${flagged ? 'border-yellow-300 bg-yellow-50' : ''}`}
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-xs font-mono text-muted-foreground">{path}</p>
+                <p className="text-sm font-medium break-words">
+                  {typeof value === 'string' ? value : JSON.stringify(value)}
+                </p>
+              </div>
+              <span
+                className={`flex items-center gap-1 text-xs font-medium px-2 py-1 rounded flex-shrink-0 ${
+                  lowConfidence ? 'bg-yellow-100 text-yellow-700' : 'bg-green-100 text-green-700'
+                }`}
+              >
+                {lowConfidence ? <AlertTriangle className="w-3 h-3" /> : <Sparkles className="w-3 h-3" />}
+                {Math.round(provenance.confidence * 100)}%
+              </span>
+            </div>
+
+            {provenance.quote && (
+              <p className="text-xs text-muted-foreground italic mt-2">&ldquo;{provenance.quote}&rdquo;</p>
+            )}
+
+            <div className="flex items-center justify-between gap-4 mt-2">
+              <p className="text-xs text-muted-foreground">
+                <Link href={`/recordings/${provenance.recordingId}`} className="text-primary hover:underline">
+                  {recordingName}
+                </Link>
+                {provenance.start !== null && ` at ${formatTimestamp(provenance.start)}`}
+                {provenance.end !== null && provenance.end !== provenance.start && `–${formatTimestamp(provenance.end)}`}
+                {` · ${provenance.model}`}
+                {provenance.editedAt && ' · edited'}
+                {provenance.reviewedAt && !provenance.editedAt && ' · reviewed'}
+              </p>
+              {flagged && (
+                <button
+                  onClick={() => handleReview(path)}
+                  disabled={reviewing === path}
+                  className="flex items-center gap-1 px-2 py-1 text-xs border rounded-lg bg-white hover:bg-slate-50 transition disabled:opacity-50"
+                >
+                  {reviewing === path ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+                  Mark Reviewed
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function SubmitForReviewButton({ formId }: { formId: string }) {
+  const router = useRouter();
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/forms/${formId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'IN_REVIEW' }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(
+          data.fields ? `${data.error}: ${data.fields.join(', ')}` : data.error || 'Failed to submit for review'
+        );
+      }
+
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1 max-w-sm">
+      <button
+        onClick={handleSubmit}
+        disabled={submitting}
+        className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+      >
+        {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        Submit for Review
+      </button>
+      {error && <p className="text-xs text-red-500 text-right">{error}</p>}
+    </div>
+  );
+}
+
+export function SaveToCaseButton({ formId }: { formId: string }) {
+  const router = useRouter();
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaved('');
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/forms/${formId}/pdf`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate PDF');
+      }
+
+      setSaved(`Saved ${data.name} to the case`);
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1 max-w-sm">
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="flex items-center gap-2 px-4 py-2 border rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+      >
+        {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+        Save PDF to Case
+      </button>
+      {saved && <p className="text-xs text-green-600 text-right">{saved}</p>}
+      {error && <p className="text-xs text-red-500 text-right">{error}</p>}
+    </div>
+  );
+}
+
+function formatTimestamp(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${String(secs).padStart(2, '0')}`;
+}
+
+interface ProposedChangesListProps {
+  formId: string;
+  changes: (FieldChange & { recordingName: string })[];
+}
+
+export function ProposedChangesList({ formId, changes }: ProposedChangesListProps) {
+  const router = useRouter();
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // Without paths the decision applies to every proposed change
+  const resolve = async (decision: 'accept' | 'reject', path?: string) => {
+    setPending(path || decision);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/forms/${formId}/changes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, paths: path ? [path] : undefined }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Failed to ${decision} changes`);
+      }
+
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-end gap-2">
+        <button
+          onClick={() => resolve('reject')}
+          disabled={pending !== null}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm border rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+        >
+          {pending === 'reject' ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+          Reject All
+        </button>
+        <button
+          onClick={() => resolve('accept')}
+          disabled={pending !== null}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+        >
+          {pending === 'accept' ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCheck className="w-4 h-4" />}
+          Accept All
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {changes.map((change) => (
+        <div key={change.path} className="p-3 rounded-lg border">
+          <div className="flex items-start justify-between gap-4">
+            <p className="text-xs font-mono text-muted-foreground">{change.path}</p>
+            <span
+              className={`text-xs font-medium px-2 py-1 rounded flex-shrink-0 ${
+                change.provenance.confidence < LOW_CONFIDENCE_THRESHOLD
+                  ? 'bg-yellow-100 text-yellow-700'
+                  : 'bg-green-100 text-green-700'
+              }`}
+            >
+              {Math.round(change.provenance.confidence * 100)}%
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-3 mt-2 text-sm">
+            <div className="p-2 rounded bg-red-50">
+              <p className="text-xs text-muted-foreground mb-1">Current</p>
+              <p className="break-words">{formatValue(change.current)}</p>
+            </div>
+            <div className="p-2 rounded bg-green-50">
+              <p className="text-xs text-muted-foreground mb-1">Proposed</p>
+              <p className="break-words">{formatValue(change.proposed)}</p>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-4 mt-2">
+            <p className="text-xs text-muted-foreground">
+              From{' '}
+              <Link href={`/recordings/${change.provenance.recordingId}`} className="text-primary hover:underline">
+                {change.recordingName}
+              </Link>
+              {change.provenance.start !== null && ` at ${formatTimestamp(change.provenance.start)}`}
+              {change.provenance.quote && ` · “${change.provenance.quote}”`}
+            </p>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <button
+                onClick={() => resolve('reject', change.path)}
+                disabled={pending !== null}
+                className="p-1.5 border rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+                title="Reject"
+              >
+                <X className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => resolve('accept', change.path)}
+                disabled={pending !== null}
+                className="p-1.5 border rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+                title="Accept"
+              >
+                {pending === change.path ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export function ValidationPanel({ formId }: { formId: string }) {
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<ValidationResult | null>(null);
+  const [error, setError] = useState('');
+
+  const handleValidate = async () => {
+    setChecking(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/forms/${formId}/validate`, { method: 'POST' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to validate form');
+      }
+
+      setResult(await response.json());
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const issues = result ? [...result.errors, ...result.warnings] : [];
+
+  return (
+    <div className="bg-white rounded-xl border p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="font-semibold">Filing Rules</h2>
+          <p className="text-sm text-muted-foreground">
+            {result
+              ? result.valid
+                ? `Ready to submit${result.warnings.length > 0 ? ` with ${result.warnings.length} warning(s)` : ''}`
+                : `${result.errors.length} error(s) must be fixed before submitting`
+              : 'Check the form against USPTO and Copyright Office requirements'}
+          </p>
+        </div>
+        <button
+          onClick={handleValidate}
+          disabled={checking}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm border rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+        >
+          {checking ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+          Check
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+
+      {issues.length > 0 && (
+        <ul className="mt-4 space-y-2">
+          {issues.map((issue) => (
+            <li key={`${issue.path}:${issue.rule}`} className="flex items-start gap-2 text-sm">
+              <AlertTriangle
+                className={`w-4 h-4 mt-0.5 flex-shrink-0 ${issue.severity === 'error' ? 'text-red-500' : 'text-yellow-600'}`}
+              />
+              <div>
+                <p>{issue.message}</p>
+                <p className="text-xs font-mono text-muted-foreground">{issue.path}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, Loader2, Mic, Plus, Search } from 'lucide-react';
+import { ClassSuggestion, findIndefiniteWording } from '@/lib/goods-services';
+
+interface GoodsServicesClassifierProps {
+  formId: string;
+  onAdd: (niceClass: number, description: string) => void;
+}
+
+/**
+ * Nice class suggestions for a trademark application, from a description typed
+ * here or from the analyzed recordings on the form's case. Identifications with
+ * a {placeholder} still need the specifics filled in after adding.
+ */
+export function GoodsServicesClassifier({ formId, onAdd }: GoodsServicesClassifierProps) {
+  const [description, setDescription] = useState('');
+  const [suggestions, setSuggestions] = useState<ClassSuggestion[] | null>(null);
+  const [recordings, setRecordings] = useState<string[]>([]);
+  const [added, setAdded] = useState<Set<string>>(new Set());
+  const [pending, setPending] = useState<'description' | 'recordings' | null>(null);
+  const [error, setError] = useState('');
+
+  const handleSuggest = async (source: 'description' | 'recordings') => {
+    setPending(source);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/forms/${formId}/goods-services/suggestions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(source === 'description' ? { description } : {}),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to suggest classes');
+      }
+      setSuggestions(data.suggestions);
+      setRecordings(data.recordings);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleAdd = (niceClass: number, identification: string) => {
+    onAdd(niceClass, identification);
+    setAdded((prev) => new Set(prev).add(`${niceClass}:${identification}`));
+  };
+
+  return (
+    <div className="p-4 rounded-lg border bg-blue-50/40">
+      <h3 className="text-sm font-medium mb-2">Class Suggestions</h3>
+      <div className="flex gap-2">
+        <input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Describe the goods or services, e.g. organic coffee and a cafe"
+          className="flex-1 px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <button
+          type="button"
+          onClick={() => handleSuggest('description')}
+          disabled={pending !== null || !description.trim()}
+          className="flex items-center gap-1 text-sm text-primary hover:underline disabled:opacity-50"
+        >
+          {pending === 'description' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+          Suggest
+        </button>
+        <button
+          type="button"
+          onClick={() => handleSuggest('recordings')}
+          disabled={pending !== null}
+          className="flex items-center gap-1 text-sm text-primary hover:underline disabled:opacity-50"
+          title="Suggest from the analyzed recordings on this form's case"
+        >
+          {pending === 'recordings' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mic className="w-4 h-4" />}
+          From recordings
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+
+      {suggestions && (
+        <div className="mt-3 space-y-3">
+          {recordings.length > 0 && (
+            <p className="text-xs text-muted-foreground">From {recordings.join(', ')}</p>
+          )}
+          {suggestions.length === 0 && (
+            <p className="text-sm text-muted-foreground">No matching classes; try naming the goods or services more specifically</p>
+          )}
+          {suggestions.map((suggestion) => (
+            <div key={suggestion.niceClass}>
+              <p className="text-sm font-medium">
+                Class {suggestion.niceClass}
+                <span className="ml-2 text-xs font-normal text-muted-foreground">{suggestion.heading}</span>
+              </p>
+              {suggestion.identifications.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Matches the class heading only; describe the goods or services in your own words</p>
+              ) : (
+                <ul className="mt-1 space-y-1">
+                  {suggestion.identifications.map((identification) => {
+                    const key = `${suggestion.niceClass}:${identification.description}`;
+                    return (
+                      <li key={key} className="flex items-center justify-between gap-3 text-sm">
+                        <span className={identification.needsCompletion ? 'text-muted-foreground' : ''}>
+                          {identification.description}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => handleAdd(suggestion.niceClass, identification.description)}
+                          disabled={added.has(key)}
+                          className="flex items-center gap-1 text-xs text-primary hover:underline flex-shrink-0 disabled:opacity-50"
+                        >
+                          <Plus className="w-3 h-3" />
+                          {added.has(key) ? 'Added' : 'Add'}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Indefinite wording in an entry's identification, as the examining attorney would see it
+ */
+export function IdentificationWarnings({ description }: { description: unknown }) {
+  const terms = typeof description === 'string' ? findIndefiniteWording(description) : [];
+  if (terms.length === 0) return null;
+
+  return (
+    <ul className="mt-3 space-y-1">
+      {terms.map((term) => (
+        <li key={`${term.rule}:${term.term}`} className="flex items-start gap-1 text-xs text-yellow-700">
+          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          {term.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,185 @@
+import { requireOrg, getCurrentOrganization, getOrganizationMembers } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Download, Link2 } from 'lucide-react';
+import { FormStatus } from '@prisma/client';
+import { getFieldsNeedingReview, getPath, parseProvenance } from '@/lib/form-provenance';
+import { getFormTemplate } from '@/lib/form-templates';
+import { diffProposedChanges, parseProposedChanges } from '@/lib/form-changes';
+import { REVISION_SUMMARY } from '@/lib/form-revisions';
+import { canTransition, checkReviewerChange, hashFormData, isLocked } from '@/lib/form-workflow';
+import { FieldProvenanceList, ProposedChangesList, SaveToCaseButton, SubmitForReviewButton, ValidationPanel } from './form-review';
+import { FormEditor } from './form-editor';
+import { FormHistory } from './form-history';
+import { ApprovalPanel } from './form-approval';
+
+interface FormDetailPageProps {
+  params: { id: string };
+}
+
+const statusColors: Record<FormStatus, string> = {
+  DRAFT: 'bg-gray-100 text-gray-700',
+  IN_REVIEW: 'bg-yellow-100 text-yellow-700',
+  APPROVED: 'bg-green-100 text-green-700',
+  SUBMITTED: 'bg-blue-100 text-blue-700',
+  FILED: 'bg-purple-100 text-purple-700',
+  REJECTED: 'bg-red-100 text-red-700',
+};
+
+export default async function FormDetailPage({ params }: FormDetailPageProps) {
+  const authUser = await requireOrg();
+  const organization = await getCurrentOrganization();
+
+  if (!organization) {
+    return null;
+  }
+
+  const form = await db.form.findFirst({
+    where: { id: params.id, organizationId: organization.id },
+    include: {
+      case: { select: { id: true, caseNumber: true, title: true } },
+      recordings: { select: { id: true, name: true } },
+      revisions: { select: REVISION_SUMMARY, orderBy: { version: 'desc' } },
+      approvals: { orderBy: { createdAt: 'desc' }, take: 1 },
+    },
+  });
+
+  if (!form) {
+    notFound();
+  }
+
+  const template = getFormTemplate(form.type, form.templateVersion);
+  const readOnly = isLocked(form.status);
+  const members = await getOrganizationMembers(authUser.orgId);
+  const actor = { userId: authUser.userId, role: authUser.role };
+
+  const recordingName = (id: string) => form.recordings.find((r) => r.id === id)?.name || 'Recording';
+
+  const changes = diffProposedChanges(form.data, parseProposedChanges(form.proposedChanges)).map((change) => ({
+    ...change,
+    recordingName: recordingName(change.provenance.recordingId),
+  }));
+
+  const provenance = parseProvenance(form.fieldProvenance);
+  const fields = Object.entries(provenance)
+    .map(([path, source]) => ({
+      path,
+      value: getPath(form.data, path),
+      provenance: source,
+      recordingName: recordingName(source.recordingId),
+    }))
+    .sort((a, b) => a.provenance.confidence - b.provenance.confidence);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div className="flex items-start gap-4">
+          <Link
+            href={form.case ? `/cases/${form.case.id}` : '/dashboard'}
+            className="p-2 hover:bg-slate-100 rounded-lg transition"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+          <div>
+            <div className="flex items-center gap-3 mb-1">
+              <h1 className="text-2xl font-bold">{form.name}</h1>
+              <span className={`text-xs font-medium px-2 py-1 rounded ${statusColors[form.status]}`}>
+                {form.status.replace(/_/g, ' ')}
+              </span>
+            </div>
+            <p className="text-muted-foreground">
+              {template.name}
+              {form.case && (
+                <>
+                  {' · '}
+                  <Link href={`/cases/${form.case.id}`} className="inline-flex items-center gap-1 text-primary hover:underline">
+                    <Link2 className="w-3 h-3" />
+                    {form.case.caseNumber}
+                  </Link>
+                </>
+              )}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-start gap-2">
+          <a
+            href={`/api/v1/forms/${form.id}/pdf`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-2 px-4 py-2 border rounded-lg hover:bg-slate-50 transition"
+          >
+            <Download className="w-4 h-4" />
+            Preview PDF
+          </a>
+          {form.case && <SaveToCaseButton formId={form.id} />}
+          {(form.status === 'DRAFT' || form.status === 'REJECTED') && <SubmitForReviewButton formId={form.id} />}
+        </div>
+      </div>
+
+      {/* Proposed changes */}
+      {changes.length > 0 && (
+        <div className="bg-white rounded-xl border p-6">
+          <h2 className="font-semibold mb-1">Proposed Changes ({changes.length})</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Values suggested from recordings. Only accepted values are written to the form.
+          </p>
+          <ProposedChangesList formId={form.id} changes={changes} />
+        </div>
+      )}
+
+      <ApprovalPanel
+        formId={form.id}
+        status={form.status}
+        reviewerId={form.reviewerId}
+        members={members}
+        decisions={form.approvals}
+        dataHash={hashFormData(form.data)}
+        ineligibleReviewerIds={[authUser.userId, form.createdBy]}
+        canAssign={checkReviewerChange(form, null, actor) === null}
+        canDecide={canTransition(form, 'APPROVED', actor)}
+      />
+
+      <ValidationPanel formId={form.id} />
+
+      {/* Form fields */}
+      <FormEditor
+        formId={form.id}
+        template={template}
+        data={form.data as Record<string, any>}
+        readOnly={readOnly}
+        flaggedPaths={getFieldsNeedingReview(provenance)}
+      />
+
+      {/* AI-populated fields */}
+      <div className="bg-white rounded-xl border p-6">
+        <h2 className="font-semibold mb-1">AI-Populated Fields</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          Where each value came from. Low-confidence values must be reviewed before the form can go to review.
+        </p>
+        {fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No fields have been populated from a recording
+          </p>
+        ) : (
+          <FieldProvenanceList formId={form.id} fields={fields} />
+        )}
+      </div>
+
+      {/* Version history */}
+      <div className="bg-white rounded-xl border p-6">
+        <h2 className="font-semibold mb-1">Version History</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          Every save, population and status change. Restoring a version records it as a new one.
+        </p>
+        <FormHistory
+          formId={form.id}
+          currentVersion={form.version}
+          revisions={form.revisions}
+          readOnly={readOnly}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Save, Loader2, Mic } from 'lucide-react';
+import type { FormType } from '@prisma/client';
+
+interface NewFormFormProps {
+  templates: { type: FormType; name: string; description: string }[];
+  cases: { id: string; caseNumber: string; title: string }[];
+  recording: { id: string; name: string } | null;
+  defaultCaseId: string;
+  defaultType: FormType;
+}
+
+export function NewFormForm({ templates, cases, recording, defaultCaseId, defaultType }: NewFormFormProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const [formData, setFormData] = useState({
+    title: '',
+    type: defaultType,
+    caseId: defaultCaseId,
+  });
+
+  const selectedTemplate = templates.find((template) => template.type === formData.type);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/v1/forms', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: formData.title,
+          type: formData.type,
+          caseId: formData.caseId || undefined,
+          recordingId: recording?.id,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to create form');
+      }
+
+      const form = await response.json();
+
+      // Values from the recording arrive as proposed changes on the form page
+      if (recording) {
+        await fetch(`/api/v1/forms/${form.id}/populate`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ recordingId: recording.id }),
+        });
+      }
+
+      router.push(`/forms/${form.id}`);
+    } catch (err: any) {
+      setError(err.message);
+      setLoading(false);
+    }
+  };
+
+  const backHref = recording
+    ? `/recordings/${recording.id}`
+    : defaultCaseId
+    ? `/cases/${defaultCaseId}`
+    : '/dashboard';
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link href={backHref} className="p-2 hover:bg-slate-100 rounded-lg transition">
+          <ArrowLeft className="w-5 h-5" />
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold">New Form</h1>
+          <p className="text-muted-foreground">Start a filing or agreement from a template</p>
+        </div>
+      </div>
+
+      {/* Form */}
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl border p-6 space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {recording && (
+          <div className="flex items-center gap-2 p-3 bg-slate-50 rounded-lg text-sm">
+            <Mic className="w-4 h-4 text-primary" />
+            Fields will be suggested from <span className="font-medium">{recording.name}</span>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-1.5">
+              Form Title <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              required
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              placeholder="e.g., Provisional Application for Widget X"
+              className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1.5">
+              Template <span className="text-red-500">*</span>
+            </label>
+            <select
+              required
+              value={formData.type}
+              onChange={(e) => setFormData({ ...formData, type: e.target.value as FormType })}
+              className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+            >
+              {templates.map((template) => (
+                <option key={template.type} value={template.type}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+            {selectedTemplate && (
+              <p className="text-xs text-muted-foreground mt-1">{selectedTemplate.description}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1.5">Case</label>
+            <select
+              value={formData.caseId}
+              onChange={(e) => setFormData({ ...formData, caseId: e.target.value })}
+              className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+            >
+              <option value="">No case</option>
+              {cases.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.caseNumber} — {c.title}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 pt-4 border-t">
+          <Link href={backHref} className="px-4 py-2 border rounded-lg hover:bg-slate-50 transition">
+            Cancel
+          </Link>
+          <button
+            type="submit"
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Creating...
+              </>
+            ) : (
+              <>
+                <Save className="w-4 h-4" />
+                Create Form
+              </>
+            )}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
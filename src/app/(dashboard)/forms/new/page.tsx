@@ -0,0 +1,45 @@
+import { requireOrg, getCurrentOrganization } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { listFormTemplates } from '@/lib/form-templates';
+import { parseAnalysisResult } from '@/lib/analysis-schema';
+import { NewFormForm } from './new-form';
+
+interface NewFormPageProps {
+  searchParams: { caseId?: string; recordingId?: string };
+}
+
+export default async function NewFormPage({ searchParams }: NewFormPageProps) {
+  await requireOrg();
+  const organization = await getCurrentOrganization();
+
+  if (!organization) {
+    return null;
+  }
+
+  const [cases, recording] = await Promise.all([
+    db.case.findMany({
+      where: { organizationId: organization.id, status: { notIn: ['CLOSED', 'ARCHIVED'] } },
+      orderBy: { updatedAt: 'desc' },
+      select: { id: true, caseNumber: true, title: true },
+    }),
+    searchParams.recordingId
+      ? db.recording.findFirst({
+          where: { id: searchParams.recordingId, organizationId: organization.id },
+          select: { id: true, name: true, caseId: true, analysisResult: true },
+        })
+      : null,
+  ]);
+
+  const templates = listFormTemplates().map(({ type, name, description }) => ({ type, name, description }));
+  const analysis = recording ? parseAnalysisResult(recording.analysisResult) : null;
+
+  return (
+    <NewFormForm
+      templates={templates}
+      cases={cases}
+      recording={recording ? { id: recording.id, name: recording.name } : null}
+      defaultCaseId={searchParams.caseId || recording?.caseId || ''}
+      defaultType={analysis?.suggestedFormType || templates[0].type}
+    />
+  );
+}
@@ -1,4 +1,4 @@
-import { requireOrg, getCurrentOrganization } from '@/lib/auth';
+import { requireOrg, getCurrentOrganization, getOrganizationMembers } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
@@ -14,7 +14,14 @@ import {
   Trash2,
 } from 'lucide-react';
 import { RecordingStatus } from '@prisma/client';
+import { findActiveJob } from '@/lib/jobs';
+import { TranscriptData } from '@/lib/transcription';
+import { getSpeakingTime } from '@/lib/diarization';
+import { getLatestRevision } from '@/lib/transcript-revisions';
+import { parseAnalysisResult } from '@/lib/analysis-schema';
 import { RecordingActions } from './recording-actions';
+import { SpeakerMapping } from './speaker-mapping';
+import { TranscriptEditor } from './transcript-editor';
 
 interface RecordingDetailPageProps {
   params: { id: string };
@@ -23,7 +30,8 @@ interface RecordingDetailPageProps {
 const statusColors: Record<RecordingStatus, string> = {
   PENDING: 'bg-gray-100 text-gray-700',
   PROCESSING: 'bg-yellow-100 text-yellow-700',
-  COMPLETED: 'bg-green-100 text-green-700',
+  TRANSCRIBED: 'bg-blue-100 text-blue-700',
+  ANALYZED: 'bg-green-100 text-green-700',
   FAILED: 'bg-red-100 text-red-700',
 };
 
@@ -46,6 +54,11 @@ export default async function RecordingDetailPage({ params }: RecordingDetailPag
     notFound();
   }
 
+  // Resume polling if transcription or analysis is still queued or running
+  const activeJob =
+    (await findActiveJob('TRANSCRIBE_RECORDING', 'recording', recording.id)) ||
+    (await findActiveJob('ANALYZE_RECORDING', 'recording', recording.id));
+
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -58,7 +71,14 @@ export default async function RecordingDetailPage({ params }: RecordingDetailPag
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
 
-  const analysis = recording.analysis as Record<string, any> | null;
+  // Results stored under an older schema version are shown as needing re-analysis
+  const analysis = parseAnalysisResult(recording.analysisResult);
+
+  const transcriptData = recording.transcriptData as TranscriptData | null;
+  const speakers = transcriptData?.speakers || [];
+  const latestRevision = transcriptData ? await getLatestRevision(recording.id) : null;
+  const audioSrc = recording.fileUrl ? `/api/v1/recordings/${recording.id}/audio` : null;
+  const members = speakers.length > 0 && authUser.orgId ? await getOrganizationMembers(authUser.orgId) : [];
 
   return (
     <div className="space-y-6">
@@ -106,20 +126,22 @@ export default async function RecordingDetailPage({ params }: RecordingDetailPag
       <div className="grid lg:grid-cols-3 gap-6">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-6">
-          {/* Audio Player */}
+          {/* Audio Player (built into the transcript editor once transcribed) */}
+          {!transcriptData && (
           <div className="bg-white rounded-xl border p-6">
             <h2 className="font-semibold flex items-center gap-2 mb-4">
               <Play className="w-5 h-5 text-primary" />
               Audio Player
             </h2>
-            {recording.fileUrl ? (
-              <audio src={recording.fileUrl} controls className="w-full" />
+            {audioSrc ? (
+              <audio src={audioSrc} controls className="w-full" />
             ) : (
               <p className="text-sm text-muted-foreground text-center py-8">
                 Audio file not available
               </p>
             )}
           </div>
+          )}
 
           {/* Transcription */}
           <div className="bg-white rounded-xl border p-6">
@@ -130,14 +152,22 @@ export default async function RecordingDetailPage({ params }: RecordingDetailPag
               </h2>
               <RecordingActions
                 recordingId={recording.id}
-                hasTranscription={!!recording.transcription}
-                hasAnalysis={!!recording.analysis}
+                hasTranscription={!!recording.transcript}
+                hasAnalysis={!!recording.analysisResult}
                 status={recording.status}
+                activeJobId={activeJob?.id}
               />
             </div>
-            {recording.transcription ? (
+            {transcriptData ? (
+              <TranscriptEditor
+                recordingId={recording.id}
+                audioSrc={audioSrc}
+                transcript={transcriptData}
+                version={latestRevision?.version || 0}
+              />
+            ) : recording.transcript ? (
               <div className="prose prose-sm max-w-none">
-                <p className="whitespace-pre-wrap">{recording.transcription}</p>
+                <p className="whitespace-pre-wrap">{recording.transcript}</p>
               </div>
             ) : (
               <p className="text-sm text-muted-foreground text-center py-8">
@@ -149,7 +179,7 @@ export default async function RecordingDetailPage({ params }: RecordingDetailPag
           </div>
 
           {/* Analysis */}
-          {recording.transcription && (
+          {recording.transcript && (
             <div className="bg-white rounded-xl border p-6">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="font-semibold flex items-center gap-2">
@@ -159,6 +189,8 @@ export default async function RecordingDetailPage({ params }: RecordingDetailPag
               </div>
               {analysis ? (
                 <div className="space-y-6">
+                  <p className="text-sm">{analysis.summary}</p>
+
                   {analysis.inventionDescription && (
                     <div>
                       <h3 className="text-sm font-medium mb-2">Invention/Work Description</h3>
@@ -166,45 +198,82 @@ export default async function RecordingDetailPage({ params }: RecordingDetailPag
                     </div>
                   )}
 
-                  {analysis.inventors && analysis.inventors.length > 0 && (
+                  {analysis.inventors.length > 0 && (
                     <div>
                       <h3 className="text-sm font-medium mb-2">Inventors/Creators</h3>
                       <ul className="list-disc list-inside text-sm text-muted-foreground">
-                        {analysis.inventors.map((inventor: string, i: number) => (
-                          <li key={i}>{inventor}</li>
+                        {analysis.inventors.map((inventor, i) => (
+                          <li key={i}>
+                            {inventor.name}
+                            {inventor.contribution && ` — ${inventor.contribution}`}
+                          </li>
                         ))}
                       </ul>
                     </div>
                   )}
 
-                  {analysis.keyDates && analysis.keyDates.length > 0 && (
+                  {analysis.keyDates.length > 0 && (
                     <div>
                       <h3 className="text-sm font-medium mb-2">Key Dates</h3>
                       <ul className="list-disc list-inside text-sm text-muted-foreground">
-                        {analysis.keyDates.map((date: any, i: number) => (
-                          <li key={i}>{typeof date === 'string' ? date : JSON.stringify(date)}</li>
+                        {analysis.keyDates.map((date, i) => (
+                          <li key={i}>
+                            {date.date && <span className="font-medium">{date.date}: </span>}
+                            {date.description}
+                          </li>
                         ))}
                       </ul>
                     </div>
                   )}
 
-                  {analysis.claims && analysis.claims.length > 0 && (
+                  {analysis.claims.length > 0 && (
                     <div>
                       <h3 className="text-sm font-medium mb-2">Claims/Rights</h3>
                       <ol className="list-decimal list-inside text-sm text-muted-foreground">
-                        {analysis.claims.map((claim: string, i: number) => (
-                          <li key={i}>{claim}</li>
+                        {analysis.claims.map((claim, i) => (
+                          <li key={i}>{claim.text}</li>
                         ))}
                       </ol>
                     </div>
                   )}
 
-                  {analysis.actionItems && analysis.actionItems.length > 0 && (
+                  {analysis.priorArt.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-medium mb-2">Prior Art/References</h3>
+                      <ul className="list-disc list-inside text-sm text-muted-foreground">
+                        {analysis.priorArt.map((reference, i) => (
+                          <li key={i}>
+                            {reference.reference}
+                            {reference.description && ` — ${reference.description}`}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {analysis.actionItems.length > 0 && (
                     <div>
                       <h3 className="text-sm font-medium mb-2">Action Items</h3>
                       <ul className="list-disc list-inside text-sm text-muted-foreground">
-                        {analysis.actionItems.map((item: string, i: number) => (
-                          <li key={i}>{item}</li>
+                        {analysis.actionItems.map((item, i) => (
+                          <li key={i}>
+                            {item.description}
+                            {item.owner && ` (${item.owner})`}
+                            {item.dueDate && ` — due ${item.dueDate}`}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {analysis.riskFactors.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-medium mb-2">Risk Factors</h3>
+                      <ul className="list-disc list-inside text-sm text-muted-foreground">
+                        {analysis.riskFactors.map((risk, i) => (
+                          <li key={i}>
+                            <span className="uppercase text-xs font-medium">{risk.severity}</span> {risk.description}
+                          </li>
                         ))}
                       </ul>
                     </div>
@@ -219,6 +288,10 @@ export default async function RecordingDetailPage({ params }: RecordingDetailPag
                     </div>
                   )}
                 </div>
+              ) : recording.analysisResult ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  This analysis was created with an older format. Click &quot;Re-analyze&quot; to update it.
+                </p>
               ) : (
                 <p className="text-sm text-muted-foreground text-center py-8">
                   No analysis yet. Click &quot;Analyze&quot; to generate AI insights.
@@ -265,11 +338,21 @@ export default async function RecordingDetailPage({ params }: RecordingDetailPag
             </div>
           </div>
 
+          {/* Speakers */}
+          {transcriptData && speakers.length > 0 && (
+            <SpeakerMapping
+              recordingId={recording.id}
+              speakers={speakers}
+              speakingTime={getSpeakingTime(transcriptData)}
+              members={members}
+            />
+          )}
+
           {/* Quick Actions */}
           <div className="bg-white rounded-xl border p-6">
             <h2 className="font-semibold mb-4">Quick Actions</h2>
             <div className="space-y-2">
-              {recording.transcription && recording.analysis && (
+              {recording.transcript && analysis && (
                 <Link
                   href={`/forms/new?recordingId=${recording.id}${recording.caseId ? `&caseId=${recording.caseId}` : ''}`}
                   className="flex items-center gap-2 w-full px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition text-sm"
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { FileText, Sparkles, Loader2 } from 'lucide-react';
 import { RecordingStatus } from '@prisma/client';
@@ -10,19 +10,72 @@ interface RecordingActionsProps {
   hasTranscription: boolean;
   hasAnalysis: boolean;
   status: RecordingStatus;
+  activeJobId?: string;
 }
 
+const POLL_INTERVAL_MS = 2000;
+
 export function RecordingActions({
   recordingId,
   hasTranscription,
   hasAnalysis,
   status,
+  activeJobId,
 }: RecordingActionsProps) {
   const router = useRouter();
   const [transcribing, setTranscribing] = useState(false);
   const [analyzing, setAnalyzing] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(activeJobId || null);
   const [error, setError] = useState('');
 
+  // Pick up jobs started elsewhere on the page, e.g. re-analysis after a transcript edit
+  useEffect(() => {
+    if (activeJobId) setJobId(activeJobId);
+  }, [activeJobId]);
+
+  // Poll the queued job until the worker finishes it, then reload server data
+  useEffect(() => {
+    if (!jobId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/v1/jobs/${jobId}`);
+        if (!response.ok) {
+          throw new Error('Failed to check job status');
+        }
+
+        const job = await response.json();
+        if (cancelled) return;
+
+        if (job.status === 'COMPLETED' || job.status === 'FAILED') {
+          if (job.status === 'FAILED') {
+            setError(job.error || 'Processing failed');
+          }
+          setJobId(null);
+          setTranscribing(false);
+          setAnalyzing(false);
+          router.refresh();
+          return;
+        }
+      } catch (err: any) {
+        if (cancelled) return;
+        setError(err.message);
+      }
+
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    timer = setTimeout(poll, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [jobId, router]);
+
   const handleTranscribe = async () => {
     setTranscribing(true);
     setError('');
@@ -32,15 +85,14 @@ export function RecordingActions({
         method: 'POST',
       });
 
+      const data = await response.json();
       if (!response.ok) {
-        const data = await response.json();
         throw new Error(data.error || 'Failed to transcribe');
       }
 
-      router.refresh();
+      setJobId(data.jobId);
     } catch (err: any) {
       setError(err.message);
-    } finally {
       setTranscribing(false);
     }
   };
@@ -56,20 +108,20 @@ export function RecordingActions({
         body: JSON.stringify({ provider }),
       });
 
+      const data = await response.json();
       if (!response.ok) {
-        const data = await response.json();
         throw new Error(data.error || 'Failed to analyze');
       }
 
-      router.refresh();
+      setJobId(data.jobId);
     } catch (err: any) {
       setError(err.message);
-    } finally {
       setAnalyzing(false);
     }
   };
 
-  const isProcessing = status === 'PROCESSING';
+  // A job resumed after a page load shows the generic processing indicator
+  const isProcessing = !transcribing && !analyzing && (!!jobId || status === 'PROCESSING');
 
   return (
     <div className="flex items-center gap-2">
@@ -97,7 +149,7 @@ export function RecordingActions({
         </button>
       )}
 
-      {hasTranscription && !hasAnalysis && (
+      {hasTranscription && !isProcessing && (
         <div className="relative group">
           <button
             disabled={analyzing}
@@ -111,7 +163,7 @@ export function RecordingActions({
             ) : (
               <>
                 <Sparkles className="w-4 h-4" />
-                Analyze
+                {hasAnalysis ? 'Re-analyze' : 'Analyze'}
               </>
             )}
           </button>
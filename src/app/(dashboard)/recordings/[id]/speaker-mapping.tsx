@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Users } from 'lucide-react';
+import type { SpeakerRole, TranscriptSpeaker } from '@/lib/transcription';
+
+const ROLE_OPTIONS: { value: SpeakerRole; label: string }[] = [
+  { value: 'attorney', label: 'Attorney' },
+  { value: 'paralegal', label: 'Paralegal' },
+  { value: 'inventor', label: 'Inventor' },
+  { value: 'client', label: 'Client' },
+  { value: 'other', label: 'Other' },
+];
+
+interface SpeakerMappingProps {
+  recordingId: string;
+  speakers: TranscriptSpeaker[];
+  speakingTime: Record<string, number>;
+  members: { userId: string; name: string }[];
+}
+
+export function SpeakerMapping({ recordingId, speakers, speakingTime, members }: SpeakerMappingProps) {
+  const router = useRouter();
+  const [draft, setDraft] = useState(speakers);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const updateSpeaker = (id: string, changes: Partial<TranscriptSpeaker>) => {
+    setDraft((current) =>
+      current.map((speaker) => (speaker.id === id ? { ...speaker, ...changes } : speaker))
+    );
+  };
+
+  const handleMemberChange = (id: string, userId: string) => {
+    const member = members.find((m) => m.userId === userId);
+    updateSpeaker(id, { userId: userId || undefined, name: member?.name });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/recordings/${recordingId}/speakers`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          speakers: draft.map((speaker) => ({
+            id: speaker.id,
+            name: speaker.name || null,
+            role: speaker.role || null,
+            userId: speaker.userId || null,
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to save speakers');
+      }
+
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border p-6">
+      <h2 className="font-semibold flex items-center gap-2 mb-4">
+        <Users className="w-5 h-5 text-primary" />
+        Speakers
+      </h2>
+      <div className="space-y-4">
+        {draft.map((speaker) => (
+          <div key={speaker.id} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">{speaker.label}</p>
+              <p className="text-xs text-muted-foreground">
+                {Math.round((speakingTime[speaker.id] || 0) / 60)} min
+              </p>
+            </div>
+            <select
+              value={speaker.userId || ''}
+              onChange={(e) => handleMemberChange(speaker.id, e.target.value)}
+              className="w-full px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="">Not a team member</option>
+              {members.map((member) => (
+                <option key={member.userId} value={member.userId}>
+                  {member.name}
+                </option>
+              ))}
+            </select>
+            {!speaker.userId && (
+              <input
+                type="text"
+                value={speaker.name || ''}
+                onChange={(e) => updateSpeaker(speaker.id, { name: e.target.value })}
+                placeholder="Name, e.g. inventor on the case"
+                className="w-full px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            )}
+            <select
+              value={speaker.role || ''}
+              onChange={(e) => updateSpeaker(speaker.id, { role: (e.target.value || undefined) as SpeakerRole | undefined })}
+              className="w-full px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="">Role...</option>
+              {ROLE_OPTIONS.map((role) => (
+                <option key={role.value} value={role.value}>
+                  {role.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-red-500 mt-3">{error}</p>}
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="w-full flex items-center justify-center gap-2 mt-4 px-4 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+      >
+        {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+        Save Speakers
+      </button>
+      <p className="text-xs text-muted-foreground mt-2">
+        Re-run analysis after mapping speakers to attribute statements to them.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Check, Loader2, Pencil, X } from 'lucide-react';
+import type { TranscriptData, TranscriptWord } from '@/lib/transcription';
+
+interface TranscriptEditorProps {
+  recordingId: string;
+  audioSrc: string | null;
+  transcript: TranscriptData;
+  version: number;
+}
+
+export function TranscriptEditor({ recordingId, audioSrc, transcript, version }: TranscriptEditorProps) {
+  const router = useRouter();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [editing, setEditing] = useState(false);
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const speakers = useMemo(
+    () => new Map((transcript.speakers || []).map((speaker) => [speaker.id, speaker])),
+    [transcript.speakers]
+  );
+
+  // Words belong to the segment their midpoint falls in
+  const wordsBySegment = useMemo(() => {
+    const grouped = new Map<number, TranscriptWord[]>();
+    for (const segment of transcript.segments) {
+      grouped.set(
+        segment.id,
+        transcript.words.filter((word) => {
+          const mid = (word.start + word.end) / 2;
+          return mid >= segment.start && mid < segment.end;
+        })
+      );
+    }
+    return grouped;
+  }, [transcript]);
+
+  // Track playback position; animation frames keep highlighting smooth while playing
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    let frame = 0;
+    const tick = () => {
+      setCurrentTime(audio.currentTime);
+      if (!audio.paused) {
+        frame = requestAnimationFrame(tick);
+      }
+    };
+
+    audio.addEventListener('play', tick);
+    audio.addEventListener('seeked', tick);
+    return () => {
+      cancelAnimationFrame(frame);
+      audio.removeEventListener('play', tick);
+      audio.removeEventListener('seeked', tick);
+    };
+  }, []);
+
+  const seek = (seconds: number, play = true) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = seconds;
+    if (play) {
+      audio.play().catch(() => {});
+    }
+  };
+
+  const handleEdit = () => {
+    setDrafts(Object.fromEntries(transcript.segments.map((segment) => [segment.id, segment.text])));
+    setNote('');
+    setError('');
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    const edits = transcript.segments
+      .filter((segment) => drafts[segment.id] !== undefined && drafts[segment.id].trim() !== segment.text)
+      .map((segment) => ({ id: segment.id, text: drafts[segment.id] }));
+
+    if (edits.length === 0) {
+      setEditing(false);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/recordings/${recordingId}/transcript`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ baseVersion: version, segments: edits, note: note || undefined }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to save transcript');
+      }
+
+      setEditing(false);
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const speakerLabel = (id?: string) => {
+    const speaker = id ? speakers.get(id) : undefined;
+    if (!speaker) return null;
+    const name = speaker.name || speaker.label;
+    return speaker.role ? `${name} (${speaker.role})` : name;
+  };
+
+  const isActive = (start: number, end: number) => currentTime >= start && currentTime < end;
+
+  return (
+    <div className="space-y-4">
+      {audioSrc && (
+        <audio ref={audioRef} src={audioSrc} controls className="w-full" />
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {version > 0 ? `Revision ${version}` : 'Original transcript'}
+          {audioSrc && !editing && ' · Click a word to jump to it'}
+        </p>
+        {editing ? (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setEditing(false)}
+              disabled={saving}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm border rounded-lg hover:bg-slate-50 transition"
+            >
+              <X className="w-4 h-4" />
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+              Save Corrections
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={handleEdit}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm border rounded-lg hover:bg-slate-50 transition"
+          >
+            <Pencil className="w-4 h-4" />
+            Edit
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {editing && (
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note for this revision (optional)"
+          className="w-full px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      )}
+
+      <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+        {transcript.segments.map((segment, i) => {
+          const label = speakerLabel(segment.speaker);
+          const showLabel = label && segment.speaker !== transcript.segments[i - 1]?.speaker;
+          const words = wordsBySegment.get(segment.id) || [];
+
+          return (
+            <div key={segment.id} className="text-sm">
+              {showLabel && (
+                <p className="text-xs font-medium text-muted-foreground mt-2 mb-1">{label}</p>
+              )}
+              {editing ? (
+                <textarea
+                  value={drafts[segment.id] ?? segment.text}
+                  onChange={(e) => setDrafts({ ...drafts, [segment.id]: e.target.value })}
+                  onFocus={() => seek(segment.start, false)}
+                  rows={Math.max(1, Math.ceil(segment.text.length / 80))}
+                  className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              ) : words.length > 0 ? (
+                <p>
+                  {words.map((word, j) => (
+                    <span
+                      key={j}
+                      onClick={() => seek(word.start)}
+                      className={`cursor-pointer rounded px-0.5 hover:bg-slate-100 ${
+                        isActive(word.start, word.end) ? 'bg-primary/20' : ''
+                      }`}
+                    >
+                      {word.word.trim()}{' '}
+                    </span>
+                  ))}
+                </p>
+              ) : (
+                <p
+                  onClick={() => seek(segment.start)}
+                  className={`cursor-pointer rounded px-0.5 hover:bg-slate-100 ${
+                    isActive(segment.start, segment.end) ? 'bg-primary/10' : ''
+                  }`}
+                >
+                  {segment.text}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -17,6 +17,9 @@ import {
 
 type RecordingState = 'idle' | 'recording' | 'paused' | 'stopped';
 
+const RECORDING_MIME_TYPE = 'audio/webm;codecs=opus';
+const MAX_CHUNK_ATTEMPTS = 4;
+
 export default function NewRecordingPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -35,6 +38,9 @@ export default function NewRecordingPage() {
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const recordingIdRef = useRef<Promise<string> | null>(null);
+  const uploadedChunksRef = useRef<Set<number>>(new Set());
+  const flushRef = useRef<Promise<void> | null>(null);
 
   useEffect(() => {
     return () => {
@@ -53,7 +59,7 @@ export default function NewRecordingPage() {
       streamRef.current = stream;
 
       const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'audio/webm;codecs=opus',
+        mimeType: RECORDING_MIME_TYPE,
       });
 
       mediaRecorderRef.current = mediaRecorder;
@@ -62,6 +68,8 @@ export default function NewRecordingPage() {
       mediaRecorder.ondataavailable = (e) => {
         if (e.data.size > 0) {
           chunksRef.current.push(e.data);
+          // Stream chunks as they are produced; failures are retried on the next chunk or on save
+          flushChunks().catch(() => {});
         }
       };
 
@@ -124,28 +132,24 @@ export default function NewRecordingPage() {
       setAudioUrl(null);
     }
     chunksRef.current = [];
+    recordingIdRef.current = null;
+    uploadedChunksRef.current = new Set();
+    setUploadProgress(0);
   };
 
-  const handleSave = async () => {
-    if (!audioBlob || !title.trim()) {
-      setError('Please provide a title for the recording');
-      return;
-    }
-
-    setUploading(true);
-    setError('');
+  // Create the recording on first use so chunks can be uploaded while still recording.
+  // Callers share one request so parallel uploads can't create the recording twice.
+  const ensureRecording = (): Promise<string> => {
+    if (recordingIdRef.current) return recordingIdRef.current;
 
-    try {
-      // Create recording metadata
+    const created = (async () => {
       const response = await fetch('/api/v1/recordings', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          title: title.trim(),
+          title: title.trim() || `Recording ${new Date().toLocaleString()}`,
           caseId: caseId || undefined,
-          duration,
-          fileSize: audioBlob.size,
-          mimeType: audioBlob.type,
+          mimeType: RECORDING_MIME_TYPE,
         }),
       });
 
@@ -155,15 +159,70 @@ export default function NewRecordingPage() {
       }
 
       const recording = await response.json();
+      return recording.id as string;
+    })();
+
+    // Let the next call try again after a failure
+    created.catch(() => {
+      if (recordingIdRef.current === created) recordingIdRef.current = null;
+    });
+
+    recordingIdRef.current = created;
+    return created;
+  };
+
+  // Upload every chunk not yet acknowledged by the server, in order
+  const flushChunks = (): Promise<void> => {
+    if (flushRef.current) return flushRef.current;
+
+    flushRef.current = (async () => {
+      try {
+        const recordingId = await ensureRecording();
+        for (let index = 0; index < chunksRef.current.length; index++) {
+          if (uploadedChunksRef.current.has(index)) continue;
+          await uploadChunk(recordingId, index, chunksRef.current[index]);
+          uploadedChunksRef.current.add(index);
+          setUploadProgress(
+            Math.round((uploadedChunksRef.current.size / chunksRef.current.length) * 100)
+          );
+        }
+      } finally {
+        flushRef.current = null;
+      }
+    })();
+
+    return flushRef.current;
+  };
+
+  const handleSave = async () => {
+    if (!audioBlob || !title.trim()) {
+      setError('Please provide a title for the recording');
+      return;
+    }
+
+    setUploading(true);
+    setError('');
+
+    try {
+      const recordingId = await ensureRecording();
+      await flushChunks();
 
-      // In a real app, you would upload to a storage service like S3/GCS
-      // For now, we'll simulate progress
-      for (let i = 0; i <= 100; i += 10) {
-        setUploadProgress(i);
-        await new Promise((resolve) => setTimeout(resolve, 100));
+      let response = await completeUpload(recordingId, chunksRef.current.length, title.trim(), duration);
+
+      // The server lost some chunks (e.g. a dropped connection mid-request); re-send and retry
+      if (response.status === 409) {
+        const data = await response.json();
+        (data.missing || []).forEach((index: number) => uploadedChunksRef.current.delete(index));
+        await flushChunks();
+        response = await completeUpload(recordingId, chunksRef.current.length, title.trim(), duration);
+      }
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to complete upload');
       }
 
-      router.push(`/recordings/${recording.id}`);
+      router.push(`/recordings/${recordingId}`);
     } catch (err: any) {
       setError(err.message);
       setUploading(false);
@@ -384,3 +443,36 @@ export default function NewRecordingPage() {
     </div>
   );
 }
+
+async function uploadChunk(recordingId: string, index: number, chunk: Blob): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetch(`/api/v1/recordings/${recordingId}/chunks/${index}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: chunk,
+      });
+
+      if (response.ok) return;
+
+      // Client errors will not succeed on retry
+      if (response.status < 500 || attempt >= MAX_CHUNK_ATTEMPTS) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to upload chunk ${index}`);
+      }
+    } catch (err) {
+      if (attempt >= MAX_CHUNK_ATTEMPTS || !(err instanceof TypeError)) throw err;
+    }
+
+    // Exponential backoff: 0.5s, 1s, 2s...
+    await new Promise((resolve) => setTimeout(resolve, 500 * 2 ** (attempt - 1)));
+  }
+}
+
+function completeUpload(recordingId: string, totalChunks: number, title: string, duration: number) {
+  return fetch(`/api/v1/recordings/${recordingId}/chunks/complete`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ totalChunks, title, duration, mimeType: RECORDING_MIME_TYPE }),
+  });
+}
@@ -0,0 +1,29 @@
+import { requireOrg, getCurrentOrganization } from '@/lib/auth';
+import { getGlossary } from '@/lib/glossary';
+import { GlossaryEditor } from '@/components/dashboard/glossary-editor';
+
+export default async function GlossaryPage() {
+  await requireOrg();
+  const organization = await getCurrentOrganization();
+
+  if (!organization) {
+    return null;
+  }
+
+  const terms = await getGlossary(organization.id);
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">Glossary</h1>
+        <p className="text-muted-foreground">
+          Product names, compounds, people and acronyms to spell consistently in transcripts and analysis.
+          Case-specific terms are managed on each case.
+        </p>
+      </div>
+
+      <GlossaryEditor terms={terms} />
+    </div>
+  );
+}
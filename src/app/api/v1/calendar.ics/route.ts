@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { buildDeadlineCalendar } from '@/lib/calendar';
+import { validateFeedToken } from '@/lib/calendar-feeds';
+
+// Completed deadlines stay in the feed for this long so recent work is still visible
+const COMPLETED_HISTORY_DAYS = 90;
+
+// GET /api/v1/calendar.ics?token=... - iCalendar feed of a user's deadlines for calendar apps
+export async function GET(request: NextRequest) {
+  try {
+    const token = new URL(request.url).searchParams.get('token');
+    const feed = token ? await validateFeedToken(token) : null;
+
+    if (!feed) {
+      return NextResponse.json({ error: 'Invalid or revoked feed token' }, { status: 401 });
+    }
+
+    // The user's own deadlines, plus unassigned ones on their teams' cases
+    const deadlines = await db.deadline.findMany({
+      where: {
+        organizationId: feed.organizationId,
+        OR: [
+          { status: 'OPEN' },
+          {
+            status: 'COMPLETED',
+            completedAt: { gte: new Date(Date.now() - COMPLETED_HISTORY_DAYS * 24 * 60 * 60 * 1000) },
+          },
+        ],
+        AND: {
+          OR: [
+            { assignedTo: feed.userId },
+            {
+              assignedTo: null,
+              case: { team: { members: { some: { member: { userId: feed.userId } } } } },
+            },
+          ],
+        },
+      },
+      orderBy: { dueDate: 'asc' },
+      include: {
+        case: { select: { id: true, caseNumber: true, title: true } },
+      },
+    });
+
+    return new NextResponse(buildDeadlineCalendar(feed.name, deadlines), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="deadlines.ics"',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuth, hasRole } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { revokeCalendarFeed } from '@/lib/calendar-feeds';
+
+// DELETE /api/v1/calendar/feeds/[id] - Revoke one of the current user's calendar feeds, or any member's as an admin
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authUser = await getAuth();
+
+    if (!authUser?.orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const feed = await db.calendarFeed.findFirst({
+      where: {
+        id: params.id,
+        organizationId: authUser.orgId,
+        ...(hasRole(authUser.role, 'ADMIN') ? {} : { userId: authUser.userId }),
+        isActive: true,
+      },
+    });
+
+    if (!feed) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    await revokeCalendarFeed(feed.id, authUser.orgId, authUser.userId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
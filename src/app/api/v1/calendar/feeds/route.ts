@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuth, hasRole } from '@/lib/auth';
+import { createCalendarFeed, listCalendarFeeds } from '@/lib/calendar-feeds';
+
+// GET /api/v1/calendar/feeds - List the current user's calendar feeds, or every member's with ?all=true as an admin
+export async function GET(request: NextRequest) {
+  try {
+    const authUser = await getAuth();
+
+    if (!authUser?.orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const all = new URL(request.url).searchParams.get('all') === 'true';
+
+    if (all && !hasRole(authUser.role, 'ADMIN')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const feeds = await listCalendarFeeds(authUser.orgId, all ? undefined : authUser.userId);
+
+    return NextResponse.json({ data: feeds });
+  } catch (error) {
+    console.error('Error listing calendar feeds:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/v1/calendar/feeds - Create a subscription URL for the current user's deadlines
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await getAuth();
+
+    if (!authUser?.orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim() : 'My deadlines';
+
+    if (name.length > 100) {
+      return NextResponse.json({ error: 'Name must be at most 100 characters' }, { status: 400 });
+    }
+
+    const feed = await createCalendarFeed(authUser.orgId, authUser.userId, name);
+
+    return NextResponse.json(feed, { status: 201 });
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
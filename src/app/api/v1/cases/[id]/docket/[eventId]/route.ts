@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { DOCKET_EVENT_LABELS, formatDate, syncCaseDeadline } from '@/lib/docketing';
+
+// DELETE /api/v1/cases/[id]/docket/[eventId] - Remove an event docketed in error, with its deadlines
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; eventId: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request);
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const event = await db.docketEvent.findFirst({
+      where: { id: params.eventId, caseId: params.id, organizationId: orgId },
+      include: { deadlines: { select: { id: true, title: true, dueDate: true, status: true } } },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: 'Docket event not found' }, { status: 404 });
+    }
+
+    await db.$transaction(async (tx) => {
+      await tx.docketEvent.delete({ where: { id: event.id } });
+      await syncCaseDeadline(event.caseId, tx);
+    });
+
+    // The audit log keeps what was removed, since deadlines are deleted with the event
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'docket.event_deleted',
+      entityType: 'case',
+      entityId: event.caseId,
+      description: `${DOCKET_EVENT_LABELS[event.type]} on ${formatDate(event.date)} removed from the docket`,
+      oldValue: {
+        type: event.type,
+        date: formatDate(event.date),
+        deadlines: event.deadlines.map((deadline) => ({
+          title: deadline.title,
+          dueDate: formatDate(deadline.dueDate),
+          status: deadline.status,
+        })),
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting docket event:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'cases:write')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { DOCKET_EVENT_LABELS, docketEvent, formatDate, getDocketEventTypes, parseDocketEvent } from '@/lib/docketing';
+
+// GET /api/v1/cases/[id]/docket - List a case's docket events and deadlines
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId } = await getAuthContext(request, 'cases:read');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const caseData = await db.case.findFirst({
+      where: { id: params.id, organizationId: orgId },
+      select: { id: true, type: true },
+    });
+
+    if (!caseData) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    const [events, deadlines] = await Promise.all([
+      db.docketEvent.findMany({
+        where: { caseId: caseData.id },
+        orderBy: { date: 'desc' },
+      }),
+      db.deadline.findMany({
+        where: { caseId: caseData.id },
+        orderBy: { dueDate: 'asc' },
+      }),
+    ]);
+
+    return NextResponse.json({
+      eventTypes: getDocketEventTypes(caseData.type).map((type) => ({ value: type, label: DOCKET_EVENT_LABELS[type] })),
+      events,
+      deadlines,
+    });
+  } catch (error) {
+    console.error('Error fetching docket:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/v1/cases/[id]/docket - Record an event and docket the deadlines it triggers
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request, 'cases:write');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const caseData = await db.case.findFirst({
+      where: { id: params.id, organizationId: orgId },
+      select: { id: true, type: true, caseNumber: true },
+    });
+
+    if (!caseData) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { data, error } = parseDocketEvent(body, caseData.type);
+
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : undefined;
+
+    const { event, deadlines } = await docketEvent({
+      organizationId: orgId,
+      caseId: caseData.id,
+      caseType: caseData.type,
+      event: data,
+      note,
+      createdBy: userId,
+    });
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'docket.event_created',
+      entityType: 'case',
+      entityId: caseData.id,
+      description: `${DOCKET_EVENT_LABELS[event.type]} on ${formatDate(event.date)} docketed for ${caseData.caseNumber}`,
+      newValue: { type: event.type, date: formatDate(event.date), metadata: data.metadata },
+      metadata: { eventId: event.id, deadlineIds: deadlines.map((deadline) => deadline.id) },
+    });
+
+    await db.activity.create({
+      data: {
+        type: 'DEADLINES_DOCKETED',
+        content: `${DOCKET_EVENT_LABELS[event.type]}: ${deadlines.length} deadline(s) docketed`,
+        caseId: caseData.id,
+        createdBy: userId,
+        metadata: { eventId: event.id },
+      },
+    });
+
+    return NextResponse.json({ event, deadlines }, { status: 201 });
+  } catch (error) {
+    console.error('Error docketing event:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { checkPlanLimit } from '@/lib/stripe';
+import { enqueueJob, serializeJob } from '@/lib/jobs';
+import { getStorage, getCaseDocumentKey } from '@/lib/storage';
+import { LLM_PROVIDERS, LLMProviderName } from '@/lib/llm-providers';
+import { PATENT_APPLICATIONS } from '@/lib/docketing';
+
+const MAX_OFFICE_ACTION_BYTES = 25 * 1024 * 1024;
+
+// POST /api/v1/cases/[id]/office-actions - Upload an office action PDF and queue it to be read into a response form
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request, 'cases:write');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const caseData = await db.case.findFirst({
+      where: { id: params.id, organizationId: orgId },
+      select: { id: true, type: true, caseNumber: true },
+    });
+
+    if (!caseData) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    if (!PATENT_APPLICATIONS.includes(caseData.type)) {
+      return NextResponse.json({ error: 'Office action intake is only available for nonprovisional and PCT patent cases' }, { status: 400 });
+    }
+
+    const formData = await request.formData().catch(() => null);
+    const file = formData?.get('file');
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'Upload the office action as a "file" form field' }, { status: 400 });
+    }
+
+    if (file.size > MAX_OFFICE_ACTION_BYTES) {
+      return NextResponse.json({ error: 'Office actions can be up to 25 MB' }, { status: 400 });
+    }
+
+    const body = Buffer.from(await file.arrayBuffer());
+    if (body.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      return NextResponse.json({ error: 'The file is not a PDF' }, { status: 400 });
+    }
+
+    // Defaults to the organization's preferred provider when omitted
+    const provider = (formData?.get('provider') || undefined) as LLMProviderName | undefined;
+    if (provider && !LLM_PROVIDERS.includes(provider)) {
+      return NextResponse.json({ error: 'Invalid provider' }, { status: 400 });
+    }
+
+    const storageLimit = await checkPlanLimit(orgId, 'storage');
+    if (!storageLimit.allowed) {
+      return NextResponse.json(
+        { error: 'Storage limit reached for your plan', limit: storageLimit.limit, current: storageLimit.current },
+        { status: 403 }
+      );
+    }
+
+    const key = getCaseDocumentKey(orgId, caseData.id, new Date(), 'application/pdf');
+    await getStorage().putObject(key, body, 'application/pdf');
+
+    const document = await db.document.create({
+      data: {
+        caseId: caseData.id,
+        name: file.name || 'Office action.pdf',
+        type: 'application/pdf',
+        fileUrl: key,
+        fileSize: body.length,
+        createdBy: userId,
+      },
+    });
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'document.uploaded',
+      entityType: 'document',
+      entityId: document.id,
+      description: `Office action "${document.name}" uploaded to ${caseData.caseNumber}`,
+      metadata: { caseId: caseData.id, fileSize: document.fileSize },
+    });
+
+    const job = await enqueueJob({
+      organizationId: orgId,
+      type: 'PARSE_OFFICE_ACTION',
+      entityType: 'document',
+      entityId: document.id,
+      payload: { documentId: document.id, provider },
+      createdBy: userId,
+    });
+
+    return NextResponse.json(
+      { document, jobId: job.id, job: serializeJob(job) },
+      { status: 202, headers: { Location: `/api/v1/jobs/${job.id}` } }
+    );
+  } catch (error) {
+    console.error('Error uploading office action:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
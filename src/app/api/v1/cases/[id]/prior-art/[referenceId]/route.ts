@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { formatDate, parseDate } from '@/lib/docketing';
+
+// PATCH /api/v1/cases/[id]/prior-art/[referenceId] - Complete the bibliographic data of a reference
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; referenceId: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request);
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const reference = await db.priorArtReference.findFirst({
+      where: { id: params.referenceId, caseId: params.id, organizationId: orgId },
+    });
+
+    if (!reference) {
+      return NextResponse.json({ error: 'Reference not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const data: { kindCode?: string | null; date?: Date | null; name?: string | null; citation?: string } = {};
+
+    if ('kindCode' in body) {
+      const kindCode = typeof body.kindCode === 'string' ? body.kindCode.trim().toUpperCase() : '';
+      if (kindCode && !/^[A-Z]\d?$/.test(kindCode)) {
+        return NextResponse.json({ error: 'Kind codes are a letter with an optional digit, e.g. B2' }, { status: 400 });
+      }
+      if (kindCode && reference.category === 'NON_PATENT_LITERATURE') {
+        return NextResponse.json({ error: 'Literature has no kind code' }, { status: 400 });
+      }
+      data.kindCode = kindCode || null;
+    }
+    if ('date' in body) {
+      data.date = body.date ? parseDate(body.date) : null;
+      if (body.date && !data.date) {
+        return NextResponse.json({ error: 'Date must be YYYY-MM-DD' }, { status: 400 });
+      }
+    }
+    if ('name' in body) {
+      data.name = typeof body.name === 'string' && body.name.trim() ? body.name.trim() : null;
+    }
+    if ('citation' in body) {
+      // The key of literature stays as first cited so later mentions still match
+      if (typeof body.citation !== 'string' || !body.citation.trim()) {
+        return NextResponse.json({ error: 'Citation cannot be empty' }, { status: 400 });
+      }
+      data.citation = body.citation.trim();
+    }
+
+    const updated = await db.priorArtReference.update({
+      where: { id: reference.id },
+      data,
+    });
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'prior_art.updated',
+      entityType: 'case',
+      entityId: reference.caseId,
+      description: `Reference "${reference.citation}" updated`,
+      oldValue: {
+        kindCode: reference.kindCode,
+        date: reference.date && formatDate(reference.date),
+        name: reference.name,
+        citation: reference.citation,
+      },
+      newValue: { ...data, date: data.date && formatDate(data.date) },
+      metadata: { referenceId: reference.id },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating prior art:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/v1/cases/[id]/prior-art/[referenceId] - Remove a reference that is not prior art
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; referenceId: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request);
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const reference = await db.priorArtReference.findFirst({
+      where: { id: params.referenceId, caseId: params.id, organizationId: orgId },
+    });
+
+    if (!reference) {
+      return NextResponse.json({ error: 'Reference not found' }, { status: 404 });
+    }
+
+    if (reference.idsFormId) {
+      return NextResponse.json({ error: 'The reference is cited in an IDS and has to stay on record' }, { status: 409 });
+    }
+
+    await db.priorArtReference.delete({ where: { id: reference.id } });
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'prior_art.deleted',
+      entityType: 'case',
+      entityId: reference.caseId,
+      description: `Reference "${reference.citation}" removed from the prior art`,
+      oldValue: { category: reference.category, key: reference.key, citation: reference.citation },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting prior art:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'cases:write')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { getFormTemplate } from '@/lib/form-templates';
+import { initialRevision } from '@/lib/form-revisions';
+import { PATENT_APPLICATIONS } from '@/lib/docketing';
+import { buildIdsData, getIdsApplicationData, isExaminerCited } from '@/lib/prior-art';
+
+class AlreadyCitedError extends Error {}
+
+// POST /api/v1/cases/[id]/prior-art/ids - Create an IDS form citing the case's uncited references
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request);
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const caseData = await db.case.findFirst({
+      where: { id: params.id, organizationId: orgId },
+      select: { id: true, type: true, caseNumber: true },
+    });
+
+    if (!caseData) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    if (!PATENT_APPLICATIONS.includes(caseData.type)) {
+      return NextResponse.json({ error: 'Information disclosure statements are only filed for nonprovisional and PCT patent cases' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const referenceIds: string[] | null = Array.isArray(body.referenceIds) ? body.referenceIds : null;
+
+    const uncited = await db.priorArtReference.findMany({
+      where: { caseId: caseData.id, idsFormId: null },
+      include: { sources: { select: { documentId: true } } },
+    });
+
+    // Without a selection, everything uncited that the examiner hasn't already made of record
+    const references = referenceIds
+      ? uncited.filter((reference) => referenceIds.includes(reference.id))
+      : uncited.filter((reference) => !isExaminerCited(reference));
+
+    if (referenceIds && references.length !== referenceIds.length) {
+      return NextResponse.json({ error: 'Some references are not on this case or are already cited in an IDS' }, { status: 400 });
+    }
+
+    if (references.length === 0) {
+      return NextResponse.json({ error: 'There are no uncited references to disclose' }, { status: 400 });
+    }
+
+    const forms = await db.form.findMany({
+      where: { caseId: caseData.id, organizationId: orgId, type: { in: ['OFFICE_ACTION_RESPONSE', 'PATENT_NONPROVISIONAL', 'PATENT_CLAIMS'] } },
+      select: { data: true },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    const template = getFormTemplate('INFORMATION_DISCLOSURE_STATEMENT');
+    const data = buildIdsData(template, references, getIdsApplicationData(forms)) as Prisma.InputJsonValue;
+    const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim() : `Information Disclosure Statement - ${caseData.caseNumber}`;
+
+    const form = await db.$transaction(async (tx) => {
+      const created = await tx.form.create({
+        data: {
+          name,
+          type: template.type,
+          templateVersion: template.version,
+          data,
+          status: 'DRAFT',
+          organizationId: orgId,
+          caseId: caseData.id,
+          createdBy: userId,
+          revisions: { create: initialRevision({ name, data, createdBy: userId }) },
+        },
+      });
+
+      // Only references still uncited, in case another IDS took some meanwhile
+      const { count } = await tx.priorArtReference.updateMany({
+        where: { id: { in: references.map((reference) => reference.id) }, idsFormId: null },
+        data: { idsFormId: created.id },
+      });
+      if (count !== references.length) {
+        throw new AlreadyCitedError();
+      }
+
+      return created;
+    });
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'prior_art.ids_generated',
+      entityType: 'form',
+      entityId: form.id,
+      description: `IDS "${name}" created citing ${references.length} reference(s)`,
+      newValue: { name, type: template.type, templateVersion: template.version },
+      metadata: { referenceIds: references.map((reference) => reference.id) },
+    });
+
+    await db.activity.create({
+      data: {
+        type: 'IDS_GENERATED',
+        content: `IDS "${name}" created citing ${references.length} reference(s)`,
+        metadata: { formId: form.id },
+        caseId: caseData.id,
+        createdBy: userId,
+      },
+    });
+
+    return NextResponse.json(form, { status: 201 });
+  } catch (error) {
+    if (error instanceof AlreadyCitedError) {
+      return NextResponse.json({ error: 'Some references were cited in another IDS meanwhile; try again' }, { status: 409 });
+    }
+    console.error('Error generating IDS:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'forms:write')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { parseAnalysisResult } from '@/lib/analysis-schema';
+import { officeActionSchema } from '@/lib/office-actions';
+import { importOfficeActionPriorArt, importRecordingPriorArt } from '@/lib/prior-art';
+
+// POST /api/v1/cases/[id]/prior-art/import - Collect references from the case's analyzed recordings and office actions
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request);
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const caseData = await db.case.findFirst({
+      where: { id: params.id, organizationId: orgId },
+      select: { id: true, caseNumber: true },
+    });
+
+    if (!caseData) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    const [recordings, documents] = await Promise.all([
+      db.recording.findMany({
+        where: { caseId: caseData.id, status: 'ANALYZED' },
+        select: { id: true, organizationId: true, name: true, analysisResult: true },
+      }),
+      // Office actions are the documents a response form was created from
+      db.document.findMany({
+        where: { caseId: caseData.id, form: { type: 'OFFICE_ACTION_RESPONSE' } },
+        select: { id: true, caseId: true, form: { select: { extractedData: true } } },
+      }),
+    ]);
+
+    const referenceIds = new Set<string>();
+    let created = 0;
+
+    for (const recording of recordings) {
+      const analysis = parseAnalysisResult(recording.analysisResult);
+      if (!analysis) continue;
+
+      const result = await importRecordingPriorArt({ ...recording, caseId: caseData.id }, analysis, userId);
+      result.references.forEach((reference) => referenceIds.add(reference.id));
+      created += result.created;
+    }
+
+    for (const document of documents) {
+      const extracted = document.form?.extractedData as { officeAction?: unknown } | null;
+      const officeAction = officeActionSchema.safeParse(extracted?.officeAction);
+      if (!officeAction.success) continue;
+
+      const result = await importOfficeActionPriorArt(document, orgId, officeAction.data, userId);
+      result.references.forEach((reference) => referenceIds.add(reference.id));
+      created += result.created;
+    }
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'prior_art.imported',
+      entityType: 'case',
+      entityId: caseData.id,
+      description: `${created} new reference(s) collected for ${caseData.caseNumber} from ${recordings.length} recording(s) and ${documents.length} office action(s)`,
+      metadata: { referenceIds: Array.from(referenceIds) },
+    });
+
+    return NextResponse.json({
+      created,
+      references: referenceIds.size,
+      recordings: recordings.length,
+      officeActions: documents.length,
+    });
+  } catch (error) {
+    console.error('Error importing prior art:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'cases:write')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { parseDate } from '@/lib/docketing';
+import { addPriorArt, findPatentReferences, isExaminerCited, literatureKey, PriorArtCitation } from '@/lib/prior-art';
+
+// GET /api/v1/cases/[id]/prior-art - List a case's prior-art references with where they were cited
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId } = await getAuthContext(request, 'cases:read');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const caseData = await db.case.findFirst({
+      where: { id: params.id, organizationId: orgId },
+      select: { id: true },
+    });
+
+    if (!caseData) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const cited = searchParams.get('cited');
+
+    const references = await db.priorArtReference.findMany({
+      where: {
+        caseId: caseData.id,
+        ...(cited === 'true' && { idsFormId: { not: null } }),
+        ...(cited === 'false' && { idsFormId: null }),
+      },
+      include: {
+        sources: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            recording: { select: { id: true, name: true } },
+            document: { select: { id: true, name: true } },
+          },
+        },
+        idsForm: { select: { id: true, name: true, status: true } },
+      },
+      orderBy: [{ category: 'asc' }, { key: 'asc' }],
+    });
+
+    return NextResponse.json({
+      data: references.map((reference) => ({ ...reference, examinerCited: isExaminerCited(reference) })),
+    });
+  } catch (error) {
+    console.error('Error fetching prior art:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/v1/cases/[id]/prior-art - Add a reference by hand
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request, 'cases:write');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const caseData = await db.case.findFirst({
+      where: { id: params.id, organizationId: orgId },
+      select: { id: true, caseNumber: true },
+    });
+
+    if (!caseData) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const citation = typeof body.citation === 'string' ? body.citation.trim() : '';
+
+    if (!citation) {
+      return NextResponse.json({ error: 'A document number or citation is required' }, { status: 400 });
+    }
+
+    const date = body.date ? parseDate(body.date) : null;
+    if (body.date && !date) {
+      return NextResponse.json({ error: 'Date must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    let reference: PriorArtCitation['reference'];
+    if (body.category === 'NON_PATENT_LITERATURE') {
+      reference = { category: 'NON_PATENT_LITERATURE', key: literatureKey(citation) };
+    } else {
+      const found = findPatentReferences(citation);
+      if (found.length !== 1) {
+        return NextResponse.json(
+          { error: found.length ? 'Add one document at a time' : 'No patent or publication number found; add it as non-patent literature instead' },
+          { status: 400 }
+        );
+      }
+      reference = found[0];
+    }
+
+    const existing = await db.priorArtReference.findUnique({
+      where: { caseId_key: { caseId: caseData.id, key: reference.key } },
+    });
+
+    if (existing) {
+      return NextResponse.json({ error: 'This reference is already on the case', referenceId: existing.id }, { status: 409 });
+    }
+
+    const saved = await db.$transaction(async (tx) => {
+      const { references } = await addPriorArt(
+        { organizationId: orgId, caseId: caseData.id, createdBy: userId, citations: [{ reference, citation }] },
+        tx
+      );
+      return tx.priorArtReference.update({
+        where: { id: references[0].id },
+        data: {
+          date,
+          name: typeof body.name === 'string' && body.name.trim() ? body.name.trim() : null,
+        },
+      });
+    });
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'prior_art.added',
+      entityType: 'case',
+      entityId: caseData.id,
+      description: `Reference "${citation}" added to the prior art of ${caseData.caseNumber}`,
+      newValue: { category: saved.category, key: saved.key, citation },
+      metadata: { referenceId: saved.id },
+    });
+
+    return NextResponse.json(saved, { status: 201 });
+  } catch (error) {
+    console.error('Error adding prior art:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { DeadlineStatus, Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { DEADLINE_STATUSES, formatDate, syncCaseDeadline } from '@/lib/docketing';
+
+// GET /api/v1/deadlines/[id] - Get a deadline with the event that triggered it and the reminders sent
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId } = await getAuthContext(request, 'cases:read');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deadline = await db.deadline.findFirst({
+      where: { id: params.id, organizationId: orgId },
+      include: {
+        event: true,
+        case: { select: { id: true, caseNumber: true, title: true, type: true } },
+        reminders: { orderBy: { sentAt: 'asc' } },
+      },
+    });
+
+    if (!deadline) {
+      return NextResponse.json({ error: 'Deadline not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(deadline);
+  } catch (error) {
+    console.error('Error fetching deadline:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/v1/deadlines/[id] - Complete, cancel, reopen, assign or acknowledge a deadline
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request, 'cases:write');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await db.deadline.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Deadline not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { status, assignedTo, acknowledged } = body;
+
+    const updateData: Prisma.DeadlineUpdateInput = {};
+
+    if (status !== undefined && status !== existing.status) {
+      if (!DEADLINE_STATUSES.includes(status)) {
+        return NextResponse.json(
+          { error: `Status must be one of: ${DEADLINE_STATUSES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      updateData.status = status as DeadlineStatus;
+      updateData.completedAt = status === 'COMPLETED' ? new Date() : null;
+      updateData.completedBy = status === 'COMPLETED' ? userId : null;
+    }
+
+    if (assignedTo !== undefined) {
+      if (assignedTo) {
+        const member = await db.organizationMember.findUnique({
+          where: { organizationId_userId: { organizationId: orgId, userId: assignedTo } },
+        });
+        if (!member) {
+          return NextResponse.json({ error: 'Assignee must be a member of the organization' }, { status: 400 });
+        }
+      }
+      updateData.assignedTo = assignedTo || null;
+    }
+
+    // Acknowledging stops reminders for this deadline from escalating further
+    if (acknowledged !== undefined && acknowledged !== (existing.acknowledgedAt !== null)) {
+      if (typeof acknowledged !== 'boolean') {
+        return NextResponse.json({ error: 'Acknowledged must be a boolean' }, { status: 400 });
+      }
+      updateData.acknowledgedAt = acknowledged ? new Date() : null;
+      updateData.acknowledgedBy = acknowledged ? userId : null;
+    }
+
+    const deadline = await db.$transaction(async (tx) => {
+      const updated = await tx.deadline.update({
+        where: { id: existing.id },
+        data: updateData,
+      });
+      if (updateData.status) {
+        await syncCaseDeadline(existing.caseId, tx);
+      }
+      return updated;
+    });
+
+    const completed = deadline.status === 'COMPLETED' && existing.status !== 'COMPLETED';
+    const acknowledgedNow = deadline.acknowledgedAt !== null && existing.acknowledgedAt === null;
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: completed ? 'deadline.completed' : acknowledgedNow ? 'deadline.acknowledged' : 'deadline.updated',
+      entityType: 'deadline',
+      entityId: deadline.id,
+      description: `Deadline "${deadline.title}" due ${formatDate(deadline.dueDate)} updated`,
+      oldValue: { status: existing.status, assignedTo: existing.assignedTo, acknowledgedAt: existing.acknowledgedAt },
+      newValue: { status: deadline.status, assignedTo: deadline.assignedTo, acknowledgedAt: deadline.acknowledgedAt },
+    });
+
+    if (updateData.status || acknowledgedNow) {
+      await db.activity.create({
+        data: {
+          type: 'DEADLINE_UPDATED',
+          content: updateData.status
+            ? `Deadline "${deadline.title}" marked ${deadline.status.toLowerCase()}`
+            : `Deadline "${deadline.title}" acknowledged`,
+          caseId: deadline.caseId,
+          createdBy: userId,
+          metadata: { deadlineId: deadline.id },
+        },
+      });
+    }
+
+    return NextResponse.json(deadline);
+  } catch (error) {
+    console.error('Error updating deadline:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { DeadlineStatus, Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { DEADLINE_STATUSES, parseDate } from '@/lib/docketing';
+
+// GET /api/v1/deadlines - List deadlines across the organization, soonest first
+export async function GET(request: NextRequest) {
+  try {
+    const { orgId } = await getAuthContext(request, 'cases:read');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+    const caseId = searchParams.get('caseId');
+    const assignedTo = searchParams.get('assignedTo');
+    const status = (searchParams.get('status') || 'OPEN') as DeadlineStatus;
+    const from = parseDate(searchParams.get('from'));
+    const to = parseDate(searchParams.get('to'));
+
+    if (!DEADLINE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Status must be one of: ${DEADLINE_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const where: Prisma.DeadlineWhereInput = { organizationId: orgId, status };
+    if (caseId) where.caseId = caseId;
+    if (assignedTo) where.assignedTo = assignedTo;
+    if (from || to) where.dueDate = { ...(from && { gte: from }), ...(to && { lte: to }) };
+
+    const [deadlines, total] = await Promise.all([
+      db.deadline.findMany({
+        where,
+        orderBy: { dueDate: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          case: { select: { id: true, caseNumber: true, title: true, type: true } },
+        },
+      }),
+      db.deadline.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      data: deadlines,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error listing deadlines:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
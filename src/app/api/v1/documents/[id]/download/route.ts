@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { getStorage } from '@/lib/storage';
+
+// GET /api/v1/documents/[id]/download - Redirect to a signed download URL for a case document
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId } = await getAuthContext(request);
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const document = await db.document.findFirst({
+      where: { id: params.id, case: { organizationId: orgId } },
+    });
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    // Documents added before storage keys were used hold a full URL
+    if (/^https?:\/\//.test(document.fileUrl)) {
+      return NextResponse.redirect(document.fileUrl, { status: 307 });
+    }
+
+    const download = await getStorage().getDownloadUrl(document.fileUrl);
+
+    return NextResponse.redirect(download.url, { status: 307 });
+  } catch (error) {
+    console.error('Error creating download URL:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'cases:read')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { triggerWebhooks } from '@/lib/webhooks';
+import { FormVersionConflictError, updateFormWithRevision } from '@/lib/form-revisions';
+import { checkTransition, getMemberRole, hashFormData } from '@/lib/form-workflow';
+
+// GET /api/v1/forms/[id]/approval - Reviewer decisions, newest first, and whether the approval still matches the data
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId } = await getAuthContext(request, 'forms:read');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const form = await db.form.findFirst({
+      where: { id: params.id, organizationId: orgId },
+      select: { id: true, status: true, data: true, reviewerId: true },
+    });
+
+    if (!form) {
+      return NextResponse.json({ error: 'Form not found' }, { status: 404 });
+    }
+
+    const approvals = await db.formApproval.findMany({
+      where: { formId: form.id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const approval = form.status === 'APPROVED' ? approvals.find((entry) => entry.decision === 'approved') : undefined;
+
+    return NextResponse.json({
+      status: form.status,
+      reviewerId: form.reviewerId,
+      dataHash: hashFormData(form.data),
+      attestation: approval ? { ...approval, valid: approval.dataHash === hashFormData(form.data) } : null,
+      approvals,
+    });
+  } catch (error) {
+    console.error('Error fetching form approvals:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/v1/forms/[id]/approval - Approve or reject a form in review
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request, 'forms:write');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const form = await db.form.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!form) {
+      return NextResponse.json({ error: 'Form not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { decision } = body;
+    const comment = typeof body.comment === 'string' ? body.comment.trim() : '';
+    const signature = typeof body.signature === 'string' ? body.signature.trim() : '';
+
+    if (decision !== 'approve' && decision !== 'reject') {
+      return NextResponse.json({ error: 'decision must be "approve" or "reject"' }, { status: 400 });
+    }
+
+    if (decision === 'reject' && !comment) {
+      return NextResponse.json({ error: 'A comment is required when rejecting a form' }, { status: 400 });
+    }
+
+    if (decision === 'approve' && !signature) {
+      return NextResponse.json({ error: 'Type your name to sign the approval' }, { status: 400 });
+    }
+
+    const status = decision === 'approve' ? 'APPROVED' : 'REJECTED';
+    const reason = checkTransition(form, status, { userId, role: await getMemberRole(orgId, userId) });
+    if (reason) {
+      return NextResponse.json({ error: reason }, { status: form.status === 'IN_REVIEW' ? 403 : 409 });
+    }
+
+    // The attestation covers the data exactly as the reviewer saw it
+    const dataHash = hashFormData(form.data);
+    if (body.dataHash !== undefined && body.dataHash !== dataHash) {
+      return NextResponse.json({ error: 'Form has changed since it was loaded', dataHash }, { status: 409 });
+    }
+
+    const [updated, approval] = await db.$transaction(async (tx) => {
+      const result = await updateFormWithRevision(
+        form,
+        { status },
+        {
+          source: 'status_change',
+          note: decision === 'approve' ? `Approved by ${signature}` : `Rejected: ${comment}`,
+          createdBy: userId,
+        },
+        tx
+      );
+      const record = await tx.formApproval.create({
+        data: {
+          formId: form.id,
+          version: result.version,
+          decision: decision === 'approve' ? 'approved' : 'rejected',
+          comment: comment || null,
+          signature: decision === 'approve' ? signature : null,
+          dataHash,
+          createdBy: userId,
+        },
+      });
+      return [result, record] as const;
+    });
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: decision === 'approve' ? 'form.approved' : 'form.rejected',
+      entityType: 'form',
+      entityId: form.id,
+      description: decision === 'approve'
+        ? `Form "${form.name}" approved by ${signature}`
+        : `Form "${form.name}" rejected`,
+      oldValue: { status: form.status },
+      newValue: { status },
+      metadata: { approvalId: approval.id, version: approval.version, dataHash, comment: comment || undefined },
+    });
+
+    if (form.caseId) {
+      await db.activity.create({
+        data: {
+          type: 'FORM_UPDATED',
+          content: decision === 'approve'
+            ? `Form "${form.name}" approved`
+            : `Form "${form.name}" rejected: ${comment}`,
+          caseId: form.caseId,
+          createdBy: userId,
+        },
+      });
+    }
+
+    if (decision === 'approve') {
+      await triggerWebhooks(orgId, 'form.approved', {
+        formId: form.id,
+        version: approval.version,
+        dataHash,
+        approvedBy: userId,
+        approvedAt: approval.createdAt.toISOString(),
+      });
+    }
+
+    return NextResponse.json({ form: updated, approval });
+  } catch (error) {
+    if (error instanceof FormVersionConflictError) {
+      return NextResponse.json({ error: 'Form has changed since it was loaded' }, { status: 409 });
+    }
+    console.error('Error recording form decision:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { diffProposedChanges, parseProposedChanges, resolveProposedChanges } from '@/lib/form-changes';
+import { FormVersionConflictError, updateFormWithRevision } from '@/lib/form-revisions';
+import { isLocked, reopenOnEdit } from '@/lib/form-workflow';
+
+// GET /api/v1/forms/[id]/changes - List proposed changes from auto-population
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId } = await getAuthContext(request, 'forms:read');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const form = await db.form.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!form) {
+      return NextResponse.json({ error: 'Form not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      changes: diffProposedChanges(form.data, parseProposedChanges(form.proposedChanges)),
+    });
+  } catch (error) {
+    console.error('Error fetching proposed changes:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/v1/forms/[id]/changes - Accept or reject proposed changes
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request, 'forms:write');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const form = await db.form.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!form) {
+      return NextResponse.json({ error: 'Form not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { decision } = body;
+    const paths: unknown = body.paths ?? Object.keys(parseProposedChanges(form.proposedChanges));
+
+    if (decision !== 'accept' && decision !== 'reject') {
+      return NextResponse.json({ error: 'decision must be "accept" or "reject"' }, { status: 400 });
+    }
+
+    if (!Array.isArray(paths) || paths.some((path) => typeof path !== 'string')) {
+      return NextResponse.json({ error: 'paths must be an array of field paths' }, { status: 400 });
+    }
+
+    if (paths.length === 0) {
+      return NextResponse.json({ error: 'No proposed changes to resolve' }, { status: 400 });
+    }
+
+    if (decision === 'accept' && isLocked(form.status)) {
+      return NextResponse.json(
+        { error: `Form is ${form.status.toLowerCase()} and can't be changed` },
+        { status: 409 }
+      );
+    }
+
+    const result = resolveProposedChanges(form, decision, paths as string[]);
+    if (result.unknown.length > 0) {
+      return NextResponse.json(
+        { error: `No proposed change at: ${result.unknown.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const proposedChanges = result.proposedChanges as unknown as Prisma.InputJsonValue;
+
+    // Rejecting only clears proposals; accepting changes the data, so it's a new revision
+    const updated = decision === 'accept'
+      ? await updateFormWithRevision(
+          form,
+          {
+            proposedChanges,
+            data: result.data,
+            fieldProvenance: result.fieldProvenance as unknown as Prisma.InputJsonValue,
+            ...reopenOnEdit(form),
+          },
+          {
+            source: 'changes_accepted',
+            note: `${result.resolved.length} proposed change(s) accepted`,
+            createdBy: userId,
+          }
+        )
+      : await db.form.update({
+          where: { id: form.id },
+          data: { proposedChanges },
+        });
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: decision === 'accept' ? 'form.changes_accepted' : 'form.changes_rejected',
+      entityType: 'form',
+      entityId: form.id,
+      description: `${result.resolved.length} proposed change(s) ${decision === 'accept' ? 'accepted' : 'rejected'} on form "${form.name}"`,
+      oldValue: Object.fromEntries(result.resolved.map((change) => [change.path, change.current])),
+      newValue: Object.fromEntries(result.resolved.map((change) => [change.path, change.proposed])),
+      metadata: {
+        paths,
+        recordingIds: Array.from(new Set(result.resolved.map((change) => change.provenance.recordingId))),
+      },
+    });
+
+    if (decision === 'accept' && form.caseId) {
+      await db.activity.create({
+        data: {
+          type: 'FORM_UPDATED',
+          content: `${result.resolved.length} proposed change(s) accepted on form "${form.name}"`,
+          caseId: form.caseId,
+          createdBy: userId,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      form: updated,
+      changes: diffProposedChanges(updated.data, parseProposedChanges(updated.proposedChanges)),
+    });
+  } catch (error) {
+    if (error instanceof FormVersionConflictError) {
+      return NextResponse.json({ error: 'Form has changed since it was loaded' }, { status: 409 });
+    }
+    console.error('Error resolving proposed changes:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { parseAnalysisResult } from '@/lib/analysis-schema';
+import { getClaims } from '@/lib/claims';
+import { suggestDependentClaims } from '@/lib/claim-suggestions';
+import { LLMUnavailableError } from '@/lib/llm';
+import { LLM_PROVIDERS, LLMProviderName } from '@/lib/llm-providers';
+
+// POST /api/v1/forms/[id]/claims/suggestions - Suggest dependent claims from recording analyses
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request);
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    // Defaults to the organization's preferred provider when omitted
+    const provider: LLMProviderName | undefined = body.provider || undefined;
+    if (provider && !LLM_PROVIDERS.includes(provider)) {
+      return NextResponse.json({ error: 'Invalid provider' }, { status: 400 });
+    }
+
+    const form = await db.form.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!form) {
+      return NextResponse.json({ error: 'Form not found' }, { status: 404 });
+    }
+
+    if (form.type !== 'PATENT_CLAIMS') {
+      return NextResponse.json({ error: 'Claim suggestions are only available for claim sets' }, { status: 400 });
+    }
+
+    const claims = getClaims(form.data).filter((claim) => claim.claimText?.trim());
+    if (claims.length === 0) {
+      return NextResponse.json({ error: 'Draft at least one claim to build on' }, { status: 400 });
+    }
+
+    // Recordings linked to the form, or anywhere on its case
+    const recordings = await db.recording.findMany({
+      where: {
+        organizationId: orgId,
+        OR: [{ formId: form.id }, ...(form.caseId ? [{ caseId: form.caseId }] : [])],
+      },
+      select: { id: true, name: true, analysisResult: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const analyses = recordings
+      .map((recording) => ({ recording, analysis: parseAnalysisResult(recording.analysisResult) }))
+      .filter(({ analysis }) => analysis && (analysis.technicalDetails.length > 0 || analysis.claims.length > 0))
+      .map(({ recording, analysis }) => ({ recordingName: recording.name, analysis: analysis! }));
+
+    if (analyses.length === 0) {
+      return NextResponse.json(
+        { error: 'No analyzed recording on this form or its case mentions technical details or claims' },
+        { status: 400 }
+      );
+    }
+
+    const result = await suggestDependentClaims({
+      organizationId: orgId,
+      formId: form.id,
+      userId,
+      provider,
+      claims,
+      analyses,
+    });
+
+    return NextResponse.json({
+      suggestions: result.suggestions,
+      recordings: analyses.map(({ recordingName }) => recordingName),
+      provider: result.provider,
+      model: result.model,
+    });
+  } catch (error) {
+    if (error instanceof LLMUnavailableError) {
+      return NextResponse.json({ error: 'AI suggestions are unavailable right now' }, { status: 503 });
+    }
+    console.error('Error suggesting claims:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'forms:write')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
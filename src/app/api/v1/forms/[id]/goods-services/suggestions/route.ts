@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { parseAnalysisResult } from '@/lib/analysis-schema';
+import { classifyGoodsServices, getAnalysisDescription } from '@/lib/goods-services';
+
+const TRADEMARK_FORM_TYPES = ['TRADEMARK_TEAS_PLUS', 'TRADEMARK_TEAS_STANDARD', 'TRADEMARK_INTENT_TO_USE'];
+
+// POST /api/v1/forms/[id]/goods-services/suggestions - Suggest Nice classes and identifications
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId } = await getAuthContext(request);
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const form = await db.form.findFirst({
+      where: { id: params.id, organizationId: orgId },
+      select: { id: true, type: true, caseId: true },
+    });
+
+    if (!form) {
+      return NextResponse.json({ error: 'Form not found' }, { status: 404 });
+    }
+
+    if (!TRADEMARK_FORM_TYPES.includes(form.type)) {
+      return NextResponse.json({ error: 'Class suggestions are only available for trademark applications' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const description = typeof body.description === 'string' ? body.description.trim() : '';
+
+    if (description) {
+      return NextResponse.json({ suggestions: classifyGoodsServices(description), recordings: [] });
+    }
+
+    // Without a description, what the analyzed recordings on the form or its case say
+    const recordings = await db.recording.findMany({
+      where: {
+        organizationId: orgId,
+        OR: [{ formId: form.id }, ...(form.caseId ? [{ caseId: form.caseId }] : [])],
+      },
+      select: { name: true, analysisResult: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const analyses = recordings
+      .map((recording) => ({ name: recording.name, analysis: parseAnalysisResult(recording.analysisResult) }))
+      .filter(({ analysis }) => analysis);
+
+    if (analyses.length === 0) {
+      return NextResponse.json(
+        { error: 'Describe the goods or services, or analyze a recording on this form or its case' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      suggestions: classifyGoodsServices(analyses.map(({ analysis }) => getAnalysisDescription(analysis!)).join('\n')),
+      recordings: analyses.map(({ name }) => name),
+    });
+  } catch (error) {
+    console.error('Error suggesting classes:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'forms:read')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { renderFormPdf } from '@/lib/form-pdf';
+import { getStorage, getFormDocumentKey } from '@/lib/storage';
+
+// GET /api/v1/forms/[id]/pdf - Render the form as a PDF without saving it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId } = await getAuthContext(request, 'forms:read');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const form = await findForm(params.id, orgId);
+
+    if (!form) {
+      return NextResponse.json({ error: 'Form not found' }, { status: 404 });
+    }
+
+    const pdf = await renderFormPdf({
+      form,
+      organizationName: form.organization.name,
+      caseInfo: form.case,
+    });
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(pdf.length),
+        'Content-Disposition': `inline; filename="${fileName(form.name)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering form PDF:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/v1/forms/[id]/pdf - Generate a PDF and store it as a document on the form's case
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request, 'forms:write');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const form = await findForm(params.id, orgId);
+
+    if (!form) {
+      return NextResponse.json({ error: 'Form not found' }, { status: 404 });
+    }
+
+    if (!form.caseId) {
+      return NextResponse.json(
+        { error: 'Link the form to a case before generating a document' },
+        { status: 400 }
+      );
+    }
+
+    const pdf = await renderFormPdf({
+      form,
+      organizationName: form.organization.name,
+      caseInfo: form.case,
+    });
+
+    const key = getFormDocumentKey(form.organizationId, form.id, new Date());
+    await getStorage().putObject(key, pdf, 'application/pdf');
+
+    const document = await db.document.create({
+      data: {
+        caseId: form.caseId,
+        formId: form.id,
+        name: fileName(form.name),
+        type: 'application/pdf',
+        fileUrl: key,
+        fileSize: pdf.length,
+        createdBy: userId,
+      },
+    });
+
+    await createAuditLog({
+      organizationId: form.organizationId,
+      userId,
+      action: 'form.pdf_generated',
+      entityType: 'form',
+      entityId: form.id,
+      description: `Generated PDF for form "${form.name}"`,
+      metadata: { documentId: document.id, formVersion: form.version, fileSize: pdf.length },
+    });
+
+    await db.activity.create({
+      data: {
+        type: 'DOCUMENT_GENERATED',
+        content: `Generated ${document.name} from form "${form.name}"`,
+        metadata: { documentId: document.id, formId: form.id },
+        caseId: form.caseId,
+        createdBy: userId,
+      },
+    });
+
+    return NextResponse.json(document, { status: 201 });
+  } catch (error) {
+    console.error('Error generating form PDF:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function findForm(id: string, orgId: string) {
+  return db.form.findFirst({
+    where: { id, organizationId: orgId },
+    include: {
+      organization: { select: { name: true } },
+      case: { select: { caseNumber: true, title: true, clientName: true } },
+    },
+  });
+}
+
+// Header values must be printable ASCII, and quotes or slashes would break the filename
+function fileName(name: string): string {
+  return `${name.replace(/[^\x20-\x7e]|["\\/]/g, ' ').replace(/\s+/g, ' ').trim() || 'form'}.pdf`;
+}
+
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -1,15 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs';
 import { db } from '@/lib/db';
-import { validateApiKey } from '@/lib/api-keys';
-import { createAuditLog } from '@/lib/audit';
-import OpenAI from 'openai';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { enqueueJob, serializeJob } from '@/lib/jobs';
+import { isLocked } from '@/lib/form-workflow';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-// POST /api/v1/forms/[id]/populate - Auto-populate form from recording analysis
+// POST /api/v1/forms/[id]/populate - Queue auto-population of a form from recording analysis
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -21,7 +17,7 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const body = await request.json();
+    const body = await request.json().catch(() => ({}));
     const { recordingId } = body;
 
     const form = await db.form.findFirst({
@@ -32,130 +28,54 @@ export async function POST(
       return NextResponse.json({ error: 'Form not found' }, { status: 404 });
     }
 
-    // Get recording with analysis
+    if (isLocked(form.status)) {
+      return NextResponse.json(
+        { error: `Form is ${form.status.toLowerCase()} and can't be changed` },
+        { status: 409 }
+      );
+    }
+
+    // Default to the most recent recording already linked to this form
     const recording = await db.recording.findFirst({
-      where: {
-        id: recordingId || form.recordingId,
-        organizationId: orgId,
-      },
+      where: recordingId
+        ? { id: recordingId, organizationId: orgId }
+        : { formId: form.id, organizationId: orgId },
+      orderBy: { createdAt: 'desc' },
     });
 
     if (!recording) {
       return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
     }
 
-    if (!recording.analysis && !recording.transcription) {
+    if (!recording.analysisResult && !recording.transcript) {
       return NextResponse.json({ error: 'Recording has no analysis or transcription' }, { status: 400 });
     }
 
-    // Use AI to map analysis to form fields
-    const formTemplate = form.data as Record<string, any>;
-    const analysis = recording.analysis as Record<string, any> | null;
-    const transcription = recording.transcription;
-
-    const prompt = `Given the following form template and recording analysis/transcription, populate the form fields with relevant data.
-
-Form Type: ${form.type}
-Form Template:
-${JSON.stringify(formTemplate, null, 2)}
-
-${analysis ? `Recording Analysis:\n${JSON.stringify(analysis, null, 2)}` : ''}
-
-${transcription ? `Transcription:\n${transcription}` : ''}
-
-Return ONLY a valid JSON object with the form fields populated with relevant data extracted from the analysis and transcription. Keep the same structure as the form template.`;
-
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4-turbo-preview',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert IP paralegal assistant that populates legal forms accurately based on provided information. Always return valid JSON.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      response_format: { type: 'json_object' },
-    });
-
-    const populatedData = JSON.parse(response.choices[0]?.message?.content || '{}');
-
-    // Merge populated data with existing form data
-    const mergedData = deepMerge(formTemplate, populatedData);
-
-    // Update form with populated data
-    const updatedForm = await db.form.update({
-      where: { id: params.id },
-      data: {
-        data: mergedData,
-        recordingId: recording.id,
-      },
-    });
-
-    // Create audit log
-    await createAuditLog({
+    const job = await enqueueJob({
       organizationId: orgId,
-      userId,
-      action: 'FORM_POPULATED',
-      resourceType: 'form',
-      resourceId: params.id,
-      details: { recordingId: recording.id, fieldsPopulated: Object.keys(populatedData).length },
-      request,
+      type: 'POPULATE_FORM',
+      entityType: 'form',
+      entityId: form.id,
+      payload: { formId: form.id, recordingId: recording.id },
+      createdBy: userId,
     });
 
-    // Create activity if linked to a case
-    if (form.caseId) {
-      await db.activity.create({
-        data: {
-          type: 'FORM_POPULATED',
-          content: `Form "${form.title}" auto-populated from recording`,
-          caseId: form.caseId,
-          userId,
-        },
-      });
-    }
-
-    return NextResponse.json({
-      id: updatedForm.id,
-      data: mergedData,
-      fieldsPopulated: Object.keys(populatedData).length,
-    });
+    return NextResponse.json(
+      { jobId: job.id, job: serializeJob(job) },
+      { status: 202, headers: { Location: `/api/v1/jobs/${job.id}` } }
+    );
   } catch (error) {
-    console.error('Error populating form:', error);
+    console.error('Error queueing form population:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
 
-function deepMerge(target: any, source: any): any {
-  const output = { ...target };
-
-  for (const key in source) {
-    if (source[key] !== null && source[key] !== undefined && source[key] !== '') {
-      if (typeof source[key] === 'object' && !Array.isArray(source[key])) {
-        if (target[key] && typeof target[key] === 'object') {
-          output[key] = deepMerge(target[key], source[key]);
-        } else {
-          output[key] = source[key];
-        }
-      } else if (Array.isArray(source[key]) && source[key].length > 0) {
-        output[key] = source[key];
-      } else if (!Array.isArray(source[key])) {
-        output[key] = source[key];
-      }
-    }
-  }
-
-  return output;
-}
-
 async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
   const apiKey = request.headers.get('x-api-key');
   if (apiKey) {
-    const keyData = await validateApiKey(apiKey, ['forms:write']);
-    if (keyData) {
-      return { orgId: keyData.organizationId, userId: keyData.createdById };
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'forms:write')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
     }
   }
 
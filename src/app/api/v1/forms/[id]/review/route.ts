@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { getFieldsNeedingReview, markReviewed, parseProvenance } from '@/lib/form-provenance';
+
+// POST /api/v1/forms/[id]/review - Mark AI-populated fields as reviewed
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request);
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const form = await db.form.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!form) {
+      return NextResponse.json({ error: 'Form not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const paths: unknown = body.paths;
+
+    if (!Array.isArray(paths) || paths.length === 0 || paths.some((path) => typeof path !== 'string')) {
+      return NextResponse.json({ error: 'paths must be a non-empty array of field paths' }, { status: 400 });
+    }
+
+    const result = markReviewed(parseProvenance(form.fieldProvenance), paths as string[], userId);
+    if (result.unknown.length > 0) {
+      return NextResponse.json(
+        { error: `No populated value at: ${result.unknown.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    await db.form.update({
+      where: { id: form.id },
+      data: { fieldProvenance: result.provenance as unknown as Prisma.InputJsonValue },
+    });
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'form.fields_reviewed',
+      entityType: 'form',
+      entityId: form.id,
+      description: `${paths.length} field(s) reviewed on form "${form.name}"`,
+      metadata: { paths },
+    });
+
+    return NextResponse.json({
+      fieldProvenance: result.provenance,
+      fieldsNeedingReview: getFieldsNeedingReview(result.provenance),
+    });
+  } catch (error) {
+    console.error('Error reviewing form fields:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'forms:write')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
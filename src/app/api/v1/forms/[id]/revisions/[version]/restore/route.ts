@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { parseProvenance, trackEdits } from '@/lib/form-provenance';
+import { diffFormData, FormVersionConflictError, updateFormWithRevision } from '@/lib/form-revisions';
+import { isLocked, reopenOnEdit } from '@/lib/form-workflow';
+
+// POST /api/v1/forms/[id]/revisions/[version]/restore - Restore a revision's name and data as a new revision
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; version: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request);
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const form = await db.form.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!form) {
+      return NextResponse.json({ error: 'Form not found' }, { status: 404 });
+    }
+
+    if (isLocked(form.status)) {
+      return NextResponse.json({ error: `Form is ${form.status.toLowerCase()} and can't be changed` }, { status: 409 });
+    }
+
+    const revision = await db.formRevision.findUnique({
+      where: { formId_version: { formId: form.id, version: parseInt(params.version) || 0 } },
+    });
+
+    if (!revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    if (revision.version === form.version) {
+      return NextResponse.json({ error: 'Revision is already the current version' }, { status: 400 });
+    }
+
+    // The status isn't restored, but a restored approved form goes back to review like any edit
+    const changes = diffFormData(form.data, revision.data);
+    const provenance = trackEdits(parseProvenance(form.fieldProvenance), form.data, revision.data, userId);
+
+    let updated;
+    try {
+      updated = await updateFormWithRevision(
+        form,
+        {
+          name: revision.name,
+          data: revision.data as Prisma.InputJsonValue,
+          fieldProvenance: provenance as unknown as Prisma.InputJsonValue,
+          ...reopenOnEdit(form),
+        },
+        { source: 'restore', note: `Restored from version ${revision.version}`, createdBy: userId }
+      );
+    } catch (error) {
+      if (error instanceof FormVersionConflictError) {
+        return NextResponse.json({ error: 'Form has changed since it was loaded' }, { status: 409 });
+      }
+      throw error;
+    }
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'form.restored',
+      entityType: 'form',
+      entityId: form.id,
+      description: `Form "${updated.name}" restored to version ${revision.version}`,
+      oldValue: { version: form.version, name: form.name },
+      newValue: { version: updated.version, name: updated.name },
+      metadata: { restoredVersion: revision.version, paths: changes.map((change) => change.path) },
+    });
+
+    if (form.caseId) {
+      await db.activity.create({
+        data: {
+          type: 'FORM_UPDATED',
+          content: `Form "${updated.name}" restored to version ${revision.version}`,
+          caseId: form.caseId,
+          createdBy: userId,
+        },
+      });
+    }
+
+    return NextResponse.json({ form: updated, changes });
+  } catch (error) {
+    console.error('Error restoring form revision:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'forms:write')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
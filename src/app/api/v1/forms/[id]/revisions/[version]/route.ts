@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+
+// GET /api/v1/forms/[id]/revisions/[version] - Get a revision with its data snapshot
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; version: string } }
+) {
+  try {
+    const { orgId } = await getAuthContext(request, 'forms:read');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const revision = await db.formRevision.findFirst({
+      where: {
+        formId: params.id,
+        version: parseInt(params.version) || 0,
+        form: { organizationId: orgId },
+      },
+    });
+
+    if (!revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(revision);
+  } catch (error) {
+    console.error('Error fetching form revision:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
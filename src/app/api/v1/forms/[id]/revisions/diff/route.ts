@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { diffFormData } from '@/lib/form-revisions';
+
+// GET /api/v1/forms/[id]/revisions/diff?from=&to= - Field-level changes between two revisions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId } = await getAuthContext(request, 'forms:read');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const form = await db.form.findFirst({
+      where: { id: params.id, organizationId: orgId },
+      select: { id: true, version: true },
+    });
+
+    if (!form) {
+      return NextResponse.json({ error: 'Form not found' }, { status: 404 });
+    }
+
+    // Defaults to what the latest revision changed
+    const { searchParams } = new URL(request.url);
+    const to = parseInt(searchParams.get('to') || '') || form.version;
+    const from = parseInt(searchParams.get('from') || '') || to - 1;
+
+    const revisions = await db.formRevision.findMany({
+      where: { formId: form.id, version: { in: [from, to] } },
+    });
+
+    const before = revisions.find((revision) => revision.version === from);
+    const after = revisions.find((revision) => revision.version === to);
+
+    if (!before || !after) {
+      return NextResponse.json(
+        { error: `Revision ${before ? to : from} not found` },
+        { status: 404 }
+      );
+    }
+
+    // Snapshots are left out; the changes carry the values
+    return NextResponse.json({
+      from: { ...before, data: undefined },
+      to: { ...after, data: undefined },
+      changes: diffFormData(before.data, after.data),
+    });
+  } catch (error) {
+    console.error('Error comparing form revisions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
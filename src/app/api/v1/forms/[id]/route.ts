@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs';
+import { Prisma } from '@prisma/client';
 import { db } from '@/lib/db';
-import { validateApiKey } from '@/lib/api-keys';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { hasRole } from '@/lib/auth';
 import { createAuditLog } from '@/lib/audit';
+import { getFieldsNeedingReview, parseProvenance, trackEdits } from '@/lib/form-provenance';
+import { getFormTemplate } from '@/lib/form-templates';
+import { FormVersionConflictError, updateFormWithRevision } from '@/lib/form-revisions';
+import { validateForm } from '@/lib/form-validation';
+import { checkDelete, checkReviewerChange, checkTransition, DECISION_STATUSES, getMemberRole, isLocked, reopenOnEdit } from '@/lib/form-workflow';
 
 // GET /api/v1/forms/[id] - Get form
 export async function GET(
@@ -10,7 +17,7 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const { orgId } = await getAuthContext(request);
+    const { orgId } = await getAuthContext(request, 'forms:read');
 
     if (!orgId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -20,7 +27,7 @@ export async function GET(
       where: { id: params.id, organizationId: orgId },
       include: {
         case: { select: { id: true, caseNumber: true, title: true } },
-        recording: { select: { id: true, title: true, transcription: true, analysis: true } },
+        recordings: { select: { id: true, name: true } },
       },
     });
 
@@ -28,7 +35,11 @@ export async function GET(
       return NextResponse.json({ error: 'Form not found' }, { status: 404 });
     }
 
-    return NextResponse.json(form);
+    return NextResponse.json({
+      ...form,
+      template: getFormTemplate(form.type, form.templateVersion),
+      fieldsNeedingReview: getFieldsNeedingReview(parseProvenance(form.fieldProvenance)),
+    });
   } catch (error) {
     console.error('Error fetching form:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -41,7 +52,7 @@ export async function PATCH(
   { params }: { params: { id: string } }
 ) {
   try {
-    const { orgId, userId } = await getAuthContext(request);
+    const { orgId, userId } = await getAuthContext(request, 'forms:write');
 
     if (!orgId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -56,43 +67,157 @@ export async function PATCH(
     }
 
     const body = await request.json();
-    const { title, data, status } = body;
+    const { title, data, status, reviewerId } = body;
+
+    const dataChanged = data !== undefined && JSON.stringify(data) !== JSON.stringify(existingForm.data);
+    const nameChanged = title !== undefined && title !== existingForm.name;
+    const statusChanged = status !== undefined && status !== existingForm.status;
+
+    if ((dataChanged || nameChanged) && isLocked(existingForm.status)) {
+      return NextResponse.json(
+        { error: `Form is ${existingForm.status.toLowerCase()} and can't be changed` },
+        { status: 409 }
+      );
+    }
+
+    if (statusChanged) {
+      if (DECISION_STATUSES.includes(status)) {
+        return NextResponse.json(
+          { error: 'Forms are approved or rejected through /api/v1/forms/{id}/approval' },
+          { status: 400 }
+        );
+      }
 
-    const updateData: any = {};
-    if (title !== undefined) updateData.title = title;
-    if (data !== undefined) updateData.data = data;
+      // The approval only covers what the reviewer saw, so edits can't ride along to the next step
+      if (existingForm.status === 'APPROVED' && (dataChanged || nameChanged) && status !== 'IN_REVIEW') {
+        return NextResponse.json(
+          { error: 'An approved form that is edited goes back to review and must be approved again' },
+          { status: 409 }
+        );
+      }
+
+      const reason = checkTransition(existingForm, status, { userId, role: await getMemberRole(orgId, userId) });
+      if (reason) {
+        return NextResponse.json({ error: reason }, { status: 403 });
+      }
+    }
+
+    const reviewerChanged = reviewerId !== undefined && (reviewerId || null) !== existingForm.reviewerId;
+    if (reviewerChanged) {
+      const reason = checkReviewerChange(existingForm, reviewerId || null, { userId, role: await getMemberRole(orgId, userId) });
+      if (reason) {
+        return NextResponse.json({ error: reason }, { status: isLocked(existingForm.status) ? 409 : 403 });
+      }
+    }
+
+    // Reviewers must be members who can make the decision; null unassigns
+    if (reviewerChanged && reviewerId) {
+      const reviewer = await db.organizationMember.findUnique({
+        where: { organizationId_userId: { organizationId: orgId, userId: reviewerId } },
+      });
+      if (!reviewer || reviewer.role === 'VIEWER') {
+        return NextResponse.json({ error: 'Reviewer must be a member of the organization' }, { status: 400 });
+      }
+    }
+
+    const updateData: Prisma.FormUpdateInput = {};
+    if (title !== undefined) updateData.name = title;
     if (status !== undefined) updateData.status = status;
+    if (reviewerChanged) updateData.reviewerId = reviewerId || null;
 
-    const form = await db.form.update({
-      where: { id: params.id },
-      data: updateData,
-    });
+    // Editing an approved form sends it back to review
+    const reopened = !statusChanged && (dataChanged || nameChanged) ? reopenOnEdit(existingForm) : {};
+    Object.assign(updateData, reopened);
+
+    // Values changed by hand no longer need review
+    let provenance = parseProvenance(existingForm.fieldProvenance);
+    if (data !== undefined) {
+      updateData.data = data;
+      provenance = trackEdits(provenance, existingForm.data, data, userId);
+      updateData.fieldProvenance = provenance as unknown as Prisma.InputJsonValue;
+    }
+
+    // Low-confidence AI values must be reviewed before the form goes to review
+    if (status === 'IN_REVIEW' && statusChanged) {
+      const fields = getFieldsNeedingReview(provenance);
+      if (fields.length > 0) {
+        return NextResponse.json(
+          { error: 'Low-confidence fields must be reviewed before submitting for review', fields },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Forms with blocking validation errors can't be submitted
+    if (status === 'SUBMITTED' && existingForm.status !== 'SUBMITTED') {
+      const validation = validateForm({ ...existingForm, data: data !== undefined ? data : existingForm.data });
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: 'Form has validation errors', errors: validation.errors, warnings: validation.warnings },
+          { status: 422 }
+        );
+      }
+    }
+
+    // Every change to data, name or status becomes a revision; a save that changes nothing doesn't
+    const form = dataChanged || nameChanged || statusChanged
+      ? await updateFormWithRevision(existingForm, updateData, {
+          source: dataChanged || nameChanged ? 'edit' : 'status_change',
+          note: statusChanged
+            ? `Status changed from ${existingForm.status} to ${status}`
+            : reopened.status
+              ? 'Approved form edited and sent back to review'
+              : undefined,
+          createdBy: userId,
+        })
+      : await db.form.update({
+          where: { id: params.id },
+          data: updateData,
+        });
 
     // Create audit log
     await createAuditLog({
       organizationId: orgId,
       userId,
-      action: 'FORM_UPDATED',
-      resourceType: 'form',
-      resourceId: params.id,
-      details: { changes: Object.keys(updateData) },
-      request,
+      action: 'form.updated',
+      entityType: 'form',
+      entityId: form.id,
+      description: `Form "${form.name}" updated`,
+      metadata: { changes: Object.keys(updateData) },
     });
 
+    if (reviewerId !== undefined && form.reviewerId !== existingForm.reviewerId) {
+      await createAuditLog({
+        organizationId: orgId,
+        userId,
+        action: 'form.reviewer_assigned',
+        entityType: 'form',
+        entityId: form.id,
+        description: form.reviewerId
+          ? `Reviewer assigned to form "${form.name}"`
+          : `Reviewer unassigned from form "${form.name}"`,
+        oldValue: { reviewerId: existingForm.reviewerId },
+        newValue: { reviewerId: form.reviewerId },
+      });
+    }
+
     // Create activity if linked to a case
     if (existingForm.caseId) {
       await db.activity.create({
         data: {
           type: 'FORM_UPDATED',
-          content: `Form "${form.title}" updated`,
+          content: `Form "${form.name}" updated`,
           caseId: existingForm.caseId,
-          userId,
+          createdBy: userId,
         },
       });
     }
 
     return NextResponse.json(form);
   } catch (error) {
+    if (error instanceof FormVersionConflictError) {
+      return NextResponse.json({ error: 'Form has changed since it was loaded' }, { status: 409 });
+    }
     console.error('Error updating form:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
@@ -104,7 +229,7 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const { orgId, userId } = await getAuthContext(request);
+    const { orgId, userId } = await getAuthContext(request, 'forms:write');
 
     if (!orgId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -112,25 +237,34 @@ export async function DELETE(
 
     const form = await db.form.findFirst({
       where: { id: params.id, organizationId: orgId },
+      include: { _count: { select: { approvals: true } } },
     });
 
     if (!form) {
       return NextResponse.json({ error: 'Form not found' }, { status: 404 });
     }
 
-    await db.form.delete({
-      where: { id: params.id },
-    });
+    const role = await getMemberRole(orgId, userId);
+    const reason = checkDelete(form, form._count.approvals, { userId, role });
+    if (reason) {
+      return NextResponse.json({ error: reason }, { status: hasRole(role, 'ADMIN') ? 409 : 403 });
+    }
+
+    // Revisions restrict deleting their form, so a never-approved draft's go with it explicitly
+    await db.$transaction([
+      db.formRevision.deleteMany({ where: { formId: form.id } }),
+      db.form.delete({ where: { id: form.id } }),
+    ]);
 
     // Create audit log
     await createAuditLog({
       organizationId: orgId,
       userId,
-      action: 'FORM_DELETED',
-      resourceType: 'form',
-      resourceId: params.id,
-      details: { title: form.title },
-      request,
+      action: 'form.deleted',
+      entityType: 'form',
+      entityId: form.id,
+      description: `Form "${form.name}" deleted`,
+      oldValue: { name: form.name, type: form.type, status: form.status },
     });
 
     return NextResponse.json({ success: true });
@@ -140,12 +274,15 @@ export async function DELETE(
   }
 }
 
-async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
   const apiKey = request.headers.get('x-api-key');
   if (apiKey) {
-    const keyData = await validateApiKey(apiKey, ['forms:read', 'forms:write']);
-    if (keyData) {
-      return { orgId: keyData.organizationId, userId: keyData.createdById };
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
     }
   }
 
@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs';
 import { db } from '@/lib/db';
-import { validateApiKey } from '@/lib/api-keys';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
 import { createAuditLog } from '@/lib/audit';
-import { FormType, FormStatus } from '@prisma/client';
+import { buildFormData, getFormTemplate } from '@/lib/form-templates';
+import { initialRevision } from '@/lib/form-revisions';
+import { FormType, FormStatus, Prisma } from '@prisma/client';
 
 // GET /api/v1/forms - List forms
 export async function GET(request: NextRequest) {
   try {
-    const { orgId } = await getAuthContext(request);
+    const { orgId } = await getAuthContext(request, 'forms:read');
 
     if (!orgId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -57,7 +59,7 @@ export async function GET(request: NextRequest) {
 // POST /api/v1/forms - Create form
 export async function POST(request: NextRequest) {
   try {
-    const { orgId, userId } = await getAuthContext(request);
+    const { orgId, userId } = await getAuthContext(request, 'forms:write');
 
     if (!orgId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -70,6 +72,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Title and type are required' }, { status: 400 });
     }
 
+    if (!Object.values(FormType).includes(type)) {
+      return NextResponse.json({ error: `Unknown form type: ${type}` }, { status: 400 });
+    }
+
     // Verify case belongs to organization if provided
     if (caseId) {
       const caseExists = await db.case.findFirst({
@@ -80,19 +86,32 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Get template for form type
+    if (recordingId) {
+      const recordingExists = await db.recording.findFirst({
+        where: { id: recordingId, organizationId: orgId },
+      });
+      if (!recordingExists) {
+        return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+      }
+    }
+
+    // New forms start from the latest template and stay pinned to its version
     const template = getFormTemplate(type);
 
+    const initialData = { ...buildFormData(template), ...(data || {}) } as Prisma.InputJsonValue;
+
     const form = await db.form.create({
       data: {
-        title,
+        name: title,
         type,
-        data: data || template,
+        templateVersion: template.version,
+        data: initialData,
         status: 'DRAFT',
         organizationId: orgId,
         caseId,
-        recordingId,
-        createdById: userId,
+        createdBy: userId,
+        revisions: { create: initialRevision({ name: title, data: initialData, createdBy: userId }) },
+        ...(recordingId && { recordings: { connect: { id: recordingId } } }),
       },
     });
 
@@ -100,11 +119,11 @@ export async function POST(request: NextRequest) {
     await createAuditLog({
       organizationId: orgId,
       userId,
-      action: 'FORM_CREATED',
-      resourceType: 'form',
-      resourceId: form.id,
-      details: { title, type },
-      request,
+      action: 'form.created',
+      entityType: 'form',
+      entityId: form.id,
+      description: `Form "${title}" created`,
+      newValue: { name: title, type, templateVersion: template.version },
     });
 
     // Create activity if linked to a case
@@ -114,7 +133,7 @@ export async function POST(request: NextRequest) {
           type: 'FORM_CREATED',
           content: `Form "${title}" created`,
           caseId,
-          userId,
+          createdBy: userId,
         },
       });
     }
@@ -126,105 +145,15 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function getFormTemplate(type: FormType): Record<string, any> {
-  const templates: Record<FormType, any> = {
-    PATENT_APPLICATION: {
-      inventionTitle: '',
-      inventors: [],
-      abstract: '',
-      claims: [],
-      description: '',
-      drawings: [],
-      priorityDate: null,
-      filingDate: null,
-      applicationNumber: '',
-      technicalField: '',
-      backgroundArt: '',
-    },
-    TRADEMARK_APPLICATION: {
-      mark: '',
-      markType: '',
-      goodsAndServices: [],
-      classes: [],
-      applicant: {
-        name: '',
-        address: '',
-        entityType: '',
-      },
-      useInCommerce: false,
-      firstUseDate: null,
-      specimens: [],
-    },
-    COPYRIGHT_REGISTRATION: {
-      workTitle: '',
-      workType: '',
-      authors: [],
-      creationDate: null,
-      publicationDate: null,
-      claimant: {
-        name: '',
-        address: '',
-      },
-      workDescription: '',
-      preexistingMaterial: '',
-      deposit: [],
-    },
-    IDS_FORM: {
-      applicationNumber: '',
-      filingDate: null,
-      applicant: '',
-      title: '',
-      references: [],
-      certification: false,
-    },
-    OFFICE_ACTION_RESPONSE: {
-      applicationNumber: '',
-      officeActionDate: null,
-      responseDeadline: null,
-      rejections: [],
-      arguments: [],
-      amendments: [],
-    },
-    ASSIGNMENT: {
-      assignor: {
-        name: '',
-        address: '',
-      },
-      assignee: {
-        name: '',
-        address: '',
-      },
-      ipRights: [],
-      consideration: '',
-      effectiveDate: null,
-    },
-    POWER_OF_ATTORNEY: {
-      principal: {
-        name: '',
-        address: '',
-      },
-      attorney: {
-        name: '',
-        registrationNumber: '',
-        address: '',
-      },
-      scope: [],
-      effectiveDate: null,
-    },
-    OTHER: {
-      fields: {},
-    },
-  };
-
-  return templates[type] || templates.OTHER;
-}
-
-async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
   const apiKey = request.headers.get('x-api-key');
   if (apiKey) {
-    const keyData = await validateApiKey(apiKey, ['forms:read', 'forms:write']);
-    if (keyData) {
-      return { orgId: keyData.organizationId, userId: keyData.createdById };
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
     }
   }
 
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { FormType } from '@prisma/client';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { getFormTemplate, listFormTemplates } from '@/lib/form-templates';
+
+// GET /api/v1/forms/templates - List form templates, or get one with ?type=&version=
+export async function GET(request: NextRequest) {
+  try {
+    const { orgId } = await getAuthContext(request, 'forms:read');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get('type') as FormType | null;
+    const version = searchParams.get('version');
+
+    if (!type) {
+      return NextResponse.json({ data: listFormTemplates() });
+    }
+
+    if (!Object.values(FormType).includes(type)) {
+      return NextResponse.json({ error: `Unknown form type: ${type}` }, { status: 400 });
+    }
+
+    const template = getFormTemplate(type, version ? parseInt(version) : undefined);
+    if (version && template.version !== parseInt(version)) {
+      return NextResponse.json({ error: 'Template version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error('Error fetching form templates:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
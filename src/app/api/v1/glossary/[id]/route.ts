@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { parseGlossaryTerm } from '@/lib/glossary';
+
+// PATCH /api/v1/glossary/[id] - Update a glossary term
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request, 'recordings:write');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await db.glossaryTerm.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Glossary term not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { data, error } = parseGlossaryTerm(body, true);
+
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (data.term && data.term.toLowerCase() !== existing.term.toLowerCase()) {
+      const duplicate = await db.glossaryTerm.findFirst({
+        where: {
+          organizationId: orgId,
+          caseId: existing.caseId,
+          term: { equals: data.term, mode: 'insensitive' },
+        },
+      });
+      if (duplicate) {
+        return NextResponse.json({ error: 'Term already exists in this glossary' }, { status: 409 });
+      }
+    }
+
+    const term = await db.glossaryTerm.update({
+      where: { id: existing.id },
+      data,
+    });
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'glossary.updated',
+      entityType: 'glossary_term',
+      entityId: term.id,
+      description: `Glossary term "${term.term}" updated`,
+      oldValue: { term: existing.term, category: existing.category, variants: existing.variants },
+      newValue: { term: term.term, category: term.category, variants: term.variants },
+    });
+
+    return NextResponse.json(term);
+  } catch (error) {
+    console.error('Error updating glossary term:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/v1/glossary/[id] - Remove a glossary term
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request, 'recordings:write');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const existing = await db.glossaryTerm.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Glossary term not found' }, { status: 404 });
+    }
+
+    await db.glossaryTerm.delete({
+      where: { id: existing.id },
+    });
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'glossary.deleted',
+      entityType: 'glossary_term',
+      entityId: existing.id,
+      description: `Glossary term "${existing.term}" removed`,
+      oldValue: { term: existing.term, category: existing.category, variants: existing.variants, caseId: existing.caseId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting glossary term:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { getGlossary, parseGlossaryTerm } from '@/lib/glossary';
+
+// GET /api/v1/glossary - List glossary terms, including case terms and terms seeded from the case when caseId is given
+export async function GET(request: NextRequest) {
+  try {
+    const { orgId } = await getAuthContext(request, 'recordings:read');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const caseId = searchParams.get('caseId');
+
+    if (caseId) {
+      const caseExists = await db.case.findFirst({
+        where: { id: caseId, organizationId: orgId },
+      });
+      if (!caseExists) {
+        return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+      }
+    }
+
+    const terms = await getGlossary(orgId, caseId);
+
+    return NextResponse.json({ data: terms });
+  } catch (error) {
+    console.error('Error listing glossary:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/v1/glossary - Add a term to the organization or case glossary
+export async function POST(request: NextRequest) {
+  try {
+    const { orgId, userId } = await getAuthContext(request, 'recordings:write');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { data, error } = parseGlossaryTerm(body);
+
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const caseId: string | null = body.caseId || null;
+    if (caseId) {
+      const caseExists = await db.case.findFirst({
+        where: { id: caseId, organizationId: orgId },
+      });
+      if (!caseExists) {
+        return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+      }
+    }
+
+    const duplicate = await db.glossaryTerm.findFirst({
+      where: {
+        organizationId: orgId,
+        caseId,
+        term: { equals: data.term, mode: 'insensitive' },
+      },
+    });
+    if (duplicate) {
+      return NextResponse.json({ error: 'Term already exists in this glossary' }, { status: 409 });
+    }
+
+    const term = await db.glossaryTerm.create({
+      data: {
+        term: data.term!,
+        category: data.category,
+        variants: data.variants,
+        description: data.description,
+        organizationId: orgId,
+        caseId,
+        createdBy: userId,
+      },
+    });
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'glossary.created',
+      entityType: 'glossary_term',
+      entityId: term.id,
+      description: `Glossary term "${term.term}" added`,
+      newValue: { term: term.term, category: term.category, variants: term.variants, caseId },
+    });
+
+    return NextResponse.json(term, { status: 201 });
+  } catch (error) {
+    console.error('Error creating glossary term:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { getAuth } from '@/lib/auth';
+import { db } from '@/lib/db';
+
+// POST /api/v1/notifications/read - Mark the given notifications, or all of them, as read
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await getAuth();
+
+    if (!authUser?.orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { ids } = body;
+
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id: unknown) => typeof id === 'string'))) {
+      return NextResponse.json({ error: 'IDs must be an array of notification IDs' }, { status: 400 });
+    }
+
+    const where: Prisma.NotificationWhereInput = {
+      organizationId: authUser.orgId,
+      userId: authUser.userId,
+      readAt: null,
+    };
+    if (ids) where.id = { in: ids };
+
+    const { count } = await db.notification.updateMany({
+      where,
+      data: { readAt: new Date() },
+    });
+
+    return NextResponse.json({ updated: count });
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
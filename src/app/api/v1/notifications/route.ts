@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { getAuth } from '@/lib/auth';
+import { db } from '@/lib/db';
+
+// GET /api/v1/notifications - List the current user's notifications, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const authUser = await getAuth();
+
+    if (!authUser?.orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
+    const unread = searchParams.get('unread') === 'true';
+
+    const where: Prisma.NotificationWhereInput = {
+      organizationId: authUser.orgId,
+      userId: authUser.userId,
+    };
+
+    const [notifications, unreadCount] = await Promise.all([
+      db.notification.findMany({
+        where: unread ? { ...where, readAt: null } : where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      }),
+      db.notification.count({ where: { ...where, readAt: null } }),
+    ]);
+
+    return NextResponse.json({ data: notifications, unreadCount });
+  } catch (error) {
+    console.error('Error listing notifications:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
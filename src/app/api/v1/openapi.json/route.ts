@@ -120,6 +120,418 @@ const openApiSpec = {
         },
       },
     },
+    '/cases/{id}/docket': {
+      get: {
+        summary: 'Get case docket',
+        tags: ['Docketing'],
+        description: 'Docket events and the deadlines computed from them, with the event types that apply to the case type.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: {
+            description: 'Docket',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    eventTypes: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          value: { $ref: '#/components/schemas/DocketEventType' },
+                          label: { type: 'string' },
+                        },
+                      },
+                    },
+                    events: { type: 'array', items: { $ref: '#/components/schemas/DocketEvent' } },
+                    deadlines: { type: 'array', items: { $ref: '#/components/schemas/Deadline' } },
+                  },
+                },
+              },
+            },
+          },
+          404: { description: 'Case not found' },
+        },
+      },
+      post: {
+        summary: 'Docket event',
+        tags: ['Docketing'],
+        description: 'Records an event on the case and creates the statutory deadlines it triggers for the case type: conversion of a provisional at 12 months, PCT national and regional phase at 30 and 31 months from priority, office action responses with their extension limit, the issue fee or statement of use after allowance, trademark Section 8, 15 and renewal windows, and copyright deposit and registration after publication. Due dates on a weekend or US federal holiday move to the next business day.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['type', 'date'],
+                properties: {
+                  type: { $ref: '#/components/schemas/DocketEventType' },
+                  date: { type: 'string', format: 'date' },
+                  metadata: {
+                    type: 'object',
+                    properties: {
+                      priorityDate: { type: 'string', format: 'date', description: 'PCT: earliest priority date, if earlier than the filing' },
+                      responseMonths: { type: 'integer', minimum: 1, maximum: 6, description: 'Office actions: period set in the action; defaults to 3' },
+                    },
+                  },
+                  note: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          201: {
+            description: 'Event docketed',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    event: { $ref: '#/components/schemas/DocketEvent' },
+                    deadlines: { type: 'array', items: { $ref: '#/components/schemas/Deadline' } },
+                  },
+                },
+              },
+            },
+          },
+          400: { description: 'Invalid date or event type for the case type' },
+          404: { description: 'Case not found' },
+        },
+      },
+    },
+    '/cases/{id}/docket/{eventId}': {
+      delete: {
+        summary: 'Remove docket event',
+        tags: ['Docketing'],
+        description: 'Removes an event docketed in error together with its deadlines.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'eventId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: { description: 'Event removed' },
+          404: { description: 'Docket event not found' },
+        },
+      },
+    },
+    '/deadlines': {
+      get: {
+        summary: 'List deadlines',
+        tags: ['Docketing'],
+        description: 'Deadlines across the organization, soonest first.',
+        parameters: [
+          { name: 'status', in: 'query', schema: { $ref: '#/components/schemas/DeadlineStatus' }, description: 'Defaults to OPEN' },
+          { name: 'caseId', in: 'query', schema: { type: 'string' } },
+          { name: 'assignedTo', in: 'query', schema: { type: 'string' } },
+          { name: 'from', in: 'query', schema: { type: 'string', format: 'date' }, description: 'Due on or after' },
+          { name: 'to', in: 'query', schema: { type: 'string', format: 'date' }, description: 'Due on or before' },
+          { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 50, maximum: 200 } },
+        ],
+        responses: {
+          200: {
+            description: 'Deadlines',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    data: { type: 'array', items: { $ref: '#/components/schemas/Deadline' } },
+                    pagination: { $ref: '#/components/schemas/Pagination' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/deadlines/{id}': {
+      get: {
+        summary: 'Get deadline',
+        tags: ['Docketing'],
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: {
+            description: 'Deadline with its triggering event and the reminders sent',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Deadline' },
+              },
+            },
+          },
+          404: { description: 'Deadline not found' },
+        },
+      },
+      patch: {
+        summary: 'Update deadline',
+        tags: ['Docketing'],
+        description: 'Complete, cancel or reopen a deadline, assign it to a member, or acknowledge it. Reminders go out at the organization\'s offsets before the due date (60, 30, 7 and 1 days by default); each one sent while the deadline is unacknowledged escalates from the team to the team leads and then to the organization admins.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  status: { $ref: '#/components/schemas/DeadlineStatus' },
+                  assignedTo: { type: 'string', nullable: true, description: 'User ID of a member; null unassigns' },
+                  acknowledged: { type: 'boolean', description: 'Confirms someone is handling the deadline, stopping reminder escalation' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Deadline updated',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Deadline' },
+              },
+            },
+          },
+          400: { description: 'Invalid status or assignee' },
+          404: { description: 'Deadline not found' },
+        },
+      },
+    },
+    '/cases/{id}/office-actions': {
+      post: {
+        summary: 'Upload office action',
+        tags: ['Docketing'],
+        description: 'Stores a USPTO office action PDF as a document on a patent case and queues it to be read. The text is extracted on the server, then the language model classifies each rejection and objection (§ 101, 102, 103, 112, double patenting) with the references cited. The job creates an OFFICE_ACTION_RESPONSE form with the rejections filled in and an argument to write for each, and dockets the response deadline from the mailing date. Scanned PDFs without a text layer fail and need OCR first. Poll the returned job; its result has the formId.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          required: true,
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                required: ['file'],
+                properties: {
+                  file: { type: 'string', format: 'binary', description: 'Office action PDF, up to 25 MB' },
+                  provider: { type: 'string', enum: ['openai', 'anthropic'], description: "Defaults to the organization's preferred provider" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          202: {
+            description: 'Document stored and job queued',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    document: { $ref: '#/components/schemas/Document' },
+                    jobId: { type: 'string' },
+                    job: { $ref: '#/components/schemas/Job' },
+                  },
+                },
+              },
+            },
+          },
+          400: { description: 'Not a patent case, or the file is missing, too large or not a PDF' },
+          403: { description: 'Storage limit reached' },
+          404: { description: 'Case not found' },
+        },
+      },
+    },
+    '/cases/{id}/prior-art': {
+      get: {
+        summary: 'List prior art',
+        tags: ['Prior Art'],
+        description: 'Patent documents and literature on the case, one entry per document however often it was cited, with the recordings and office actions citing it and the IDS it is cited in.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'cited', in: 'query', schema: { type: 'boolean' }, description: 'Only references cited (true) or not yet cited (false) in an IDS' },
+        ],
+        responses: {
+          200: {
+            description: 'References',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    data: { type: 'array', items: { $ref: '#/components/schemas/PriorArtReference' } },
+                  },
+                },
+              },
+            },
+          },
+          404: { description: 'Case not found' },
+        },
+      },
+      post: {
+        summary: 'Add prior art',
+        tags: ['Prior Art'],
+        description: 'Adds a reference by hand. The number is read from the citation, e.g. "US 9,123,456 B2", "US 2019/0123456 A1" or "EP 1234567 A1"; literature is added with its full citation.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['citation'],
+                properties: {
+                  citation: { type: 'string' },
+                  category: { type: 'string', enum: ['NON_PATENT_LITERATURE'], description: 'Set for literature; patent documents are recognized from their number' },
+                  date: { type: 'string', format: 'date', description: 'Issue or publication date' },
+                  name: { type: 'string', description: 'Patentee, applicant or first author' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          201: {
+            description: 'Reference added',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/PriorArtReference' },
+              },
+            },
+          },
+          400: { description: 'No single patent or publication number in the citation, or invalid date' },
+          404: { description: 'Case not found' },
+          409: { description: 'The reference is already on the case' },
+        },
+      },
+    },
+    '/cases/{id}/prior-art/{referenceId}': {
+      patch: {
+        summary: 'Update prior art',
+        tags: ['Prior Art'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'referenceId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  kindCode: { type: 'string', nullable: true, example: 'B2' },
+                  date: { type: 'string', format: 'date', nullable: true },
+                  name: { type: 'string', nullable: true },
+                  citation: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Reference updated',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/PriorArtReference' },
+              },
+            },
+          },
+          400: { description: 'Invalid kind code or date' },
+          404: { description: 'Reference not found' },
+        },
+      },
+      delete: {
+        summary: 'Remove prior art',
+        tags: ['Prior Art'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'referenceId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          200: { description: 'Reference removed' },
+          404: { description: 'Reference not found' },
+          409: { description: 'The reference is cited in an IDS' },
+        },
+      },
+    },
+    '/cases/{id}/prior-art/import': {
+      post: {
+        summary: 'Collect prior art',
+        tags: ['Prior Art'],
+        description: 'Reads the patent and publication numbers in the Prior Art/References of every analyzed recording on the case and in the references applied in its office actions, and merges them into the list by number. Recordings are also collected automatically when analyzed, and office actions when read.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: {
+            description: 'References collected',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    created: { type: 'integer', description: 'References new to the case' },
+                    references: { type: 'integer', description: 'References found' },
+                    recordings: { type: 'integer' },
+                    officeActions: { type: 'integer' },
+                  },
+                },
+              },
+            },
+          },
+          404: { description: 'Case not found' },
+        },
+      },
+    },
+    '/cases/{id}/prior-art/ids': {
+      post: {
+        summary: 'Generate IDS',
+        tags: ['Prior Art'],
+        description: 'Creates an INFORMATION_DISCLOSURE_STATEMENT form listing references as on SB/08, and marks them as cited in it. Without referenceIds, every uncited reference is listed except those only the examiner cited, which are already of record. Application details are copied from the case\'s other patent forms. Deleting the form makes its references uncited again.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  referenceIds: { type: 'array', items: { type: 'string' }, description: 'Uncited references to list' },
+                  name: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          201: {
+            description: 'IDS form created',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Form' },
+              },
+            },
+          },
+          400: { description: 'Not a patent case, no uncited references, or references not on the case' },
+          404: { description: 'Case not found' },
+          409: { description: 'References were cited in another IDS meanwhile' },
+        },
+      },
+    },
+    '/calendar.ics': {
+      get: {
+        summary: 'Deadline calendar feed',
+        tags: ['Docketing'],
+        description: 'iCalendar feed of the deadlines assigned to a user and the unassigned deadlines on their teams\' cases, for subscribing in Outlook or Google Calendar. Authenticated by the feed token in the URL instead of an API key; users create and revoke feeds on the Calendar page, where admins can also revoke other members\' feeds. A feed stops working once its owner leaves the organization.',
+        security: [],
+        parameters: [{ name: 'token', in: 'query', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: {
+            description: 'iCalendar document with one all-day event per deadline',
+            content: { 'text/calendar': { schema: { type: 'string' } } },
+          },
+          401: { description: 'Invalid or revoked feed token, or its owner is no longer a member' },
+        },
+      },
+    },
     '/recordings': {
       get: {
         summary: 'List recordings',
@@ -170,44 +582,943 @@ const openApiSpec = {
         },
       },
     },
-    '/recordings/{id}/transcribe': {
+    '/recordings/{id}/upload': {
       post: {
-        summary: 'Transcribe recording',
+        summary: 'Get audio upload URL',
         tags: ['Recordings'],
-        description: 'Transcribes audio using OpenAI Whisper API',
+        description: 'Returns a short-lived signed URL for uploading the audio file directly to storage',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  mimeType: { type: 'string', example: 'audio/webm' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Signed upload URL',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    key: { type: 'string' },
+                    upload: { $ref: '#/components/schemas/SignedUrl' },
+                  },
+                },
+              },
+            },
+          },
+          403: { description: 'Storage limit reached for plan' },
+        },
+      },
+    },
+    '/recordings/{id}/upload/complete': {
+      post: {
+        summary: 'Complete audio upload',
+        tags: ['Recordings'],
+        description: 'Confirms the upload and records file size and MIME type on the recording',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['key'],
+                properties: {
+                  key: { type: 'string' },
+                  duration: { type: 'integer', minimum: 0 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Recording updated',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Recording' },
+              },
+            },
+          },
+          400: { description: 'Invalid body or storage key, or the uploaded file is not audio' },
+        },
+      },
+    },
+    '/recordings/{id}/chunks': {
+      get: {
+        summary: 'Get chunked upload progress',
+        tags: ['Recordings'],
+        description: 'Returns the chunks received so far so an interrupted upload can be resumed',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: {
+            description: 'Upload progress',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    uploadedChunks: { type: 'array', items: { type: 'integer' } },
+                    receivedBytes: { type: 'integer' },
+                    nextIndex: { type: 'integer' },
+                    completed: { type: 'boolean' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/recordings/{id}/chunks/{index}': {
+      put: {
+        summary: 'Upload audio chunk',
+        tags: ['Recordings'],
+        description: 'Uploads one chunk (max 4MB) of the audio file. Re-sending an index overwrites it.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'index', in: 'path', required: true, schema: { type: 'integer', minimum: 0, maximum: 999 } },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/octet-stream': {
+              schema: { type: 'string', format: 'binary' },
+            },
+          },
+        },
+        responses: {
+          200: { description: 'Chunk stored' },
+          403: { description: 'Storage limit reached' },
+          409: { description: 'Upload already completed' },
+          413: { description: 'Chunk too large' },
+        },
+      },
+    },
+    '/recordings/{id}/chunks/complete': {
+      post: {
+        summary: 'Complete chunked upload',
+        tags: ['Recordings'],
+        description: 'Assembles the uploaded chunks into the final audio file',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['totalChunks'],
+                properties: {
+                  totalChunks: { type: 'integer', minimum: 1, maximum: 1000 },
+                  title: { type: 'string' },
+                  duration: { type: 'integer', minimum: 0 },
+                  mimeType: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Recording updated',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Recording' },
+              },
+            },
+          },
+          409: {
+            description: 'Chunks missing; re-send the listed indexes',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    error: { type: 'string' },
+                    missing: { type: 'array', items: { type: 'integer' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/recordings/{id}/audio': {
+      get: {
+        summary: 'Download audio',
+        tags: ['Recordings'],
+        description: 'Redirects to a short-lived signed download URL for the audio file',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          307: { description: 'Redirect to signed download URL' },
+          404: { description: 'No audio file uploaded' },
+        },
+      },
+    },
+    '/recordings/{id}/transcribe': {
+      post: {
+        summary: 'Transcribe recording',
+        tags: ['Recordings'],
+        description: 'Queues transcription with OpenAI Whisper API. Recordings over the 25MB provider limit are split on silence, transcribed in segments and stitched back together. Poll the returned job for completion.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          202: {
+            description: 'Job queued',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/JobAccepted' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/recordings/{id}/analyze': {
+      post: {
+        summary: 'Analyze recording',
+        tags: ['Recordings'],
+        description: 'Queues AI analysis of the transcription to extract IP-relevant information. Poll the returned job for completion.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  provider: { type: 'string', enum: ['openai', 'anthropic', 'mock'], description: 'Defaults to the organization\'s preferred provider. Falls back to the other provider on errors.' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          202: {
+            description: 'Job queued',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/JobAccepted' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/recordings/{id}/transcript': {
+      get: {
+        summary: 'Get transcript',
+        tags: ['Recordings'],
+        description: 'Returns the current transcript with word timings and its revision history',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: { description: 'Transcript and revisions' },
+        },
+      },
+      put: {
+        summary: 'Correct transcript',
+        tags: ['Recordings'],
+        description: 'Saves corrected segment text as a new transcript revision. If the recording was analyzed, analysis is queued again against the corrected text.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['segments'],
+                properties: {
+                  baseVersion: { type: 'integer', description: 'Revision the edits were made against' },
+                  segments: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      required: ['id', 'text'],
+                      properties: {
+                        id: { type: 'integer' },
+                        text: { type: 'string' },
+                        speaker: { type: 'string' },
+                      },
+                    },
+                  },
+                  note: { type: 'string' },
+                  reanalyze: { type: 'boolean', default: true },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Revision saved',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    version: { type: 'integer' },
+                    transcript: { type: 'string' },
+                    transcriptData: { type: 'object' },
+                    jobId: { type: 'string', nullable: true },
+                  },
+                },
+              },
+            },
+          },
+          409: { description: 'Transcript changed since baseVersion, or is being transcribed' },
+        },
+      },
+    },
+    '/recordings/{id}/speakers': {
+      get: {
+        summary: 'List speakers',
+        tags: ['Recordings'],
+        description: 'Lists diarized speakers, who each is mapped to, and their speaking time in seconds',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: {
+            description: 'Speakers',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    speakers: { type: 'array', items: { $ref: '#/components/schemas/Speaker' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      put: {
+        summary: 'Map speakers to people',
+        tags: ['Recordings'],
+        description: 'Maps diarized speakers to a name, role and optionally a team member. Send null to clear a field.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  speakers: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      required: ['id'],
+                      properties: {
+                        id: { type: 'string' },
+                        name: { type: 'string', nullable: true },
+                        role: { $ref: '#/components/schemas/SpeakerRole' },
+                        userId: { type: 'string', nullable: true },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: { description: 'Speakers updated' },
+          400: { description: 'Unknown speaker, role or user' },
+        },
+      },
+    },
+    '/glossary': {
+      get: {
+        summary: 'List glossary terms',
+        tags: ['Glossary'],
+        description: 'Lists organization terms. With caseId, also includes the case\'s own terms and terms seeded from its tags and client name.',
+        parameters: [{ name: 'caseId', in: 'query', schema: { type: 'string' } }],
+        responses: {
+          200: {
+            description: 'Glossary terms',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    data: { type: 'array', items: { $ref: '#/components/schemas/GlossaryTerm' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        summary: 'Add glossary term',
+        tags: ['Glossary'],
+        description: 'Adds a canonical spelling used as the transcription prompt, to correct transcripts and in analysis. Omit caseId for an organization-wide term.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/GlossaryTermInput' },
+            },
+          },
+        },
+        responses: {
+          201: { description: 'Term created' },
+          400: { description: 'Invalid term' },
+          409: { description: 'Term already exists in this glossary' },
+        },
+      },
+    },
+    '/glossary/{id}': {
+      patch: {
+        summary: 'Update glossary term',
+        tags: ['Glossary'],
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/GlossaryTermInput' },
+            },
+          },
+        },
+        responses: {
+          200: { description: 'Term updated' },
+          400: { description: 'Invalid term' },
+          409: { description: 'Term already exists in this glossary' },
+        },
+      },
+      delete: {
+        summary: 'Delete glossary term',
+        tags: ['Glossary'],
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: { description: 'Term deleted' },
+        },
+      },
+    },
+    '/forms': {
+      get: {
+        summary: 'List forms',
+        tags: ['Forms'],
+        parameters: [
+          { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 } },
+          { name: 'caseId', in: 'query', schema: { type: 'string' } },
+          { name: 'type', in: 'query', schema: { $ref: '#/components/schemas/FormType' } },
+          { name: 'status', in: 'query', schema: { $ref: '#/components/schemas/FormStatus' } },
+        ],
+        responses: {
+          200: {
+            description: 'List of forms',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    data: { type: 'array', items: { $ref: '#/components/schemas/Form' } },
+                    pagination: { $ref: '#/components/schemas/Pagination' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        summary: 'Create form',
+        tags: ['Forms'],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/CreateFormRequest' },
+            },
+          },
+        },
+        responses: {
+          201: {
+            description: 'Form created',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Form' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/forms/templates': {
+      get: {
+        summary: 'List form templates',
+        tags: ['Forms'],
+        description: 'Without parameters, returns the latest template of every form type. With type (and optionally version), returns that template.',
+        parameters: [
+          { name: 'type', in: 'query', schema: { $ref: '#/components/schemas/FormType' } },
+          { name: 'version', in: 'query', schema: { type: 'integer' } },
+        ],
+        responses: {
+          200: {
+            description: 'Template list, or a single template when type is given',
+            content: {
+              'application/json': {
+                schema: {
+                  oneOf: [
+                    {
+                      type: 'object',
+                      properties: {
+                        data: { type: 'array', items: { $ref: '#/components/schemas/FormTemplate' } },
+                      },
+                    },
+                    { $ref: '#/components/schemas/FormTemplate' },
+                  ],
+                },
+              },
+            },
+          },
+          404: { description: 'Template version not found' },
+        },
+      },
+    },
+    '/forms/{id}': {
+      get: {
+        summary: 'Get form',
+        tags: ['Forms'],
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: {
+            description: 'Form details',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Form' },
+              },
+            },
+          },
+        },
+      },
+      patch: {
+        summary: 'Update form',
+        tags: ['Forms'],
+        description: 'Status changes follow the approval workflow: DRAFT → IN_REVIEW → APPROVED → SUBMITTED → FILED, with REJECTED forms going back to DRAFT or IN_REVIEW. Moving to SUBMITTED or FILED needs an admin. Changing the data or title of an APPROVED form sends it back to IN_REVIEW.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/UpdateFormRequest' },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Form updated',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Form' },
+              },
+            },
+          },
+          400: { description: 'Status is APPROVED or REJECTED, which go through the approval endpoint, or the reviewer is not a member' },
+          403: { description: 'The status change is not allowed from the current status or for your role' },
+          409: { description: 'Form is submitted or filed, or has unreviewed low-confidence fields; the response lists them in `fields`' },
+          422: {
+            description: 'Moving to SUBMITTED was blocked by validation errors',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ValidationResult' },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        summary: 'Delete form',
+        tags: ['Forms'],
+        description: 'Admins only. Forms that are approved, submitted or filed, or have an approval on record, are kept with their history.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: { description: 'Form deleted' },
+          403: { description: 'Caller is not an admin' },
+          409: { description: 'Form has been approved or sent to the office' },
+        },
+      },
+    },
+    '/forms/{id}/validate': {
+      post: {
+        summary: 'Validate form',
+        tags: ['Forms'],
+        description: 'Checks form data against its template and the USPTO/Copyright Office filing rules for its type. Errors block the move to SUBMITTED; warnings do not. Send data to check unsaved changes.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          required: false,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  data: { type: 'object', description: 'Form data to check instead of the saved data' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Validation result',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ValidationResult' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/forms/{id}/pdf': {
+      get: {
+        summary: 'Preview form PDF',
+        tags: ['Forms'],
+        description: 'Renders the form as a filing-ready PDF without saving it: a cover sheet for provisional patents, a TEAS-style summary for trademarks, an application summary for copyrights, or the agreement text for NDAs, assignments and licenses. The same form data always renders the same bytes.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: {
+            description: 'PDF document',
+            content: { 'application/pdf': { schema: { type: 'string', format: 'binary' } } },
+          },
+          404: { description: 'Form not found' },
+        },
+      },
+      post: {
+        summary: 'Save form PDF to case',
+        tags: ['Forms'],
+        description: 'Renders the form as a PDF and stores it as a document on the case the form is linked to.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          201: {
+            description: 'Document created',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Document' },
+              },
+            },
+          },
+          400: { description: 'Form is not linked to a case' },
+          404: { description: 'Form not found' },
+        },
+      },
+    },
+    '/documents/{id}/download': {
+      get: {
+        summary: 'Download document',
+        tags: ['Cases'],
+        description: 'Redirects to a short-lived signed download URL for a case document',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          307: { description: 'Redirect to signed download URL' },
+          404: { description: 'Document not found' },
+        },
+      },
+    },
+    '/forms/{id}/review': {
+      post: {
+        summary: 'Mark populated fields as reviewed',
+        tags: ['Forms'],
+        description: 'Marks AI-populated fields as reviewed by a person. Low-confidence fields must be reviewed before a form can move from DRAFT to IN_REVIEW.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['paths'],
+                properties: {
+                  paths: { type: 'array', items: { type: 'string' }, description: 'Dot paths of the reviewed fields' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Fields reviewed',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    fieldProvenance: { type: 'object', additionalProperties: { $ref: '#/components/schemas/FieldProvenance' } },
+                    proposedChanges: {
+            type: 'object',
+            description: 'Values proposed by auto-population awaiting acceptance, keyed by dot path into data',
+          },
+          fieldsNeedingReview: { type: 'array', items: { type: 'string' } },
+                  },
+                },
+              },
+            },
+          },
+          400: { description: 'No populated value at one of the paths' },
+        },
+      },
+    },
+    '/forms/{id}/changes': {
+      get: {
+        summary: 'List proposed changes',
+        tags: ['Forms'],
+        description: 'Per-field diff of values proposed by auto-population against the current form data.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: {
+            description: 'Proposed changes',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    changes: { type: 'array', items: { $ref: '#/components/schemas/FieldChange' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        summary: 'Accept or reject proposed changes',
+        tags: ['Forms'],
+        description: 'Accepted values are merged into the form data; rejected ones are discarded. Omit paths to decide on every proposed change.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['decision'],
+                properties: {
+                  decision: { type: 'string', enum: ['accept', 'reject'] },
+                  paths: { type: 'array', items: { type: 'string' } },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Changes resolved',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    form: { $ref: '#/components/schemas/Form' },
+                    changes: { type: 'array', items: { $ref: '#/components/schemas/FieldChange' } },
+                  },
+                },
+              },
+            },
+          },
+          400: { description: 'Invalid decision or no proposed change at one of the paths' },
+        },
+      },
+    },
+    '/forms/{id}/populate': {
+      post: {
+        summary: 'Auto-populate form',
+        tags: ['Forms'],
+        description: 'Queues AI population of form fields from recording analysis. Populated values are stored as proposed changes and only written to the form once accepted. Poll the returned job for completion.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  recordingId: { type: 'string', description: 'Recording ID to populate from' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          202: {
+            description: 'Job queued',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/JobAccepted' },
+              },
+            },
+          },
+          400: { description: 'Recording has no analysis or transcription' },
+          404: { description: 'Form or recording not found' },
+          409: { description: 'Form is submitted or filed and can\'t be changed' },
+        },
+      },
+    },
+    '/forms/{id}/claims/suggestions': {
+      post: {
+        summary: 'Suggest dependent claims',
+        tags: ['Forms'],
+        description: 'Suggests dependent claims for a PATENT_CLAIMS form from the Technical Details and Claims/Rights of analyzed recordings linked to the form or its case. Suggestions are not written to the form.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  provider: { type: 'string', enum: ['openai', 'anthropic'], description: "Defaults to the organization's preferred provider" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Suggested claims',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    suggestions: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          dependsOn: { type: 'integer' },
+                          claimText: { type: 'string' },
+                          basis: { type: 'string', enum: ['technical_details', 'claims_rights'] },
+                          rationale: { type: 'string' },
+                          antecedentIssues: { type: 'array', items: { type: 'string' }, description: 'Terms without antecedent basis' },
+                        },
+                      },
+                    },
+                    recordings: { type: 'array', items: { type: 'string' } },
+                    provider: { type: 'string' },
+                    model: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          400: { description: 'Not a claim set, no claims, or no analyzed recordings' },
+          503: { description: 'No LLM provider available' },
+        },
+      },
+    },
+    '/forms/{id}/goods-services/suggestions': {
+      post: {
+        summary: 'Suggest Nice classes',
+        tags: ['Forms'],
+        description: 'Suggests Nice classes and ID Manual-style identifications for a trademark application from a bundled dataset. Matches the description given, or without one the analyzed recordings linked to the form or its case. Identifications with a {placeholder} need the specifics filled in. Suggestions are not written to the form.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  description: { type: 'string', description: 'The goods or services in plain words' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Suggested classes, best match first',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    suggestions: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          niceClass: { type: 'integer', minimum: 1, maximum: 45 },
+                          kind: { type: 'string', enum: ['goods', 'services'] },
+                          heading: { type: 'string' },
+                          score: { type: 'number', description: '0-1' },
+                          identifications: {
+                            type: 'array',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                description: { type: 'string' },
+                                needsCompletion: { type: 'boolean' },
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                    recordings: { type: 'array', items: { type: 'string' }, description: 'Recordings the suggestions were drawn from' },
+                  },
+                },
+              },
+            },
+          },
+          400: { description: 'Not a trademark application, or no description and no analyzed recordings' },
+        },
+      },
+    },
+    '/forms/{id}/approval': {
+      get: {
+        summary: 'Get form approvals',
+        tags: ['Forms'],
+        description: 'Reviewer decisions, newest first. For an approved form, attestation is the approval it holds and valid says whether the data still hashes the same.',
         parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
         responses: {
           200: {
-            description: 'Transcription result',
+            description: 'Approvals',
             content: {
               'application/json': {
                 schema: {
                   type: 'object',
                   properties: {
-                    id: { type: 'string' },
-                    transcription: { type: 'string' },
-                    status: { type: 'string' },
+                    status: { $ref: '#/components/schemas/FormStatus' },
+                    reviewerId: { type: 'string', nullable: true },
+                    dataHash: { type: 'string', description: 'Hash of the current form data' },
+                    attestation: {
+                      nullable: true,
+                      allOf: [
+                        { $ref: '#/components/schemas/FormApproval' },
+                        { type: 'object', properties: { valid: { type: 'boolean' } } },
+                      ],
+                    },
+                    approvals: { type: 'array', items: { $ref: '#/components/schemas/FormApproval' } },
                   },
                 },
               },
             },
           },
+          404: { description: 'Form not found' },
         },
       },
-    },
-    '/recordings/{id}/analyze': {
       post: {
-        summary: 'Analyze recording',
-        tags: ['Recordings'],
-        description: 'Analyzes transcription using AI to extract IP-relevant information',
+        summary: 'Approve or reject form',
+        tags: ['Forms'],
+        description: 'Decides on a form in IN_REVIEW. Only the assigned reviewer or an admin can decide, and never on a form they created. Approving needs a typed signature and records a hash of the form data; rejecting needs a comment.',
         parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
         requestBody: {
           content: {
             'application/json': {
               schema: {
                 type: 'object',
+                required: ['decision'],
                 properties: {
-                  provider: { type: 'string', enum: ['openai', 'anthropic'], default: 'openai' },
+                  decision: { type: 'string', enum: ['approve', 'reject'] },
+                  signature: { type: 'string', description: 'Approver\'s full name; required to approve' },
+                  comment: { type: 'string', description: 'Required to reject' },
+                  dataHash: { type: 'string', description: 'Hash of the data the reviewer saw; the decision fails if the form has changed since' },
                 },
               },
             },
@@ -215,148 +1526,148 @@ const openApiSpec = {
         },
         responses: {
           200: {
-            description: 'Analysis result',
+            description: 'Decision recorded',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/AnalysisResult' },
+                schema: {
+                  type: 'object',
+                  properties: {
+                    form: { $ref: '#/components/schemas/Form' },
+                    approval: { $ref: '#/components/schemas/FormApproval' },
+                  },
+                },
               },
             },
           },
+          400: { description: 'Missing signature or comment' },
+          403: { description: 'Not the assigned reviewer or an admin, or the form\'s author' },
+          409: { description: 'Form is not in review, or has changed since it was loaded' },
         },
       },
     },
-    '/forms': {
+    '/forms/{id}/revisions': {
       get: {
-        summary: 'List forms',
+        summary: 'List form revisions',
         tags: ['Forms'],
-        parameters: [
-          { name: 'page', in: 'query', schema: { type: 'integer', default: 1 } },
-          { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 } },
-          { name: 'caseId', in: 'query', schema: { type: 'string' } },
-          { name: 'type', in: 'query', schema: { $ref: '#/components/schemas/FormType' } },
-          { name: 'status', in: 'query', schema: { $ref: '#/components/schemas/FormStatus' } },
-        ],
+        description: 'Revision history of a form, newest first. A revision is written on every change to the form data, name or status, and on population. Snapshots are left out; fetch a single revision for its data.',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
         responses: {
           200: {
-            description: 'List of forms',
+            description: 'Revision history',
             content: {
               'application/json': {
                 schema: {
                   type: 'object',
                   properties: {
-                    data: { type: 'array', items: { $ref: '#/components/schemas/Form' } },
-                    pagination: { $ref: '#/components/schemas/Pagination' },
+                    version: { type: 'integer', description: 'Current form version' },
+                    revisions: { type: 'array', items: { $ref: '#/components/schemas/FormRevision' } },
                   },
                 },
               },
             },
           },
+          404: { description: 'Form not found' },
         },
       },
-      post: {
-        summary: 'Create form',
+    },
+    '/forms/{id}/revisions/diff': {
+      get: {
+        summary: 'Compare form revisions',
         tags: ['Forms'],
-        requestBody: {
-          required: true,
-          content: {
-            'application/json': {
-              schema: { $ref: '#/components/schemas/CreateFormRequest' },
-            },
-          },
-        },
+        description: 'Field-level changes between two revisions. Defaults to the changes made by the latest revision.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'from', in: 'query', schema: { type: 'integer' }, description: 'Defaults to the version before to' },
+          { name: 'to', in: 'query', schema: { type: 'integer' }, description: 'Defaults to the current version' },
+        ],
         responses: {
-          201: {
-            description: 'Form created',
+          200: {
+            description: 'Changes between the revisions',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/Form' },
+                schema: {
+                  type: 'object',
+                  properties: {
+                    from: { $ref: '#/components/schemas/FormRevision' },
+                    to: { $ref: '#/components/schemas/FormRevision' },
+                    changes: { type: 'array', items: { $ref: '#/components/schemas/FieldDiff' } },
+                  },
+                },
               },
             },
           },
+          404: { description: 'Form or revision not found' },
         },
       },
     },
-    '/forms/{id}': {
+    '/forms/{id}/revisions/{version}': {
       get: {
-        summary: 'Get form',
+        summary: 'Get form revision',
         tags: ['Forms'],
-        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        description: 'A single revision including its snapshot of the form data.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'version', in: 'path', required: true, schema: { type: 'integer' } },
+        ],
         responses: {
           200: {
-            description: 'Form details',
+            description: 'Revision',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/Form' },
+                schema: { $ref: '#/components/schemas/FormRevision' },
               },
             },
           },
+          404: { description: 'Revision not found' },
         },
       },
-      patch: {
-        summary: 'Update form',
+    },
+    '/forms/{id}/revisions/{version}/restore': {
+      post: {
+        summary: 'Restore form revision',
         tags: ['Forms'],
-        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
-        requestBody: {
-          content: {
-            'application/json': {
-              schema: { $ref: '#/components/schemas/UpdateFormRequest' },
-            },
-          },
-        },
+        description: 'Copies the name and data of a revision back onto the form as a new revision. The form status is not changed, except that an approved form goes back to review. Submitted and filed forms cannot be restored.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'version', in: 'path', required: true, schema: { type: 'integer' } },
+        ],
         responses: {
           200: {
-            description: 'Form updated',
+            description: 'Form restored',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/Form' },
+                schema: {
+                  type: 'object',
+                  properties: {
+                    form: { $ref: '#/components/schemas/Form' },
+                    changes: { type: 'array', items: { $ref: '#/components/schemas/FieldDiff' } },
+                  },
+                },
               },
             },
           },
-        },
-      },
-      delete: {
-        summary: 'Delete form',
-        tags: ['Forms'],
-        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
-        responses: {
-          200: { description: 'Form deleted' },
+          400: { description: 'Revision is already the current version' },
+          404: { description: 'Form or revision not found' },
+          409: { description: 'Form is locked or changed concurrently' },
         },
       },
     },
-    '/forms/{id}/populate': {
-      post: {
-        summary: 'Auto-populate form',
-        tags: ['Forms'],
-        description: 'Uses AI to populate form fields from recording analysis',
+    '/jobs/{id}': {
+      get: {
+        summary: 'Get job status',
+        tags: ['Jobs'],
+        description: 'Poll a background transcription, analysis or form population job. Failed attempts are retried with backoff before the job is marked FAILED.',
         parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
-        requestBody: {
-          content: {
-            'application/json': {
-              schema: {
-                type: 'object',
-                properties: {
-                  recordingId: { type: 'string', description: 'Recording ID to populate from' },
-                },
-              },
-            },
-          },
-        },
         responses: {
           200: {
-            description: 'Form populated',
+            description: 'Job details',
             content: {
               'application/json': {
-                schema: {
-                  type: 'object',
-                  properties: {
-                    id: { type: 'string' },
-                    data: { type: 'object' },
-                    fieldsPopulated: { type: 'integer' },
-                  },
-                },
+                schema: { $ref: '#/components/schemas/Job' },
               },
             },
           },
+          404: { description: 'Job not found' },
         },
       },
     },
@@ -384,15 +1695,30 @@ const openApiSpec = {
       },
       RecordingStatus: {
         type: 'string',
-        enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'],
+        enum: ['PENDING', 'PROCESSING', 'TRANSCRIBED', 'ANALYZED', 'FAILED'],
       },
       FormType: {
         type: 'string',
-        enum: ['PATENT_APPLICATION', 'TRADEMARK_APPLICATION', 'COPYRIGHT_REGISTRATION', 'IDS_FORM', 'OFFICE_ACTION_RESPONSE', 'ASSIGNMENT', 'POWER_OF_ATTORNEY', 'OTHER'],
+        enum: [
+          'PATENT_PROVISIONAL',
+          'PATENT_NONPROVISIONAL',
+          'PATENT_CLAIMS',
+          'OFFICE_ACTION_RESPONSE',
+          'INFORMATION_DISCLOSURE_STATEMENT',
+          'TRADEMARK_TEAS_PLUS',
+          'TRADEMARK_TEAS_STANDARD',
+          'TRADEMARK_INTENT_TO_USE',
+          'COPYRIGHT_STANDARD',
+          'COPYRIGHT_GROUP',
+          'NDA',
+          'ASSIGNMENT',
+          'LICENSE',
+          'CUSTOM',
+        ],
       },
       FormStatus: {
         type: 'string',
-        enum: ['DRAFT', 'IN_REVIEW', 'APPROVED', 'SUBMITTED', 'REJECTED'],
+        enum: ['DRAFT', 'IN_REVIEW', 'APPROVED', 'SUBMITTED', 'FILED', 'REJECTED'],
       },
       Pagination: {
         type: 'object',
@@ -427,6 +1753,7 @@ const openApiSpec = {
             properties: {
               forms: { type: 'array', items: { $ref: '#/components/schemas/Form' } },
               recordings: { type: 'array', items: { $ref: '#/components/schemas/Recording' } },
+              documents: { type: 'array', items: { $ref: '#/components/schemas/Document' } },
               activities: { type: 'array', items: { $ref: '#/components/schemas/Activity' } },
             },
           },
@@ -464,6 +1791,8 @@ const openApiSpec = {
           fileSize: { type: 'integer' },
           status: { $ref: '#/components/schemas/RecordingStatus' },
           transcription: { type: 'string' },
+          analysisProvider: { type: 'string', enum: ['openai', 'anthropic', 'mock'], nullable: true },
+          analysisResult: { allOf: [{ $ref: '#/components/schemas/AnalysisResult' }], nullable: true },
           createdAt: { type: 'string', format: 'date-time' },
         },
       },
@@ -486,10 +1815,169 @@ const openApiSpec = {
           type: { $ref: '#/components/schemas/FormType' },
           status: { $ref: '#/components/schemas/FormStatus' },
           data: { type: 'object' },
+          templateVersion: { type: 'integer', description: 'Version of the template the form was created with' },
+          version: { type: 'integer', description: 'Version of the latest revision' },
+          reviewerId: { type: 'string', nullable: true, description: 'Member assigned to approve or reject the form' },
+          template: { $ref: '#/components/schemas/FormTemplate' },
+          fieldProvenance: {
+            type: 'object',
+            description: 'Source of each AI-populated value, keyed by dot path into data',
+            additionalProperties: { $ref: '#/components/schemas/FieldProvenance' },
+          },
+          fieldsNeedingReview: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Paths of low-confidence values nobody has reviewed yet',
+          },
           createdAt: { type: 'string', format: 'date-time' },
           updatedAt: { type: 'string', format: 'date-time' },
         },
       },
+      FormTemplate: {
+        type: 'object',
+        properties: {
+          type: { $ref: '#/components/schemas/FormType' },
+          version: { type: 'integer' },
+          name: { type: 'string' },
+          description: { type: 'string' },
+          sections: {
+            type: 'array',
+            items: {
+              type: 'object',
+              description: 'Fields of a repeatable section are stored as an array of entries under the section id; others at the top level of data',
+              properties: {
+                id: { type: 'string' },
+                title: { type: 'string' },
+                description: { type: 'string' },
+                repeatable: { type: 'boolean' },
+                minEntries: { type: 'integer' },
+                fields: { type: 'array', items: { $ref: '#/components/schemas/TemplateField' } },
+              },
+            },
+          },
+        },
+      },
+      TemplateField: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          label: { type: 'string' },
+          type: { type: 'string', enum: ['text', 'textarea', 'email', 'tel', 'date', 'number', 'select', 'checkbox'] },
+          required: { type: 'boolean' },
+          helpText: { type: 'string' },
+          placeholder: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' } },
+          rows: { type: 'integer' },
+          validation: {
+            type: 'object',
+            properties: {
+              pattern: { type: 'string' },
+              minLength: { type: 'integer' },
+              maxLength: { type: 'integer' },
+              min: { type: 'number' },
+              max: { type: 'number' },
+              message: { type: 'string' },
+            },
+          },
+          aliases: { type: 'array', items: { type: 'string' }, description: 'Other names used to match extracted values to the field' },
+        },
+      },
+      FieldProvenance: {
+        type: 'object',
+        properties: {
+          source: { type: 'string', enum: ['ai'] },
+          recordingId: { type: 'string' },
+          provider: { type: 'string' },
+          model: { type: 'string' },
+          confidence: { type: 'number', minimum: 0, maximum: 1 },
+          start: { type: 'number', nullable: true, description: 'Start of the supporting transcript span, in seconds' },
+          end: { type: 'number', nullable: true },
+          quote: { type: 'string', nullable: true },
+          populatedAt: { type: 'string', format: 'date-time' },
+          reviewedAt: { type: 'string', format: 'date-time' },
+          reviewedBy: { type: 'string' },
+          editedAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      ValidationResult: {
+        type: 'object',
+        properties: {
+          valid: { type: 'boolean' },
+          errors: { type: 'array', items: { $ref: '#/components/schemas/ValidationIssue' } },
+          warnings: { type: 'array', items: { $ref: '#/components/schemas/ValidationIssue' } },
+        },
+      },
+      ValidationIssue: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Dot path into data, or a section id' },
+          rule: { type: 'string' },
+          message: { type: 'string' },
+          severity: { type: 'string', enum: ['error', 'warning'] },
+        },
+      },
+      FieldChange: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          current: { description: 'Value the form holds now' },
+          proposed: { description: 'Value suggested by auto-population' },
+          provenance: { $ref: '#/components/schemas/FieldProvenance' },
+        },
+      },
+      FormRevision: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          version: { type: 'integer' },
+          name: { type: 'string' },
+          status: { $ref: '#/components/schemas/FormStatus' },
+          data: { type: 'object', description: 'Form data at this version; only returned for a single revision' },
+          source: {
+            type: 'string',
+            enum: ['created', 'edit', 'status_change', 'populate', 'changes_accepted', 'restore'],
+          },
+          note: { type: 'string', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+          createdBy: { type: 'string' },
+        },
+      },
+      FormApproval: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          version: { type: 'integer', description: 'Form version the decision produced' },
+          decision: { type: 'string', enum: ['approved', 'rejected'] },
+          comment: { type: 'string', nullable: true, description: 'Required on rejection' },
+          signature: { type: 'string', nullable: true, description: 'Name typed by the approver' },
+          dataHash: { type: 'string', description: 'SHA-256 of the form data at decision time, with object keys sorted' },
+          createdAt: { type: 'string', format: 'date-time' },
+          createdBy: { type: 'string' },
+        },
+      },
+      FieldDiff: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Dot path into data' },
+          kind: { type: 'string', enum: ['added', 'removed', 'changed'] },
+          before: { description: 'Value in the older revision' },
+          after: { description: 'Value in the newer revision' },
+        },
+      },
+      Document: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          caseId: { type: 'string' },
+          formId: { type: 'string', nullable: true, description: 'Form the document was generated from, or the response form created from an office action' },
+          name: { type: 'string' },
+          type: { type: 'string', description: 'MIME type' },
+          fileUrl: { type: 'string', description: 'Storage key; use the download endpoint to fetch the file' },
+          fileSize: { type: 'integer' },
+          createdAt: { type: 'string', format: 'date-time' },
+          createdBy: { type: 'string' },
+        },
+      },
       CreateFormRequest: {
         type: 'object',
         required: ['title', 'type'],
@@ -507,25 +1995,262 @@ const openApiSpec = {
           title: { type: 'string' },
           data: { type: 'object' },
           status: { $ref: '#/components/schemas/FormStatus' },
+          reviewerId: { type: 'string', nullable: true, description: 'User ID of the member to review the form; null unassigns' },
+        },
+      },
+      SignedUrl: {
+        type: 'object',
+        properties: {
+          url: { type: 'string' },
+          method: { type: 'string', enum: ['GET', 'PUT'] },
+          headers: { type: 'object', additionalProperties: { type: 'string' } },
+          expiresAt: { type: 'string', format: 'date-time' },
         },
       },
       AnalysisResult: {
+        type: 'object',
+        description: 'Structured IP analysis. Fields not mentioned in the recording are null or empty lists. Speaker fields name who said it, when the transcript is diarized.',
+        required: [
+          'schemaVersion', 'summary', 'inventionDescription', 'inventors', 'keyDates', 'claims', 'priorArt',
+          'technicalDetails', 'clientInformation', 'actionItems', 'riskFactors', 'suggestedFormType',
+        ],
+        properties: {
+          schemaVersion: { type: 'integer', enum: [1] },
+          summary: { type: 'string' },
+          inventionDescription: { type: 'string', nullable: true },
+          inventors: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                contribution: { type: 'string', nullable: true },
+                speaker: { type: 'string', nullable: true },
+              },
+            },
+          },
+          keyDates: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                date: { type: 'string', format: 'date', nullable: true },
+                type: { type: 'string', enum: ['filing', 'priority', 'publication', 'disclosure', 'deadline', 'other'] },
+                description: { type: 'string' },
+                speaker: { type: 'string', nullable: true },
+              },
+            },
+          },
+          claims: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                text: { type: 'string' },
+                speaker: { type: 'string', nullable: true },
+              },
+            },
+          },
+          priorArt: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                reference: { type: 'string' },
+                description: { type: 'string', nullable: true },
+                speaker: { type: 'string', nullable: true },
+              },
+            },
+          },
+          technicalDetails: { type: 'array', items: { type: 'string' } },
+          clientInformation: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string', nullable: true },
+                company: { type: 'string', nullable: true },
+                email: { type: 'string', nullable: true },
+                phone: { type: 'string', nullable: true },
+              },
+            },
+          },
+          actionItems: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                description: { type: 'string' },
+                owner: { type: 'string', nullable: true },
+                dueDate: { type: 'string', format: 'date', nullable: true },
+                speaker: { type: 'string', nullable: true },
+              },
+            },
+          },
+          riskFactors: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                description: { type: 'string' },
+                severity: { type: 'string', enum: ['low', 'medium', 'high'] },
+              },
+            },
+          },
+          suggestedFormType: { allOf: [{ $ref: '#/components/schemas/FormType' }], nullable: true },
+        },
+      },
+      SpeakerRole: {
+        type: 'string',
+        enum: ['attorney', 'paralegal', 'inventor', 'client', 'other'],
+        nullable: true,
+      },
+      Speaker: {
         type: 'object',
         properties: {
           id: { type: 'string' },
-          analysis: {
-            type: 'object',
-            properties: {
-              inventionDescription: { type: 'string' },
-              inventors: { type: 'array', items: { type: 'string' } },
-              keyDates: { type: 'array', items: { type: 'object' } },
-              claims: { type: 'array', items: { type: 'string' } },
-              technicalDetails: { type: 'string' },
-              actionItems: { type: 'array', items: { type: 'string' } },
-              suggestedFormType: { $ref: '#/components/schemas/FormType' },
+          label: { type: 'string' },
+          name: { type: 'string' },
+          role: { $ref: '#/components/schemas/SpeakerRole' },
+          userId: { type: 'string' },
+          speakingTime: { type: 'integer' },
+        },
+      },
+      Job: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string', enum: ['TRANSCRIBE_RECORDING', 'ANALYZE_RECORDING', 'POPULATE_FORM', 'PARSE_OFFICE_ACTION'] },
+          status: { type: 'string', enum: ['QUEUED', 'RUNNING', 'COMPLETED', 'FAILED'] },
+          entityType: { type: 'string' },
+          entityId: { type: 'string' },
+          attempts: { type: 'integer' },
+          maxAttempts: { type: 'integer' },
+          result: { type: 'object', nullable: true },
+          error: { type: 'string', nullable: true },
+          runAt: { type: 'string', format: 'date-time' },
+          startedAt: { type: 'string', format: 'date-time', nullable: true },
+          completedAt: { type: 'string', format: 'date-time', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      JobAccepted: {
+        type: 'object',
+        properties: {
+          jobId: { type: 'string' },
+          job: { $ref: '#/components/schemas/Job' },
+        },
+      },
+      DocketEventType: {
+        type: 'string',
+        enum: [
+          'PROVISIONAL_FILED',
+          'PCT_FILED',
+          'OFFICE_ACTION_MAILED',
+          'NOTICE_OF_ALLOWANCE_MAILED',
+          'TRADEMARK_REGISTERED',
+          'WORK_PUBLISHED',
+        ],
+      },
+      DeadlineStatus: {
+        type: 'string',
+        enum: ['OPEN', 'COMPLETED', 'CANCELLED'],
+      },
+      DocketEvent: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          caseId: { type: 'string' },
+          type: { $ref: '#/components/schemas/DocketEventType' },
+          date: { type: 'string', format: 'date-time', description: 'Calendar date at UTC midnight' },
+          metadata: { type: 'object' },
+          note: { type: 'string', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+          createdBy: { type: 'string' },
+        },
+      },
+      Deadline: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          caseId: { type: 'string' },
+          eventId: { type: 'string' },
+          rule: { type: 'string', description: 'Rule that computed the deadline, e.g. patent.provisional_conversion' },
+          title: { type: 'string' },
+          description: { type: 'string', nullable: true },
+          opensAt: { type: 'string', format: 'date-time', nullable: true, description: 'Start of the filing window' },
+          dueDate: { type: 'string', format: 'date-time', description: 'Due date without extensions' },
+          finalDate: { type: 'string', format: 'date-time', nullable: true, description: 'Last date with every extension or grace period' },
+          status: { $ref: '#/components/schemas/DeadlineStatus' },
+          assignedTo: { type: 'string', nullable: true },
+          completedAt: { type: 'string', format: 'date-time', nullable: true },
+          completedBy: { type: 'string', nullable: true },
+          acknowledgedAt: { type: 'string', format: 'date-time', nullable: true },
+          acknowledgedBy: { type: 'string', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      DeadlineReminder: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          deadlineId: { type: 'string' },
+          offsetDays: { type: 'integer', description: 'Days before the due date the reminder was for' },
+          level: { type: 'string', enum: ['TEAM', 'LEAD', 'ADMIN'], description: 'How far the reminder was escalated' },
+          recipients: { type: 'array', items: { type: 'string' } },
+          emailsSent: { type: 'integer' },
+          sentAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      GlossaryTerm: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', nullable: true, description: 'Null for terms seeded from the case' },
+          term: { type: 'string' },
+          category: { type: 'string', enum: ['TERM', 'NAME', 'ACRONYM'] },
+          variants: { type: 'array', items: { type: 'string' } },
+          description: { type: 'string', nullable: true },
+          source: { type: 'string', enum: ['organization', 'case', 'seeded'] },
+        },
+      },
+      GlossaryTermInput: {
+        type: 'object',
+        required: ['term'],
+        properties: {
+          term: { type: 'string', maxLength: 100 },
+          category: { type: 'string', enum: ['TERM', 'NAME', 'ACRONYM'], default: 'TERM' },
+          variants: { type: 'array', items: { type: 'string' }, maxItems: 20, description: 'Misspellings replaced with the term' },
+          description: { type: 'string' },
+          caseId: { type: 'string', description: 'Create only; ignored on update' },
+        },
+      },
+      PriorArtReference: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          caseId: { type: 'string' },
+          idsFormId: { type: 'string', nullable: true, description: 'IDS form citing the reference; null while uncited' },
+          category: { type: 'string', enum: ['US_PATENT', 'US_PUBLICATION', 'FOREIGN_PATENT', 'NON_PATENT_LITERATURE'] },
+          key: { type: 'string', description: 'Office code and number, e.g. US9123456; what references are deduplicated by' },
+          country: { type: 'string', nullable: true },
+          number: { type: 'string', nullable: true, description: 'Without separators, e.g. 9123456 or 20190123456' },
+          kindCode: { type: 'string', nullable: true },
+          date: { type: 'string', format: 'date-time', nullable: true },
+          name: { type: 'string', nullable: true },
+          citation: { type: 'string', description: 'As first cited; the full citation for literature' },
+          examinerCited: { type: 'boolean', description: 'Only cited in office actions, so already of record' },
+          sources: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                recordingId: { type: 'string', nullable: true },
+                documentId: { type: 'string', nullable: true },
+                excerpt: { type: 'string', nullable: true },
+                createdAt: { type: 'string', format: 'date-time' },
+              },
             },
           },
-          provider: { type: 'string' },
         },
       },
       Activity: {
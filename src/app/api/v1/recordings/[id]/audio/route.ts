@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { getStorage } from '@/lib/storage';
+
+// GET /api/v1/recordings/[id]/audio - Redirect to a signed download URL for the audio file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId } = await getAuthContext(request);
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const recording = await db.recording.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!recording) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
+
+    if (!recording.fileUrl) {
+      return NextResponse.json({ error: 'No audio file uploaded' }, { status: 404 });
+    }
+
+    const download = await getStorage().getDownloadUrl(recording.fileUrl);
+
+    return NextResponse.redirect(download.url, { status: 307 });
+  } catch (error) {
+    console.error('Error creating download URL:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'recordings:read')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { checkPlanLimit } from '@/lib/stripe';
+import { getPendingChunkBytes, saveChunk, MAX_CHUNK_SIZE, MAX_CHUNKS } from '@/lib/chunked-upload';
+
+// PUT /api/v1/recordings/[id]/chunks/[index] - Upload one chunk of the audio file
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; index: string } }
+) {
+  try {
+    const { orgId } = await getAuthContext(request);
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!/^\d+$/.test(params.index)) {
+      return NextResponse.json({ error: 'Invalid chunk index' }, { status: 400 });
+    }
+
+    const index = parseInt(params.index, 10);
+    if (index >= MAX_CHUNKS) {
+      return NextResponse.json({ error: `Uploads are limited to ${MAX_CHUNKS} chunks` }, { status: 400 });
+    }
+
+    const recording = await db.recording.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!recording) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
+
+    if (recording.fileUrl) {
+      return NextResponse.json({ error: 'Upload already completed' }, { status: 409 });
+    }
+
+    const body = Buffer.from(await request.arrayBuffer());
+
+    if (body.length === 0) {
+      return NextResponse.json({ error: 'Empty chunk' }, { status: 400 });
+    }
+
+    if (body.length > MAX_CHUNK_SIZE) {
+      return NextResponse.json(
+        { error: `Chunk exceeds maximum size of ${MAX_CHUNK_SIZE} bytes` },
+        { status: 413 }
+      );
+    }
+
+    // Chunks count toward storage as they arrive, so an upload can't run past the plan limit
+    const pendingBytes = await getPendingChunkBytes(orgId, { recordingId: recording.id, index });
+    const storageLimit = await checkPlanLimit(orgId, 'storage', pendingBytes + body.length);
+    if (!storageLimit.allowed) {
+      return NextResponse.json(
+        { error: 'Storage limit reached for your plan', limit: storageLimit.limit, current: storageLimit.current },
+        { status: 403 }
+      );
+    }
+
+    const chunk = await saveChunk(orgId, recording.id, index, body);
+
+    return NextResponse.json({ index: chunk.index, size: chunk.size });
+  } catch (error) {
+    console.error('Error uploading chunk:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'recordings:write')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { assembleChunks, MAX_CHUNKS } from '@/lib/chunked-upload';
+import { normalizeMimeType, AUDIO_MIME_TYPES } from '@/lib/storage';
+
+const completeChunksSchema = z.object({
+  totalChunks: z.number().int().min(1).max(MAX_CHUNKS),
+  title: z.string().trim().min(1).optional(),
+  duration: z.number().int().min(0).optional(),
+  mimeType: z.string().min(1).optional(),
+});
+
+// POST /api/v1/recordings/[id]/chunks/complete - Assemble uploaded chunks into the final audio file
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request);
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const recording = await db.recording.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!recording) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
+
+    if (recording.fileUrl) {
+      return NextResponse.json({ error: 'Upload already completed' }, { status: 409 });
+    }
+
+    const parsed = completeChunksSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json({ error: `Invalid ${issue?.path.join('.') || 'request body'}: ${issue?.message}` }, { status: 400 });
+    }
+    const { totalChunks, duration, title, mimeType } = parsed.data;
+
+    const contentType = normalizeMimeType(mimeType || recording.mimeType || 'audio/webm');
+    if (!AUDIO_MIME_TYPES.includes(contentType)) {
+      return NextResponse.json({ error: `Unsupported audio type: ${contentType}` }, { status: 400 });
+    }
+
+    const { object, missing } = await assembleChunks(orgId, recording.id, totalChunks, contentType);
+
+    // Tell the client exactly which chunks to re-send
+    if (!object) {
+      return NextResponse.json({ error: 'Upload incomplete', missing }, { status: 409 });
+    }
+
+    const updatedRecording = await db.recording.update({
+      where: { id: recording.id },
+      data: {
+        name: title || recording.name,
+        fileUrl: object.key,
+        fileSize: object.size,
+        mimeType: object.contentType,
+        duration: duration ?? recording.duration,
+      },
+    });
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'recording.uploaded',
+      entityType: 'recording',
+      entityId: recording.id,
+      description: `Audio uploaded for recording "${updatedRecording.name}"`,
+      newValue: { fileSize: object.size, mimeType: object.contentType, chunks: totalChunks },
+    });
+
+    return NextResponse.json(updatedRecording);
+  } catch (error) {
+    console.error('Error completing chunked upload:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'recordings:write')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { getSpeakingTime, updateSpeakers, SpeakerUpdate } from '@/lib/diarization';
+import { TranscriptData } from '@/lib/transcription';
+
+// GET /api/v1/recordings/[id]/speakers - List diarized speakers and who they are mapped to
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId } = await getAuthContext(request, 'recordings:read');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const recording = await db.recording.findFirst({
+      where: { id: params.id, organizationId: orgId },
+      select: { id: true, transcriptData: true },
+    });
+
+    if (!recording) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
+
+    const transcript = recording.transcriptData as TranscriptData | null;
+    const speakingTime = transcript ? getSpeakingTime(transcript) : {};
+
+    return NextResponse.json({
+      speakers: (transcript?.speakers || []).map((speaker) => ({
+        ...speaker,
+        speakingTime: Math.round(speakingTime[speaker.id] || 0),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching speakers:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/v1/recordings/[id]/speakers - Map speakers to people
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request, 'recordings:write');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const recording = await db.recording.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!recording) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
+
+    const transcript = recording.transcriptData as TranscriptData | null;
+    if (!transcript?.speakers || transcript.speakers.length === 0) {
+      return NextResponse.json({ error: 'Recording has no diarized speakers' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const updates: SpeakerUpdate[] = Array.isArray(body.speakers) ? body.speakers : [];
+
+    // Team members must belong to this organization
+    const memberIds = updates.map((update) => update.userId).filter((id): id is string => !!id);
+    if (memberIds.length > 0) {
+      const members = await db.organizationMember.count({
+        where: { organizationId: orgId, userId: { in: memberIds } },
+      });
+      if (members !== new Set(memberIds).size) {
+        return NextResponse.json({ error: 'Speaker mapped to a user outside this organization' }, { status: 400 });
+      }
+    }
+
+    const result = updateSpeakers(transcript, updates);
+    if (!result.transcript) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    await db.recording.update({
+      where: { id: recording.id },
+      data: { transcriptData: result.transcript as unknown as Prisma.InputJsonValue },
+    });
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'recording.speakers_updated',
+      entityType: 'recording',
+      entityId: recording.id,
+      description: `Speakers mapped for recording "${recording.name}"`,
+      oldValue: { speakers: transcript.speakers },
+      newValue: { speakers: result.transcript.speakers },
+    });
+
+    return NextResponse.json({ speakers: result.transcript.speakers });
+  } catch (error) {
+    console.error('Error updating speakers:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
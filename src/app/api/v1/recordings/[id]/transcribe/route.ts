@@ -1,15 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs';
 import { db } from '@/lib/db';
-import { validateApiKey } from '@/lib/api-keys';
-import { createAuditLog } from '@/lib/audit';
-import OpenAI from 'openai';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { enqueueJob, serializeJob } from '@/lib/jobs';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-// POST /api/v1/recordings/[id]/transcribe - Transcribe a recording
+// POST /api/v1/recordings/[id]/transcribe - Queue a recording for transcription
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -33,77 +28,21 @@ export async function POST(
       return NextResponse.json({ error: 'No audio file uploaded' }, { status: 400 });
     }
 
-    // Update status to processing
-    await db.recording.update({
-      where: { id: params.id },
-      data: { status: 'PROCESSING' },
+    const job = await enqueueJob({
+      organizationId: orgId,
+      type: 'TRANSCRIBE_RECORDING',
+      entityType: 'recording',
+      entityId: recording.id,
+      payload: { recordingId: recording.id },
+      createdBy: userId,
     });
 
-    try {
-      // Fetch the audio file
-      const audioResponse = await fetch(recording.fileUrl);
-      const audioBuffer = await audioResponse.arrayBuffer();
-      const audioFile = new File([audioBuffer], 'audio.webm', { type: recording.mimeType || 'audio/webm' });
-
-      // Transcribe with Whisper
-      const transcription = await openai.audio.transcriptions.create({
-        file: audioFile,
-        model: 'whisper-1',
-        response_format: 'verbose_json',
-      });
-
-      // Update recording with transcription
-      const updatedRecording = await db.recording.update({
-        where: { id: params.id },
-        data: {
-          transcription: transcription.text,
-          status: 'COMPLETED',
-        },
-      });
-
-      // Create audit log
-      await createAuditLog({
-        organizationId: orgId,
-        userId,
-        action: 'RECORDING_TRANSCRIBED',
-        resourceType: 'recording',
-        resourceId: params.id,
-        details: { wordCount: transcription.text.split(' ').length },
-        request,
-      });
-
-      // Create activity if linked to a case
-      if (recording.caseId) {
-        await db.activity.create({
-          data: {
-            type: 'RECORDING_TRANSCRIBED',
-            content: `Recording "${recording.title}" transcribed`,
-            caseId: recording.caseId,
-            userId,
-          },
-        });
-      }
-
-      return NextResponse.json({
-        id: updatedRecording.id,
-        transcription: transcription.text,
-        status: 'COMPLETED',
-      });
-    } catch (transcriptionError: any) {
-      // Update status to failed
-      await db.recording.update({
-        where: { id: params.id },
-        data: { status: 'FAILED' },
-      });
-
-      console.error('Transcription error:', transcriptionError);
-      return NextResponse.json(
-        { error: 'Transcription failed', details: transcriptionError.message },
-        { status: 500 }
-      );
-    }
+    return NextResponse.json(
+      { jobId: job.id, job: serializeJob(job) },
+      { status: 202, headers: { Location: `/api/v1/jobs/${job.id}` } }
+    );
   } catch (error) {
-    console.error('Error transcribing recording:', error);
+    console.error('Error queueing transcription:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
@@ -111,9 +50,9 @@ export async function POST(
 async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
   const apiKey = request.headers.get('x-api-key');
   if (apiKey) {
-    const keyData = await validateApiKey(apiKey, ['recordings:write']);
-    if (keyData) {
-      return { orgId: keyData.organizationId, userId: keyData.createdById };
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'recordings:write')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
     }
   }
 
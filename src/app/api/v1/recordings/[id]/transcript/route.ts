@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { enqueueJob, findActiveJob } from '@/lib/jobs';
+import { TranscriptData } from '@/lib/transcription';
+import { LLMProviderName } from '@/lib/llm-providers';
+import {
+  applySegmentEdits,
+  createTranscriptRevision,
+  getLatestRevision,
+  SegmentEdit,
+} from '@/lib/transcript-revisions';
+
+// GET /api/v1/recordings/[id]/transcript - Get the current transcript and its revision history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId } = await getAuthContext(request, 'recordings:read');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const recording = await db.recording.findFirst({
+      where: { id: params.id, organizationId: orgId },
+      select: { id: true, transcript: true, transcriptData: true },
+    });
+
+    if (!recording) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
+
+    const revisions = await db.transcriptRevision.findMany({
+      where: { recordingId: recording.id },
+      orderBy: { version: 'desc' },
+      select: { id: true, version: true, source: true, note: true, createdAt: true, createdBy: true },
+    });
+
+    return NextResponse.json({
+      version: revisions[0]?.version || 0,
+      transcript: recording.transcript,
+      transcriptData: recording.transcriptData,
+      revisions,
+    });
+  } catch (error) {
+    console.error('Error fetching transcript:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/v1/recordings/[id]/transcript - Save corrections as a new transcript revision
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request, 'recordings:write');
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const recording = await db.recording.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!recording) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
+
+    const transcript = recording.transcriptData as TranscriptData | null;
+    if (!transcript) {
+      return NextResponse.json({ error: 'Recording not transcribed yet' }, { status: 400 });
+    }
+
+    if (await findActiveJob('TRANSCRIBE_RECORDING', 'recording', recording.id)) {
+      return NextResponse.json({ error: 'Recording is being transcribed' }, { status: 409 });
+    }
+
+    const body = await request.json();
+    const { baseVersion, note, reanalyze = true } = body;
+    const edits: SegmentEdit[] = Array.isArray(body.segments) ? body.segments : [];
+
+    if (edits.length === 0) {
+      return NextResponse.json({ error: 'No segment edits provided' }, { status: 400 });
+    }
+
+    const segmentIds = new Set(transcript.segments.map((segment) => segment.id));
+    const speakerIds = new Set((transcript.speakers || []).map((speaker) => speaker.id));
+    for (const edit of edits) {
+      if (!segmentIds.has(edit.id) || typeof edit.text !== 'string') {
+        return NextResponse.json({ error: `Invalid edit for segment ${edit.id}` }, { status: 400 });
+      }
+      if (edit.speaker !== undefined && !speakerIds.has(edit.speaker)) {
+        return NextResponse.json({ error: `Unknown speaker: ${edit.speaker}` }, { status: 400 });
+      }
+    }
+
+    // Reject edits made against an older revision so corrections aren't silently lost
+    const latest = await getLatestRevision(recording.id);
+    const currentVersion = latest?.version || 0;
+    if (baseVersion !== undefined && baseVersion !== currentVersion) {
+      return NextResponse.json(
+        { error: 'Transcript has changed since it was loaded', version: currentVersion },
+        { status: 409 }
+      );
+    }
+
+    const corrected = applySegmentEdits(transcript, edits);
+
+    // Transcripts from before revisions existed get their original kept as version 1
+    if (!latest) {
+      await createTranscriptRevision({
+        recordingId: recording.id,
+        transcript,
+        source: 'transcription',
+        createdBy: recording.createdBy,
+      });
+    }
+
+    let revision;
+    try {
+      revision = await createTranscriptRevision({
+        recordingId: recording.id,
+        transcript: corrected,
+        source: 'edit',
+        note,
+        createdBy: userId,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return NextResponse.json({ error: 'Transcript has changed since it was loaded' }, { status: 409 });
+      }
+      throw error;
+    }
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'recording.transcript_edited',
+      entityType: 'recording',
+      entityId: recording.id,
+      description: `Transcript of "${recording.name}" corrected (revision ${revision.version})`,
+      oldValue: {
+        segments: transcript.segments
+          .filter((segment) => edits.some((edit) => edit.id === segment.id))
+          .map(({ id, text, speaker }) => ({ id, text, speaker })),
+      },
+      newValue: { segments: edits },
+      metadata: { version: revision.version, note },
+    });
+
+    // Re-run analysis so it reflects the corrected text
+    let jobId: string | null = null;
+    if (reanalyze && recording.analysisResult) {
+      const job = await enqueueJob({
+        organizationId: orgId,
+        type: 'ANALYZE_RECORDING',
+        entityType: 'recording',
+        entityId: recording.id,
+        payload: {
+          recordingId: recording.id,
+          provider: (recording.analysisProvider || undefined) as LLMProviderName | undefined,
+        },
+        createdBy: userId,
+      });
+      jobId = job.id;
+    }
+
+    return NextResponse.json({
+      version: revision.version,
+      transcript: corrected.text,
+      transcriptData: corrected,
+      jobId,
+    });
+  } catch (error) {
+    console.error('Error updating transcript:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(
+  request: NextRequest,
+  scope: string
+): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, scope)) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { createAuditLog } from '@/lib/audit';
+import { getStorage, normalizeMimeType, AUDIO_MIME_TYPES } from '@/lib/storage';
+
+const completeUploadSchema = z.object({
+  key: z.string().min(1),
+  duration: z.number().int().min(0).optional(),
+});
+
+// POST /api/v1/recordings/[id]/upload/complete - Confirm the audio upload and record file metadata
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId, userId } = await getAuthContext(request);
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const recording = await db.recording.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!recording) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
+
+    const parsed = completeUploadSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json({ error: `Invalid ${issue?.path.join('.') || 'request body'}: ${issue?.message}` }, { status: 400 });
+    }
+    const { key, duration } = parsed.data;
+
+    // Keys are issued per recording; reject anything outside this recording's prefix
+    if (!key.startsWith(`recordings/${orgId}/${recording.id}.`)) {
+      return NextResponse.json({ error: 'Invalid storage key' }, { status: 400 });
+    }
+
+    const object = await getStorage().headObject(key);
+    if (!object) {
+      return NextResponse.json({ error: 'Uploaded file not found' }, { status: 400 });
+    }
+
+    if (!AUDIO_MIME_TYPES.includes(normalizeMimeType(object.contentType))) {
+      return NextResponse.json({ error: `Unsupported audio type: ${object.contentType}` }, { status: 400 });
+    }
+
+    const updatedRecording = await db.recording.update({
+      where: { id: recording.id },
+      data: {
+        fileUrl: key,
+        fileSize: object.size,
+        mimeType: object.contentType,
+        duration: duration ?? recording.duration,
+      },
+    });
+
+    await createAuditLog({
+      organizationId: orgId,
+      userId,
+      action: 'recording.uploaded',
+      entityType: 'recording',
+      entityId: recording.id,
+      description: `Audio uploaded for recording "${recording.name}"`,
+      newValue: { fileSize: object.size, mimeType: object.contentType },
+    });
+
+    return NextResponse.json(updatedRecording);
+  } catch (error) {
+    console.error('Error completing upload:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'recordings:write')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
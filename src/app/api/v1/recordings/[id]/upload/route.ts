@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { db } from '@/lib/db';
+import { validateApiKey, hasScope } from '@/lib/api-keys';
+import { checkPlanLimit } from '@/lib/stripe';
+import { getStorage, getRecordingKey, normalizeMimeType, AUDIO_MIME_TYPES } from '@/lib/storage';
+
+// POST /api/v1/recordings/[id]/upload - Get a signed URL for uploading the audio file
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { orgId } = await getAuthContext(request);
+
+    if (!orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const recording = await db.recording.findFirst({
+      where: { id: params.id, organizationId: orgId },
+    });
+
+    if (!recording) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const mimeType = normalizeMimeType(body.mimeType || recording.mimeType);
+
+    if (!AUDIO_MIME_TYPES.includes(mimeType)) {
+      return NextResponse.json({ error: `Unsupported audio type: ${mimeType}` }, { status: 400 });
+    }
+
+    const storageLimit = await checkPlanLimit(orgId, 'storage');
+    if (!storageLimit.allowed) {
+      return NextResponse.json(
+        { error: 'Storage limit reached for your plan', limit: storageLimit.limit, current: storageLimit.current },
+        { status: 403 }
+      );
+    }
+
+    const key = getRecordingKey(orgId, recording.id, mimeType);
+    const upload = await getStorage().getUploadUrl(key, mimeType);
+
+    return NextResponse.json({ key, upload });
+  } catch (error) {
+    console.error('Error creating upload URL:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+async function getAuthContext(request: NextRequest): Promise<{ orgId: string | null; userId: string }> {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    const keyData = await validateApiKey(apiKey);
+    if (keyData && hasScope(keyData.apiKey, 'recordings:write')) {
+      return { orgId: keyData.organization.id, userId: keyData.apiKey.createdBy };
+    }
+  }
+
+  const { orgId, userId } = auth();
+  return { orgId: orgId || null, userId: userId || '' };
+}
@@ -3,6 +3,7 @@ import { auth } from '@clerk/nextjs';
 import { db } from '@/lib/db';
 import { validateApiKey } from '@/lib/api-keys';
 import { createAuditLog } from '@/lib/audit';
+import { normalizeMimeType } from '@/lib/storage';
 
 // GET /api/v1/recordings - List recordings
 export async function GET(request: NextRequest) {
@@ -61,7 +62,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { title, caseId, duration, fileSize, mimeType } = body;
+    const { title, caseId, duration, mimeType } = body;
 
     if (!title) {
       return NextResponse.json({ error: 'Title is required' }, { status: 400 });
@@ -77,16 +78,16 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // fileUrl and fileSize are filled in once the audio upload completes
     const recording = await db.recording.create({
       data: {
-        title,
+        name: title,
         duration: duration || 0,
-        fileSize: fileSize || 0,
-        mimeType: mimeType || 'audio/webm',
+        mimeType: normalizeMimeType(mimeType || 'audio/webm'),
         status: 'PENDING',
         organizationId: orgId,
         caseId,
-        createdById: userId,
+        createdBy: userId,
       },
     });
 
@@ -94,11 +95,11 @@ export async function POST(request: NextRequest) {
     await createAuditLog({
       organizationId: orgId,
       userId,
-      action: 'RECORDING_CREATED',
-      resourceType: 'recording',
-      resourceId: recording.id,
-      details: { title },
-      request,
+      action: 'recording.created',
+      entityType: 'recording',
+      entityId: recording.id,
+      description: `Recording "${title}" created`,
+      newValue: { name: title, caseId },
     });
 
     return NextResponse.json(recording, { status: 201 });
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuth, hasRole } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { createAuditLog } from '@/lib/audit';
+import { getOrganizationSettings, updateOrganizationSettings } from '@/lib/organization-settings';
+import { DEFAULT_MODELS, LLM_PROVIDERS, LLMProviderName, LLMSettings } from '@/lib/llm-providers';
+
+// Usage summaries cover this many days
+const USAGE_PERIOD_DAYS = 30;
+
+// GET /api/v1/settings/llm - Get the organization's model configuration and recent usage
+export async function GET() {
+  try {
+    const authUser = await getAuth();
+
+    if (!authUser?.orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { llm } = await getOrganizationSettings(authUser.orgId);
+
+    const usage = await db.llmCall.groupBy({
+      by: ['provider', 'model', 'purpose'],
+      where: {
+        organizationId: authUser.orgId,
+        createdAt: { gte: new Date(Date.now() - USAGE_PERIOD_DAYS * 24 * 60 * 60 * 1000) },
+      },
+      _count: { _all: true },
+      _sum: { inputTokens: true, outputTokens: true, cost: true },
+    });
+
+    return NextResponse.json({
+      ...(llm || {}),
+      defaultModels: DEFAULT_MODELS,
+      usage: {
+        periodDays: USAGE_PERIOD_DAYS,
+        calls: usage.map((row) => ({
+          provider: row.provider,
+          model: row.model,
+          purpose: row.purpose,
+          calls: row._count._all,
+          inputTokens: row._sum.inputTokens || 0,
+          outputTokens: row._sum.outputTokens || 0,
+          cost: row._sum.cost ? Number(row._sum.cost) : 0,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching LLM settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/v1/settings/llm - Choose the organization's provider, models and fallback behavior
+export async function PUT(request: NextRequest) {
+  try {
+    const authUser = await getAuth();
+
+    if (!authUser?.orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasRole(authUser.role, 'ADMIN')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { provider, models, fallback } = body;
+
+    if (provider && !LLM_PROVIDERS.includes(provider)) {
+      return NextResponse.json(
+        { error: `Provider must be one of: ${LLM_PROVIDERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (models !== undefined && (typeof models !== 'object' || models === null || Array.isArray(models))) {
+      return NextResponse.json({ error: 'Models must be an object keyed by provider' }, { status: 400 });
+    }
+
+    const selectedModels: Partial<Record<LLMProviderName, string>> = {};
+    for (const [name, model] of Object.entries(models || {})) {
+      if (!LLM_PROVIDERS.includes(name as LLMProviderName)) {
+        return NextResponse.json({ error: `Unknown provider in models: ${name}` }, { status: 400 });
+      }
+      if (model !== null && model !== '' && typeof model !== 'string') {
+        return NextResponse.json({ error: `Model for ${name} must be a string` }, { status: 400 });
+      }
+      if (model) {
+        selectedModels[name as LLMProviderName] = model as string;
+      }
+    }
+
+    const { llm: previous } = await getOrganizationSettings(authUser.orgId);
+
+    const llm: LLMSettings = {
+      provider: (provider || undefined) as LLMProviderName | undefined,
+      models: Object.keys(selectedModels).length > 0 ? selectedModels : undefined,
+      fallback: typeof fallback === 'boolean' ? fallback : undefined,
+    };
+
+    await updateOrganizationSettings(authUser.orgId, 'llm', llm);
+
+    await createAuditLog({
+      organizationId: authUser.orgId,
+      userId: authUser.userId,
+      action: 'settings.updated',
+      entityType: 'organization',
+      entityId: authUser.orgId,
+      description: `AI model settings updated${provider ? ` (preferred provider ${provider})` : ''}`,
+      oldValue: { ...(previous || {}) },
+      newValue: { ...llm },
+    });
+
+    return NextResponse.json(llm);
+  } catch (error) {
+    console.error('Error updating LLM settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
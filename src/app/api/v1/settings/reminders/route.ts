@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuth, hasRole } from '@/lib/auth';
+import { createAuditLog } from '@/lib/audit';
+import { getOrganizationSettings, updateOrganizationSettings } from '@/lib/organization-settings';
+import { DEFAULT_REMINDER_OFFSETS, ReminderSettings, getReminderOffsets, parseReminderOffsets } from '@/lib/deadline-reminders';
+
+// GET /api/v1/settings/reminders - Get when deadline reminders are sent
+export async function GET() {
+  try {
+    const authUser = await getAuth();
+
+    if (!authUser?.orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { reminders } = await getOrganizationSettings(authUser.orgId);
+
+    return NextResponse.json({
+      offsets: getReminderOffsets(reminders),
+      email: reminders?.email !== false,
+      defaultOffsets: DEFAULT_REMINDER_OFFSETS,
+    });
+  } catch (error) {
+    console.error('Error fetching reminder settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/v1/settings/reminders - Set the reminder offsets and whether reminders are emailed
+export async function PUT(request: NextRequest) {
+  try {
+    const authUser = await getAuth();
+
+    if (!authUser?.orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasRole(authUser.role, 'ADMIN')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    let offsets: number[] | undefined;
+    if (body.offsets !== undefined && body.offsets !== null) {
+      const parsed = parseReminderOffsets(body.offsets);
+      if (!parsed.offsets) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      offsets = parsed.offsets;
+    }
+
+    if (body.email !== undefined && typeof body.email !== 'boolean') {
+      return NextResponse.json({ error: 'Email must be a boolean' }, { status: 400 });
+    }
+
+    const { reminders: previous } = await getOrganizationSettings(authUser.orgId);
+
+    const reminders: ReminderSettings = {
+      offsets,
+      email: body.email === false ? false : undefined,
+    };
+
+    await updateOrganizationSettings(authUser.orgId, 'reminders', reminders);
+
+    await createAuditLog({
+      organizationId: authUser.orgId,
+      userId: authUser.userId,
+      action: 'settings.updated',
+      entityType: 'organization',
+      entityId: authUser.orgId,
+      description: `Deadline reminders set to ${getReminderOffsets(reminders).join(', ')} days before due`,
+      oldValue: { ...(previous || {}) },
+      newValue: { ...reminders },
+    });
+
+    return NextResponse.json({
+      offsets: getReminderOffsets(reminders),
+      email: reminders.email !== false,
+      defaultOffsets: DEFAULT_REMINDER_OFFSETS,
+    });
+  } catch (error) {
+    console.error('Error updating reminder settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuth, hasRole } from '@/lib/auth';
+import { createAuditLog } from '@/lib/audit';
+import { getOrganizationSettings, updateOrganizationSettings } from '@/lib/organization-settings';
+import { checkPublicHttpsUrl } from '@/lib/network';
+import { decryptSecret, encryptSecret, isSecretEncryptionConfigured } from '@/lib/secrets';
+import {
+  TRANSCRIPTION_PROVIDERS,
+  TranscriptionProviderName,
+  TranscriptionSettings,
+} from '@/lib/transcription-providers';
+
+// GET /api/v1/settings/transcription - Get the organization's transcription provider
+export async function GET() {
+  try {
+    const authUser = await getAuth();
+
+    if (!authUser?.orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { transcription } = await getOrganizationSettings(authUser.orgId);
+
+    return NextResponse.json(maskSettings(transcription || {}));
+  } catch (error) {
+    console.error('Error fetching transcription settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/v1/settings/transcription - Choose the organization's transcription provider
+export async function PUT(request: NextRequest) {
+  try {
+    const authUser = await getAuth();
+
+    if (!authUser?.orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasRole(authUser.role, 'ADMIN')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { provider, url, apiKey, model, language, diarize } = body;
+
+    if (!TRANSCRIPTION_PROVIDERS.includes(provider)) {
+      return NextResponse.json(
+        { error: `Provider must be one of: ${TRANSCRIPTION_PROVIDERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (url) {
+      const reason = await checkPublicHttpsUrl(url);
+      if (reason) {
+        return NextResponse.json({ error: reason }, { status: 400 });
+      }
+    }
+
+    if (apiKey !== undefined && apiKey !== null && typeof apiKey !== 'string') {
+      return NextResponse.json({ error: 'apiKey must be a string' }, { status: 400 });
+    }
+
+    if (provider === 'whisper-http' && !url && !process.env.WHISPER_HTTP_URL) {
+      return NextResponse.json({ error: 'A whisper server URL is required' }, { status: 400 });
+    }
+
+    const { transcription: previous } = await getOrganizationSettings(authUser.orgId);
+
+    // Omitting the key keeps the stored one, so clients can save without re-entering it
+    const plainApiKey = apiKey === undefined ? (previous?.apiKey ? decryptSecret(previous.apiKey) : undefined) : apiKey || undefined;
+
+    if (plainApiKey && !isSecretEncryptionConfigured()) {
+      return NextResponse.json(
+        { error: 'API keys can only be stored once SETTINGS_ENCRYPTION_KEY is configured on the server' },
+        { status: 400 }
+      );
+    }
+
+    const transcription: TranscriptionSettings = {
+      provider: provider as TranscriptionProviderName,
+      url: url || undefined,
+      apiKey: plainApiKey ? encryptSecret(plainApiKey) : undefined,
+      model: model || undefined,
+      language: language || undefined,
+      diarize: typeof diarize === 'boolean' ? diarize : undefined,
+    };
+
+    await updateOrganizationSettings(authUser.orgId, 'transcription', transcription);
+
+    await createAuditLog({
+      organizationId: authUser.orgId,
+      userId: authUser.userId,
+      action: 'settings.updated',
+      entityType: 'organization',
+      entityId: authUser.orgId,
+      description: `Transcription provider set to ${provider}`,
+      oldValue: maskSettings(previous || {}),
+      newValue: maskSettings(transcription),
+    });
+
+    return NextResponse.json(maskSettings(transcription));
+  } catch (error) {
+    console.error('Error updating transcription settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+function maskSettings(settings: TranscriptionSettings) {
+  const { apiKey, ...rest } = settings;
+  return { ...rest, hasApiKey: !!apiKey };
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkPlanLimit } from '@/lib/stripe';
+import { getStorage, LocalStorageDriver, normalizeMimeType } from '@/lib/storage';
+
+// Serves signed URLs for the local filesystem storage driver.
+// S3-compatible drivers issue presigned URLs that bypass this route entirely.
+
+// Uploads are read into memory, so anything larger has to use the chunked upload
+const MAX_UPLOAD_SIZE = 256 * 1024 * 1024;
+
+// GET /api/v1/storage/[...key] - Download an object with a signed URL
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  try {
+    const storage = getLocalStorage();
+    if (!storage) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const key = params.key.join('/');
+    if (!isAuthorized(storage, request, 'GET', key)) {
+      return NextResponse.json({ error: 'Invalid or expired signature' }, { status: 403 });
+    }
+
+    const object = await storage.headObject(key);
+    if (!object) {
+      return NextResponse.json({ error: 'Object not found' }, { status: 404 });
+    }
+
+    const body = await storage.getObject(key);
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': object.contentType,
+        'Content-Length': object.size.toString(),
+        'Cache-Control': 'private, max-age=0, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving storage object:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/v1/storage/[...key] - Upload an object with a signed URL
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  try {
+    const storage = getLocalStorage();
+    if (!storage) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const key = params.key.join('/');
+    if (!isAuthorized(storage, request, 'PUT', key)) {
+      return NextResponse.json({ error: 'Invalid or expired signature' }, { status: 403 });
+    }
+
+    // Check the declared size before reading anything
+    const contentLength = Number(request.headers.get('content-length'));
+    if (!request.headers.get('content-length') || !Number.isInteger(contentLength) || contentLength < 0) {
+      return NextResponse.json({ error: 'Content-Length is required' }, { status: 411 });
+    }
+
+    if (contentLength > MAX_UPLOAD_SIZE) {
+      return NextResponse.json({ error: `Upload exceeds maximum size of ${MAX_UPLOAD_SIZE} bytes` }, { status: 413 });
+    }
+
+    // Keys are issued as {kind}/{organizationId}/...
+    const storageLimit = await checkPlanLimit(params.key[1], 'storage', contentLength);
+    if (!storageLimit.allowed) {
+      return NextResponse.json(
+        { error: 'Storage limit reached for your plan', limit: storageLimit.limit, current: storageLimit.current },
+        { status: 403 }
+      );
+    }
+
+    const contentType = normalizeMimeType(
+      request.headers.get('content-type') || 'application/octet-stream'
+    );
+    const body = Buffer.from(await request.arrayBuffer());
+    if (body.length !== contentLength) {
+      return NextResponse.json({ error: 'Body does not match Content-Length' }, { status: 400 });
+    }
+
+    const object = await storage.putObject(key, body, contentType);
+
+    return NextResponse.json(object, { status: 201 });
+  } catch (error) {
+    console.error('Error storing object:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+function getLocalStorage(): LocalStorageDriver | null {
+  const storage = getStorage();
+  return storage instanceof LocalStorageDriver ? storage : null;
+}
+
+function isAuthorized(
+  storage: LocalStorageDriver,
+  request: NextRequest,
+  method: string,
+  key: string
+): boolean {
+  const { searchParams } = new URL(request.url);
+  const expires = searchParams.get('expires');
+  const signature = searchParams.get('signature');
+
+  if (!expires || !signature) {
+    return false;
+  }
+
+  return storage.verifySignature(method, key, expires, signature);
+}
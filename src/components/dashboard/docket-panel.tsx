@@ -0,0 +1,353 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { BellRing, CalendarClock, Check, Loader2, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+import type { DeadlineStatus, DocketEventType, ReminderLevel } from '@prisma/client';
+
+interface DocketEventItem {
+  id: string;
+  type: DocketEventType;
+  label: string;
+  date: string;
+  note: string | null;
+}
+
+interface DeadlineItem {
+  id: string;
+  title: string;
+  description: string | null;
+  opensAt: string | null;
+  dueDate: string;
+  finalDate: string | null;
+  status: DeadlineStatus;
+  assignedTo: string | null;
+  acknowledgedAt: string | null;
+  lastReminder: { level: ReminderLevel; sentAt: string } | null;
+}
+
+interface DocketPanelProps {
+  caseId: string;
+  eventTypes: { value: DocketEventType; label: string }[];
+  events: DocketEventItem[];
+  deadlines: DeadlineItem[];
+  members: { userId: string; name: string }[];
+}
+
+const statusStyles: Record<DeadlineStatus, string> = {
+  OPEN: 'bg-blue-100 text-blue-700',
+  COMPLETED: 'bg-green-100 text-green-700',
+  CANCELLED: 'bg-gray-100 text-gray-700',
+};
+
+const reminderLabels: Record<ReminderLevel, string> = {
+  TEAM: 'team',
+  LEAD: 'team leads',
+  ADMIN: 'admins',
+};
+
+export function DocketPanel({ caseId, eventTypes, events, deadlines, members }: DocketPanelProps) {
+  const router = useRouter();
+  const [type, setType] = useState<DocketEventType | ''>(eventTypes[0]?.value || '');
+  const [date, setDate] = useState('');
+  const [priorityDate, setPriorityDate] = useState('');
+  const [responseMonths, setResponseMonths] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const request = async (url: string, init: RequestInit, fallback: string) => {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || fallback);
+    }
+    router.refresh();
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    try {
+      await request(
+        `/api/v1/cases/${caseId}/docket`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            type,
+            date,
+            metadata: {
+              ...(type === 'PCT_FILED' && priorityDate && { priorityDate }),
+              ...(type === 'OFFICE_ACTION_MAILED' && responseMonths && { responseMonths: Number(responseMonths) }),
+            },
+          }),
+        },
+        'Failed to docket event'
+      );
+      setDate('');
+      setPriorityDate('');
+      setResponseMonths('');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (
+    id: string,
+    update: { status?: DeadlineStatus; assignedTo?: string | null; acknowledged?: boolean }
+  ) => {
+    setPendingId(id);
+    setError('');
+
+    try {
+      await request(
+        `/api/v1/deadlines/${id}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(update),
+        },
+        'Failed to update deadline'
+      );
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDeleteEvent = async (event: DocketEventItem) => {
+    if (!confirm(`Remove "${event.label}" and its deadlines from the docket?`)) {
+      return;
+    }
+
+    setPendingId(event.id);
+    setError('');
+
+    try {
+      await request(`/api/v1/cases/${caseId}/docket/${event.id}`, { method: 'DELETE' }, 'Failed to remove event');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="bg-white rounded-xl border p-6">
+      <h2 className="font-semibold flex items-center gap-2 mb-4">
+        <CalendarClock className="w-5 h-5 text-primary" />
+        Docket ({deadlines.filter((deadline) => deadline.status === 'OPEN').length} open)
+      </h2>
+
+      {deadlines.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No deadlines docketed
+        </p>
+      ) : (
+        <ul className="space-y-2 mb-6">
+          {deadlines.map((deadline) => {
+            const dueDate = deadline.dueDate.slice(0, 10);
+            const overdue = deadline.status === 'OPEN' && dueDate < today;
+
+            return (
+              <li
+                key={deadline.id}
+                className={`p-3 rounded-lg border ${overdue ? 'border-red-200 bg-red-50' : ''}`}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className={`text-sm font-medium ${deadline.status !== 'OPEN' ? 'line-through text-muted-foreground' : ''}`}>
+                      {deadline.title}
+                    </p>
+                    <p className={`text-xs ${overdue ? 'text-red-700' : 'text-muted-foreground'}`}>
+                      Due {formatDay(dueDate)}
+                      {deadline.opensAt && ` · opens ${formatDay(deadline.opensAt.slice(0, 10))}`}
+                      {deadline.finalDate && ` · last day ${formatDay(deadline.finalDate.slice(0, 10))}`}
+                    </p>
+                  </div>
+                  <span className={`text-xs font-medium px-2 py-1 rounded flex-shrink-0 ${statusStyles[deadline.status]}`}>
+                    {overdue ? 'OVERDUE' : deadline.status}
+                  </span>
+                </div>
+                {deadline.description && (
+                  <p className="text-xs text-muted-foreground mt-2">{deadline.description}</p>
+                )}
+                {deadline.status === 'OPEN' && deadline.acknowledgedAt ? (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Acknowledged {formatDay(deadline.acknowledgedAt.slice(0, 10))}
+                  </p>
+                ) : deadline.status === 'OPEN' && deadline.lastReminder ? (
+                  <p className="text-xs text-amber-700 mt-1">
+                    Not acknowledged · last reminder to {reminderLabels[deadline.lastReminder.level]}{' '}
+                    {formatDay(deadline.lastReminder.sentAt.slice(0, 10))}
+                  </p>
+                ) : null}
+                <div className="flex items-center justify-between gap-2 mt-2">
+                  <select
+                    value={deadline.assignedTo || ''}
+                    onChange={(e) => handleUpdate(deadline.id, { assignedTo: e.target.value || null })}
+                    disabled={pendingId !== null}
+                    className="px-2 py-1 text-xs border rounded-lg bg-white"
+                  >
+                    <option value="">Unassigned</option>
+                    {members.map((member) => (
+                      <option key={member.userId} value={member.userId}>
+                        {member.name}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="flex items-center gap-1">
+                    {pendingId === deadline.id && <Loader2 className="w-4 h-4 animate-spin" />}
+                    {deadline.status === 'OPEN' ? (
+                      <>
+                        {!deadline.acknowledgedAt && (
+                          <button
+                            onClick={() => handleUpdate(deadline.id, { acknowledged: true })}
+                            disabled={pendingId !== null}
+                            className="p-1.5 border rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+                            title="Acknowledge, stopping escalation of reminders"
+                          >
+                            <BellRing className="w-3 h-3" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleUpdate(deadline.id, { status: 'CANCELLED' })}
+                          disabled={pendingId !== null}
+                          className="p-1.5 border rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+                          title="Cancel"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                        <button
+                          onClick={() => handleUpdate(deadline.id, { status: 'COMPLETED' })}
+                          disabled={pendingId !== null}
+                          className="flex items-center gap-1 px-2 py-1 text-xs border rounded-lg bg-white hover:bg-slate-50 transition disabled:opacity-50"
+                        >
+                          <Check className="w-3 h-3" />
+                          Complete
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => handleUpdate(deadline.id, { status: 'OPEN' })}
+                        disabled={pendingId !== null}
+                        className="flex items-center gap-1 px-2 py-1 text-xs border rounded-lg bg-white hover:bg-slate-50 transition disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                        Reopen
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {events.length > 0 && (
+        <div className="mb-6">
+          <p className="text-xs text-muted-foreground mb-2">Events</p>
+          <ul className="space-y-1">
+            {events.map((event) => (
+              <li key={event.id} className="flex items-center justify-between gap-2 text-sm p-2 rounded-lg hover:bg-slate-50">
+                <span>
+                  {event.label}
+                  <span className="ml-2 text-xs text-muted-foreground">{formatDay(event.date.slice(0, 10))}</span>
+                </span>
+                <button
+                  onClick={() => handleDeleteEvent(event)}
+                  disabled={pendingId !== null}
+                  className="p-1 text-muted-foreground hover:text-red-600 transition"
+                  title="Remove event and its deadlines"
+                >
+                  {pendingId === event.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+
+      {eventTypes.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No statutory deadlines are computed for this case type.</p>
+      ) : (
+        <form onSubmit={handleAdd} className="space-y-2">
+          <div className="flex gap-2">
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as DocketEventType)}
+              className="flex-1 min-w-0 px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {eventTypes.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              required
+              className="px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+          {type === 'PCT_FILED' && (
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              Priority date, if earlier
+              <input
+                type="date"
+                value={priorityDate}
+                onChange={(e) => setPriorityDate(e.target.value)}
+                className="px-2 py-1 text-sm border rounded-lg"
+              />
+            </label>
+          )}
+          {type === 'OFFICE_ACTION_MAILED' && (
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              Response period set in the action
+              <select
+                value={responseMonths}
+                onChange={(e) => setResponseMonths(e.target.value)}
+                className="px-2 py-1 text-sm border rounded-lg"
+              >
+                <option value="">3 months</option>
+                <option value="1">1 month</option>
+                <option value="2">2 months</option>
+              </select>
+            </label>
+          )}
+          <button
+            type="submit"
+            disabled={saving || !type || !date}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Docket Event
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+// Docket dates are calendar days stored as UTC midnight
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
@@ -0,0 +1,179 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { BookOpen, Loader2, Plus, Trash2 } from 'lucide-react';
+import type { GlossaryCategory } from '@prisma/client';
+import type { GlossaryEntry } from '@/lib/glossary';
+
+const CATEGORY_OPTIONS: { value: GlossaryCategory; label: string }[] = [
+  { value: 'TERM', label: 'Term' },
+  { value: 'NAME', label: 'Name' },
+  { value: 'ACRONYM', label: 'Acronym' },
+];
+
+const sourceLabels: Record<GlossaryEntry['source'], string> = {
+  organization: 'Organization',
+  case: 'Case',
+  seeded: 'From case details',
+};
+
+interface GlossaryEditorProps {
+  terms: GlossaryEntry[];
+  caseId?: string;
+}
+
+export function GlossaryEditor({ terms, caseId }: GlossaryEditorProps) {
+  const router = useRouter();
+  const [term, setTerm] = useState('');
+  const [category, setCategory] = useState<GlossaryCategory>('TERM');
+  const [variants, setVariants] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // Only terms owned by this glossary can be removed from here
+  const ownSource = caseId ? 'case' : 'organization';
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/v1/glossary', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          term,
+          category,
+          variants: variants.split(',').map((variant) => variant.trim()).filter(Boolean),
+          caseId,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to add term');
+      }
+
+      setTerm('');
+      setVariants('');
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setDeletingId(id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/v1/glossary/${id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to remove term');
+      }
+
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border p-6">
+      <h2 className="font-semibold flex items-center gap-2 mb-4">
+        <BookOpen className="w-5 h-5 text-primary" />
+        Glossary ({terms.length})
+      </h2>
+
+      {terms.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No terms yet
+        </p>
+      ) : (
+        <ul className="space-y-2 mb-4">
+          {terms.map((entry) => (
+            <li key={entry.id || entry.term} className="flex items-start justify-between gap-2 p-2 rounded-lg hover:bg-slate-50">
+              <div className="min-w-0">
+                <p className="text-sm font-medium">
+                  {entry.term}
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    {entry.category.toLowerCase()}
+                    {entry.source !== ownSource && ` · ${sourceLabels[entry.source]}`}
+                  </span>
+                </p>
+                {entry.variants.length > 0 && (
+                  <p className="text-xs text-muted-foreground truncate">
+                    Replaces: {entry.variants.join(', ')}
+                  </p>
+                )}
+              </div>
+              {entry.id && entry.source === ownSource && (
+                <button
+                  onClick={() => handleDelete(entry.id!)}
+                  disabled={deletingId === entry.id}
+                  className="p-1 text-muted-foreground hover:text-red-600 transition"
+                  title="Remove term"
+                >
+                  {deletingId === entry.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="w-4 h-4" />
+                  )}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={term}
+            onChange={(e) => setTerm(e.target.value)}
+            placeholder="Canonical spelling"
+            required
+            className="flex-1 min-w-0 px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as GlossaryCategory)}
+            className="px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {CATEGORY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <input
+          type="text"
+          value={variants}
+          onChange={(e) => setVariants(e.target.value)}
+          placeholder="Common misspellings, comma separated"
+          className="w-full px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        {error && <p className="text-xs text-red-500">{error}</p>}
+        <button
+          type="submit"
+          disabled={saving || !term.trim()}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Add Term
+        </button>
+      </form>
+    </div>
+  );
+}
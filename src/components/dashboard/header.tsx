@@ -1,8 +1,9 @@
 'use client';
 
 import { UserButton, OrganizationSwitcher } from '@clerk/nextjs';
-import { Bell, Search, HelpCircle } from 'lucide-react';
+import { Search, HelpCircle } from 'lucide-react';
 import { Organization } from '@prisma/client';
+import { NotificationBell } from '@/components/dashboard/notification-bell';
 
 interface HeaderProps {
   organization: Organization;
@@ -31,10 +32,7 @@ export function Header({ organization }: HeaderProps) {
         </button>
 
         {/* Notifications */}
-        <button className="relative p-2 text-muted-foreground hover:text-foreground hover:bg-slate-100 rounded-lg transition">
-          <Bell className="w-5 h-5" />
-          <span className="absolute top-1.5 right-1.5 w-2 h-2 bg-red-500 rounded-full" />
-        </button>
+        <NotificationBell />
 
         {/* Organization Switcher */}
         <OrganizationSwitcher
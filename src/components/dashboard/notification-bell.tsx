@@ -0,0 +1,141 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Bell, Loader2 } from 'lucide-react';
+
+interface NotificationItem {
+  id: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// Unread count is refreshed in the background at this interval
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+export function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch('/api/v1/notifications?limit=10');
+      if (!response.ok) return;
+      const data = await response.json();
+      setNotifications(data.data);
+      setUnreadCount(data.unreadCount);
+    } catch {
+      // Leave the last loaded notifications in place
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const handleToggle = async () => {
+    const opening = !open;
+    setOpen(opening);
+    if (opening) {
+      setLoading(true);
+      await load();
+      setLoading(false);
+    }
+  };
+
+  const markRead = async (ids?: string[]) => {
+    const response = await fetch('/api/v1/notifications/read', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(ids ? { ids } : {}),
+    });
+    if (response.ok) {
+      await load();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleToggle}
+        className="relative p-2 text-muted-foreground hover:text-foreground hover:bg-slate-100 rounded-lg transition"
+        title="Notifications"
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute top-1.5 right-1.5 w-2 h-2 bg-red-500 rounded-full" />
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border rounded-xl shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <p className="text-sm font-semibold">Notifications</p>
+            {unreadCount > 0 && (
+              <button onClick={() => markRead()} className="text-xs text-primary hover:underline">
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {loading && notifications.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-4 h-4 animate-spin" />
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No notifications</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y">
+              {notifications.map((notification) => {
+                const content = (
+                  <>
+                    <p className={`text-sm ${notification.readAt ? 'text-muted-foreground' : 'font-medium'}`}>
+                      {notification.title}
+                    </p>
+                    {notification.body && (
+                      <p className="text-xs text-muted-foreground mt-0.5">{notification.body}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {new Date(notification.createdAt).toLocaleString()}
+                    </p>
+                  </>
+                );
+
+                return (
+                  <li key={notification.id} className={notification.readAt ? '' : 'bg-blue-50/50'}>
+                    {notification.link ? (
+                      <Link
+                        href={notification.link}
+                        onClick={() => {
+                          setOpen(false);
+                          if (!notification.readAt) markRead([notification.id]);
+                        }}
+                        className="block px-4 py-3 hover:bg-slate-50"
+                      >
+                        {content}
+                      </Link>
+                    ) : (
+                      <button
+                        onClick={() => !notification.readAt && markRead([notification.id])}
+                        className="block w-full text-left px-4 py-3 hover:bg-slate-50"
+                      >
+                        {content}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { FileUp, Loader2 } from 'lucide-react';
+
+interface OfficeActionUploadProps {
+  caseId: string;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+export function OfficeActionUpload({ caseId }: OfficeActionUploadProps) {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // Poll the queued job, then open the response form it created
+  useEffect(() => {
+    if (!jobId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/v1/jobs/${jobId}`);
+        if (!response.ok) {
+          throw new Error('Failed to check job status');
+        }
+
+        const job = await response.json();
+        if (cancelled) return;
+
+        if (job.status === 'COMPLETED' || job.status === 'FAILED') {
+          setJobId(null);
+          if (job.status === 'FAILED') {
+            setError(job.error || 'Could not read the office action');
+            router.refresh();
+          } else {
+            router.push(`/forms/${job.result.formId}`);
+          }
+          return;
+        }
+      } catch (err: any) {
+        if (cancelled) return;
+        setError(err.message);
+      }
+
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    timer = setTimeout(poll, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [jobId, router]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    setError('');
+
+    try {
+      const body = new FormData();
+      body.append('file', file);
+
+      const response = await fetch(`/api/v1/cases/${caseId}/office-actions`, {
+        method: 'POST',
+        body,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload office action');
+      }
+
+      setJobId(data.jobId);
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const busy = uploading || !!jobId;
+
+  return (
+    <div className="flex items-center gap-2">
+      {error && <span className="text-xs text-red-500">{error}</span>}
+      <input ref={inputRef} type="file" accept="application/pdf" onChange={handleFile} className="hidden" />
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={busy}
+        className="flex items-center gap-1 text-sm text-primary hover:underline disabled:opacity-50 disabled:no-underline"
+        title="Upload a USPTO office action to start a response"
+      >
+        {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileUp className="w-4 h-4" />}
+        {uploading ? 'Uploading...' : jobId ? 'Reading office action...' : 'Office Action'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { BookOpen, Check, FileText, Loader2, Pencil, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import type { PriorArtCategory } from '@prisma/client';
+
+interface PriorArtItem {
+  id: string;
+  category: PriorArtCategory;
+  documentNumber: string;       // Formatted as on SB/08, empty for literature
+  citation: string;
+  kindCode: string | null;
+  date: string | null;
+  name: string | null;
+  sources: string[];            // Names of the recordings and office actions citing it
+  examinerCited: boolean;
+  idsForm: { id: string; name: string } | null;
+}
+
+interface PriorArtPanelProps {
+  caseId: string;
+  canFileIds: boolean;          // Provisionals are not examined, so have no IDS
+  references: PriorArtItem[];
+}
+
+const categoryLabels: Record<PriorArtCategory, string> = {
+  US_PATENT: 'US patent',
+  US_PUBLICATION: 'US publication',
+  FOREIGN_PATENT: 'Foreign',
+  NON_PATENT_LITERATURE: 'Literature',
+};
+
+export function PriorArtPanel({ caseId, canFileIds, references }: PriorArtPanelProps) {
+  const router = useRouter();
+  const [citation, setCitation] = useState('');
+  const [literature, setLiterature] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; kindCode: string; date: string; name: string } | null>(null);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const uncited = references.filter((reference) => !reference.idsForm);
+  const disclosable = uncited.filter((reference) => !reference.examinerCited);
+
+  const request = async (key: string, url: string, init: RequestInit, fallback: string) => {
+    setPending(key);
+    setError('');
+
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || fallback);
+      }
+      return data;
+    } catch (err: any) {
+      setError(err.message);
+      return null;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const json = (method: string, body: unknown): RequestInit => ({
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = await request(
+      'add',
+      `/api/v1/cases/${caseId}/prior-art`,
+      json('POST', { citation, ...(literature && { category: 'NON_PATENT_LITERATURE' }) }),
+      'Failed to add reference'
+    );
+    if (added) {
+      setCitation('');
+      router.refresh();
+    }
+  };
+
+  const handleImport = async () => {
+    if (await request('import', `/api/v1/cases/${caseId}/prior-art/import`, { method: 'POST' }, 'Failed to collect references')) {
+      router.refresh();
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const { id, ...changes } = editing;
+    if (await request(id, `/api/v1/cases/${caseId}/prior-art/${id}`, json('PATCH', changes), 'Failed to update reference')) {
+      setEditing(null);
+      router.refresh();
+    }
+  };
+
+  const handleDelete = async (reference: PriorArtItem) => {
+    if (!confirm(`Remove "${reference.documentNumber || reference.citation}" from the prior art?`)) {
+      return;
+    }
+    if (await request(reference.id, `/api/v1/cases/${caseId}/prior-art/${reference.id}`, { method: 'DELETE' }, 'Failed to remove reference')) {
+      router.refresh();
+    }
+  };
+
+  const handleGenerate = async () => {
+    const form = await request('ids', `/api/v1/cases/${caseId}/prior-art/ids`, json('POST', {}), 'Failed to create IDS');
+    if (form) {
+      router.push(`/forms/${form.id}`);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="font-semibold flex items-center gap-2">
+          <BookOpen className="w-5 h-5 text-primary" />
+          Prior Art ({uncited.length} uncited)
+        </h2>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={handleImport}
+            disabled={pending !== null}
+            className="flex items-center gap-1 text-sm text-primary hover:underline disabled:opacity-50"
+            title="Collect references from analyzed recordings and office actions on this case"
+          >
+            {pending === 'import' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            Collect
+          </button>
+          {canFileIds && (
+            <button
+              onClick={handleGenerate}
+              disabled={pending !== null || disclosable.length === 0}
+              className="flex items-center gap-1 text-sm text-primary hover:underline disabled:opacity-50"
+              title="Create an IDS citing every uncited reference the examiner hasn't cited"
+            >
+              {pending === 'ids' ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+              Generate IDS ({disclosable.length})
+            </button>
+          )}
+        </div>
+      </div>
+
+      {references.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No references yet
+        </p>
+      ) : (
+        <ul className="space-y-2 mb-6">
+          {references.map((reference) => (
+            <li key={reference.id} className="p-3 rounded-lg border">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {reference.documentNumber || reference.citation}
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">{categoryLabels[reference.category]}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {[reference.name, reference.date && formatDay(reference.date.slice(0, 10))].filter(Boolean).join(' · ') ||
+                      'No patentee or date yet'}
+                  </p>
+                  {reference.sources.length > 0 && (
+                    <p className="text-xs text-muted-foreground truncate">From {reference.sources.join(', ')}</p>
+                  )}
+                </div>
+                {reference.idsForm ? (
+                  <Link
+                    href={`/forms/${reference.idsForm.id}`}
+                    className="text-xs font-medium px-2 py-1 rounded flex-shrink-0 bg-green-100 text-green-700 hover:underline"
+                  >
+                    Cited in IDS
+                  </Link>
+                ) : reference.examinerCited ? (
+                  <span className="text-xs font-medium px-2 py-1 rounded flex-shrink-0 bg-gray-100 text-gray-700" title="Cited by the examiner, so already of record">
+                    Examiner cited
+                  </span>
+                ) : (
+                  <span className="text-xs font-medium px-2 py-1 rounded flex-shrink-0 bg-yellow-100 text-yellow-700">
+                    Uncited
+                  </span>
+                )}
+              </div>
+
+              {editing?.id === reference.id ? (
+                <div className="flex flex-wrap items-center gap-2 mt-2">
+                  {reference.category !== 'NON_PATENT_LITERATURE' && (
+                    <input
+                      value={editing.kindCode}
+                      onChange={(e) => setEditing({ ...editing, kindCode: e.target.value })}
+                      placeholder="Kind"
+                      className="w-16 px-2 py-1 text-xs border rounded-lg"
+                    />
+                  )}
+                  <input
+                    type="date"
+                    value={editing.date}
+                    onChange={(e) => setEditing({ ...editing, date: e.target.value })}
+                    className="px-2 py-1 text-xs border rounded-lg"
+                  />
+                  <input
+                    value={editing.name}
+                    onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                    placeholder={reference.category === 'NON_PATENT_LITERATURE' ? 'First author' : 'Patentee or applicant'}
+                    className="flex-1 min-w-0 px-2 py-1 text-xs border rounded-lg"
+                  />
+                  <button
+                    onClick={handleSave}
+                    disabled={pending !== null}
+                    className="p-1.5 border rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+                    title="Save"
+                  >
+                    {pending === reference.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+                  </button>
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="p-1.5 border rounded-lg hover:bg-slate-50 transition"
+                    title="Cancel"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ) : (
+                !reference.idsForm && (
+                  <div className="flex items-center justify-end gap-1 mt-2">
+                    <button
+                      onClick={() =>
+                        setEditing({
+                          id: reference.id,
+                          kindCode: reference.kindCode || '',
+                          date: reference.date?.slice(0, 10) || '',
+                          name: reference.name || '',
+                        })
+                      }
+                      disabled={pending !== null}
+                      className="p-1.5 border rounded-lg hover:bg-slate-50 transition disabled:opacity-50"
+                      title="Edit kind code, date and patentee"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(reference)}
+                      disabled={pending !== null}
+                      className="p-1.5 border rounded-lg hover:bg-slate-50 hover:text-red-600 transition disabled:opacity-50"
+                      title="Remove"
+                    >
+                      {pending === reference.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Trash2 className="w-3 h-3" />}
+                    </button>
+                  </div>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+
+      <form onSubmit={handleAdd} className="space-y-2">
+        <input
+          value={citation}
+          onChange={(e) => setCitation(e.target.value)}
+          placeholder={literature ? 'Author, title, publication, date, pages' : 'e.g. US 9,123,456 B2 or EP 1234567 A1'}
+          className="w-full px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <input type="checkbox" checked={literature} onChange={(e) => setLiterature(e.target.checked)} />
+            Non-patent literature
+          </label>
+          <button
+            type="submit"
+            disabled={pending !== null || !citation.trim()}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition disabled:opacity-50"
+          >
+            {pending === 'add' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Add Reference
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+// Reference dates are calendar days stored as UTC midnight
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
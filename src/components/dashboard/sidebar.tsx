@@ -7,6 +7,7 @@ import { MemberRole, Organization } from '@prisma/client';
 import {
   LayoutDashboard,
   FolderKanban,
+  CalendarDays,
   FileText,
   Mic,
   Settings,
@@ -17,6 +18,7 @@ import {
   CreditCard,
   Shield,
   HelpCircle,
+  BookOpen,
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -33,6 +35,7 @@ interface SidebarProps {
 const mainNavItems = [
   { href: '/dashboard', icon: LayoutDashboard, label: 'Dashboard' },
   { href: '/cases', icon: FolderKanban, label: 'Cases' },
+  { href: '/calendar', icon: CalendarDays, label: 'Calendar' },
   { href: '/recordings', icon: Mic, label: 'Recordings' },
   { href: '/forms', icon: FileText, label: 'Forms' },
 ];
@@ -42,6 +45,7 @@ const adminNavItems = [
   { href: '/analytics', icon: BarChart3, label: 'Analytics' },
   { href: '/settings/api-keys', icon: Key, label: 'API Keys' },
   { href: '/settings/webhooks', icon: Webhook, label: 'Webhooks' },
+  { href: '/settings/glossary', icon: BookOpen, label: 'Glossary' },
   { href: '/settings/billing', icon: CreditCard, label: 'Billing' },
   { href: '/settings/audit-log', icon: Shield, label: 'Audit Log' },
 ];
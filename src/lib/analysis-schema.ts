@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { FormType } from '@prisma/client';
+
+/**
+ * Bump when the shape of IpAnalysis changes. Stored results with another
+ * version are treated as missing until the recording is analyzed again.
+ */
+export const ANALYSIS_SCHEMA_VERSION = 1;
+
+// Speaker name from the transcript, null when the statement is unattributed
+const speaker = z.string().nullable();
+
+/**
+ * What the model is asked to produce. Every field is required and uses null
+ * for "not mentioned" so the schema works with OpenAI strict structured output.
+ */
+export const ipAnalysisSchema = z.object({
+  summary: z.string(),
+  inventionDescription: z.string().nullable(),
+  inventors: z.array(
+    z.object({
+      name: z.string(),
+      contribution: z.string().nullable(),
+      speaker,
+    })
+  ),
+  keyDates: z.array(
+    z.object({
+      date: z.string().nullable().describe('ISO 8601 date (YYYY-MM-DD), null if only described relatively'),
+      type: z.enum(['filing', 'priority', 'publication', 'disclosure', 'deadline', 'other']),
+      description: z.string(),
+      speaker,
+    })
+  ),
+  claims: z.array(
+    z.object({
+      text: z.string(),
+      speaker,
+    })
+  ),
+  priorArt: z.array(
+    z.object({
+      reference: z.string().describe('Patent number, trademark, publication or product name'),
+      description: z.string().nullable(),
+      speaker,
+    })
+  ),
+  technicalDetails: z.array(z.string()),
+  clientInformation: z.array(
+    z.object({
+      name: z.string().nullable(),
+      company: z.string().nullable(),
+      email: z.string().nullable(),
+      phone: z.string().nullable(),
+    })
+  ),
+  actionItems: z.array(
+    z.object({
+      description: z.string(),
+      owner: z.string().nullable(),
+      dueDate: z.string().nullable().describe('ISO 8601 date (YYYY-MM-DD)'),
+      speaker,
+    })
+  ),
+  riskFactors: z.array(
+    z.object({
+      description: z.string(),
+      severity: z.enum(['low', 'medium', 'high']),
+    })
+  ),
+  suggestedFormType: z.nativeEnum(FormType).nullable(),
+});
+
+/**
+ * Shape of Recording.analysisResult
+ */
+export const analysisResultSchema = ipAnalysisSchema.extend({
+  schemaVersion: z.literal(ANALYSIS_SCHEMA_VERSION),
+});
+
+export type IpAnalysis = z.infer<typeof ipAnalysisSchema>;
+export type AnalysisResult = z.infer<typeof analysisResultSchema>;
+
+/**
+ * Read a stored analysis, null if there is none or it predates the current schema
+ */
+export function parseAnalysisResult(value: unknown): AnalysisResult | null {
+  const result = analysisResultSchema.safeParse(value);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Describe validation failures in a form a model can act on when repairing its output
+ */
+export function formatValidationIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 20)
+    .map((issue) => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('\n');
+}
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { db } = vi.hoisted(() => ({
+  db: {
+    organization: { findUnique: vi.fn() },
+    llmCall: { create: vi.fn() },
+  },
+}));
+
+vi.mock('./db', () => ({ db }));
+
+import { analyzeTranscript } from './analysis';
+import { ANALYSIS_SCHEMA_VERSION } from './analysis-schema';
+import { MockLLMProvider } from './llm-providers';
+
+beforeEach(() => {
+  db.organization.findUnique.mockReset().mockResolvedValue({ settings: { llm: { provider: 'mock' } } });
+  db.llmCall.create.mockReset().mockResolvedValue({});
+});
+
+describe('MockLLMProvider', () => {
+  const provider = new MockLLMProvider();
+
+  it('answers free text and JSON requests with fixed content', async () => {
+    const request = { system: 'You are terse.', messages: [{ role: 'user' as const, content: 'Hello' }] };
+
+    expect((await provider.complete(request, 'mock')).content).toBe('Mock response.');
+    expect((await provider.complete({ ...request, json: true }, 'mock')).content).toBe('{}');
+  });
+
+  it('builds a sample object from a structured request schema', async () => {
+    const response = await provider.complete(
+      {
+        system: '',
+        messages: [{ role: 'user', content: 'Describe the mark' }],
+        schema: {
+          name: 'mark',
+          jsonSchema: {
+            type: 'object',
+            properties: {
+              mark: { type: 'string' },
+              classes: { type: 'array', items: { type: 'integer' } },
+              kind: { enum: ['word', 'design'] },
+              registered: { anyOf: [{ type: 'null' }, { type: 'boolean' }] },
+            },
+          },
+        },
+      },
+      'mock'
+    );
+
+    expect(JSON.parse(response.content)).toEqual({ mark: 'Mock mark', classes: [0], kind: 'word', registered: false });
+    expect(response.usage).toEqual({ inputTokens: 5, outputTokens: Math.ceil(response.content.length / 4) });
+  });
+});
+
+describe('analyzeTranscript', () => {
+  it('returns a schema-valid analysis from the mock provider and records the call', async () => {
+    const result = await analyzeTranscript('[00:00:01] Jane Doe (inventor): The widget folds in half.', {
+      organizationId: 'org_1',
+      recordingId: 'rec_1',
+      userId: 'user_1',
+    });
+
+    expect(result.provider).toBe('mock');
+    expect(result.model).toBe('mock');
+    expect(result.analysis.schemaVersion).toBe(ANALYSIS_SCHEMA_VERSION);
+    expect(result.analysis.summary).toBe('Mock summary');
+
+    expect(db.llmCall.create).toHaveBeenCalledTimes(1);
+    expect(db.llmCall.create.mock.calls[0][0].data).toMatchObject({
+      organizationId: 'org_1',
+      provider: 'mock',
+      purpose: 'analysis',
+      success: true,
+      cost: 0,
+      entityType: 'recording',
+      entityId: 'rec_1',
+      createdBy: 'user_1',
+    });
+  });
+});
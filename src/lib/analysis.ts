@@ -0,0 +1,124 @@
+import { zodResponseFormat } from 'openai/helpers/zod';
+import {
+  ANALYSIS_SCHEMA_VERSION,
+  AnalysisResult,
+  formatValidationIssues,
+  ipAnalysisSchema,
+} from './analysis-schema';
+import { completeWithFallback, LLMMessage } from './llm';
+import { LLMProviderName } from './llm-providers';
+
+// Model calls per analysis, including repairs of invalid output
+const MAX_ANALYSIS_ATTEMPTS = 3;
+
+const IP_ANALYSIS_PROMPT = `You are an expert IP paralegal assistant. Analyze the following transcription and extract relevant information for intellectual property case management.
+
+Extract the following:
+1. **Summary**: A short summary of the conversation
+2. **Invention/Work Description**: Main subject matter
+3. **Inventors/Creators**: Names mentioned and what each contributed
+4. **Key Dates**: Filing dates, priority dates, deadlines mentioned
+5. **Claims/Rights**: Specific claims or rights discussed
+6. **Prior Art/References**: Any references to existing patents, trademarks, or works
+7. **Technical Details**: Technical specifications relevant to the IP
+8. **Client Information**: Contact details, company names
+9. **Action Items**: Tasks or follow-ups mentioned
+10. **Risk Factors**: Potential issues or concerns
+11. **Suggested Form Type**: The form to file based on content
+
+The transcription may prefix each turn with the speaker's name and role, e.g. "[00:01:05] Jane Doe (inventor): ...". When it does, attribute each inventor, date, claim, reference and action item to the speaker who stated it by setting its "speaker" field to that speaker's name. Only treat someone as an inventor if they describe contributing to the invention themselves.
+
+Use null or an empty list for anything the transcription does not mention. Never invent names, dates or references.`;
+
+const ANALYSIS_SCHEMA_NAME = 'record_ip_analysis';
+
+// JSON schema for structured output, shared by every provider
+const analysisJsonSchema = zodResponseFormat(ipAnalysisSchema, ANALYSIS_SCHEMA_NAME).json_schema.schema as Record<string, unknown>;
+
+export class AnalysisValidationError extends Error {
+  constructor(message: string, public issues: string) {
+    super(message);
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+/**
+ * Analyze a transcript and return the validated analysis with the provider and
+ * model that produced it. Output is requested as structured data; invalid
+ * output is sent back to the model with the validation errors to repair.
+ * A glossary section, when given, is appended to the instructions.
+ */
+export async function analyzeTranscript(
+  transcript: string,
+  context: {
+    organizationId: string;
+    recordingId: string;
+    userId?: string;
+    provider?: LLMProviderName;
+    glossary?: string;
+  }
+): Promise<{ analysis: AnalysisResult; provider: LLMProviderName; model: string }> {
+  const messages: LLMMessage[] = [{ role: 'user', content: `Transcription:\n${transcript}` }];
+  let provider = context.provider;
+  let issues = '';
+
+  for (let attempt = 1; attempt <= MAX_ANALYSIS_ATTEMPTS; attempt++) {
+    const response = await completeWithFallback(
+      {
+        system: context.glossary ? `${IP_ANALYSIS_PROMPT}\n\n${context.glossary}` : IP_ANALYSIS_PROMPT,
+        messages,
+        schema: {
+          name: ANALYSIS_SCHEMA_NAME,
+          description: 'Record the structured IP analysis of the transcription',
+          jsonSchema: analysisJsonSchema,
+        },
+      },
+      {
+        organizationId: context.organizationId,
+        purpose: 'analysis',
+        entityType: 'recording',
+        entityId: context.recordingId,
+        userId: context.userId,
+        provider,
+      }
+    );
+
+    const result = validateAnalysis(response.content);
+    if (result.analysis) {
+      return { analysis: result.analysis, provider: response.provider, model: response.model };
+    }
+
+    // Repair with the provider that produced the invalid output
+    provider = response.provider;
+    issues = result.issues;
+    messages.push(
+      { role: 'assistant', content: response.content },
+      { role: 'user', content: repairInstructions(issues) }
+    );
+  }
+
+  throw new AnalysisValidationError(`Analysis did not match the schema after ${MAX_ANALYSIS_ATTEMPTS} attempts`, issues);
+}
+
+/**
+ * Parse and validate model output, stamping it with the schema version
+ */
+function validateAnalysis(output: string): { analysis: AnalysisResult | null; issues: string } {
+  let value: unknown;
+  try {
+    value = JSON.parse(output);
+  } catch {
+    return { analysis: null, issues: '- (root): Response was not valid JSON' };
+  }
+
+  const result = ipAnalysisSchema.safeParse(value);
+  if (!result.success) {
+    return { analysis: null, issues: formatValidationIssues(result.error) };
+  }
+
+  return { analysis: { schemaVersion: ANALYSIS_SCHEMA_VERSION, ...result.data }, issues: '' };
+}
+
+function repairInstructions(issues: string): string {
+  return `Your analysis did not match the required schema:\n${issues}\n\nReturn the complete analysis again, corrected.`;
+}
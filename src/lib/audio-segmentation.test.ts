@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { planSegments } from './audio-segmentation';
+
+describe('planSegments', () => {
+  it('keeps audio shorter than the limit in one segment', () => {
+    expect(planSegments(300, [], { maxSegmentSeconds: 600 })).toEqual([{ index: 0, start: 0, end: 300, cutStart: 0 }]);
+  });
+
+  it('cuts at the middle of the latest silence before the limit', () => {
+    const silences = [
+      { start: 400, end: 402 },
+      { start: 550, end: 552 },
+    ];
+
+    expect(planSegments(1500, silences, { maxSegmentSeconds: 600, overlapSeconds: 2 })).toEqual([
+      { index: 0, start: 0, end: 551, cutStart: 0 },
+      { index: 1, start: 549, end: 1151, cutStart: 551 },
+      { index: 2, start: 1149, end: 1500, cutStart: 1151 },
+    ]);
+  });
+
+  it('hard-cuts when the only silence would leave a tiny segment', () => {
+    const segments = planSegments(900, [{ start: 100, end: 101 }], { maxSegmentSeconds: 600, overlapSeconds: 2 });
+
+    expect(segments.map((segment) => segment.cutStart)).toEqual([0, 600]);
+    expect(segments[1].start).toBe(598);
+  });
+});
@@ -0,0 +1,177 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+
+export interface Silence {
+  start: number;
+  end: number;
+}
+
+export interface AudioSegment {
+  index: number;
+  start: number;       // Start offset in the source, including overlap (seconds)
+  end: number;         // End offset in the source (seconds)
+  cutStart: number;    // Where this segment's own content begins, after the overlap
+}
+
+export interface SegmentationOptions {
+  maxSegmentSeconds?: number;
+  overlapSeconds?: number;
+  silenceThresholdDb?: number;
+  minSilenceSeconds?: number;
+}
+
+const DEFAULT_OPTIONS: Required<SegmentationOptions> = {
+  maxSegmentSeconds: 10 * 60,
+  overlapSeconds: 2,
+  silenceThresholdDb: -35,
+  minSilenceSeconds: 0.5,
+};
+
+/**
+ * Run ffmpeg and resolve with its stderr output (where ffmpeg writes its logs)
+ */
+function runFfmpeg(args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(FFMPEG_PATH, ['-hide_banner', '-nostdin', ...args]);
+    let stderr = '';
+
+    proc.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+    proc.on('error', (err) => reject(new Error(`Failed to start ffmpeg: ${err.message}`)));
+    proc.on('close', (code) => {
+      if (code === 0) {
+        resolve(stderr);
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.slice(-500)}`));
+      }
+    });
+  });
+}
+
+/**
+ * Detect silent stretches and total duration in a single ffmpeg pass
+ */
+export async function detectSilences(
+  filePath: string,
+  options: SegmentationOptions = {}
+): Promise<{ duration: number; silences: Silence[] }> {
+  const { silenceThresholdDb, minSilenceSeconds } = { ...DEFAULT_OPTIONS, ...options };
+
+  const output = await runFfmpeg([
+    '-i', filePath,
+    '-af', `silencedetect=noise=${silenceThresholdDb}dB:d=${minSilenceSeconds}`,
+    '-f', 'null',
+    '-',
+  ]);
+
+  const silences: Silence[] = [];
+  let pendingStart: number | null = null;
+
+  for (const line of output.split('\n')) {
+    const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+    if (startMatch) {
+      pendingStart = Math.max(0, parseFloat(startMatch[1]));
+      continue;
+    }
+    const endMatch = line.match(/silence_end:\s*([\d.]+)/);
+    if (endMatch && pendingStart !== null) {
+      silences.push({ start: pendingStart, end: parseFloat(endMatch[1]) });
+      pendingStart = null;
+    }
+  }
+
+  // Prefer the decoded length ("time=" in the final progress line); webm from
+  // MediaRecorder often has no duration in its header
+  const times = Array.from(output.matchAll(/time=(\d+):(\d+):([\d.]+)/g));
+  const headerMatch = output.match(/Duration:\s*(\d+):(\d+):([\d.]+)/);
+  const match = times.length > 0 ? times[times.length - 1] : headerMatch;
+  const duration = match
+    ? parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseFloat(match[3])
+    : 0;
+
+  return { duration, silences };
+}
+
+/**
+ * Choose segment boundaries, cutting at the midpoint of the latest silence
+ * before each segment reaches maxSegmentSeconds, or hard-cutting if none exists.
+ */
+export function planSegments(
+  duration: number,
+  silences: Silence[],
+  options: SegmentationOptions = {}
+): AudioSegment[] {
+  const { maxSegmentSeconds, overlapSeconds } = { ...DEFAULT_OPTIONS, ...options };
+  const segments: AudioSegment[] = [];
+  // Don't cut so early that segments become tiny
+  const minSegmentSeconds = maxSegmentSeconds / 2;
+
+  let cutStart = 0;
+  while (cutStart < duration) {
+    let cutEnd = Math.min(cutStart + maxSegmentSeconds, duration);
+
+    if (cutEnd < duration) {
+      const candidates = silences
+        .map((silence) => (silence.start + silence.end) / 2)
+        .filter((mid) => mid > cutStart + minSegmentSeconds && mid <= cutEnd);
+      if (candidates.length > 0) {
+        cutEnd = candidates[candidates.length - 1];
+      }
+    }
+
+    segments.push({
+      index: segments.length,
+      start: Math.max(0, cutStart - (segments.length > 0 ? overlapSeconds : 0)),
+      end: cutEnd,
+      cutStart,
+    });
+    cutStart = cutEnd;
+  }
+
+  return segments;
+}
+
+/**
+ * Split an audio buffer into compressed mono segments small enough for the
+ * transcription provider. Returns the segment plan with each segment's audio.
+ */
+export async function splitAudio(
+  audio: Buffer,
+  extension: string,
+  options: SegmentationOptions = {}
+): Promise<{ duration: number; segments: (AudioSegment & { audio: Buffer })[] }> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'recording-'));
+
+  try {
+    const inputPath = path.join(workDir, `input.${extension}`);
+    await fs.writeFile(inputPath, audio);
+
+    const { duration, silences } = await detectSilences(inputPath, options);
+    const plan = planSegments(duration, silences, options);
+
+    const segments: (AudioSegment & { audio: Buffer })[] = [];
+    for (const segment of plan) {
+      const outputPath = path.join(workDir, `segment-${segment.index}.mp3`);
+      // 16kHz mono at 48kbps keeps a 10 minute segment around 3.5MB
+      await runFfmpeg([
+        '-ss', segment.start.toFixed(3),
+        '-i', inputPath,
+        '-t', (segment.end - segment.start).toFixed(3),
+        '-ac', '1',
+        '-ar', '16000',
+        '-b:a', '48k',
+        '-y', outputPath,
+      ]);
+      segments.push({ ...segment, audio: await fs.readFile(outputPath) });
+    }
+
+    return { duration, segments };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
@@ -1,3 +1,4 @@
+import { Prisma } from '@prisma/client';
 import { db } from './db';
 import { headers } from 'next/headers';
 
@@ -13,21 +14,49 @@ export type AuditAction =
   | 'case.updated'
   | 'case.deleted'
   | 'case.status_changed'
+  | 'docket.event_created'
+  | 'docket.event_deleted'
+  | 'deadline.updated'
+  | 'deadline.completed'
+  | 'deadline.acknowledged'
   | 'form.created'
   | 'form.updated'
+  | 'form.deleted'
+  | 'form.fields_reviewed'
+  | 'form.changes_accepted'
+  | 'form.changes_rejected'
   | 'form.submitted'
   | 'form.approved'
   | 'form.rejected'
+  | 'form.populated'
+  | 'form.pdf_generated'
+  | 'form.restored'
+  | 'form.reviewer_assigned'
+  | 'document.uploaded'
+  | 'office_action.parsed'
+  | 'prior_art.added'
+  | 'prior_art.imported'
+  | 'prior_art.updated'
+  | 'prior_art.deleted'
+  | 'prior_art.ids_generated'
   | 'recording.created'
+  | 'recording.uploaded'
   | 'recording.transcribed'
+  | 'recording.transcript_edited'
   | 'recording.analyzed'
+  | 'recording.speakers_updated'
   | 'recording.deleted'
   | 'api_key.created'
   | 'api_key.deleted'
   | 'api_key.used'
+  | 'calendar_feed.created'
+  | 'calendar_feed.revoked'
   | 'webhook.created'
   | 'webhook.updated'
   | 'webhook.deleted'
+  | 'glossary.created'
+  | 'glossary.updated'
+  | 'glossary.deleted'
   | 'settings.updated'
   | 'subscription.created'
   | 'subscription.updated'
@@ -50,9 +79,7 @@ export interface AuditLogParams {
  * Create an audit log entry
  */
 export async function createAuditLog(params: AuditLogParams) {
-  const headersList = headers();
-  const ipAddress = headersList.get('x-forwarded-for') || headersList.get('x-real-ip') || 'unknown';
-  const userAgent = headersList.get('user-agent') || undefined;
+  const { ipAddress, userAgent } = getRequestInfo();
 
   return db.auditLog.create({
     data: {
@@ -65,13 +92,29 @@ export async function createAuditLog(params: AuditLogParams) {
       entityType: params.entityType,
       entityId: params.entityId,
       description: params.description,
-      oldValue: params.oldValue,
-      newValue: params.newValue,
-      metadata: params.metadata || {},
+      oldValue: params.oldValue as Prisma.InputJsonValue | undefined,
+      newValue: params.newValue as Prisma.InputJsonValue | undefined,
+      metadata: (params.metadata || {}) as Prisma.InputJsonValue,
     },
   });
 }
 
+/**
+ * Client details from the current request. Background jobs run outside a
+ * request, where headers() throws, so they are logged as the worker.
+ */
+function getRequestInfo(): { ipAddress: string; userAgent?: string } {
+  try {
+    const headersList = headers();
+    return {
+      ipAddress: headersList.get('x-forwarded-for') || headersList.get('x-real-ip') || 'unknown',
+      userAgent: headersList.get('user-agent') || undefined,
+    };
+  } catch {
+    return { ipAddress: 'worker' };
+  }
+}
+
 /**
  * Get audit logs for an organization
  */
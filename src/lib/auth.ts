@@ -1,4 +1,4 @@
-import { auth, currentUser } from '@clerk/nextjs';
+import { auth, currentUser, clerkClient } from '@clerk/nextjs';
 import { redirect } from 'next/navigation';
 import { db } from './db';
 import { MemberRole } from '@prisma/client';
@@ -38,8 +38,8 @@ export async function getAuth(): Promise<AuthUser | null> {
 
   return {
     userId,
-    orgId,
-    orgSlug,
+    orgId: orgId ?? null,
+    orgSlug: orgSlug ?? null,
     role,
   };
 }
@@ -121,6 +121,23 @@ export async function getCurrentOrganization() {
   });
 }
 
+/**
+ * List organization members with their display names from Clerk
+ */
+export async function getOrganizationMembers(clerkOrgId: string) {
+  const memberships = await clerkClient.organizations.getOrganizationMembershipList({
+    organizationId: clerkOrgId,
+    limit: 100,
+  });
+
+  return memberships.flatMap((membership) => {
+    const user = membership.publicUserData;
+    if (!user) return [];
+    const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+    return [{ userId: user.userId, name: name || user.identifier, email: user.identifier }];
+  });
+}
+
 /**
  * Sync organization from Clerk to database
  */
@@ -0,0 +1,136 @@
+import { db } from './db';
+import crypto from 'crypto';
+import { createAuditLog } from './audit';
+
+const FEED_TOKEN_PREFIX = 'ical_';
+const TOKEN_LENGTH = 32;
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+/**
+ * Generate a new feed token
+ */
+export function generateFeedToken(): { token: string; hash: string; prefix: string } {
+  const token = FEED_TOKEN_PREFIX + crypto.randomBytes(TOKEN_LENGTH).toString('base64url');
+  const hash = crypto.createHash('sha256').update(token).digest('hex');
+  const prefix = token.substring(0, 12);
+
+  return { token, hash, prefix };
+}
+
+/**
+ * Subscription URL for a feed token
+ */
+export function getFeedUrl(token: string): string {
+  return `${APP_URL}/api/v1/calendar.ics?token=${token}`;
+}
+
+/**
+ * Create a calendar feed of a user's deadlines
+ */
+export async function createCalendarFeed(organizationId: string, userId: string, name: string) {
+  const { token, hash, prefix } = generateFeedToken();
+
+  const feed = await db.calendarFeed.create({
+    data: {
+      organizationId,
+      userId,
+      name,
+      token: hash,
+      tokenPrefix: prefix,
+    },
+  });
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: 'calendar_feed.created',
+    entityType: 'calendar_feed',
+    entityId: feed.id,
+    description: `Calendar feed "${name}" created`,
+  });
+
+  // Return the URL only once - the token cannot be retrieved later
+  return {
+    id: feed.id,
+    name: feed.name,
+    tokenPrefix: feed.tokenPrefix,
+    createdAt: feed.createdAt,
+    url: getFeedUrl(token),
+  };
+}
+
+/**
+ * Validate a feed token and return the feed it belongs to. A feed stops
+ * working as soon as its owner is no longer a member of the organization.
+ */
+export async function validateFeedToken(token: string) {
+  if (!token.startsWith(FEED_TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const hash = crypto.createHash('sha256').update(token).digest('hex');
+
+  const feed = await db.calendarFeed.findUnique({
+    where: { token: hash },
+  });
+
+  if (!feed || !feed.isActive) {
+    return null;
+  }
+
+  const member = await db.organizationMember.findUnique({
+    where: { organizationId_userId: { organizationId: feed.organizationId, userId: feed.userId } },
+  });
+
+  if (!member) {
+    return null;
+  }
+
+  await db.calendarFeed.update({
+    where: { id: feed.id },
+    data: { lastUsedAt: new Date() },
+  });
+
+  return feed;
+}
+
+/**
+ * Revoke a calendar feed; calendar apps subscribed to it stop updating.
+ * Admins may revoke other members' feeds.
+ */
+export async function revokeCalendarFeed(feedId: string, organizationId: string, revokedBy: string) {
+  const feed = await db.calendarFeed.update({
+    where: { id: feedId, organizationId },
+    data: { isActive: false },
+  });
+
+  await createAuditLog({
+    organizationId,
+    userId: revokedBy,
+    action: 'calendar_feed.revoked',
+    entityType: 'calendar_feed',
+    entityId: feedId,
+    description: `Calendar feed "${feed.name}" revoked`,
+  });
+
+  return feed;
+}
+
+/**
+ * List a user's active calendar feeds, or every member's when no user is given
+ */
+export async function listCalendarFeeds(organizationId: string, userId?: string) {
+  return db.calendarFeed.findMany({
+    where: { organizationId, ...(userId ? { userId } : {}), isActive: true },
+    select: {
+      id: true,
+      userId: true,
+      name: true,
+      tokenPrefix: true,
+      lastUsedAt: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
@@ -0,0 +1,154 @@
+import { DeadlineStatus } from '@prisma/client';
+import { formatDate } from './docketing';
+
+export type CalendarView = 'month' | 'week' | 'list';
+
+export const CALENDAR_VIEWS: CalendarView[] = ['month', 'week', 'list'];
+
+export interface CalendarRange {
+  start: Date;
+  end: Date; // Exclusive
+  days: Date[];
+}
+
+export interface FeedDeadline {
+  id: string;
+  title: string;
+  description: string | null;
+  dueDate: Date;
+  finalDate: Date | null;
+  status: DeadlineStatus;
+  updatedAt: Date;
+  case: { id: string; caseNumber: string; title: string };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+// RFC 5545 content lines are folded at 75 octets
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Days shown by a view around an anchor date, as UTC midnights like docket dates.
+ * Month and week views run in whole weeks from Sunday; the list view covers the
+ * anchor's calendar month.
+ */
+export function getCalendarRange(view: CalendarView, anchor: Date): CalendarRange {
+  let start: Date;
+  let end: Date;
+
+  if (view === 'week') {
+    start = addDays(anchor, -anchor.getUTCDay());
+    end = addDays(start, 7);
+  } else {
+    const monthStart = new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth(), 1));
+    const monthEnd = new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth() + 1, 1));
+
+    if (view === 'list') {
+      start = monthStart;
+      end = monthEnd;
+    } else {
+      start = addDays(monthStart, -monthStart.getUTCDay());
+      end = addDays(monthEnd, (7 - monthEnd.getUTCDay()) % 7);
+    }
+  }
+
+  const days: Date[] = [];
+  for (let day = start; day < end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+
+  return { start, end, days };
+}
+
+/**
+ * Anchor date of the previous or next page of a view
+ */
+export function shiftAnchor(view: CalendarView, anchor: Date, direction: 1 | -1): Date {
+  if (view === 'week') {
+    return addDays(anchor, 7 * direction);
+  }
+  return new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth() + direction, 1));
+}
+
+/**
+ * Build an iCalendar document with one all-day event per deadline
+ */
+export function buildDeadlineCalendar(name: string, deadlines: FeedDeadline[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//IP Paralegal Platform//Docket//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-PUBLISHED-TTL:PT1H',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+  ];
+
+  for (const deadline of deadlines) {
+    const caseUrl = `${APP_URL}/cases/${deadline.case.id}`;
+    const description = [
+      `${deadline.case.caseNumber}: ${deadline.case.title}`,
+      deadline.description,
+      deadline.finalDate ? `Last day with extensions: ${formatDate(deadline.finalDate)}` : null,
+      caseUrl,
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:deadline-${deadline.id}@ip-paralegal`,
+      `DTSTAMP:${formatTimestamp(deadline.updatedAt)}`,
+      `DTSTART;VALUE=DATE:${formatDay(deadline.dueDate)}`,
+      `DTEND;VALUE=DATE:${formatDay(addDays(deadline.dueDate, 1))}`,
+      `SUMMARY:${escapeText(`${deadline.status === 'COMPLETED' ? 'Done: ' : ''}[${deadline.case.caseNumber}] ${deadline.title}`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `URL:${caseUrl}`,
+      `STATUS:${deadline.status === 'CANCELLED' ? 'CANCELLED' : 'CONFIRMED'}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function formatDay(date: Date): string {
+  return formatDate(date).replace(/-/g, '');
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Continuation lines start with a space, which counts towards their length
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of Array.from(line)) {
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
@@ -0,0 +1,119 @@
+import { db } from './db';
+import { getStorage, getRecordingKey, normalizeMimeType, AUDIO_MIME_TYPES } from './storage';
+
+// Keep chunks well under the 4.5MB serverless request body limit
+export const MAX_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// 4GB at the maximum chunk size, far longer than any meeting
+export const MAX_CHUNKS = 1000;
+
+/**
+ * Build the object key for a single pending chunk
+ */
+function getChunkKey(organizationId: string, recordingId: string, index: number): string {
+  return `uploads/${organizationId}/${recordingId}/${String(index).padStart(6, '0')}`;
+}
+
+/**
+ * Store one chunk of a resumable upload. Re-sending an index overwrites it,
+ * so clients can safely retry a chunk whose response was lost.
+ */
+export async function saveChunk(
+  organizationId: string,
+  recordingId: string,
+  index: number,
+  body: Buffer
+) {
+  const key = getChunkKey(organizationId, recordingId, index);
+  await getStorage().putObject(key, body, 'application/octet-stream');
+
+  return db.recordingChunk.upsert({
+    where: { recordingId_index: { recordingId, index } },
+    update: { key, size: body.length },
+    create: { recordingId, index, key, size: body.length },
+  });
+}
+
+/**
+ * Bytes held in chunks of the organization's unfinished uploads, other than
+ * the chunk about to be replaced
+ */
+export async function getPendingChunkBytes(organizationId: string, replacing: { recordingId: string; index: number }) {
+  const pending = await db.recordingChunk.aggregate({
+    where: {
+      recording: { organizationId },
+      NOT: { recordingId: replacing.recordingId, index: replacing.index },
+    },
+    _sum: { size: true },
+  });
+  return pending._sum.size || 0;
+}
+
+/**
+ * Get the chunks received so far, used by clients to resume an upload
+ */
+export async function getUploadStatus(recordingId: string) {
+  const chunks = await db.recordingChunk.findMany({
+    where: { recordingId },
+    orderBy: { index: 'asc' },
+    select: { index: true, size: true },
+  });
+
+  // The next index to send is the first gap in the sequence
+  let nextIndex = 0;
+  while (nextIndex < chunks.length && chunks[nextIndex].index === nextIndex) {
+    nextIndex++;
+  }
+
+  return {
+    uploadedChunks: chunks.map((chunk) => chunk.index),
+    receivedBytes: chunks.reduce((sum, chunk) => sum + chunk.size, 0),
+    nextIndex,
+  };
+}
+
+/**
+ * Concatenate all chunks into the final audio object, streaming them through
+ * storage rather than into memory, and clean up.
+ * Returns the missing indexes instead if any chunk in 0..totalChunks-1 has not arrived.
+ */
+export async function assembleChunks(
+  organizationId: string,
+  recordingId: string,
+  totalChunks: number,
+  mimeType: string | null
+) {
+  const contentType = normalizeMimeType(mimeType || 'audio/webm');
+  if (!AUDIO_MIME_TYPES.includes(contentType)) {
+    throw new Error(`Unsupported audio type: ${contentType}`);
+  }
+
+  const chunks = await db.recordingChunk.findMany({
+    where: { recordingId },
+    orderBy: { index: 'asc' },
+  });
+
+  const received = new Set(chunks.map((chunk) => chunk.index));
+  const missing: number[] = [];
+  for (let i = 0; i < totalChunks; i++) {
+    if (!received.has(i)) {
+      missing.push(i);
+    }
+  }
+  if (missing.length > 0) {
+    return { object: null, missing };
+  }
+
+  const storage = getStorage();
+  const key = getRecordingKey(organizationId, recordingId, contentType);
+  const object = await storage.composeObject(
+    key,
+    chunks.filter((chunk) => chunk.index < totalChunks).map((chunk) => chunk.key),
+    contentType
+  );
+
+  await Promise.all(chunks.map((chunk) => storage.deleteObject(chunk.key)));
+  await db.recordingChunk.deleteMany({ where: { recordingId } });
+
+  return { object, missing };
+}
@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { completeWithFallback } from './llm';
+import { LLMProviderName } from './llm-providers';
+import { AnalysisResult } from './analysis-schema';
+import { ClaimEntry, findAntecedentIssues } from './claims';
+
+// Enough to choose from without burying the claim set
+const MAX_SUGGESTIONS = 8;
+
+const SUGGESTIONS_SCHEMA_NAME = 'suggest_dependent_claims';
+
+const claimSuggestionsSchema = z.object({
+  suggestions: z.array(
+    z.object({
+      dependsOn: z.number().int().describe('Number of the existing claim the new claim depends on'),
+      claimText: z.string().describe('Full claim text, e.g. "The device of claim 1, wherein ..."'),
+      basis: z.enum(['technical_details', 'claims_rights']).describe('Analysis section the added feature comes from'),
+      rationale: z.string().describe('Why the narrower claim is worth having, in one sentence'),
+    })
+  ),
+});
+
+const suggestionsJsonSchema = zodResponseFormat(claimSuggestionsSchema, SUGGESTIONS_SCHEMA_NAME).json_schema.schema as Record<string, unknown>;
+
+export interface ClaimSuggestion {
+  dependsOn: number;
+  claimText: string;
+  basis: 'technical_details' | 'claims_rights';
+  rationale: string;
+  antecedentIssues: string[];       // Terms in the suggested text without antecedent basis
+}
+
+/**
+ * Ask the LLM for dependent claims that narrow the existing claims with features
+ * from the Technical Details and Claims/Rights of recording analyses. Suggestions
+ * are returned for someone to add; nothing is written to the form here.
+ */
+export async function suggestDependentClaims(input: {
+  organizationId: string;
+  formId: string;
+  userId?: string;
+  provider?: LLMProviderName;
+  claims: ClaimEntry[];
+  analyses: { recordingName: string; analysis: AnalysisResult }[];
+}): Promise<{ suggestions: ClaimSuggestion[]; provider: LLMProviderName; model: string }> {
+  const numbers = input.claims.map((claim, index) => Number(claim.claimNumber) || index + 1);
+
+  const prompt = `Suggest up to ${MAX_SUGGESTIONS} new dependent claims for the claim set below.
+
+Each suggestion must depend on one of the existing claims and narrow it with a single feature taken from the technical details or the claims and rights discussed in the recordings. Prefer features that would distinguish the invention from prior art or give a fallback position in prosecution. Do not repeat features already claimed.
+
+Write each claim in US form, starting with the preamble of its parent, e.g. "The device of claim 1, wherein ...". Refer back to elements of the parent claims with "the" or "said", and introduce new elements with "a" or "an".
+
+Existing claims:
+${input.claims.map((claim, index) => `${numbers[index]}. ${claim.claimType === 'Dependent' && claim.dependsOn ? `(depends on ${claim.dependsOn}) ` : ''}${claim.claimText}`).join('\n')}
+
+${input.analyses
+  .map(({ recordingName, analysis }) =>
+    [
+      `Recording "${recordingName}":`,
+      'Technical Details:',
+      ...analysis.technicalDetails.map((detail) => `- ${detail}`),
+      'Claims/Rights:',
+      ...analysis.claims.map((claim) => `- ${claim.text}`),
+    ].join('\n')
+  )
+  .join('\n\n')}`;
+
+  const response = await completeWithFallback(
+    {
+      system: 'You are an experienced US patent practitioner drafting claims. Follow USPTO claim drafting practice and only use features supported by the information given.',
+      messages: [{ role: 'user', content: prompt }],
+      schema: {
+        name: SUGGESTIONS_SCHEMA_NAME,
+        description: 'Record the suggested dependent claims',
+        jsonSchema: suggestionsJsonSchema,
+      },
+    },
+    {
+      organizationId: input.organizationId,
+      purpose: 'claim_suggestions',
+      entityType: 'form',
+      entityId: input.formId,
+      userId: input.userId,
+      provider: input.provider,
+    }
+  );
+
+  const result = claimSuggestionsSchema.safeParse(JSON.parse(response.content || '{}'));
+  if (!result.success) {
+    throw new Error(`Claim suggestions returned an invalid response: ${result.error.issues[0]?.message}`);
+  }
+
+  const suggestions = result.data.suggestions
+    .filter((suggestion) => numbers.includes(suggestion.dependsOn) && suggestion.claimText.trim())
+    .slice(0, MAX_SUGGESTIONS)
+    .map((suggestion) => {
+      // Checked as if added at the end of the claim set
+      const candidate: ClaimEntry = {
+        claimNumber: Math.max(0, ...numbers) + 1,
+        claimType: 'Dependent',
+        dependsOn: suggestion.dependsOn,
+        claimText: suggestion.claimText.trim(),
+      };
+      const issues = findAntecedentIssues(input.claims.concat(candidate)).filter((issue) => issue.index === input.claims.length);
+
+      return {
+        ...suggestion,
+        claimText: candidate.claimText,
+        antecedentIssues: issues.map((issue) => issue.term),
+      };
+    });
+
+  return { suggestions, provider: response.provider, model: response.model };
+}
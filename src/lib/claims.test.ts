@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { buildClaimTree, ClaimEntry, findAntecedentIssues, getClaims, renumberClaims, sortClaimsByTree } from './claims';
+
+function independent(claimNumber: number, claimText = ''): ClaimEntry {
+  return { claimNumber, claimType: 'Independent', dependsOn: '', claimText };
+}
+
+function dependent(claimNumber: number, dependsOn: number, claimText = ''): ClaimEntry {
+  return { claimNumber, claimType: 'Dependent', dependsOn, claimText };
+}
+
+describe('getClaims', () => {
+  it('skips entries that are not objects', () => {
+    expect(getClaims({ claims: [independent(1), null, 'text', dependent(2, 1)] })).toEqual([independent(1), dependent(2, 1)]);
+    expect(getClaims({ claims: 'not a list' })).toEqual([]);
+    expect(getClaims(null)).toEqual([]);
+  });
+});
+
+describe('renumberClaims', () => {
+  it('numbers claims in list order and follows their parents', () => {
+    expect(renumberClaims([independent(3), dependent(7, 3), dependent(5, 7)])).toEqual([
+      independent(1),
+      dependent(2, 1),
+      dependent(3, 2),
+    ]);
+  });
+
+  it('drops references to claims that are gone', () => {
+    expect(renumberClaims([independent(1), dependent(4, 2)])[1].dependsOn).toBe('');
+  });
+});
+
+describe('buildClaimTree', () => {
+  it('nests dependents under their parents', () => {
+    const tree = buildClaimTree([independent(1), dependent(2, 1), dependent(3, 2), independent(4), dependent(5, 4)]);
+
+    expect(tree.map((node) => node.number)).toEqual([1, 4]);
+    expect(tree[0].children.map((node) => node.number)).toEqual([2]);
+    expect(tree[0].children[0].children.map((node) => node.number)).toEqual([3]);
+    expect(tree[1].children.map((node) => node.number)).toEqual([5]);
+  });
+
+  it('lists claims depending on later or missing claims as orphans', () => {
+    const tree = buildClaimTree([independent(1), dependent(2, 3), dependent(3, 2), dependent(4, 9)]);
+
+    expect(tree.map((node) => [node.number, node.orphan])).toEqual([
+      [1, false],
+      [2, true],
+      [4, true],
+    ]);
+    expect(tree[1].children.map((node) => node.number)).toEqual([3]);
+  });
+});
+
+describe('sortClaimsByTree', () => {
+  it('moves each dependent below its independent claim and renumbers', () => {
+    const sorted = sortClaimsByTree([
+      independent(1, 'A method'),
+      independent(2, 'A system'),
+      dependent(3, 1, 'The method of claim 1'),
+      dependent(4, 2, 'The system of claim 2'),
+    ]);
+
+    expect(sorted.map((claim) => [claim.claimNumber, claim.dependsOn, claim.claimText])).toEqual([
+      [1, '', 'A method'],
+      [2, 1, 'The method of claim 1'],
+      [3, '', 'A system'],
+      [4, 3, 'The system of claim 2'],
+    ]);
+  });
+});
+
+describe('findAntecedentIssues', () => {
+  it('accepts terms introduced earlier in the claim or by a parent claim', () => {
+    expect(
+      findAntecedentIssues([
+        independent(1, 'A device comprising a housing and a plurality of hinges, wherein the housing holds the hinges.'),
+        dependent(2, 1, 'The device of claim 1, wherein said housing is made of steel.'),
+      ])
+    ).toEqual([]);
+  });
+
+  it('reports each unsupported term once, with its claim', () => {
+    expect(
+      findAntecedentIssues([
+        independent(1, 'A device comprising a housing.'),
+        dependent(2, 1, 'The device of claim 1, wherein the lid is hinged to the housing and the lid is removable.'),
+      ])
+    ).toEqual([{ index: 1, claimNumber: 2, term: 'lid' }]);
+  });
+
+  it('does not take support from a sibling claim', () => {
+    const issues = findAntecedentIssues([
+      independent(1, 'A device comprising a housing.'),
+      dependent(2, 1, 'The device of claim 1, further comprising a lid.'),
+      dependent(3, 1, 'The device of claim 1, wherein the lid is hinged.'),
+    ]);
+
+    expect(issues).toEqual([{ index: 2, claimNumber: 3, term: 'lid' }]);
+  });
+
+  it('ignores phrases such as "the same" that are not elements', () => {
+    expect(findAntecedentIssues([independent(1, 'A method of forming a layer and etching the same.')])).toEqual([]);
+  });
+
+  it('finds a term used before it is introduced', () => {
+    expect(findAntecedentIssues([independent(1, 'A widget wherein the spring is held by a spring.')])).toEqual([
+      { index: 0, claimNumber: 1, term: 'spring' },
+    ]);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Claim sets as stored in the `claims` section of a PATENT_CLAIMS form. Pure, so
+ * the claims editor can use it in the browser as well as validation on the server.
+ */
+export interface ClaimEntry {
+  claimNumber: number | '';
+  claimType: 'Independent' | 'Dependent' | '';
+  dependsOn: number | '';
+  claimText: string;
+}
+
+export interface ClaimNode {
+  index: number;              // Position in the claim list
+  number: number;
+  text: string;
+  orphan: boolean;            // Dependent claim whose parent is missing or not an earlier claim
+  children: ClaimNode[];
+}
+
+export interface AntecedentIssue {
+  index: number;
+  claimNumber: number;
+  term: string;               // The phrase after "the" or "said", e.g. "widget"
+}
+
+// Articles and quantifiers that introduce an element
+const INTRODUCERS = ['a', 'an', 'one', 'another', 'plurality', 'multiple', 'several', 'some'];
+const DEFINITE = ['the', 'said'];
+
+// Words that end a noun phrase
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'said', 'of', 'to', 'and', 'or', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'into', 'onto',
+  'upon', 'between', 'through', 'within', 'about', 'via', 'over', 'under', 'against', 'along', 'around', 'across',
+  'wherein', 'whereby', 'which', 'that', 'when', 'where', 'while', 'such', 'than', 'as', 'so', 'if', 'not', 'only',
+  'is', 'are', 'be', 'being', 'been', 'was', 'were', 'has', 'have', 'having', 'comprising', 'comprises', 'comprise',
+  'including', 'includes', 'include', 'consisting', 'consists', 'configured', 'adapted', 'operable', 'capable',
+  'further', 'each', 'least', 'more', 'claim', 'claims', 'thereof', 'therein', 'thereto', 'thereon', 'therefrom',
+]);
+
+// "the same", "the other", ... are not references to an element
+const EXEMPT_TERMS = new Set(['same', 'like', 'other', 'following', 'foregoing', 'above', 'remainder', 'rest']);
+
+// Noun phrases are cut off here so a long tail of modifiers doesn't hide a match
+const MAX_TERM_WORDS = 4;
+
+/**
+ * Claims from Form.data, skipping anything that is not an entry
+ */
+export function getClaims(data: unknown): ClaimEntry[] {
+  const claims = data && typeof data === 'object' ? (data as Record<string, unknown>).claims : null;
+  return Array.isArray(claims) ? (claims.filter((claim) => claim && typeof claim === 'object') as ClaimEntry[]) : [];
+}
+
+/**
+ * Number the claims 1 to n in list order and point each dependent claim at its
+ * parent's new number. A dependent claim whose parent is gone loses its reference.
+ */
+export function renumberClaims(claims: ClaimEntry[]): ClaimEntry[] {
+  const renumbered = new Map<number, number>();
+  claims.forEach((claim, index) => {
+    const number = Number(claim.claimNumber);
+    if (number && !renumbered.has(number)) renumbered.set(number, index + 1);
+  });
+
+  return claims.map((claim, index) => ({
+    ...claim,
+    claimNumber: index + 1,
+    dependsOn: claim.claimType === 'Dependent' ? renumbered.get(Number(claim.dependsOn)) || '' : '',
+  }));
+}
+
+/**
+ * Independent claims with their dependents nested below them. A dependent claim
+ * only hangs off a parent with a lower number, which keeps the tree acyclic;
+ * others are listed as orphaned roots.
+ */
+export function buildClaimTree(claims: ClaimEntry[]): ClaimNode[] {
+  const nodes: ClaimNode[] = claims.map((claim, index) => ({
+    index,
+    number: Number(claim.claimNumber) || index + 1,
+    text: claim.claimText || '',
+    orphan: false,
+    children: [],
+  }));
+
+  const roots: ClaimNode[] = [];
+  nodes.forEach((node, index) => {
+    const parent = claims[index].claimType === 'Dependent' ? findParent(nodes, claims[index]) : null;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      node.orphan = claims[index].claimType === 'Dependent';
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * Claims in tree order: each independent claim followed by its dependents,
+ * depth first, then renumbered
+ */
+export function sortClaimsByTree(claims: ClaimEntry[]): ClaimEntry[] {
+  const order: number[] = [];
+  const visit = (node: ClaimNode) => {
+    order.push(node.index);
+    node.children.forEach(visit);
+  };
+  buildClaimTree(claims).forEach(visit);
+
+  return renumberClaims(order.map((index) => claims[index]));
+}
+
+/**
+ * Definite references ("the widget", "said widget") with no earlier introduction
+ * ("a widget") in the claim itself or in a claim it depends on. A heuristic: it
+ * reads noun phrases by stop words, so it errs towards finding a basis.
+ */
+export function findAntecedentIssues(claims: ClaimEntry[]): AntecedentIssue[] {
+  const nodes = claims.map((claim, index) => ({ number: Number(claim.claimNumber) || index + 1 }));
+  const issues: AntecedentIssue[] = [];
+
+  claims.forEach((claim, index) => {
+    const introduced: string[][] = [];
+    for (const ancestor of getAncestors(claims, nodes, index)) {
+      introduced.push(...scanTerms(ancestor.claimText || '').introduced.map((term) => term.words));
+    }
+
+    const { introduced: own, referenced } = scanTerms(claim.claimText || '');
+    const reported = new Set<string>();
+
+    for (const reference of referenced) {
+      const available = introduced.concat(own.filter((term) => term.position < reference.position).map((term) => term.words));
+      const term = reference.words.join(' ');
+      if (reported.has(term) || available.some((words) => hasBasis(words, reference.words))) continue;
+
+      reported.add(term);
+      issues.push({ index, claimNumber: nodes[index].number, term });
+    }
+  });
+
+  return issues;
+}
+
+function findParent<T extends { number: number }>(nodes: T[], claim: ClaimEntry): T | null {
+  const parentNumber = Number(claim.dependsOn);
+  const own = Number(claim.claimNumber);
+  if (!parentNumber || (own && parentNumber >= own)) return null;
+  return nodes.find((node) => node.number === parentNumber) || null;
+}
+
+function getAncestors(claims: ClaimEntry[], nodes: { number: number }[], index: number): ClaimEntry[] {
+  const ancestors: ClaimEntry[] = [];
+  let current = claims[index];
+
+  while (current.claimType === 'Dependent') {
+    const parent = findParent(nodes, current);
+    if (!parent) break;
+    current = claims[nodes.indexOf(parent)];
+    ancestors.push(current);
+  }
+
+  return ancestors;
+}
+
+function scanTerms(text: string) {
+  const tokens = text.toLowerCase().match(/[a-z0-9][a-z0-9'-]*|[^\sa-z0-9]/g) || [];
+  const introduced: { words: string[]; position: number }[] = [];
+  const referenced: { words: string[]; position: number }[] = [];
+
+  tokens.forEach((token, position) => {
+    const definite = DEFINITE.includes(token);
+    if (!definite && !INTRODUCERS.includes(token)) return;
+
+    let start = position + 1;
+    // "a plurality of widgets", "at least one widget", "one or more widgets"
+    while (['plurality', 'of', 'at', 'least', 'one', 'or', 'more'].includes(tokens[start])) start++;
+
+    const words: string[] = [];
+    for (let i = start; i < tokens.length && words.length < MAX_TERM_WORDS; i++) {
+      if (STOP_WORDS.has(tokens[i]) || !/^[a-z0-9]/.test(tokens[i])) break;
+      words.push(tokens[i]);
+    }
+
+    if (words.length === 0 || /^\d+$/.test(words[0])) return;
+    if (definite && EXEMPT_TERMS.has(words[0])) return;
+
+    (definite ? referenced : introduced).push({ words, position });
+  });
+
+  return { introduced, referenced };
+}
+
+// "a rotating widget" or "a widget coupled" supports "the widget", and "a widget"
+// supports "the widget coupled", where the phrase ran past the noun
+function hasBasis(introduced: string[], referenced: string[]): boolean {
+  const same = (a: string, b: string) => a === b || a.replace(/s$/, '') === b.replace(/s$/, '');
+  const startsAt = (words: string[], part: string[], offset: number) => part.every((word, i) => same(word, words[offset + i]));
+
+  for (let offset = 0; offset + referenced.length <= introduced.length; offset++) {
+    if (startsAt(introduced, referenced, offset)) return true;
+  }
+  return introduced.length < referenced.length && startsAt(referenced, introduced, 0);
+}
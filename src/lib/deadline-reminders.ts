@@ -0,0 +1,290 @@
+import { Prisma, ReminderLevel } from '@prisma/client';
+import { db } from './db';
+import { getOrganizationMembers } from './auth';
+import { getEmailTransport } from './email';
+import { notifyUsers } from './notifications';
+import { getOrganizationSettings } from './organization-settings';
+import { formatDate } from './docketing';
+
+/**
+ * Shape of the reminders section of Organization.settings
+ */
+export interface ReminderSettings {
+  offsets?: number[]; // Days before the due date
+  email?: boolean;    // In-app notifications are always sent
+}
+
+export const DEFAULT_REMINDER_OFFSETS = [60, 30, 7, 1];
+export const MAX_REMINDER_OFFSET = 365;
+const MAX_REMINDER_COUNT = 10;
+
+// Activities written by the reminder sweep are attributed to this actor
+export const REMINDER_ACTOR = 'system:reminders';
+
+const ESCALATION: ReminderLevel[] = ['TEAM', 'LEAD', 'ADMIN'];
+
+const LEVEL_LABELS: Record<ReminderLevel, string> = {
+  TEAM: 'the responsible team',
+  LEAD: 'the team leads',
+  ADMIN: 'the organization admins',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+const deadlineInclude = Prisma.validator<Prisma.DeadlineInclude>()({
+  case: {
+    select: {
+      id: true,
+      caseNumber: true,
+      title: true,
+      createdBy: true,
+      team: {
+        select: {
+          name: true,
+          members: { select: { role: true, member: { select: { userId: true } } } },
+        },
+      },
+    },
+  },
+  reminders: { select: { offsetDays: true } },
+});
+
+type DeadlineWithRecipients = Prisma.DeadlineGetPayload<{ include: typeof deadlineInclude }>;
+
+/**
+ * Reminder offsets for an organization, largest first
+ */
+export function getReminderOffsets(settings?: ReminderSettings): number[] {
+  const offsets = settings?.offsets?.length ? settings.offsets : DEFAULT_REMINDER_OFFSETS;
+  return Array.from(new Set(offsets)).sort((a, b) => b - a);
+}
+
+/**
+ * Validate reminder offsets from a settings request
+ */
+export function parseReminderOffsets(value: unknown): { offsets: number[] | null; error?: string } {
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.length > MAX_REMINDER_COUNT ||
+    !value.every((offset) => Number.isInteger(offset) && offset >= 0 && offset <= MAX_REMINDER_OFFSET)
+  ) {
+    return {
+      offsets: null,
+      error: `Offsets must be 1 to ${MAX_REMINDER_COUNT} whole numbers of days between 0 and ${MAX_REMINDER_OFFSET}`,
+    };
+  }
+
+  return { offsets: getReminderOffsets({ offsets: value }) };
+}
+
+/**
+ * Whole days from today (UTC) until a due date
+ */
+export function daysUntil(dueDate: Date, now = new Date()): number {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return Math.round((dueDate.getTime() - today) / DAY_MS);
+}
+
+/**
+ * The reminder a deadline is due for: the smallest offset it has come within.
+ * Offsets that had already passed when the deadline was docketed are skipped
+ * rather than sent late.
+ */
+export function getDueOffset(dueDate: Date, offsets: number[], now = new Date()): number | null {
+  const daysLeft = daysUntil(dueDate, now);
+  if (daysLeft < 0) {
+    return null;
+  }
+
+  const reached = offsets.filter((offset) => offset >= daysLeft);
+  return reached.length > 0 ? Math.min(...reached) : null;
+}
+
+/**
+ * Each reminder sent while nobody has acknowledged the deadline reaches one
+ * level further up: the team, then its leads, then the organization admins
+ */
+export function getEscalationLevel(previousReminders: number, acknowledged: boolean): ReminderLevel {
+  if (acknowledged) {
+    return 'TEAM';
+  }
+  return ESCALATION[Math.min(previousReminders, ESCALATION.length - 1)];
+}
+
+/**
+ * Send every reminder that has come due. Safe to run from several workers at
+ * once: each reminder is claimed by its unique (deadline, offset) row.
+ */
+export async function sendDeadlineReminders(now = new Date()): Promise<{ sent: number; failed: number }> {
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+  const deadlines = await db.deadline.findMany({
+    where: {
+      status: 'OPEN',
+      dueDate: { gte: today, lte: new Date(today.getTime() + MAX_REMINDER_OFFSET * DAY_MS) },
+    },
+    include: deadlineInclude,
+    orderBy: { dueDate: 'asc' },
+  });
+
+  const settingsByOrganization = new Map<string, ReminderSettings | undefined>();
+  let sent = 0;
+  let failed = 0;
+
+  for (const deadline of deadlines) {
+    if (!settingsByOrganization.has(deadline.organizationId)) {
+      const { reminders } = await getOrganizationSettings(deadline.organizationId);
+      settingsByOrganization.set(deadline.organizationId, reminders);
+    }
+    const settings = settingsByOrganization.get(deadline.organizationId);
+
+    const offset = getDueOffset(deadline.dueDate, getReminderOffsets(settings), now);
+    if (offset === null || deadline.reminders.some((reminder) => reminder.offsetDays <= offset)) {
+      continue;
+    }
+
+    try {
+      if (await sendReminder(deadline, offset, settings, now)) {
+        sent++;
+      }
+    } catch (error) {
+      console.error(`Error sending reminder for deadline ${deadline.id}:`, error);
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
+
+async function sendReminder(
+  deadline: DeadlineWithRecipients,
+  offset: number,
+  settings: ReminderSettings | undefined,
+  now: Date
+): Promise<boolean> {
+  const level = getEscalationLevel(deadline.reminders.length, deadline.acknowledgedAt !== null);
+  const recipients = await getRecipients(deadline, level);
+  const daysLeft = daysUntil(deadline.dueDate, now);
+  const due = daysLeft === 0 ? 'today' : `in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+  const escalated = level !== 'TEAM';
+
+  const title = `${escalated ? 'Unacknowledged: ' : ''}${deadline.title} due ${due}`;
+  const body = `${deadline.case.caseNumber} · ${deadline.case.title} · due ${formatDate(deadline.dueDate)}`;
+
+  let reminderId: string;
+  try {
+    reminderId = await db.$transaction(async (tx) => {
+      const reminder = await tx.deadlineReminder.create({
+        data: { deadlineId: deadline.id, offsetDays: offset, level, recipients },
+      });
+
+      await notifyUsers(
+        {
+          organizationId: deadline.organizationId,
+          userIds: recipients,
+          type: 'deadline.reminder',
+          title,
+          body,
+          link: `/cases/${deadline.caseId}`,
+          metadata: { deadlineId: deadline.id, offsetDays: offset, level },
+        },
+        tx
+      );
+
+      await tx.activity.create({
+        data: {
+          type: 'DEADLINE_REMINDER',
+          content: `Reminder for "${deadline.title}" (due ${due}) sent to ${LEVEL_LABELS[level]}`,
+          caseId: deadline.caseId,
+          createdBy: REMINDER_ACTOR,
+          metadata: { deadlineId: deadline.id, offsetDays: offset, level, recipients },
+        },
+      });
+
+      return reminder.id;
+    });
+  } catch (error) {
+    // Another worker claimed this reminder first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false;
+    }
+    throw error;
+  }
+
+  if (settings?.email === false) {
+    return true;
+  }
+
+  // In-app notifications are already recorded, so a mail failure is logged rather than retried
+  try {
+    const members = await getOrganizationMembers(deadline.organizationId);
+    const emails = members.filter((member) => recipients.includes(member.userId)).map((member) => member.email);
+
+    if (emails.length > 0) {
+      const { accepted } = await getEmailTransport().send({
+        to: emails,
+        subject: `[${deadline.case.caseNumber}] ${title}`,
+        text: [
+          `${deadline.title} for ${deadline.case.caseNumber} (${deadline.case.title}) is due ${due}, on ${formatDate(deadline.dueDate)}.`,
+          deadline.finalDate ? `The last day with extensions is ${formatDate(deadline.finalDate)}.` : '',
+          escalated
+            ? `Nobody has acknowledged this deadline yet, so this reminder has been escalated to ${LEVEL_LABELS[level]}.`
+            : '',
+          `Acknowledge or complete it on the case: ${APP_URL}/cases/${deadline.caseId}`,
+        ]
+          .filter(Boolean)
+          .join('\n\n'),
+      });
+
+      await db.deadlineReminder.update({
+        where: { id: reminderId },
+        data: { emailsSent: accepted.length },
+      });
+    }
+  } catch (error) {
+    console.error(`Error emailing reminder for deadline ${deadline.id}:`, error);
+  }
+
+  return true;
+}
+
+/**
+ * User IDs to notify at an escalation level. Each level includes the ones below it,
+ * and a level with nobody in it falls through to the next.
+ */
+async function getRecipients(deadline: DeadlineWithRecipients, level: ReminderLevel): Promise<string[]> {
+  const teamMembers = deadline.case.team?.members || [];
+  const recipients = new Set<string>();
+
+  if (deadline.assignedTo) {
+    recipients.add(deadline.assignedTo);
+  }
+  for (const teamMember of teamMembers) {
+    if (teamMember.role === 'MEMBER') {
+      recipients.add(teamMember.member.userId);
+    }
+  }
+  if (recipients.size === 0) {
+    recipients.add(deadline.case.createdBy);
+  }
+
+  if (level === 'TEAM') {
+    return Array.from(recipients);
+  }
+
+  const leads = teamMembers.filter((teamMember) => teamMember.role === 'LEAD');
+  leads.forEach((lead) => recipients.add(lead.member.userId));
+
+  if (level === 'ADMIN' || leads.length === 0) {
+    const admins = await db.organizationMember.findMany({
+      where: { organizationId: deadline.organizationId, role: { in: ['OWNER', 'ADMIN'] } },
+      select: { userId: true },
+    });
+    admins.forEach((admin) => recipients.add(admin.userId));
+  }
+
+  return Array.from(recipients);
+}
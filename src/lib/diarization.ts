@@ -0,0 +1,248 @@
+import { SPEAKER_ROLES, SpeakerRole, TranscriptData, TranscriptSpeaker } from './transcription';
+
+const DIARIZATION_TIMEOUT_MS = parseInt(process.env.DIARIZATION_TIMEOUT_MS || String(10 * 60 * 1000), 10);
+
+export interface SpeakerTurn {
+  start: number;
+  end: number;
+  speaker: string;
+}
+
+/**
+ * Whether a diarization service is configured
+ */
+export function isDiarizationConfigured(): boolean {
+  return !!process.env.DIARIZATION_URL;
+}
+
+/**
+ * Ask the self-hosted diarization service (e.g. pyannote behind HTTP) who
+ * spoke when. Expects `{ segments: [{ start, end, speaker }] }` in response.
+ */
+export async function detectSpeakerTurns(audio: Buffer, fileName: string, mimeType: string): Promise<SpeakerTurn[]> {
+  const url = process.env.DIARIZATION_URL;
+  if (!url) {
+    throw new Error('No diarization service configured');
+  }
+
+  const form = new FormData();
+  form.append('file', new Blob([new Uint8Array(audio)], { type: mimeType }), fileName);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: process.env.DIARIZATION_API_KEY
+      ? { Authorization: `Bearer ${process.env.DIARIZATION_API_KEY}` }
+      : undefined,
+    body: form,
+    signal: AbortSignal.timeout(DIARIZATION_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new Error(`Diarization service returned ${response.status}: ${body.slice(0, 500)}`);
+  }
+
+  const { segments } = (await response.json()) as { segments?: SpeakerTurn[] };
+  return segments || [];
+}
+
+/**
+ * Label each transcript segment and word with the speaker whose turns
+ * overlap it the most, replacing any labels from the transcription provider
+ */
+export function assignSpeakers(transcript: TranscriptData, turns: SpeakerTurn[]): TranscriptData {
+  if (turns.length === 0) {
+    return transcript;
+  }
+
+  const speakerAt = (start: number, end: number) => {
+    const overlap = new Map<string, number>();
+    for (const turn of turns) {
+      const amount = Math.min(end, turn.end) - Math.max(start, turn.start);
+      if (amount > 0) {
+        overlap.set(turn.speaker, (overlap.get(turn.speaker) || 0) + amount);
+      }
+    }
+
+    let best: string | undefined;
+    let bestAmount = 0;
+    overlap.forEach((amount, speaker) => {
+      if (amount > bestAmount) {
+        best = speaker;
+        bestAmount = amount;
+      }
+    });
+    return best;
+  };
+
+  return normalizeSpeakers({
+    ...transcript,
+    speakers: undefined,
+    segments: transcript.segments.map((segment) => ({
+      ...segment,
+      speaker: speakerAt(segment.start, segment.end),
+    })),
+    words: transcript.words.map((word) => ({
+      ...word,
+      speaker: speakerAt(word.start, word.end),
+    })),
+  });
+}
+
+/**
+ * Rename raw backend labels (SPEAKER_00, spk_1, ...) to stable ids in order
+ * of first appearance and build the speaker list. Existing speaker entries
+ * (and any mapping to people) are kept.
+ */
+export function normalizeSpeakers(transcript: TranscriptData): TranscriptData {
+  const existing = new Map((transcript.speakers || []).map((speaker) => [speaker.id, speaker]));
+  const ids = new Map<string, string>();
+
+  const idFor = (label: string | undefined) => {
+    if (!label) return undefined;
+    if (existing.has(label)) return label;
+    if (!ids.has(label)) {
+      ids.set(label, `speaker-${existing.size + ids.size + 1}`);
+    }
+    return ids.get(label);
+  };
+
+  const segments = transcript.segments.map((segment) => ({ ...segment, speaker: idFor(segment.speaker) }));
+  const words = transcript.words.map((word) => ({ ...word, speaker: idFor(word.speaker) }));
+
+  if (existing.size === 0 && ids.size === 0) {
+    return transcript;
+  }
+
+  const speakers: TranscriptSpeaker[] = [...Array.from(existing.values())];
+  ids.forEach((id) => {
+    speakers.push({ id, label: `Speaker ${speakers.length + 1}` });
+  });
+
+  return { ...transcript, segments, words, speakers };
+}
+
+export interface SpeakerUpdate {
+  id: string;
+  name?: string | null;
+  role?: SpeakerRole | null;
+  userId?: string | null;
+}
+
+/**
+ * Map diarized speakers to people. Returns an error message instead if an
+ * update refers to an unknown speaker or role.
+ */
+export function updateSpeakers(
+  transcript: TranscriptData,
+  updates: SpeakerUpdate[]
+): { transcript: TranscriptData | null; error: string | null } {
+  const speakers = transcript.speakers || [];
+
+  for (const update of updates) {
+    if (!speakers.some((speaker) => speaker.id === update.id)) {
+      return { transcript: null, error: `Unknown speaker: ${update.id}` };
+    }
+    if (update.role && !SPEAKER_ROLES.includes(update.role)) {
+      return { transcript: null, error: `Role must be one of: ${SPEAKER_ROLES.join(', ')}` };
+    }
+  }
+
+  return {
+    transcript: {
+      ...transcript,
+      speakers: speakers.map((speaker) => {
+        const update = updates.find((u) => u.id === speaker.id);
+        if (!update) return speaker;
+        // null clears a mapping, undefined leaves it as is
+        return {
+          id: speaker.id,
+          label: speaker.label,
+          name: update.name === undefined ? speaker.name : update.name || undefined,
+          role: update.role === undefined ? speaker.role : update.role || undefined,
+          userId: update.userId === undefined ? speaker.userId : update.userId || undefined,
+        };
+      }),
+    },
+    error: null,
+  };
+}
+
+/**
+ * Seconds spoken by each speaker
+ */
+export function getSpeakingTime(transcript: TranscriptData): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const segment of transcript.segments) {
+    if (segment.speaker) {
+      totals[segment.speaker] = (totals[segment.speaker] || 0) + (segment.end - segment.start);
+    }
+  }
+  return totals;
+}
+
+/**
+ * Group consecutive segments by the same speaker into turns
+ */
+export function getSpeakerTurns(transcript: TranscriptData): { speaker?: string; start: number; end: number; text: string }[] {
+  const turns: { speaker?: string; start: number; end: number; text: string }[] = [];
+
+  for (const segment of transcript.segments) {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.end = segment.end;
+      last.text += ` ${segment.text}`;
+    } else {
+      turns.push({ speaker: segment.speaker, start: segment.start, end: segment.end, text: segment.text });
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Format a transcript for analysis prompts, prefixing each turn with the
+ * speaker's name and role so statements can be attributed
+ */
+export function formatTranscriptForAnalysis(transcript: TranscriptData | null, fallbackText: string): string {
+  if (!transcript?.speakers || transcript.speakers.length === 0) {
+    return fallbackText;
+  }
+
+  const speakers = new Map(transcript.speakers.map((speaker) => [speaker.id, speaker]));
+
+  return getSpeakerTurns(transcript)
+    .map((turn) => `[${formatTimestamp(turn.start)}] ${describeSpeaker(speakers.get(turn.speaker || ''))}: ${turn.text}`)
+    .join('\n');
+}
+
+/**
+ * Format a transcript one segment per line, tagged with the segment id and
+ * start time, so a model can cite the segments it took information from
+ */
+export function formatTranscriptForCitation(transcript: TranscriptData): string {
+  const speakers = new Map((transcript.speakers || []).map((speaker) => [speaker.id, speaker]));
+
+  return transcript.segments
+    .map((segment) => {
+      const speaker = segment.speaker ? ` ${describeSpeaker(speakers.get(segment.speaker))}:` : '';
+      return `[#${segment.id} ${formatTimestamp(segment.start)}]${speaker} ${segment.text}`;
+    })
+    .join('\n');
+}
+
+function describeSpeaker(speaker: TranscriptSpeaker | undefined): string {
+  if (!speaker) {
+    return 'Unknown speaker';
+  }
+  const name = speaker.name || speaker.label;
+  return speaker.role ? `${name} (${speaker.role})` : name;
+}
+
+function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return [hours, mins, secs].map((n) => String(n).padStart(2, '0')).join(':');
+}
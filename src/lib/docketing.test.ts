@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { CaseType, DocketEventType } from '@prisma/client';
+import { computeDeadlines, DocketEventMetadata, formatDate, getDocketEventTypes, parseDate, parseDocketEvent } from './docketing';
+
+function deadlines(caseType: CaseType, type: DocketEventType, date: string, metadata: DocketEventMetadata = {}) {
+  return computeDeadlines(caseType, { type, date: parseDate(date)!, metadata }).map((deadline) => ({
+    rule: deadline.rule,
+    opensAt: deadline.opensAt && formatDate(deadline.opensAt),
+    dueDate: formatDate(deadline.dueDate),
+    finalDate: deadline.finalDate && formatDate(deadline.finalDate),
+  }));
+}
+
+describe('computeDeadlines', () => {
+  it('moves a due date on a weekend to the Monday', () => {
+    expect(deadlines('PATENT_PROVISIONAL', 'PROVISIONAL_FILED', '2024-03-15')).toEqual([
+      { rule: 'patent.provisional_conversion', opensAt: null, dueDate: '2025-03-17', finalDate: null },
+    ]);
+  });
+
+  it('moves a due date on a federal holiday to the next business day', () => {
+    expect(deadlines('PATENT_NONPROVISIONAL', 'NOTICE_OF_ALLOWANCE_MAILED', '2024-04-04')).toEqual([
+      { rule: 'patent.issue_fee', opensAt: null, dueDate: '2024-07-05', finalDate: null },
+    ]);
+  });
+
+  it('treats New Year\'s Day observed on the Friday before as a holiday', () => {
+    // Jan 1 2022 was a Saturday, so it was observed on Dec 31 2021
+    expect(deadlines('PATENT_NONPROVISIONAL', 'OFFICE_ACTION_MAILED', '2021-10-31', { responseMonths: 2 })).toEqual([
+      { rule: 'patent.office_action_response', opensAt: null, dueDate: '2022-01-03', finalDate: '2022-05-02' },
+    ]);
+  });
+
+  it('ends months that are too short on their last day', () => {
+    expect(deadlines('PATENT_PCT', 'OFFICE_ACTION_MAILED', '2023-11-30')).toEqual([
+      { rule: 'patent.office_action_response', opensAt: null, dueDate: '2024-02-29', finalDate: '2024-05-30' },
+    ]);
+  });
+
+  it('counts PCT deadlines from the priority date and leaves foreign ones off US holidays', () => {
+    expect(deadlines('PATENT_PCT', 'PCT_FILED', '2023-12-01', { priorityDate: '2022-12-04' })).toEqual([
+      { rule: 'patent.pct_national_stage_us', opensAt: null, dueDate: '2025-06-04', finalDate: null },
+      { rule: 'patent.pct_regional_phase_ep', opensAt: null, dueDate: '2025-07-04', finalDate: null },
+    ]);
+  });
+
+  it('opens trademark maintenance windows without moving their start', () => {
+    expect(deadlines('TRADEMARK_FEDERAL', 'TRADEMARK_REGISTERED', '2020-01-15')).toEqual([
+      { rule: 'trademark.section_8', opensAt: '2025-01-15', dueDate: '2026-01-15', finalDate: '2026-07-15' },
+      { rule: 'trademark.section_15', opensAt: '2025-01-15', dueDate: '2026-01-15', finalDate: null },
+      { rule: 'trademark.renewal', opensAt: '2029-01-15', dueDate: '2030-01-15', finalDate: '2030-07-15' },
+    ]);
+  });
+
+  it('has no renewal for international registrations', () => {
+    const rules = deadlines('TRADEMARK_INTERNATIONAL', 'TRADEMARK_REGISTERED', '2020-01-15').map((deadline) => deadline.rule);
+    expect(rules).toEqual(['trademark.section_8', 'trademark.section_15']);
+  });
+});
+
+describe('getDocketEventTypes', () => {
+  it('lists each event type of a case type once', () => {
+    expect(getDocketEventTypes('PATENT_NONPROVISIONAL')).toEqual(['OFFICE_ACTION_MAILED', 'NOTICE_OF_ALLOWANCE_MAILED']);
+    expect(getDocketEventTypes('TRADEMARK_STATE')).toEqual([]);
+  });
+});
+
+describe('parseDocketEvent', () => {
+  it('accepts an event with metadata', () => {
+    expect(parseDocketEvent({ type: 'PCT_FILED', date: '2024-06-10', metadata: { priorityDate: '2023-07-03' } }, 'PATENT_PCT')).toEqual({
+      data: { type: 'PCT_FILED', date: new Date('2024-06-10T00:00:00.000Z'), metadata: { priorityDate: '2023-07-03' } },
+      error: null,
+    });
+  });
+
+  it('rejects event types the case type has no deadlines for', () => {
+    expect(parseDocketEvent({ type: 'PCT_FILED', date: '2024-06-10' }, 'PATENT_PROVISIONAL').error).toBe(
+      'Event type must be one of: PROVISIONAL_FILED'
+    );
+    expect(parseDocketEvent({ type: 'PCT_FILED', date: '2024-06-10' }, 'TRADE_SECRET').error).toBe(
+      'No deadlines are docketed for trade secret cases'
+    );
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseDocketEvent({ type: 'PROVISIONAL_FILED', date: '2023-02-29' }, 'PATENT_PROVISIONAL').error).toBe(
+      'Date must be a date in YYYY-MM-DD format'
+    );
+  });
+
+  it('rejects a priority date after the event', () => {
+    expect(
+      parseDocketEvent({ type: 'PCT_FILED', date: '2024-06-10', metadata: { priorityDate: '2024-06-11' } }, 'PATENT_PCT').error
+    ).toBe('Priority date must be a date on or before the event date');
+  });
+
+  it('rejects a response period past the statutory maximum', () => {
+    expect(
+      parseDocketEvent({ type: 'OFFICE_ACTION_MAILED', date: '2024-06-10', metadata: { responseMonths: 7 } }, 'PATENT_PCT').error
+    ).toBe('Response period must be 1 to 6 months');
+  });
+});
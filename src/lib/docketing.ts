@@ -0,0 +1,406 @@
+import { CaseType, Deadline, DeadlineStatus, DocketEvent, DocketEventType, Prisma } from '@prisma/client';
+import { db } from './db';
+
+export interface DocketEventMetadata {
+  priorityDate?: string;   // PCT: earliest priority date (YYYY-MM-DD), if earlier than the PCT filing
+  responseMonths?: number; // Office actions: shortened statutory period set in the action
+}
+
+export interface DocketEventInput {
+  type: DocketEventType;
+  date: Date;
+  metadata: DocketEventMetadata;
+}
+
+export interface ComputedDeadline {
+  rule: string;
+  title: string;
+  description: string;
+  opensAt: Date | null;
+  dueDate: Date;
+  finalDate: Date | null;
+}
+
+interface DeadlineRule {
+  id: string;
+  event: DocketEventType;
+  caseTypes: CaseType[];
+  title: string;
+  description: string;
+  usHolidays?: false;      // Set for foreign offices, whose dates only move off weekends here
+  compute(event: DocketEventInput): { opensAt?: Date; dueDate: Date; finalDate?: Date };
+}
+
+export const DOCKET_EVENT_LABELS: Record<DocketEventType, string> = {
+  PROVISIONAL_FILED: 'Provisional application filed',
+  PCT_FILED: 'PCT application filed',
+  OFFICE_ACTION_MAILED: 'Office action mailed',
+  NOTICE_OF_ALLOWANCE_MAILED: 'Notice of allowance mailed',
+  TRADEMARK_REGISTERED: 'Trademark registered',
+  WORK_PUBLISHED: 'Work published',
+};
+
+export const DEADLINE_STATUSES: DeadlineStatus[] = ['OPEN', 'COMPLETED', 'CANCELLED'];
+
+// Office actions can't be extended past the statutory maximum (35 U.S.C. 133, 37 CFR 2.62)
+const MAX_RESPONSE_MONTHS = 6;
+
+/**
+ * Patent cases that are examined, and so get office actions and IDS filings.
+ * Provisionals are never examined.
+ */
+export const PATENT_APPLICATIONS: CaseType[] = ['PATENT_NONPROVISIONAL', 'PATENT_PCT'];
+
+// State marks are filed with the states, not the USPTO
+const USPTO_TRADEMARKS: CaseType[] = ['TRADEMARK_FEDERAL', 'TRADEMARK_INTERNATIONAL'];
+
+const DEADLINE_RULES: DeadlineRule[] = [
+  {
+    id: 'patent.provisional_conversion',
+    event: 'PROVISIONAL_FILED',
+    caseTypes: ['PATENT_PROVISIONAL'],
+    title: 'File nonprovisional or PCT application',
+    description:
+      'A nonprovisional or PCT application must be filed within 12 months of the provisional to claim its benefit (35 U.S.C. 119(e)). ' +
+      'Restoration for up to 2 more months needs a petition showing the delay was unintentional.',
+    compute: ({ date }) => ({ dueDate: addMonths(date, 12) }),
+  },
+  {
+    id: 'patent.pct_national_stage_us',
+    event: 'PCT_FILED',
+    caseTypes: ['PATENT_PCT'],
+    title: 'Enter US national stage',
+    description: 'National stage entry in the US and most designated offices is due 30 months from the priority date (35 U.S.C. 371).',
+    compute: (event) => ({ dueDate: addMonths(priorityDate(event), 30) }),
+  },
+  {
+    id: 'patent.pct_regional_phase_ep',
+    event: 'PCT_FILED',
+    caseTypes: ['PATENT_PCT'],
+    title: 'Enter European regional phase',
+    description: 'Offices such as the EPO allow 31 months from the priority date (EPC Rule 159). Check EPO closure days.',
+    usHolidays: false,
+    compute: (event) => ({ dueDate: addMonths(priorityDate(event), 31) }),
+  },
+  {
+    id: 'patent.office_action_response',
+    event: 'OFFICE_ACTION_MAILED',
+    caseTypes: PATENT_APPLICATIONS,
+    title: 'Respond to office action',
+    description:
+      'Due at the end of the shortened statutory period set in the action, usually 3 months. ' +
+      'Extensions of time can be bought a month at a time up to 6 months from mailing (37 CFR 1.136(a)).',
+    compute: ({ date, metadata }) => ({
+      dueDate: addMonths(date, metadata.responseMonths || 3),
+      finalDate: addMonths(date, MAX_RESPONSE_MONTHS),
+    }),
+  },
+  {
+    id: 'trademark.office_action_response',
+    event: 'OFFICE_ACTION_MAILED',
+    caseTypes: USPTO_TRADEMARKS,
+    title: 'Respond to office action',
+    description:
+      'Due 3 months from issue. One 3-month extension is available for a fee, filed before the response is due (37 CFR 2.62).',
+    compute: ({ date, metadata }) => ({
+      dueDate: addMonths(date, metadata.responseMonths || 3),
+      finalDate: addMonths(date, MAX_RESPONSE_MONTHS),
+    }),
+  },
+  {
+    id: 'patent.issue_fee',
+    event: 'NOTICE_OF_ALLOWANCE_MAILED',
+    caseTypes: PATENT_APPLICATIONS,
+    title: 'Pay issue fee',
+    description: 'The issue fee is due 3 months from the notice of allowance and cannot be extended (35 U.S.C. 151).',
+    compute: ({ date }) => ({ dueDate: addMonths(date, 3) }),
+  },
+  {
+    id: 'trademark.statement_of_use',
+    event: 'NOTICE_OF_ALLOWANCE_MAILED',
+    caseTypes: ['TRADEMARK_FEDERAL'],
+    title: 'File statement of use',
+    description:
+      'For intent-to-use applications, due 6 months from the notice of allowance. ' +
+      'Up to five 6-month extensions can be requested, to 36 months in total (15 U.S.C. 1051(d)).',
+    compute: ({ date }) => ({ dueDate: addMonths(date, 6), finalDate: addMonths(date, 36) }),
+  },
+  {
+    id: 'trademark.section_8',
+    event: 'TRADEMARK_REGISTERED',
+    caseTypes: USPTO_TRADEMARKS,
+    title: 'File Section 8 declaration of use',
+    description:
+      'Filed between the 5th and 6th anniversaries of registration, or within the 6-month grace period with a surcharge (15 U.S.C. 1058). ' +
+      'The registration is cancelled if it is missed.',
+    compute: ({ date }) => ({
+      opensAt: addMonths(date, 60),
+      dueDate: addMonths(date, 72),
+      finalDate: addMonths(date, 78),
+    }),
+  },
+  {
+    id: 'trademark.section_15',
+    event: 'TRADEMARK_REGISTERED',
+    caseTypes: USPTO_TRADEMARKS,
+    title: 'File Section 15 declaration of incontestability',
+    description:
+      'Optional. Can be filed within one year after 5 consecutive years of use following registration (15 U.S.C. 1065), ' +
+      'usually together with the Section 8 declaration.',
+    compute: ({ date }) => ({ opensAt: addMonths(date, 60), dueDate: addMonths(date, 72) }),
+  },
+  {
+    id: 'trademark.renewal',
+    event: 'TRADEMARK_REGISTERED',
+    caseTypes: ['TRADEMARK_FEDERAL'],
+    title: 'File Section 8 and 9 renewal',
+    description:
+      'Filed in the year before the 10th anniversary of registration, or within the 6-month grace period with a surcharge (15 U.S.C. 1059).',
+    compute: ({ date }) => ({
+      opensAt: addMonths(date, 108),
+      dueDate: addMonths(date, 120),
+      finalDate: addMonths(date, 126),
+    }),
+  },
+  {
+    id: 'copyright.mandatory_deposit',
+    event: 'WORK_PUBLISHED',
+    caseTypes: ['COPYRIGHT_REGISTRATION'],
+    title: 'Make mandatory deposit with the Library of Congress',
+    description: 'Two copies of the best edition are due within 3 months of publication in the US (17 U.S.C. 407).',
+    compute: ({ date }) => ({ dueDate: addMonths(date, 3) }),
+  },
+  {
+    id: 'copyright.registration',
+    event: 'WORK_PUBLISHED',
+    caseTypes: ['COPYRIGHT_REGISTRATION'],
+    title: 'Register to preserve statutory damages',
+    description:
+      'Registering within 3 months of first publication keeps statutory damages and attorney\'s fees available ' +
+      'for infringement that began before registration (17 U.S.C. 412).',
+    compute: ({ date }) => ({ dueDate: addMonths(date, 3) }),
+  },
+];
+
+/**
+ * Event types that produce deadlines for a case type
+ */
+export function getDocketEventTypes(caseType: CaseType): DocketEventType[] {
+  const types = DEADLINE_RULES.filter((rule) => rule.caseTypes.includes(caseType)).map((rule) => rule.event);
+  return Array.from(new Set(types));
+}
+
+/**
+ * Deadlines that follow from an event on a case of the given type. Due dates that
+ * fall on a weekend or federal holiday move to the next business day, as they do at
+ * the USPTO and Copyright Office (35 U.S.C. 21(b), 37 CFR 2.196, 17 U.S.C. 703).
+ */
+export function computeDeadlines(caseType: CaseType, event: DocketEventInput): ComputedDeadline[] {
+  return DEADLINE_RULES.filter((rule) => rule.event === event.type && rule.caseTypes.includes(caseType)).map(
+    (rule) => {
+      const dates = rule.compute(event);
+      const usHolidays = rule.usHolidays !== false;
+      return {
+        rule: rule.id,
+        title: rule.title,
+        description: rule.description,
+        opensAt: dates.opensAt || null,
+        dueDate: nextBusinessDay(dates.dueDate, usHolidays),
+        finalDate: dates.finalDate ? nextBusinessDay(dates.finalDate, usHolidays) : null,
+      };
+    }
+  );
+}
+
+/**
+ * Validate a docket event from a request body
+ */
+export function parseDocketEvent(
+  input: { type?: unknown; date?: unknown; metadata?: unknown },
+  caseType: CaseType
+): { data: DocketEventInput | null; error: string | null } {
+  const types = getDocketEventTypes(caseType);
+  if (!types.includes(input.type as DocketEventType)) {
+    return {
+      data: null,
+      error: types.length > 0
+        ? `Event type must be one of: ${types.join(', ')}`
+        : `No deadlines are docketed for ${caseType.toLowerCase().replace(/_/g, ' ')} cases`,
+    };
+  }
+
+  const date = parseDate(input.date);
+  if (!date) {
+    return { data: null, error: 'Date must be a date in YYYY-MM-DD format' };
+  }
+
+  const raw = (input.metadata && typeof input.metadata === 'object' ? input.metadata : {}) as Record<string, unknown>;
+  const metadata: DocketEventMetadata = {};
+
+  if (raw.priorityDate !== undefined && raw.priorityDate !== null && raw.priorityDate !== '') {
+    const priority = parseDate(raw.priorityDate);
+    if (!priority || priority > date) {
+      return { data: null, error: 'Priority date must be a date on or before the event date' };
+    }
+    metadata.priorityDate = formatDate(priority);
+  }
+
+  if (raw.responseMonths !== undefined && raw.responseMonths !== null && raw.responseMonths !== '') {
+    const months = Number(raw.responseMonths);
+    if (!Number.isInteger(months) || months < 1 || months > MAX_RESPONSE_MONTHS) {
+      return { data: null, error: `Response period must be 1 to ${MAX_RESPONSE_MONTHS} months` };
+    }
+    metadata.responseMonths = months;
+  }
+
+  return { data: { type: input.type as DocketEventType, date, metadata }, error: null };
+}
+
+/**
+ * Record an event on a case and create the deadlines it triggers. Runs in its own
+ * transaction unless given one to join.
+ */
+export async function docketEvent(
+  params: {
+    organizationId: string;
+    caseId: string;
+    caseType: CaseType;
+    event: DocketEventInput;
+    note?: string;
+    createdBy: string;
+  },
+  client?: Prisma.TransactionClient
+): Promise<{ event: DocketEvent; deadlines: Deadline[] }> {
+  if (!client) {
+    return db.$transaction((tx) => docketEvent(params, tx));
+  }
+
+  const computed = computeDeadlines(params.caseType, params.event);
+  const event = await client.docketEvent.create({
+    data: {
+      organizationId: params.organizationId,
+      caseId: params.caseId,
+      type: params.event.type,
+      date: params.event.date,
+      metadata: params.event.metadata as Prisma.InputJsonValue,
+      note: params.note,
+      createdBy: params.createdBy,
+    },
+  });
+
+  const deadlines = [];
+  for (const deadline of computed) {
+    deadlines.push(
+      await client.deadline.create({
+        data: {
+          ...deadline,
+          organizationId: params.organizationId,
+          caseId: params.caseId,
+          eventId: event.id,
+          createdBy: params.createdBy,
+        },
+      })
+    );
+  }
+
+  await syncCaseDeadline(params.caseId, client);
+
+  return { event, deadlines };
+}
+
+/**
+ * Keep Case.filingDeadline on the earliest open docketed deadline, so lists and
+ * dashboards that sort by it see the docket. Cases without a docket keep their own date.
+ */
+export async function syncCaseDeadline(caseId: string, client: Prisma.TransactionClient = db) {
+  const [docketed, next] = await Promise.all([
+    client.deadline.count({ where: { caseId } }),
+    client.deadline.findFirst({
+      where: { caseId, status: 'OPEN' },
+      orderBy: { dueDate: 'asc' },
+      select: { dueDate: true },
+    }),
+  ]);
+
+  if (docketed === 0) return;
+
+  await client.case.update({
+    where: { id: caseId },
+    data: { filingDeadline: next?.dueDate || null },
+  });
+}
+
+/**
+ * Parse a YYYY-MM-DD calendar date as UTC midnight
+ */
+export function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) || formatDate(date) !== value ? null : date;
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function priorityDate(event: DocketEventInput): Date {
+  return (event.metadata.priorityDate && parseDate(event.metadata.priorityDate)) || event.date;
+}
+
+// Same day of the month; the last day of the month when there is no such day
+function addMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+}
+
+function nextBusinessDay(date: Date, usHolidays: boolean): Date {
+  let day = date;
+  while (day.getUTCDay() === 0 || day.getUTCDay() === 6 || (usHolidays && isFederalHoliday(day))) {
+    day = new Date(day.getTime() + 24 * 60 * 60 * 1000);
+  }
+  return day;
+}
+
+const holidayCache = new Map<number, Set<string>>();
+
+function isFederalHoliday(date: Date): boolean {
+  const year = date.getUTCFullYear();
+  if (!holidayCache.has(year)) {
+    // Next year's New Year's Day is observed on Dec 31 when it falls on a Saturday
+    holidayCache.set(year, new Set([...federalHolidays(year), ...federalHolidays(year + 1)].map(formatDate)));
+  }
+  return holidayCache.get(year)!.has(formatDate(date));
+}
+
+// US federal holidays (5 U.S.C. 6103) as observed: Saturday holidays move to Friday, Sunday ones to Monday
+function federalHolidays(year: number): Date[] {
+  const observed = (month: number, day: number) => {
+    const date = new Date(Date.UTC(year, month, day));
+    const weekday = date.getUTCDay();
+    return weekday === 6 ? new Date(Date.UTC(year, month, day - 1)) : weekday === 0 ? new Date(Date.UTC(year, month, day + 1)) : date;
+  };
+  const nthWeekday = (month: number, weekday: number, n: number) => {
+    const first = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    return new Date(Date.UTC(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7));
+  };
+  const lastWeekday = (month: number, weekday: number) => {
+    const last = new Date(Date.UTC(year, month + 1, 0));
+    return new Date(Date.UTC(year, month, last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7)));
+  };
+
+  return [
+    observed(0, 1),        // New Year's Day
+    nthWeekday(0, 1, 3),   // Birthday of Martin Luther King, Jr.
+    nthWeekday(1, 1, 3),   // Washington's Birthday
+    lastWeekday(4, 1),     // Memorial Day
+    observed(5, 19),       // Juneteenth
+    observed(6, 4),        // Independence Day
+    nthWeekday(8, 1, 1),   // Labor Day
+    nthWeekday(9, 1, 2),   // Columbus Day
+    observed(10, 11),      // Veterans Day
+    nthWeekday(10, 4, 4),  // Thanksgiving Day
+    observed(11, 25),      // Christmas Day
+  ];
+}
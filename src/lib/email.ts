@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import type { Address } from 'nodemailer/lib/mailer';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport';
+
+export type EmailTransportName = 'smtp' | 'capture';
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SentEmail {
+  messageId: string;
+  accepted: string[];
+}
+
+/**
+ * Common interface implemented by every email transport
+ */
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  send(message: EmailMessage): Promise<SentEmail>;
+}
+
+const DEFAULT_FROM = 'IP Paralegal <notifications@localhost>';
+
+// ============================================
+// SMTP TRANSPORT
+// ============================================
+
+/**
+ * Delivers mail through an SMTP relay
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp' as const;
+  private readonly transporter: Transporter<SMTPTransport.SentMessageInfo>;
+
+  constructor(
+    options: { host: string; port: number; secure: boolean; user?: string; password?: string },
+    private readonly from: string
+  ) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    const info = await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+
+    return {
+      messageId: info.messageId,
+      accepted: info.accepted.map((address: string | Address) => (typeof address === 'string' ? address : address.address)),
+    };
+  }
+}
+
+// ============================================
+// CAPTURE TRANSPORT
+// ============================================
+
+/**
+ * Keeps mail instead of sending it, for development and tests. Messages are
+ * held in memory and, when a directory is given, written there as JSON files.
+ */
+export class CaptureEmailTransport implements EmailTransport {
+  readonly name = 'capture' as const;
+  readonly messages: (EmailMessage & { messageId: string; sentAt: Date })[] = [];
+
+  constructor(private readonly dir?: string) {}
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    const messageId = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+    const captured = { ...message, messageId, sentAt: new Date() };
+    this.messages.push(captured);
+
+    if (this.dir) {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(path.join(this.dir, `${messageId}.json`), JSON.stringify(captured, null, 2));
+    }
+
+    return { messageId, accepted: message.to };
+  }
+}
+
+// ============================================
+// TRANSPORT SELECTION
+// ============================================
+
+const globalForEmail = globalThis as unknown as {
+  emailTransport: EmailTransport | undefined;
+};
+
+/**
+ * Get the configured email transport (EMAIL_TRANSPORT=smtp|capture)
+ */
+export function getEmailTransport(): EmailTransport {
+  if (globalForEmail.emailTransport) {
+    return globalForEmail.emailTransport;
+  }
+
+  const transport = (process.env.EMAIL_TRANSPORT || 'capture') as EmailTransportName;
+
+  if (transport === 'smtp') {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is required for the smtp email transport');
+    }
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    globalForEmail.emailTransport = new SmtpEmailTransport(
+      {
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      },
+      process.env.EMAIL_FROM || DEFAULT_FROM
+    );
+  } else {
+    globalForEmail.emailTransport = new CaptureEmailTransport(
+      process.env.EMAIL_CAPTURE_PATH ? path.resolve(process.env.EMAIL_CAPTURE_PATH) : undefined
+    );
+  }
+
+  return globalForEmail.emailTransport;
+}
@@ -0,0 +1,112 @@
+import { Prisma } from '@prisma/client';
+import { FieldProvenance, FormProvenance, getPath, parseProvenance, setPath } from './form-provenance';
+
+/**
+ * A value proposed by auto-population that has not been accepted yet
+ */
+export interface ProposedValue {
+  value: unknown;
+  provenance: FieldProvenance;
+}
+
+/**
+ * Shape of Form.proposedChanges, keyed by dot path into Form.data
+ */
+export type ProposedChanges = Record<string, ProposedValue>;
+
+/**
+ * A proposed value set against what the form holds now
+ */
+export interface FieldChange {
+  path: string;
+  current: unknown;
+  proposed: unknown;
+  provenance: FieldProvenance;
+}
+
+export type ChangeDecision = 'accept' | 'reject';
+
+export function parseProposedChanges(value: Prisma.JsonValue | null | undefined): ProposedChanges {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as unknown as ProposedChanges)
+    : {};
+}
+
+/**
+ * Turn population output into proposals, skipping values the form already holds
+ */
+export function buildProposedChanges(
+  data: unknown,
+  populatedData: Record<string, unknown>,
+  provenance: FormProvenance
+): ProposedChanges {
+  const proposals: ProposedChanges = {};
+
+  for (const [path, source] of Object.entries(provenance)) {
+    const value = getPath(populatedData, path);
+    if (isSameValue(getPath(data, path), value)) continue;
+    proposals[path] = { value, provenance: source };
+  }
+
+  return proposals;
+}
+
+/**
+ * Per-field diff of pending proposals against the current form data. Proposals the
+ * form has since caught up with are left out.
+ */
+export function diffProposedChanges(data: unknown, proposals: ProposedChanges): FieldChange[] {
+  return Object.entries(proposals)
+    .map(([path, proposal]) => ({
+      path,
+      current: getPath(data, path) ?? null,
+      proposed: proposal.value,
+      provenance: proposal.provenance,
+    }))
+    .filter((change) => !isSameValue(change.current, change.proposed))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Accept or reject pending proposals. Accepted values are merged into the form data and
+ * take over the provenance of the field; rejected ones are dropped. Paths without a
+ * pending proposal are returned as unknown.
+ */
+export function resolveProposedChanges(
+  form: { data: Prisma.JsonValue; fieldProvenance: Prisma.JsonValue; proposedChanges: Prisma.JsonValue },
+  decision: ChangeDecision,
+  paths: string[]
+) {
+  const proposals = { ...parseProposedChanges(form.proposedChanges) };
+  const provenance = { ...parseProvenance(form.fieldProvenance) };
+  const data: Record<string, any> = JSON.parse(JSON.stringify(form.data ?? {}));
+  const resolved: FieldChange[] = [];
+  const unknown: string[] = [];
+
+  for (const path of paths) {
+    const proposal = proposals[path];
+    if (!proposal) {
+      unknown.push(path);
+      continue;
+    }
+
+    resolved.push({
+      path,
+      current: getPath(data, path) ?? null,
+      proposed: proposal.value,
+      provenance: proposal.provenance,
+    });
+    delete proposals[path];
+
+    if (decision === 'accept') {
+      setPath(data, path, proposal.value);
+      provenance[path] = proposal.provenance;
+    }
+  }
+
+  return { data, fieldProvenance: provenance, proposedChanges: proposals, resolved, unknown };
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
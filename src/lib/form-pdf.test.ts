@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { FormType } from '@prisma/client';
+import { buildFormDocument, FormPdfInput, renderFormPdf } from './form-pdf';
+import { FormTemplate, TemplateField, listFormTemplates } from './form-templates';
+
+// The same made-up values for every field of a type, so documents only change when the builders do
+function sampleValue(field: TemplateField, entry: number): unknown {
+  switch (field.type) {
+    case 'checkbox':
+      return true;
+    case 'date':
+      return `2024-0${entry + 3}-15`;
+    case 'email':
+      return `person${entry + 1}@example.com`;
+    case 'tel':
+      return '+1 555 0100';
+    case 'number':
+      return (field.validation?.min ?? 1) + entry;
+    case 'select':
+      return field.options?.[entry % field.options.length] ?? '';
+    default:
+      return `${field.label} ${entry + 1}`;
+  }
+}
+
+function sampleData(template: FormTemplate): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  for (const section of template.sections) {
+    if (section.repeatable) {
+      data[section.id] = [0, 1].map((entry) =>
+        Object.fromEntries(section.fields.map((field) => [field.id, sampleValue(field, entry)]))
+      );
+    } else {
+      section.fields.forEach((field) => (data[field.id] = sampleValue(field, 0)));
+    }
+  }
+  return data;
+}
+
+function sampleInput(type: FormType): FormPdfInput {
+  const template = listFormTemplates().find((candidate) => candidate.type === type)!;
+  return {
+    form: {
+      id: `form_${type.toLowerCase()}`,
+      name: `${template.name} for Acme`,
+      type,
+      templateVersion: template.version,
+      version: 3,
+      data: sampleData(template),
+      updatedAt: new Date('2024-05-01T12:00:00.000Z'),
+    },
+    organizationName: 'Example IP LLP',
+    caseInfo: { caseNumber: 'ACME-001', title: 'Folding widget', clientName: 'Acme Corp' },
+  };
+}
+
+const FORM_TYPES = listFormTemplates().map((template) => template.type);
+
+describe('buildFormDocument', () => {
+  it.each(FORM_TYPES)('lays out a %s form', (type) => {
+    expect(buildFormDocument(sampleInput(type))).toMatchSnapshot();
+  });
+
+  it('shows blanks for a form with no data', () => {
+    const input = sampleInput('PATENT_PROVISIONAL');
+    const document = buildFormDocument({ ...input, form: { ...input.form, data: null }, caseInfo: null });
+
+    expect(document.footer).toBe(`${input.form.name}  |  v3`);
+    expect(document.blocks.length).toBeGreaterThan(0);
+  });
+});
+
+describe('renderFormPdf', () => {
+  it.each(FORM_TYPES)('renders the same %s PDF every time', async (type) => {
+    const pdf = await renderFormPdf(sampleInput(type));
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect((await renderFormPdf(sampleInput(type))).equals(pdf)).toBe(true);
+    expect(crypto.createHash('sha256').update(pdf).digest('hex')).toMatchSnapshot();
+  });
+});
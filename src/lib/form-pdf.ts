@@ -0,0 +1,484 @@
+import { FormType } from '@prisma/client';
+import { FormTemplate, TemplateField, TemplateSection, getFormTemplate } from './form-templates';
+import { PdfBlock, PdfDocumentSpec, renderPdf } from './pdf';
+
+export interface FormPdfInput {
+  form: {
+    id: string;
+    name: string;
+    type: FormType;
+    templateVersion: number;
+    version: number;
+    data: unknown;
+    updatedAt: Date;
+  };
+  organizationName: string;
+  caseInfo?: { caseNumber: string; title: string; clientName: string | null } | null;
+}
+
+type FormData = Record<string, any>;
+type DocumentBuilder = (data: FormData, template: FormTemplate, input: FormPdfInput) => PdfBlock[];
+
+const BLANK = '-';
+
+/**
+ * Render a form as a filing-ready PDF
+ */
+export async function renderFormPdf(input: FormPdfInput): Promise<Buffer> {
+  return renderPdf(buildFormDocument(input));
+}
+
+/**
+ * Describe the PDF for a form without rendering it. Pure, so the output for a
+ * given form is stable and can be compared in snapshots.
+ */
+export function buildFormDocument(input: FormPdfInput): PdfDocumentSpec {
+  const { form, caseInfo } = input;
+  const template = getFormTemplate(form.type, form.templateVersion);
+  const data: FormData = form.data && typeof form.data === 'object' && !Array.isArray(form.data) ? (form.data as FormData) : {};
+
+  return {
+    title: form.name,
+    subject: template.name,
+    footer: [form.name, caseInfo?.caseNumber, `v${form.version}`].filter(Boolean).join('  |  '),
+    date: form.updatedAt,
+    blocks: BUILDERS[form.type](data, template, input),
+  };
+}
+
+// Filings
+
+const provisionalCoverSheet: DocumentBuilder = (data, template, input) => [
+  {
+    type: 'title',
+    text: 'Provisional Application for Patent Cover Sheet',
+    subtitle: 'This is a request for filing a PROVISIONAL APPLICATION FOR PATENT under 37 CFR 1.53(c).',
+  },
+  { type: 'fields', rows: [['Title of Invention', text(data.inventionTitle)], ...docketRows(input)] },
+  { type: 'heading', text: 'Inventors' },
+  inventorTable(data),
+  ...sectionBlocks(template, data, ['applicant', 'filing']),
+  { type: 'pageBreak' },
+  { type: 'title', text: text(data.inventionTitle) },
+  ...prose([
+    ['Technical Field', data.technicalField],
+    ['Detailed Description', data.description],
+    ['Description of the Drawings', data.drawings],
+    ['Known Prior Art', data.priorArt],
+    ['Advantages Over Prior Art', data.advantages],
+    ['Claims', data.claims],
+  ]),
+];
+
+const nonprovisionalApplication: DocumentBuilder = (data, template, input) => [
+  { type: 'title', text: 'Utility Patent Application Transmittal', subtitle: 'Application Data Sheet summary under 37 CFR 1.76' },
+  {
+    type: 'fields',
+    rows: [
+      ['Title of Invention', text(data.inventionTitle)],
+      ['Attorney Docket Number', text(data.attorneyDocketNumber)],
+      ...docketRows(input),
+    ],
+  },
+  { type: 'heading', text: 'Inventors' },
+  inventorTable(data),
+  ...sectionBlocks(template, data, ['applicant', 'priority', 'filing']),
+  { type: 'pageBreak' },
+  { type: 'title', text: text(data.inventionTitle) },
+  ...prose([
+    ['Technical Field', data.technicalField],
+    ['Background', data.background],
+    ['Summary', data.summary],
+    ['Brief Description of the Drawings', data.drawings],
+    ['Detailed Description', data.description],
+  ]),
+  { type: 'pageBreak' },
+  { type: 'title', text: 'Claims', subtitle: 'What is claimed is:' },
+  ...numberedClaims(entries(data, 'claims')),
+  { type: 'pageBreak' },
+  { type: 'title', text: 'Abstract' },
+  { type: 'paragraph', text: text(data.abstract) },
+];
+
+const claimListing: DocumentBuilder = (data, template, input) => [
+  { type: 'title', text: 'Claim Listing', subtitle: text(data.inventionTitle) },
+  { type: 'fields', rows: [['Application Number', text(data.applicationNumber)], ...docketRows(input)] },
+  { type: 'heading', text: 'Claims' },
+  ...numberedClaims(entries(data, 'claims')),
+];
+
+const officeActionResponse: DocumentBuilder = (data, template, input) => [
+  {
+    type: 'title',
+    text: 'Response to Office Action',
+    subtitle: `${text(data.actionType, 'Office action')} mailed ${date(data.mailingDate)}`,
+  },
+  {
+    type: 'fields',
+    rows: [
+      ['Application Number', text(data.applicationNumber)],
+      ['Examiner', text(data.examiner)],
+      ['Art Unit', text(data.artUnit)],
+      ['Attorney Docket Number', text(data.attorneyDocketNumber)],
+      ...docketRows(input),
+    ],
+  },
+  { type: 'heading', text: 'Amendments to the Claims' },
+  ...claimAmendments(entries(data, 'amendments')),
+  { type: 'pageBreak' },
+  { type: 'title', text: 'Remarks' },
+  ...prose([
+    ['Status of the Claims', [data.claimsPending && `Claims ${data.claimsPending} are pending.`, data.claimsRejected && `Claims ${data.claimsRejected} stand rejected.`].filter(Boolean).join(' ')],
+    ['Interview Summary', data.interviewSummary],
+  ]),
+  ...prose(entries(data, 'arguments').map((argument): [string, unknown] => [text(argument.addresses, 'Argument'), argument.argument])),
+  ...prose([['Conclusion', data.conclusion]]),
+  { type: 'signatures', parties: [{ role: 'Attorney or agent of record', name: '' }] },
+];
+
+// SB/08 lists each kind of reference in its own table, with cite numbers running on
+const informationDisclosureStatement: DocumentBuilder = (data, template, input) => {
+  const references = entries(data, 'references');
+  let citeNumber = 0;
+  const part = (category: string, columns: string[], row: (reference: FormData) => string[]): PdfBlock[] => {
+    const listed = references.filter((reference) => reference.category === category);
+    if (listed.length === 0) return [];
+    return [
+      { type: 'heading', text: category === 'Non-Patent Literature' ? 'Non-Patent Literature Documents' : `${category}s` },
+      { type: 'table', columns: ['Cite No.', ...columns], rows: listed.map((reference) => [String(++citeNumber), ...row(reference)]) },
+    ];
+  };
+
+  return [
+    { type: 'title', text: 'Information Disclosure Statement by Applicant', subtitle: 'Under 37 CFR 1.97 and 1.98' },
+    {
+      type: 'fields',
+      rows: [
+        ['Application Number', text(data.applicationNumber)],
+        ['Filing Date', date(data.filingDate)],
+        ['First Named Inventor', text(data.firstNamedInventor)],
+        ['Art Unit', text(data.artUnit)],
+        ['Examiner', text(data.examiner)],
+        ['Attorney Docket Number', text(data.attorneyDocketNumber)],
+        ...docketRows(input),
+      ],
+    },
+    ...part('U.S. Patent', ['Document Number', 'Issue Date', 'Patentee'], (reference) => [
+      text(reference.documentNumber),
+      date(reference.date),
+      text(reference.name),
+    ]),
+    ...part('U.S. Patent Application Publication', ['Document Number', 'Publication Date', 'Applicant'], (reference) => [
+      text(reference.documentNumber),
+      date(reference.date),
+      text(reference.name),
+    ]),
+    ...part('Foreign Patent Document', ['Document Number', 'Publication Date', 'Applicant', 'Translation'], (reference) => [
+      text(reference.documentNumber),
+      date(reference.date),
+      text(reference.name),
+      reference.translation === true ? 'Yes' : 'No',
+    ]),
+    ...part('Non-Patent Literature', ['Citation', 'Translation'], (reference) => [
+      text(reference.citation),
+      reference.translation === true ? 'Yes' : 'No',
+    ]),
+    ...prose([
+      ['Timing', data.timing],
+      ['Statement', data.statement97e === true ? 'The undersigned makes the statement under 37 CFR 1.97(e).' : null],
+    ]),
+    { type: 'signatures', parties: [{ role: 'Attorney or agent of record', name: '' }, { role: 'Examiner (date considered)', name: '' }] },
+  ];
+};
+
+const TEAS_DECLARATION =
+  'The signatory believes that the applicant is the owner of the trademark/service mark sought to be registered ' +
+  '(or, for an intent-to-use application, is entitled to use the mark in commerce); that the mark is in use in commerce ' +
+  'or the applicant has a bona fide intention to use it in commerce; and that, to the best of the signatory\'s knowledge ' +
+  'and belief, no other person has the right to use the mark in commerce in a form likely to cause confusion. ' +
+  'All statements made of the signatory\'s own knowledge are true, and all statements made on information and belief are believed to be true.';
+
+const trademarkSummary: DocumentBuilder = (data, template, input) => [
+  { type: 'title', text: 'Trademark/Service Mark Application Summary', subtitle: template.name },
+  { type: 'fields', rows: [['Mark', text(data.markName)], ...docketRows(input)] },
+  ...sectionBlocks(template, data),
+  { type: 'heading', text: 'Declaration' },
+  { type: 'paragraph', text: TEAS_DECLARATION },
+  { type: 'signatures', parties: [{ role: 'Applicant or authorized signatory', name: text(data.ownerName, '') }] },
+];
+
+const COPYRIGHT_CERTIFICATION =
+  'I certify that I am the author, copyright claimant, or owner of exclusive rights, or the authorized agent of the same, ' +
+  'of the work identified in this application, and that the information given in this application is correct to the best of my knowledge.';
+
+const copyrightSummary: DocumentBuilder = (data, template, input) => [
+  { type: 'title', text: 'Copyright Application Summary', subtitle: template.name },
+  { type: 'fields', rows: docketRows(input) },
+  ...sectionBlocks(template, data),
+  { type: 'heading', text: 'Certification' },
+  { type: 'paragraph', text: COPYRIGHT_CERTIFICATION },
+  { type: 'signatures', parties: [{ role: 'Claimant or authorized agent', name: text(data.contactName, '') }] },
+];
+
+// Agreements
+
+const ndaDocument: DocumentBuilder = (data) => {
+  const mutual = data.ndaType === 'Mutual';
+  const disclosing = text(data.disclosingName, '[Disclosing Party]');
+  const receiving = text(data.receivingName, '[Receiving Party]');
+
+  return [
+    { type: 'title', text: mutual ? 'Mutual Non-Disclosure Agreement' : 'Non-Disclosure Agreement' },
+    {
+      type: 'paragraph',
+      text:
+        `This Non-Disclosure Agreement (the "Agreement") is entered into as of ${date(data.effectiveDate)} (the "Effective Date") ` +
+        `between ${disclosing}, of ${text(data.disclosingAddress)} ("${mutual ? 'Party A' : 'Disclosing Party'}"), and ` +
+        `${receiving}, of ${text(data.receivingAddress)} ("${mutual ? 'Party B' : 'Receiving Party'}").`,
+    },
+    ...clauses([
+      ['Purpose', `The parties wish to exchange information for the following purpose: ${text(data.purpose)} (the "Purpose").`],
+      [
+        'Confidential Information',
+        `"Confidential Information" means ${text(data.confidentialInformation)}, disclosed ${mutual ? 'by either party to the other' : 'by the Disclosing Party to the Receiving Party'}, ` +
+          'whether in writing, orally or by any other means.',
+      ],
+      [
+        'Exclusions',
+        'Confidential Information does not include information that is or becomes publicly available through no fault of the receiving party, ' +
+          'was rightfully known to the receiving party before disclosure, or is independently developed without use of the Confidential Information.' +
+          (isBlank(data.exclusions) ? '' : ` The following is also excluded: ${text(data.exclusions)}.`),
+      ],
+      [
+        'Obligations',
+        'The receiving party shall use Confidential Information only for the Purpose, protect it with at least reasonable care, ' +
+          'and not disclose it to any third party without prior written consent.',
+      ],
+      ['Term', `The obligations in this Agreement continue for ${text(data.termYears)} year(s) from the Effective Date.`],
+      ['Governing Law', `This Agreement is governed by the laws of ${text(data.governingLaw, 'the jurisdiction agreed by the parties')}.`],
+    ]),
+    {
+      type: 'signatures',
+      parties: [
+        { role: mutual ? 'Party A' : 'Disclosing Party', name: disclosing },
+        { role: mutual ? 'Party B' : 'Receiving Party', name: receiving },
+      ],
+    },
+  ];
+};
+
+const assignmentDocument: DocumentBuilder = (data) => {
+  const assignor = text(data.assignorName, '[Assignor]');
+  const assignee = text(data.assigneeName, '[Assignee]');
+
+  return [
+    { type: 'title', text: 'Intellectual Property Assignment' },
+    {
+      type: 'paragraph',
+      text:
+        `This Assignment is made effective ${date(data.effectiveDate)} by ${assignor}, of ${text(data.assignorAddress)} ("Assignor"), ` +
+        `in favor of ${assignee}, of ${text(data.assigneeAddress)} ("Assignee").`,
+    },
+    ...clauses([
+      [
+        'Assignment',
+        `For ${text(data.consideration)}, the receipt and sufficiency of which are acknowledged, Assignor assigns to Assignee all right, ` +
+          'title and interest in and to the intellectual property listed below, including all rights to sue for past, present and future infringement.',
+      ],
+    ]),
+    {
+      type: 'table',
+      columns: ['Type', 'Number or Title', 'Description'],
+      rows: entries(data, 'rights').map((right) => [text(right.rightType), text(right.rightIdentifier), text(right.rightDescription)]),
+    },
+    ...clauses([
+      [
+        'Further Assurances',
+        'Assignor shall sign any further documents reasonably requested by Assignee to record or perfect this assignment' +
+          (data.recordWithUspto === true ? ', including the recordation of this assignment with the USPTO.' : '.'),
+      ],
+      ['Governing Law', `This Assignment is governed by the laws of ${text(data.governingLaw, 'the jurisdiction agreed by the parties')}.`],
+    ], 2),
+    {
+      type: 'signatures',
+      parties: [
+        { role: 'Assignor', name: assignor },
+        { role: 'Assignee', name: assignee },
+      ],
+    },
+  ];
+};
+
+const licenseDocument: DocumentBuilder = (data) => {
+  const licensor = text(data.licensorName, '[Licensor]');
+  const licensee = text(data.licenseeName, '[Licensee]');
+  const royalty = isBlank(data.royaltyRate) ? null : `${data.royaltyRate}% of net sales of licensed products`;
+  const fee = isBlank(data.upfrontFee) ? null : `an upfront fee of ${text(data.upfrontFee)}`;
+
+  return [
+    { type: 'title', text: 'Intellectual Property License Agreement' },
+    {
+      type: 'paragraph',
+      text:
+        `This License Agreement is entered into as of ${date(data.effectiveDate)} between ${licensor}, of ${text(data.licensorAddress)} ("Licensor"), ` +
+        `and ${licensee}, of ${text(data.licenseeAddress)} ("Licensee").`,
+    },
+    ...clauses([
+      ['Licensed IP', text(data.licensedIp)],
+      [
+        'Grant',
+        `Licensor grants Licensee a ${text(data.exclusivity, 'non-exclusive').toLowerCase()} license to use the Licensed IP in ${text(data.territory)}` +
+          (isBlank(data.fieldOfUse) ? '' : `, limited to the field of ${text(data.fieldOfUse)}`) +
+          `. Licensee ${data.sublicensable === true ? 'may' : 'may not'} grant sublicenses.`,
+      ],
+      [
+        'Term',
+        isBlank(data.termYears)
+          ? 'This Agreement continues until the last of the Licensed IP expires.'
+          : `This Agreement continues for ${text(data.termYears)} year(s) from its effective date.`,
+      ],
+      [
+        'Payment',
+        [fee, royalty].filter(Boolean).length > 0
+          ? `Licensee shall pay Licensor ${[fee, royalty].filter(Boolean).join(' and ')}.`
+          : 'The license is granted without payment.',
+      ],
+      ['Governing Law', `This Agreement is governed by the laws of ${text(data.governingLaw, 'the jurisdiction agreed by the parties')}.`],
+    ]),
+    {
+      type: 'signatures',
+      parties: [
+        { role: 'Licensor', name: licensor },
+        { role: 'Licensee', name: licensee },
+      ],
+    },
+  ];
+};
+
+const customDocument: DocumentBuilder = (data, template, input) => [
+  { type: 'title', text: text(data.subject, input.form.name) },
+  { type: 'fields', rows: docketRows(input) },
+  { type: 'paragraph', text: text(data.body, '') },
+  ...(isBlank(data.notes) ? [] : prose([['Notes', data.notes]])),
+];
+
+const BUILDERS: Record<FormType, DocumentBuilder> = {
+  PATENT_PROVISIONAL: provisionalCoverSheet,
+  PATENT_NONPROVISIONAL: nonprovisionalApplication,
+  PATENT_CLAIMS: claimListing,
+  OFFICE_ACTION_RESPONSE: officeActionResponse,
+  INFORMATION_DISCLOSURE_STATEMENT: informationDisclosureStatement,
+  TRADEMARK_TEAS_PLUS: trademarkSummary,
+  TRADEMARK_TEAS_STANDARD: trademarkSummary,
+  TRADEMARK_INTENT_TO_USE: trademarkSummary,
+  COPYRIGHT_STANDARD: copyrightSummary,
+  COPYRIGHT_GROUP: copyrightSummary,
+  NDA: ndaDocument,
+  ASSIGNMENT: assignmentDocument,
+  LICENSE: licenseDocument,
+  CUSTOM: customDocument,
+};
+
+// Building blocks
+
+/**
+ * Template sections as labelled fields, with repeatable sections as tables
+ */
+function sectionBlocks(template: FormTemplate, data: FormData, sectionIds?: string[]): PdfBlock[] {
+  return template.sections
+    .filter((section) => !sectionIds || sectionIds.includes(section.id))
+    .flatMap((section): PdfBlock[] => [
+      { type: 'heading', text: section.title },
+      section.repeatable ? sectionTable(section, data) : { type: 'fields', rows: section.fields.map((field) => [field.label, formatValue(field, data[field.id])]) },
+    ]);
+}
+
+function sectionTable(section: TemplateSection, data: FormData): PdfBlock {
+  return {
+    type: 'table',
+    columns: section.fields.map((field) => field.label),
+    rows: entries(data, section.id).map((entry) => section.fields.map((field) => formatValue(field, entry[field.id]))),
+  };
+}
+
+function inventorTable(data: FormData): PdfBlock {
+  return {
+    type: 'table',
+    columns: ['Name', 'Residence', 'Citizenship'],
+    rows: entries(data, 'inventors').map((inventor) => [
+      text(inventor.inventorName),
+      text(inventor.inventorAddress),
+      text(inventor.inventorCitizenship),
+    ]),
+  };
+}
+
+function numberedClaims(claims: FormData[]): PdfBlock[] {
+  if (claims.length === 0) return [{ type: 'paragraph', text: 'No claims.' }];
+  return claims.map((claim, index) => ({ type: 'paragraph', text: `${claim.claimNumber || index + 1}. ${text(claim.claimText)}` }));
+}
+
+// Claim amendments in the 37 CFR 1.121(c) status format
+function claimAmendments(amendments: FormData[]): PdfBlock[] {
+  if (amendments.length === 0) return [{ type: 'paragraph', text: 'No claims are amended.' }];
+  return amendments.map((amendment) => ({
+    type: 'paragraph',
+    text: `${text(amendment.claimNumber)}. (${text(amendment.amendmentStatus)}) ${text(amendment.claimText, '')}`.trim(),
+  }));
+}
+
+function docketRows(input: FormPdfInput): [string, string][] {
+  const rows: [string, string][] = [['Prepared by', input.organizationName]];
+  if (input.caseInfo) {
+    rows.push(['Matter', `${input.caseInfo.caseNumber} - ${input.caseInfo.title}`]);
+    if (input.caseInfo.clientName) rows.push(['Client', input.caseInfo.clientName]);
+  }
+  return rows;
+}
+
+// Headed paragraphs, skipping ones with nothing to say
+function prose(sections: [heading: string, value: unknown][]): PdfBlock[] {
+  return sections
+    .filter(([, value]) => !isBlank(value))
+    .flatMap(([heading, value]): PdfBlock[] => [
+      { type: 'heading', text: heading },
+      { type: 'paragraph', text: String(value) },
+    ]);
+}
+
+// Numbered agreement clauses, continuing from `first` when other blocks sit between them
+function clauses(items: [heading: string, body: string][], first = 1): PdfBlock[] {
+  return items.flatMap(([heading, body], index): PdfBlock[] => [
+    { type: 'heading', text: `${first + index}. ${heading}` },
+    { type: 'paragraph', text: body },
+  ]);
+}
+
+function formatValue(field: TemplateField, value: unknown): string {
+  if (field.type === 'checkbox') return value === true ? 'Yes' : 'No';
+  if (field.type === 'date') return date(value);
+  return text(value);
+}
+
+function text(value: unknown, fallback = BLANK): string {
+  return isBlank(value) ? fallback : String(value).trim();
+}
+
+// Dates are formatted in UTC so output doesn't depend on the server's time zone
+function date(value: unknown): string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return text(value);
+  return new Date(`${value}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function entries(data: FormData, sectionId: string): FormData[] {
+  return Array.isArray(data[sectionId]) ? data[sectionId].filter((entry: unknown) => entry && typeof entry === 'object') : [];
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { completeWithFallback } from './llm';
+import { TranscriptData } from './transcription';
+import { formatTranscriptForCitation } from './diarization';
+import { FormProvenance, LOW_CONFIDENCE_THRESHOLD, setPath } from './form-provenance';
+import { FormTemplate, TemplateField } from './form-templates';
+
+export interface FormPopulationInput {
+  organizationId: string;
+  formId: string;
+  recordingId: string;
+  userId?: string;
+  jobId?: string;
+  template: FormTemplate;
+  data: Record<string, any>;
+  analysis: Record<string, any> | null;
+  transcript: string | null;
+  transcriptData: TranscriptData | null;
+}
+
+const POPULATION_SCHEMA_NAME = 'populate_form_fields';
+
+const populatedFieldsSchema = z.object({
+  fields: z.array(
+    z.object({
+      path: z.string().describe('Path of the field from the list, e.g. "inventors.0.inventorName"'),
+      value: z.union([z.string(), z.number(), z.boolean()]).nullable(),
+      confidence: z.number().min(0).max(1).describe('How certain the value is correct, from 0 to 1'),
+      segments: z.array(z.number().int()).describe('Segment numbers the value was taken from'),
+      quote: z.string().nullable().describe('Words from the transcription supporting the value'),
+    })
+  ),
+});
+
+const populatedFieldsJsonSchema = zodResponseFormat(populatedFieldsSchema, POPULATION_SCHEMA_NAME).json_schema.schema as Record<string, unknown>;
+
+// Values the model could not tie to the transcript are never trusted without review
+const UNCITED_CONFIDENCE_CAP = LOW_CONFIDENCE_THRESHOLD - 0.1;
+
+// More entries than a recording describes; also keeps a stray index from padding the array
+const MAX_POPULATED_ENTRIES = 50;
+
+/**
+ * Use AI to map a recording's analysis and transcript onto a form's fields.
+ * Returns the fields the model filled in and the provenance of each, keyed by
+ * its dot path. Nothing is merged into the form here; callers propose the
+ * values for review.
+ */
+export async function populateForm(input: FormPopulationInput) {
+  const { template, data, analysis, transcript, transcriptData } = input;
+  const segments = transcriptData?.segments || [];
+
+  const prompt = `Given the following form template and recording analysis/transcription, populate the form fields with relevant data.
+
+Form: ${template.name}
+Fields:
+${describeFields(template)}
+
+Current Values:
+${JSON.stringify(data, null, 2)}
+
+${analysis ? `Recording Analysis:\n${JSON.stringify(analysis, null, 2)}` : ''}
+
+${segments.length > 0 ? `Transcription (each line starts with its segment number):\n${formatTranscriptForCitation(transcriptData!)}` : transcript ? `Transcription:\n${transcript}` : ''}
+
+Record one entry per field you can fill:
+- "path": the field's path from the list above, with an entry number in place of "N" (e.g. "inventors.0.inventorName")
+- "value": the value for that field
+- "confidence": how certain you are the value is correct, from 0 to 1
+- "segments": the segment numbers the value was taken from, empty if none
+- "quote": the words from the transcription supporting the value, or null
+Use one of the listed options for fields that have them. Leave out fields the recording gives no information about.`;
+
+  const response = await completeWithFallback(
+    {
+      system: 'You are an expert IP paralegal assistant that populates legal forms accurately based on provided information.',
+      messages: [{ role: 'user', content: prompt }],
+      schema: {
+        name: POPULATION_SCHEMA_NAME,
+        description: 'Record the values of the form fields',
+        jsonSchema: populatedFieldsJsonSchema,
+      },
+    },
+    {
+      organizationId: input.organizationId,
+      purpose: 'form_population',
+      entityType: 'form',
+      entityId: input.formId,
+      userId: input.userId,
+    }
+  );
+
+  const result = populatedFieldsSchema.safeParse(JSON.parse(response.content || '{}'));
+  if (!result.success) {
+    throw new Error(`Form population returned an invalid response: ${result.error.issues[0]?.message}`);
+  }
+
+  const populatedData: Record<string, any> = {};
+  const provenance: FormProvenance = {};
+  const populatedAt = new Date().toISOString();
+
+  for (const field of result.data.fields) {
+    if (field.value === null || field.value === undefined || field.value === '') continue;
+    if (!isTemplatePath(template, field.path)) continue;
+
+    const cited = segments.filter((segment) => field.segments.includes(segment.id));
+    const confidence = cited.length > 0 || segments.length === 0
+      ? field.confidence
+      : Math.min(field.confidence, UNCITED_CONFIDENCE_CAP);
+
+    setPath(populatedData, field.path, field.value);
+    provenance[field.path] = {
+      source: 'ai',
+      recordingId: input.recordingId,
+      provider: response.provider,
+      model: response.model,
+      confidence: Math.round(confidence * 100) / 100,
+      start: cited.length > 0 ? Math.min(...cited.map((segment) => segment.start)) : null,
+      end: cited.length > 0 ? Math.max(...cited.map((segment) => segment.end)) : null,
+      quote: field.quote || null,
+      populatedAt,
+      jobId: input.jobId,
+    };
+  }
+
+  return { populatedData, provenance };
+}
+
+/**
+ * Whether a path names a field of the template: its id for a section stored at
+ * the top level, or "<section>.<entry>.<field>" for a repeatable section
+ */
+function isTemplatePath(template: FormTemplate, path: string): boolean {
+  const keys = path.split('.');
+
+  return template.sections.some((section) => {
+    if (!section.repeatable) {
+      return keys.length === 1 && section.fields.some((field) => field.id === keys[0]);
+    }
+    return (
+      keys.length === 3 &&
+      keys[0] === section.id &&
+      /^\d+$/.test(keys[1]) &&
+      Number(keys[1]) < MAX_POPULATED_ENTRIES &&
+      section.fields.some((field) => field.id === keys[2])
+    );
+  });
+}
+
+/**
+ * One line per template field, e.g. "inventors.N.inventorName (text, required): Inventor Full Name"
+ */
+function describeFields(template: FormTemplate): string {
+  return template.sections
+    .flatMap((section) =>
+      section.fields.map((field) => describeField(section.repeatable ? `${section.id}.N.${field.id}` : field.id, field))
+    )
+    .join('\n');
+}
+
+function describeField(path: string, field: TemplateField): string {
+  const details = [
+    field.helpText,
+    field.options && `options: ${field.options.join(' | ')}`,
+    field.aliases?.length && `also called: ${field.aliases.join(', ')}`,
+  ].filter(Boolean);
+
+  return `- ${path} (${field.type}${field.required ? ', required' : ''}): ${field.label}${details.length > 0 ? ` [${details.join('; ')}]` : ''}`;
+}
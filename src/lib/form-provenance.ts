@@ -0,0 +1,121 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Where an auto-populated form value came from
+ */
+export interface FieldProvenance {
+  source: 'ai';
+  recordingId: string;
+  provider: string;
+  model: string;
+  confidence: number;         // 0-1, as reported by the model
+  start: number | null;       // Transcript span the value was taken from, in seconds
+  end: number | null;
+  quote: string | null;       // Supporting excerpt from the transcript
+  populatedAt: string;
+  jobId?: string;
+  reviewedAt?: string;
+  reviewedBy?: string;
+  editedAt?: string;          // Set when a person changed the value after population
+}
+
+/**
+ * Shape of Form.fieldProvenance, keyed by dot path into Form.data (e.g. "inventors.0.name")
+ */
+export type FormProvenance = Record<string, FieldProvenance>;
+
+// Values below this confidence must be reviewed before the form goes to review
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export function parseProvenance(value: Prisma.JsonValue | null | undefined): FormProvenance {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as unknown as FormProvenance)
+    : {};
+}
+
+export function needsReview(provenance: FieldProvenance): boolean {
+  return provenance.confidence < LOW_CONFIDENCE_THRESHOLD && !provenance.reviewedAt;
+}
+
+/**
+ * Paths of low-confidence values nobody has reviewed yet
+ */
+export function getFieldsNeedingReview(provenance: FormProvenance): string[] {
+  return Object.entries(provenance)
+    .filter(([, field]) => needsReview(field))
+    .map(([path]) => path);
+}
+
+/**
+ * Mark fields as reviewed. Paths without provenance are returned as unknown.
+ */
+export function markReviewed(
+  provenance: FormProvenance,
+  paths: string[],
+  userId: string
+): { provenance: FormProvenance; unknown: string[] } {
+  const updated = { ...provenance };
+  const unknown: string[] = [];
+  const now = new Date().toISOString();
+
+  for (const path of paths) {
+    if (!updated[path]) {
+      unknown.push(path);
+      continue;
+    }
+    updated[path] = { ...updated[path], reviewedAt: now, reviewedBy: userId };
+  }
+
+  return { provenance: updated, unknown };
+}
+
+/**
+ * Record manual edits to populated values. A value a person has changed counts as reviewed.
+ */
+export function trackEdits(
+  provenance: FormProvenance,
+  previousData: unknown,
+  data: unknown,
+  userId: string
+): FormProvenance {
+  const updated = { ...provenance };
+  const now = new Date().toISOString();
+
+  for (const path of Object.keys(provenance)) {
+    if (JSON.stringify(getPath(previousData, path)) !== JSON.stringify(getPath(data, path))) {
+      updated[path] = { ...updated[path], editedAt: now, reviewedAt: now, reviewedBy: userId };
+    }
+  }
+
+  return updated;
+}
+
+export function getPath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
+
+// Keys that would reach Object.prototype instead of the form's data
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Set a value at a dot path, creating objects (or arrays for numeric keys) along the way
+ */
+export function setPath(target: Record<string, any>, path: string, value: unknown) {
+  const keys = path.split('.');
+  if (keys.some((key) => UNSAFE_KEYS.includes(key))) {
+    throw new Error(`Invalid field path: ${path}`);
+  }
+  let node: any = target;
+
+  keys.slice(0, -1).forEach((key, i) => {
+    if (!node[key] || typeof node[key] !== 'object') {
+      node[key] = /^\d+$/.test(keys[i + 1]) ? [] : {};
+    }
+    node = node[key];
+  });
+
+  node[keys[keys.length - 1]] = value;
+}
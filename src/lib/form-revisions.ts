@@ -0,0 +1,142 @@
+import { Form, Prisma } from '@prisma/client';
+import { db } from './db';
+
+export type FormRevisionSource = 'created' | 'edit' | 'status_change' | 'populate' | 'changes_accepted' | 'restore';
+
+export interface FieldDiff {
+  path: string;               // Dot path into Form.data
+  kind: 'added' | 'removed' | 'changed';
+  before: unknown;
+  after: unknown;
+}
+
+// Revision fields returned in history listings; the data snapshot is fetched per revision
+export const REVISION_SUMMARY = {
+  id: true,
+  version: true,
+  name: true,
+  status: true,
+  source: true,
+  note: true,
+  createdAt: true,
+  createdBy: true,
+} as const;
+
+export class FormVersionConflictError extends Error {
+  constructor(formId: string) {
+    super(`Form ${formId} has changed since it was loaded`);
+    this.name = 'FormVersionConflictError';
+  }
+}
+
+/**
+ * Update a form and store the result as its next revision, so Form.version always
+ * matches the latest revision. The update only applies to the version the caller
+ * read; if someone saved in between, FormVersionConflictError is thrown instead of
+ * overwriting their change.
+ */
+export async function updateFormWithRevision(
+  form: Form,
+  update: Prisma.FormUpdateInput,
+  revision: { source: FormRevisionSource; note?: string; createdBy: string },
+  tx?: Prisma.TransactionClient
+): Promise<Form> {
+  if (!tx) {
+    return db.$transaction((client) => updateFormWithRevision(form, update, revision, client));
+  }
+
+  try {
+    // Forms from before revisions existed get their current state kept as the first revision
+    if ((await tx.formRevision.count({ where: { formId: form.id } })) === 0) {
+      await tx.formRevision.create({
+        data: snapshot(form, { source: 'created', note: 'State when history started', createdBy: form.createdBy }),
+      });
+    }
+
+    const updated = await tx.form.update({
+      where: { id: form.id, version: form.version },
+      data: { ...update, version: { increment: 1 } },
+    });
+
+    await tx.formRevision.create({ data: snapshot(updated, revision) });
+
+    return updated;
+  } catch (error) {
+    // P2025: no form at the version read; P2002: a concurrent save wrote the same revision
+    if (error instanceof Prisma.PrismaClientKnownRequestError && (error.code === 'P2025' || error.code === 'P2002')) {
+      throw new FormVersionConflictError(form.id);
+    }
+    throw error;
+  }
+}
+
+/**
+ * First revision of a newly created form, for a nested create
+ */
+export function initialRevision(form: {
+  name: string;
+  data: Prisma.InputJsonValue;
+  createdBy: string;
+}): Prisma.FormRevisionCreateWithoutFormInput {
+  const source: FormRevisionSource = 'created';
+  return { version: 1, name: form.name, status: 'DRAFT', data: form.data, source, createdBy: form.createdBy };
+}
+
+/**
+ * Field-level differences between two versions of Form.data. Repeatable
+ * sections are compared entry by entry, so an added entry shows as added fields.
+ */
+export function diffFormData(before: unknown, after: unknown): FieldDiff[] {
+  const previous = flatten(before);
+  const current = flatten(after);
+  const changes: FieldDiff[] = [];
+
+  current.forEach((value, path) => {
+    if (!previous.has(path)) {
+      changes.push({ path, kind: 'added', before: undefined, after: value });
+    } else if (JSON.stringify(previous.get(path)) !== JSON.stringify(value)) {
+      changes.push({ path, kind: 'changed', before: previous.get(path), after: value });
+    }
+  });
+
+  previous.forEach((value, path) => {
+    if (!current.has(path)) changes.push({ path, kind: 'removed', before: value, after: undefined });
+  });
+
+  return changes;
+}
+
+function snapshot(
+  form: Form,
+  revision: { source: FormRevisionSource; note?: string; createdBy: string }
+): Prisma.FormRevisionUncheckedCreateInput {
+  return {
+    formId: form.id,
+    version: form.version,
+    name: form.name,
+    status: form.status,
+    data: form.data as Prisma.InputJsonValue,
+    source: revision.source,
+    note: revision.note,
+    createdBy: revision.createdBy,
+  };
+}
+
+// Leaf values by dot path; empty objects and arrays count as values
+function flatten(value: unknown, prefix = '', leaves = new Map<string, unknown>()): Map<string, unknown> {
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item] as const)
+    : value && typeof value === 'object'
+      ? Object.entries(value)
+      : null;
+
+  if (!entries || (entries.length === 0 && prefix)) {
+    if (prefix) leaves.set(prefix, value);
+    return leaves;
+  }
+
+  for (const [key, item] of entries) {
+    flatten(item, prefix ? `${prefix}.${key}` : key, leaves);
+  }
+  return leaves;
+}
@@ -0,0 +1,867 @@
+import { FormType } from '@prisma/client';
+
+export type TemplateFieldType =
+  | 'text'
+  | 'textarea'
+  | 'email'
+  | 'tel'
+  | 'date'
+  | 'number'
+  | 'select'
+  | 'checkbox';
+
+export interface FieldValidation {
+  pattern?: string;           // Regular expression the whole value must match
+  minLength?: number;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  message?: string;           // Shown when the pattern or a bound is not met
+}
+
+export interface TemplateField {
+  id: string;                 // Key in Form.data, unique within the template
+  label: string;
+  type: TemplateFieldType;
+  required?: boolean;
+  helpText?: string;
+  placeholder?: string;
+  options?: string[];         // For select fields
+  rows?: number;              // For textarea fields
+  validation?: FieldValidation;
+  aliases?: string[];         // Other names the value goes by in analysis results and transcripts
+}
+
+/**
+ * Fields of a section are stored at the top level of Form.data. A repeatable
+ * section is stored as an array of entries under its own id instead.
+ */
+export interface TemplateSection {
+  id: string;
+  title: string;
+  description?: string;
+  repeatable?: boolean;
+  entryLabel?: string;        // Name of one entry of a repeatable section, e.g. "Inventor"
+  minEntries?: number;
+  fields: TemplateField[];
+}
+
+export interface FormTemplate {
+  type: FormType;
+  version: number;
+  name: string;
+  description: string;
+  sections: TemplateSection[];
+}
+
+const YEAR: FieldValidation = { pattern: '^\\d{4}$', message: 'Enter a four-digit year' };
+const US_APPLICATION_NUMBER: FieldValidation = {
+  pattern: '^\\d{2}/?\\d{3},?\\d{3}$',
+  message: 'Use the USPTO format, e.g. 63/123,456',
+};
+const NICE_CLASS: FieldValidation = { min: 1, max: 45, message: 'Nice classes run from 1 to 45' };
+
+// Sections shared by several templates
+
+const patentApplicant: TemplateSection = {
+  id: 'applicant',
+  title: 'Applicant Information',
+  fields: [
+    { id: 'applicantName', label: 'Applicant Name', type: 'text', required: true, aliases: ['applicant', 'assignee', 'owner'] },
+    { id: 'applicantAddress', label: 'Applicant Address', type: 'textarea', required: true, rows: 3 },
+    { id: 'applicantPhone', label: 'Phone Number', type: 'tel' },
+    { id: 'applicantEmail', label: 'Email Address', type: 'email', required: true },
+  ],
+};
+
+const patentInventors: TemplateSection = {
+  id: 'inventors',
+  title: 'Inventor Information',
+  repeatable: true,
+  entryLabel: 'Inventor',
+  minEntries: 1,
+  fields: [
+    { id: 'inventorName', label: 'Inventor Full Name', type: 'text', required: true, aliases: ['inventor', 'name'] },
+    { id: 'inventorAddress', label: 'Residence Address', type: 'textarea', required: true, rows: 2, aliases: ['address'] },
+    { id: 'inventorCitizenship', label: 'Citizenship', type: 'text', required: true, aliases: ['citizenship', 'nationality'] },
+    {
+      id: 'inventorContribution',
+      label: 'Contribution',
+      type: 'textarea',
+      rows: 2,
+      helpText: 'What this inventor contributed to at least one claim',
+      aliases: ['contribution'],
+    },
+  ],
+};
+
+const patentPriorArt: TemplateSection = {
+  id: 'priorArt',
+  title: 'Prior Art & References',
+  fields: [
+    { id: 'priorArt', label: 'Known Prior Art', type: 'textarea', rows: 4, aliases: ['references', 'priorArtReferences'] },
+    { id: 'advantages', label: 'Advantages Over Prior Art', type: 'textarea', rows: 4 },
+  ],
+};
+
+const trademarkOwner: TemplateSection = {
+  id: 'applicant',
+  title: 'Applicant Information',
+  fields: [
+    { id: 'ownerName', label: 'Owner/Applicant Name', type: 'text', required: true, aliases: ['applicant', 'owner', 'applicantName'] },
+    {
+      id: 'entityType',
+      label: 'Entity Type',
+      type: 'select',
+      required: true,
+      options: ['Individual', 'Corporation', 'LLC', 'Partnership', 'Other'],
+    },
+    { id: 'ownerAddress', label: 'Street Address', type: 'textarea', required: true, rows: 2, aliases: ['address', 'applicantAddress'] },
+    { id: 'ownerCity', label: 'City', type: 'text', required: true },
+    { id: 'ownerState', label: 'State/Province', type: 'text', required: true },
+    { id: 'ownerCountry', label: 'Country', type: 'text', required: true },
+    { id: 'ownerZip', label: 'Postal Code', type: 'text', required: true },
+    { id: 'ownerEmail', label: 'Email Address', type: 'email', required: true },
+  ],
+};
+
+const trademarkMark: TemplateSection = {
+  id: 'mark',
+  title: 'Mark Information',
+  fields: [
+    { id: 'markName', label: 'Mark (Word/Text)', type: 'text', required: true, aliases: ['mark', 'trademark', 'brand'] },
+    {
+      id: 'markType',
+      label: 'Mark Type',
+      type: 'select',
+      required: true,
+      options: ['Standard Character', 'Special Form (Design)', 'Sound Mark', 'Other'],
+      aliases: ['typeOfMark'],
+    },
+    { id: 'markDescription', label: 'Description of Mark', type: 'textarea', required: true, rows: 4 },
+    { id: 'colorClaim', label: 'Color Claim', type: 'text', helpText: 'Only if color is a feature of the mark' },
+    { id: 'transliteration', label: 'Translation/Transliteration', type: 'text', helpText: 'Required for non-English or non-Latin wording' },
+  ],
+};
+
+const trademarkGoodsServices = (idManualOnly: boolean): TemplateSection => ({
+  id: 'goodsServices',
+  title: 'Goods and Services',
+  repeatable: true,
+  entryLabel: 'Class',
+  minEntries: 1,
+  fields: [
+    {
+      id: 'internationalClass',
+      label: 'International Class Number',
+      type: 'number',
+      required: true,
+      validation: NICE_CLASS,
+      aliases: ['class', 'classes', 'niceClass'],
+    },
+    {
+      id: 'goodsServicesDescription',
+      label: 'Description of Goods/Services',
+      type: 'textarea',
+      required: true,
+      rows: 4,
+      helpText: idManualOnly
+        ? 'TEAS Plus requires wording taken from the USPTO ID Manual'
+        : 'Free-form wording is allowed but may draw an examiner objection',
+      aliases: ['goods', 'services', 'goodsAndServices'],
+    },
+  ],
+});
+
+const trademarkUseBasis: TemplateSection = {
+  id: 'basis',
+  title: 'Filing Basis',
+  fields: [
+    {
+      id: 'filingBasis',
+      label: 'Filing Basis',
+      type: 'select',
+      required: true,
+      options: ['Use in Commerce (1a)', 'Intent to Use (1b)', 'Foreign Application (44d)', 'Foreign Registration (44e)'],
+    },
+    { id: 'firstUseDate', label: 'Date of First Use Anywhere', type: 'date', helpText: 'Required for a 1(a) basis', aliases: ['firstUse', 'dateOfFirstUse'] },
+    { id: 'firstUseInCommerce', label: 'Date of First Use in Commerce', type: 'date', helpText: 'Required for a 1(a) basis', aliases: ['commerceDate'] },
+    { id: 'specimens', label: 'Specimen Description', type: 'textarea', rows: 3, aliases: ['specimen', 'specimenDescription'] },
+  ],
+};
+
+const trademarkAdditional: TemplateSection = {
+  id: 'additional',
+  title: 'Additional Information',
+  fields: [
+    { id: 'existingRegistrations', label: 'Existing Registrations', type: 'textarea', rows: 2, aliases: ['priorRegistrations'] },
+    { id: 'disclaimer', label: 'Disclaimer', type: 'text', helpText: 'Descriptive wording the applicant claims no rights in apart from the mark' },
+    { id: 'notes', label: 'Additional Notes', type: 'textarea', rows: 3 },
+  ],
+};
+
+const copyrightClaimant: TemplateSection = {
+  id: 'claimant',
+  title: 'Copyright Claimant',
+  fields: [
+    { id: 'claimantName', label: 'Claimant Name', type: 'text', required: true, aliases: ['claimant', 'copyrightClaimant'] },
+    { id: 'claimantAddress', label: 'Claimant Address', type: 'textarea', required: true, rows: 3 },
+    {
+      id: 'transferStatement',
+      label: 'Transfer Statement',
+      type: 'textarea',
+      rows: 2,
+      helpText: 'How the claimant obtained ownership, if the claimant is not an author',
+    },
+  ],
+};
+
+const copyrightCorrespondence: TemplateSection = {
+  id: 'correspondence',
+  title: 'Correspondence Information',
+  fields: [
+    { id: 'contactName', label: 'Contact Name', type: 'text', required: true },
+    { id: 'contactEmail', label: 'Email Address', type: 'email', required: true },
+    { id: 'contactPhone', label: 'Phone Number', type: 'tel' },
+    { id: 'contactAddress', label: 'Mailing Address', type: 'textarea', rows: 3 },
+  ],
+};
+
+const copyrightWorkTypes = [
+  'Literary Work',
+  'Visual Arts',
+  'Performing Arts',
+  'Sound Recording',
+  'Motion Picture/AV',
+  'Single Serial Issue',
+  'Computer Software',
+];
+
+// Office action types and grounds of rejection, shared with office action intake
+export const OFFICE_ACTION_TYPES = [
+  'Non-Final Rejection',
+  'Final Rejection',
+  'Restriction Requirement',
+  'Ex Parte Quayle',
+  'Advisory Action',
+  'Other',
+] as const;
+
+export const REJECTION_TYPES = [
+  '§ 101',
+  '§ 102',
+  '§ 103',
+  '§ 112(a)',
+  '§ 112(b)',
+  '§ 112(d)',
+  'Double Patenting',
+  'Objection',
+  'Other',
+] as const;
+
+// Parts of an SB/08 reference list, shared with the prior-art library
+export const IDS_REFERENCE_CATEGORIES = [
+  'U.S. Patent',
+  'U.S. Patent Application Publication',
+  'Foreign Patent Document',
+  'Non-Patent Literature',
+] as const;
+
+const parties = (first: string, second: string): TemplateSection => ({
+  id: 'parties',
+  title: 'Parties',
+  fields: [
+    { id: `${first}Name`, label: `${capitalize(first)} Name`, type: 'text', required: true, aliases: [first] },
+    { id: `${first}Address`, label: `${capitalize(first)} Address`, type: 'textarea', required: true, rows: 2 },
+    { id: `${second}Name`, label: `${capitalize(second)} Name`, type: 'text', required: true, aliases: [second] },
+    { id: `${second}Address`, label: `${capitalize(second)} Address`, type: 'textarea', required: true, rows: 2 },
+  ],
+});
+
+const agreementTerms: TemplateField[] = [
+  { id: 'effectiveDate', label: 'Effective Date', type: 'date', required: true },
+  { id: 'governingLaw', label: 'Governing Law', type: 'text', placeholder: 'e.g. State of Delaware' },
+];
+
+// Templates for each form type, oldest version first. Add a new version rather
+// than editing a released one; existing forms stay pinned to the version they
+// were created with.
+const FORM_TEMPLATES: Record<FormType, FormTemplate[]> = {
+  PATENT_PROVISIONAL: [
+    {
+      type: 'PATENT_PROVISIONAL',
+      version: 1,
+      name: 'Provisional Patent Application',
+      description: 'USPTO Provisional Patent Application cover sheet and specification',
+      sections: [
+        patentApplicant,
+        patentInventors,
+        {
+          id: 'invention',
+          title: 'Invention Details',
+          fields: [
+            { id: 'inventionTitle', label: 'Title of Invention', type: 'text', required: true, validation: { maxLength: 500 }, aliases: ['title', 'name'] },
+            { id: 'technicalField', label: 'Technical Field', type: 'text', required: true, aliases: ['field', 'technologyArea'] },
+            {
+              id: 'description',
+              label: 'Detailed Description',
+              type: 'textarea',
+              required: true,
+              rows: 10,
+              helpText: 'Enough detail for someone skilled in the field to make and use the invention',
+              aliases: ['inventionDescription', 'summary', 'abstract'],
+            },
+            { id: 'claims', label: 'Claims', type: 'textarea', rows: 8, helpText: 'Optional for a provisional application', aliases: ['keyFeatures', 'features'] },
+            { id: 'drawings', label: 'Description of Drawings/Figures', type: 'textarea', rows: 4, aliases: ['figures', 'diagrams'] },
+          ],
+        },
+        patentPriorArt,
+        {
+          id: 'filing',
+          title: 'Filing Information',
+          fields: [
+            { id: 'filingDate', label: 'Target Filing Date', type: 'date', aliases: ['deadline', 'targetDate'] },
+            {
+              id: 'entityStatus',
+              label: 'Entity Status',
+              type: 'select',
+              options: ['Large', 'Small', 'Micro'],
+              helpText: 'Determines the USPTO fee schedule',
+            },
+          ],
+        },
+      ],
+    },
+  ],
+
+  PATENT_NONPROVISIONAL: [
+    {
+      type: 'PATENT_NONPROVISIONAL',
+      version: 1,
+      name: 'Nonprovisional Utility Patent Application',
+      description: 'USPTO utility application with Application Data Sheet',
+      sections: [
+        patentApplicant,
+        patentInventors,
+        {
+          id: 'specification',
+          title: 'Specification',
+          fields: [
+            { id: 'inventionTitle', label: 'Title of Invention', type: 'text', required: true, validation: { maxLength: 500 }, aliases: ['title', 'name'] },
+            { id: 'technicalField', label: 'Technical Field', type: 'text', required: true, aliases: ['field', 'technologyArea'] },
+            { id: 'background', label: 'Background', type: 'textarea', required: true, rows: 6, aliases: ['backgroundArt'] },
+            { id: 'summary', label: 'Summary of the Invention', type: 'textarea', required: true, rows: 6 },
+            { id: 'description', label: 'Detailed Description', type: 'textarea', required: true, rows: 12, aliases: ['inventionDescription'] },
+            { id: 'drawings', label: 'Brief Description of the Drawings', type: 'textarea', rows: 4, aliases: ['figures', 'diagrams'] },
+            {
+              id: 'abstract',
+              label: 'Abstract',
+              type: 'textarea',
+              required: true,
+              rows: 4,
+              helpText: 'At most 150 words',
+            },
+          ],
+        },
+        {
+          id: 'claims',
+          title: 'Claims',
+          repeatable: true,
+          entryLabel: 'Claim',
+          minEntries: 1,
+          fields: [
+            { id: 'claimText', label: 'Claim', type: 'textarea', required: true, rows: 4, aliases: ['text'] },
+          ],
+        },
+        {
+          id: 'priority',
+          title: 'Domestic Benefit / Foreign Priority',
+          fields: [
+            {
+              id: 'priorityApplicationNumber',
+              label: 'Prior Application Number',
+              type: 'text',
+              validation: US_APPLICATION_NUMBER,
+              helpText: 'Provisional or parent application this one claims benefit of',
+            },
+            { id: 'priorityDate', label: 'Prior Application Filing Date', type: 'date' },
+          ],
+        },
+        patentPriorArt,
+        {
+          id: 'filing',
+          title: 'Filing Information',
+          fields: [
+            { id: 'filingDate', label: 'Target Filing Date', type: 'date', aliases: ['deadline', 'targetDate'] },
+            { id: 'entityStatus', label: 'Entity Status', type: 'select', options: ['Large', 'Small', 'Micro'] },
+            { id: 'attorneyDocketNumber', label: 'Attorney Docket Number', type: 'text' },
+          ],
+        },
+      ],
+    },
+  ],
+
+  PATENT_CLAIMS: [
+    {
+      type: 'PATENT_CLAIMS',
+      version: 1,
+      name: 'Patent Claim Set',
+      description: 'Standalone claim set for drafting or amendment',
+      sections: [
+        {
+          id: 'application',
+          title: 'Application',
+          fields: [
+            { id: 'inventionTitle', label: 'Title of Invention', type: 'text', required: true, aliases: ['title'] },
+            { id: 'applicationNumber', label: 'Application Number', type: 'text', validation: US_APPLICATION_NUMBER },
+          ],
+        },
+        {
+          id: 'claims',
+          title: 'Claims',
+          repeatable: true,
+          entryLabel: 'Claim',
+          minEntries: 1,
+          fields: [
+            { id: 'claimNumber', label: 'Claim Number', type: 'number', required: true, validation: { min: 1 } },
+            { id: 'claimType', label: 'Claim Type', type: 'select', required: true, options: ['Independent', 'Dependent'] },
+            { id: 'dependsOn', label: 'Depends On', type: 'number', helpText: 'Number of the claim a dependent claim refers to', validation: { min: 1 } },
+            { id: 'claimText', label: 'Claim Text', type: 'textarea', required: true, rows: 4, aliases: ['text'] },
+          ],
+        },
+      ],
+    },
+  ],
+
+  OFFICE_ACTION_RESPONSE: [
+    {
+      type: 'OFFICE_ACTION_RESPONSE',
+      version: 1,
+      name: 'Office Action Response',
+      description: 'Reply to a USPTO office action, rejection by rejection',
+      sections: [
+        {
+          id: 'officeAction',
+          title: 'Office Action',
+          fields: [
+            { id: 'applicationNumber', label: 'Application Number', type: 'text', required: true, validation: US_APPLICATION_NUMBER },
+            { id: 'attorneyDocketNumber', label: 'Attorney Docket Number', type: 'text' },
+            { id: 'examiner', label: 'Examiner', type: 'text' },
+            { id: 'artUnit', label: 'Art Unit', type: 'text', validation: { pattern: '^\\d{4}$', message: 'Art units are four digits' } },
+            { id: 'actionType', label: 'Action Type', type: 'select', required: true, options: [...OFFICE_ACTION_TYPES] },
+            { id: 'mailingDate', label: 'Mailing Date', type: 'date', required: true, aliases: ['notification date'] },
+            { id: 'responseDueDate', label: 'Response Due', type: 'date', helpText: 'End of the shortened statutory period, before extensions' },
+            { id: 'claimsPending', label: 'Pending Claims', type: 'text', placeholder: 'e.g. 1-20' },
+            { id: 'claimsRejected', label: 'Rejected Claims', type: 'text', placeholder: 'e.g. 1-8, 11-20' },
+          ],
+        },
+        {
+          id: 'rejections',
+          title: 'Rejections and Objections',
+          repeatable: true,
+          entryLabel: 'Rejection',
+          fields: [
+            { id: 'rejectionType', label: 'Ground', type: 'select', required: true, options: [...REJECTION_TYPES] },
+            { id: 'rejectedClaims', label: 'Claims', type: 'text', required: true, placeholder: 'e.g. 1-5, 9' },
+            { id: 'references', label: 'Cited References', type: 'textarea', rows: 2, helpText: 'One reference per line' },
+            { id: 'examinerReasoning', label: 'Examiner\'s Reasoning', type: 'textarea', rows: 4 },
+          ],
+        },
+        {
+          id: 'arguments',
+          title: 'Arguments',
+          repeatable: true,
+          entryLabel: 'Argument',
+          fields: [
+            { id: 'addresses', label: 'Responds To', type: 'text', required: true, placeholder: 'e.g. § 103 rejection of claims 1-5' },
+            { id: 'argument', label: 'Argument', type: 'textarea', required: true, rows: 6 },
+          ],
+        },
+        {
+          id: 'amendments',
+          title: 'Claim Amendments',
+          repeatable: true,
+          entryLabel: 'Amendment',
+          fields: [
+            { id: 'claimNumber', label: 'Claim Number', type: 'number', required: true, validation: { min: 1 } },
+            { id: 'amendmentStatus', label: 'Status', type: 'select', required: true, options: ['Currently Amended', 'New', 'Cancelled', 'Withdrawn'] },
+            { id: 'claimText', label: 'Claim Text', type: 'textarea', rows: 4, helpText: 'Full text of the claim as amended; leave blank for cancelled claims' },
+            { id: 'support', label: 'Support', type: 'text', helpText: 'Where the application as filed supports the amendment, e.g. paragraph [0042]' },
+          ],
+        },
+        {
+          id: 'remarks',
+          title: 'Remarks',
+          fields: [
+            { id: 'interviewSummary', label: 'Interview Summary', type: 'textarea', rows: 3 },
+            { id: 'conclusion', label: 'Conclusion', type: 'textarea', rows: 3 },
+          ],
+        },
+      ],
+    },
+  ],
+
+  INFORMATION_DISCLOSURE_STATEMENT: [
+    {
+      type: 'INFORMATION_DISCLOSURE_STATEMENT',
+      version: 1,
+      name: 'Information Disclosure Statement',
+      description: 'References cited to the USPTO under 37 CFR 1.97 and 1.98, listed as on form SB/08',
+      sections: [
+        {
+          id: 'application',
+          title: 'Application',
+          fields: [
+            { id: 'applicationNumber', label: 'Application Number', type: 'text', required: true, validation: US_APPLICATION_NUMBER },
+            { id: 'filingDate', label: 'Filing Date', type: 'date', required: true },
+            { id: 'firstNamedInventor', label: 'First Named Inventor', type: 'text', required: true },
+            { id: 'artUnit', label: 'Art Unit', type: 'text', validation: { pattern: '^\\d{4}$', message: 'Art units are four digits' } },
+            { id: 'examiner', label: 'Examiner', type: 'text' },
+            { id: 'attorneyDocketNumber', label: 'Attorney Docket Number', type: 'text' },
+          ],
+        },
+        {
+          id: 'references',
+          title: 'References Cited',
+          repeatable: true,
+          entryLabel: 'Reference',
+          minEntries: 1,
+          fields: [
+            { id: 'category', label: 'Category', type: 'select', required: true, options: [...IDS_REFERENCE_CATEGORIES] },
+            { id: 'documentNumber', label: 'Document Number', type: 'text', helpText: 'Number and kind code, e.g. 9,123,456-B2 or EP 1234567 A1; blank for literature' },
+            { id: 'date', label: 'Issue or Publication Date', type: 'date' },
+            { id: 'name', label: 'Patentee, Applicant or Author', type: 'text' },
+            { id: 'citation', label: 'Citation', type: 'textarea', rows: 2, helpText: 'For literature: author, title, publication, date and pages' },
+            { id: 'translation', label: 'English Translation Attached', type: 'checkbox' },
+          ],
+        },
+        {
+          id: 'statement',
+          title: 'Timing',
+          fields: [
+            {
+              id: 'timing',
+              label: 'Filed',
+              type: 'select',
+              options: [
+                'Before the first office action (37 CFR 1.97(b))',
+                'After the first office action, before a final action or allowance (37 CFR 1.97(c))',
+                'After a final action or allowance (37 CFR 1.97(d))',
+              ],
+            },
+            { id: 'statement97e', label: 'Statement under 37 CFR 1.97(e) included', type: 'checkbox' },
+          ],
+        },
+      ],
+    },
+  ],
+
+  TRADEMARK_TEAS_PLUS: [
+    {
+      type: 'TRADEMARK_TEAS_PLUS',
+      version: 1,
+      name: 'Trademark Application (TEAS Plus)',
+      description: 'USPTO TEAS Plus application, lower fee with ID Manual goods and services',
+      sections: [trademarkOwner, trademarkMark, trademarkGoodsServices(true), trademarkUseBasis, trademarkAdditional],
+    },
+  ],
+
+  TRADEMARK_TEAS_STANDARD: [
+    {
+      type: 'TRADEMARK_TEAS_STANDARD',
+      version: 1,
+      name: 'Trademark Application (TEAS Standard)',
+      description: 'USPTO TEAS Standard application with free-form goods and services',
+      sections: [trademarkOwner, trademarkMark, trademarkGoodsServices(false), trademarkUseBasis, trademarkAdditional],
+    },
+  ],
+
+  TRADEMARK_INTENT_TO_USE: [
+    {
+      type: 'TRADEMARK_INTENT_TO_USE',
+      version: 1,
+      name: 'Trademark Application (Intent to Use)',
+      description: 'USPTO application under Section 1(b) for a mark not yet in use',
+      sections: [
+        trademarkOwner,
+        trademarkMark,
+        trademarkGoodsServices(false),
+        {
+          id: 'basis',
+          title: 'Intent to Use',
+          fields: [
+            {
+              id: 'bonaFideIntent',
+              label: 'Bona fide intent to use the mark in commerce',
+              type: 'checkbox',
+              required: true,
+              helpText: 'The applicant must have a real, documented intent to use the mark',
+            },
+            { id: 'plannedUseDate', label: 'Planned Date of First Use', type: 'date' },
+            { id: 'useEvidence', label: 'Evidence of Intent', type: 'textarea', rows: 3, helpText: 'Business plans, product development, marketing preparations' },
+          ],
+        },
+        trademarkAdditional,
+      ],
+    },
+  ],
+
+  COPYRIGHT_STANDARD: [
+    {
+      type: 'COPYRIGHT_STANDARD',
+      version: 1,
+      name: 'Copyright Registration',
+      description: 'U.S. Copyright Office Standard Application',
+      sections: [
+        {
+          id: 'work',
+          title: 'Work Information',
+          fields: [
+            { id: 'workTitle', label: 'Title of Work', type: 'text', required: true, aliases: ['title', 'name'] },
+            { id: 'workType', label: 'Type of Work', type: 'select', required: true, options: copyrightWorkTypes, aliases: ['typeOfWork', 'category'] },
+            { id: 'yearCreated', label: 'Year of Creation', type: 'text', required: true, validation: YEAR, aliases: ['creationYear'] },
+            { id: 'yearPublished', label: 'Year of Publication', type: 'text', validation: YEAR, helpText: 'Leave blank if unpublished', aliases: ['publicationYear'] },
+            { id: 'publicationDate', label: 'Exact Publication Date', type: 'date' },
+            { id: 'nation', label: 'Nation of First Publication', type: 'text' },
+          ],
+        },
+        {
+          id: 'authors',
+          title: 'Author Information',
+          repeatable: true,
+          entryLabel: 'Author',
+          minEntries: 1,
+          fields: [
+            { id: 'authorName', label: 'Author Name', type: 'text', required: true, aliases: ['author', 'name'] },
+            { id: 'authorCitizenship', label: 'Citizenship/Domicile', type: 'text', required: true, aliases: ['citizenship', 'nationality'] },
+            { id: 'workForHire', label: 'Work Made for Hire?', type: 'select', required: true, options: ['Yes', 'No'], aliases: ['madeForHire'] },
+            { id: 'authorBirthYear', label: 'Year of Birth', type: 'text', validation: YEAR },
+            { id: 'authorDeathYear', label: 'Year of Death', type: 'text', validation: YEAR },
+            { id: 'natureOfAuthorship', label: 'Nature of Authorship', type: 'textarea', required: true, rows: 3, aliases: ['authorship'] },
+          ],
+        },
+        copyrightClaimant,
+        {
+          id: 'limitation',
+          title: 'Limitation of Claim',
+          fields: [
+            {
+              id: 'preexistingMaterial',
+              label: 'Preexisting Material',
+              type: 'textarea',
+              rows: 3,
+              placeholder: 'Material that this work is based on or incorporates...',
+              aliases: ['previousWork'],
+            },
+            {
+              id: 'newMaterial',
+              label: 'New Material Added',
+              type: 'textarea',
+              rows: 3,
+              placeholder: 'New material added in this version...',
+              aliases: ['addedMaterial'],
+            },
+          ],
+        },
+        copyrightCorrespondence,
+      ],
+    },
+  ],
+
+  COPYRIGHT_GROUP: [
+    {
+      type: 'COPYRIGHT_GROUP',
+      version: 1,
+      name: 'Copyright Group Registration',
+      description: 'U.S. Copyright Office group registration for related works by the same author',
+      sections: [
+        {
+          id: 'group',
+          title: 'Group Information',
+          fields: [
+            {
+              id: 'groupOption',
+              label: 'Group Option',
+              type: 'select',
+              required: true,
+              options: ['Unpublished Works (GRUW)', 'Short Online Literary Works (GRTX)', 'Published Photographs (GRPPH)', 'Unpublished Photographs (GRUPH)', 'Serials (GRSE)'],
+            },
+            { id: 'groupTitle', label: 'Title of Group', type: 'text', required: true, aliases: ['title'] },
+            { id: 'authorName', label: 'Author Name', type: 'text', required: true, helpText: 'All works in a group must share the same author', aliases: ['author'] },
+            { id: 'authorCitizenship', label: 'Citizenship/Domicile', type: 'text', required: true, aliases: ['citizenship'] },
+          ],
+        },
+        {
+          id: 'works',
+          title: 'Works',
+          repeatable: true,
+          entryLabel: 'Work',
+          minEntries: 2,
+          fields: [
+            { id: 'workTitle', label: 'Title of Work', type: 'text', required: true, aliases: ['title'] },
+            { id: 'yearCreated', label: 'Year of Creation', type: 'text', required: true, validation: YEAR },
+            { id: 'publicationDate', label: 'Publication Date', type: 'date' },
+          ],
+        },
+        copyrightClaimant,
+        copyrightCorrespondence,
+      ],
+    },
+  ],
+
+  NDA: [
+    {
+      type: 'NDA',
+      version: 1,
+      name: 'Non-Disclosure Agreement',
+      description: 'Confidentiality agreement covering disclosed technical or business information',
+      sections: [
+        {
+          id: 'agreement',
+          title: 'Agreement',
+          fields: [
+            { id: 'ndaType', label: 'Agreement Type', type: 'select', required: true, options: ['Mutual', 'One-way'] },
+            ...agreementTerms,
+            { id: 'termYears', label: 'Confidentiality Term (years)', type: 'number', required: true, validation: { min: 1, max: 99 } },
+          ],
+        },
+        parties('disclosing', 'receiving'),
+        {
+          id: 'confidentiality',
+          title: 'Confidential Information',
+          fields: [
+            { id: 'purpose', label: 'Purpose of Disclosure', type: 'textarea', required: true, rows: 3 },
+            { id: 'confidentialInformation', label: 'Description of Confidential Information', type: 'textarea', required: true, rows: 4 },
+            { id: 'exclusions', label: 'Exclusions', type: 'textarea', rows: 3, helpText: 'Information that is not treated as confidential' },
+          ],
+        },
+      ],
+    },
+  ],
+
+  ASSIGNMENT: [
+    {
+      type: 'ASSIGNMENT',
+      version: 1,
+      name: 'IP Assignment',
+      description: 'Transfer of ownership of patents, trademarks or copyrights',
+      sections: [
+        parties('assignor', 'assignee'),
+        {
+          id: 'rights',
+          title: 'Assigned Rights',
+          repeatable: true,
+          entryLabel: 'Right',
+          minEntries: 1,
+          fields: [
+            { id: 'rightType', label: 'Type', type: 'select', required: true, options: ['Patent', 'Patent Application', 'Trademark', 'Copyright', 'Other'] },
+            { id: 'rightIdentifier', label: 'Number or Title', type: 'text', required: true, helpText: 'Application/registration number, or title of an unregistered work' },
+            { id: 'rightDescription', label: 'Description', type: 'textarea', rows: 2 },
+          ],
+        },
+        {
+          id: 'terms',
+          title: 'Terms',
+          fields: [
+            ...agreementTerms,
+            { id: 'consideration', label: 'Consideration', type: 'text', required: true, placeholder: 'e.g. $10 and other good and valuable consideration' },
+            { id: 'recordWithUspto', label: 'Record the assignment with the USPTO', type: 'checkbox' },
+          ],
+        },
+      ],
+    },
+  ],
+
+  LICENSE: [
+    {
+      type: 'LICENSE',
+      version: 1,
+      name: 'IP License Agreement',
+      description: 'Grant of rights to use patents, trademarks or copyrights',
+      sections: [
+        parties('licensor', 'licensee'),
+        {
+          id: 'grant',
+          title: 'License Grant',
+          fields: [
+            { id: 'licensedIp', label: 'Licensed IP', type: 'textarea', required: true, rows: 3 },
+            { id: 'exclusivity', label: 'Exclusivity', type: 'select', required: true, options: ['Exclusive', 'Non-exclusive', 'Sole'] },
+            { id: 'fieldOfUse', label: 'Field of Use', type: 'text' },
+            { id: 'territory', label: 'Territory', type: 'text', required: true, placeholder: 'e.g. Worldwide' },
+            { id: 'sublicensable', label: 'Licensee may grant sublicenses', type: 'checkbox' },
+          ],
+        },
+        {
+          id: 'terms',
+          title: 'Terms',
+          fields: [
+            ...agreementTerms,
+            { id: 'termYears', label: 'Term (years)', type: 'number', validation: { min: 1, max: 99 }, helpText: 'Leave blank for the life of the licensed IP' },
+            { id: 'royaltyRate', label: 'Royalty Rate (%)', type: 'number', validation: { min: 0, max: 100 } },
+            { id: 'upfrontFee', label: 'Upfront Fee', type: 'text' },
+          ],
+        },
+      ],
+    },
+  ],
+
+  CUSTOM: [
+    {
+      type: 'CUSTOM',
+      version: 1,
+      name: 'Custom Form',
+      description: 'Free-form document for anything the other templates do not cover',
+      sections: [
+        {
+          id: 'content',
+          title: 'Content',
+          fields: [
+            { id: 'subject', label: 'Subject', type: 'text', required: true, aliases: ['title'] },
+            { id: 'body', label: 'Body', type: 'textarea', rows: 12, aliases: ['summary', 'description'] },
+            { id: 'notes', label: 'Notes', type: 'textarea', rows: 3 },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+/**
+ * Template for a form type. Without a version, the latest one; a version that
+ * no longer exists resolves to the latest as well.
+ */
+export function getFormTemplate(type: FormType, version?: number | null): FormTemplate {
+  const versions = FORM_TEMPLATES[type];
+  const latest = versions[versions.length - 1];
+  return (version && versions.find((template) => template.version === version)) || latest;
+}
+
+/**
+ * The latest template of every form type
+ */
+export function listFormTemplates(): FormTemplate[] {
+  return (Object.keys(FORM_TEMPLATES) as FormType[]).map((type) => getFormTemplate(type));
+}
+
+/**
+ * Empty Form.data for a new form of this template
+ */
+export function buildFormData(template: FormTemplate): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+
+  for (const section of template.sections) {
+    if (section.repeatable) {
+      data[section.id] = [];
+      continue;
+    }
+    for (const field of section.fields) {
+      data[field.id] = field.type === 'checkbox' ? false : '';
+    }
+  }
+
+  return data;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { FormType } from '@prisma/client';
+import { validateForm } from './form-validation';
+
+function validate(type: FormType, data: unknown) {
+  return validateForm({ type, templateVersion: 1, data });
+}
+
+function rules(result: ReturnType<typeof validateForm>, severity: 'errors' | 'warnings') {
+  return result[severity].map((issue) => `${issue.path}: ${issue.rule}`);
+}
+
+const claimSet = {
+  inventionTitle: 'Folding widget',
+  applicationNumber: '63/123,456',
+  claims: [
+    { claimNumber: 1, claimType: 'Independent', dependsOn: '', claimText: 'A widget comprising a hinge.' },
+    { claimNumber: 2, claimType: 'Dependent', dependsOn: 1, claimText: 'The widget of claim 1, wherein the hinge is steel.' },
+  ],
+};
+
+describe('validateForm', () => {
+  it('passes a complete claim set', () => {
+    expect(validate('PATENT_CLAIMS', claimSet)).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('checks required fields, formats and minimum entries from the template', () => {
+    const result = validate('PATENT_CLAIMS', { inventionTitle: '  ', applicationNumber: '123', claims: [] });
+
+    expect(result.valid).toBe(false);
+    expect(rules(result, 'errors')).toEqual(['inventionTitle: required', 'applicationNumber: pattern', 'claims: min_entries']);
+    expect(result.errors[1].message).toBe('Use the USPTO format, e.g. 63/123,456');
+  });
+
+  it('reports fields of repeatable entries by their path', () => {
+    const result = validate('PATENT_CLAIMS', {
+      ...claimSet,
+      claims: [{ claimNumber: 0, claimType: 'Other', dependsOn: '', claimText: 'A widget.' }],
+    });
+
+    expect(rules(result, 'errors')).toEqual([
+      'claims.0.claimNumber: min',
+      'claims.0.claimType: options',
+      'claims.0.claimNumber: claim_numbering',
+      'claims.0.claimType: first_claim',
+    ]);
+  });
+
+  it('treats data that is not an object as empty', () => {
+    expect(rules(validate('PATENT_CLAIMS', ['not', 'an', 'object']), 'errors')).toEqual([
+      'inventionTitle: required',
+      'claims: min_entries',
+    ]);
+  });
+
+  it('requires dependent claims to depend on an earlier claim', () => {
+    const result = validate('PATENT_CLAIMS', {
+      ...claimSet,
+      claims: [
+        claimSet.claims[0],
+        { claimNumber: 2, claimType: 'Dependent', dependsOn: 3, claimText: 'The widget of claim 3.' },
+        { claimNumber: 3, claimType: 'Dependent', dependsOn: '', claimText: 'The widget of claim 1.' },
+      ],
+    });
+
+    expect(rules(result, 'errors')).toEqual(['claims.1.dependsOn: claim_dependency', 'claims.2.dependsOn: claim_dependency']);
+  });
+
+  it('warns about claim terms without antecedent basis without blocking', () => {
+    const result = validate('PATENT_CLAIMS', {
+      ...claimSet,
+      claims: [{ claimNumber: 1, claimType: 'Independent', dependsOn: '', claimText: 'A widget wherein the spring is steel.' }],
+    });
+
+    expect(result.valid).toBe(true);
+    expect(rules(result, 'warnings')).toEqual(['claims.0.claimText: antecedent_basis']);
+  });
+
+  it('checks IDS references against 37 CFR 1.98(b)', () => {
+    const result = validate('INFORMATION_DISCLOSURE_STATEMENT', {
+      applicationNumber: '17/123,456',
+      filingDate: '2023-01-10',
+      firstNamedInventor: 'Jane Doe',
+      timing: 'Before the first office action (37 CFR 1.97(b))',
+      references: [
+        { category: 'U.S. Patent', documentNumber: '9,123,456-B2', date: '2016-09-13', name: 'Smith' },
+        { category: 'U.S. Patent', documentNumber: '9123456 B2', date: '', name: '' },
+        { category: 'Non-Patent Literature', citation: '' },
+      ],
+    });
+
+    expect(rules(result, 'errors')).toEqual([
+      'references.1.documentNumber: ids_duplicate',
+      'references.1.date: ids_date',
+      'references.2.citation: ids_citation',
+    ]);
+    expect(rules(result, 'warnings')).toEqual(['references.1.name: ids_name']);
+  });
+
+  it('checks copyright years against each other', () => {
+    const result = validate('COPYRIGHT_STANDARD', {
+      workTitle: 'Night Songs',
+      workType: 'Literary Work',
+      claimantName: 'Acme Corp',
+      claimantAddress: '1 Main St, Springfield',
+      contactName: 'Jane Doe',
+      contactEmail: 'jane@example.com',
+      yearCreated: '2020',
+      yearPublished: '2019',
+      publicationDate: '2021-05-01',
+      authors: [
+        {
+          authorName: 'Acme Corp',
+          authorCitizenship: 'United States',
+          workForHire: 'Yes',
+          authorBirthYear: '1980',
+          authorDeathYear: '1970',
+          natureOfAuthorship: 'Text',
+        },
+      ],
+    });
+
+    expect(rules(result, 'errors')).toEqual([
+      'yearPublished: publication_order',
+      'publicationDate: publication_date',
+      'authors.0.authorDeathYear: author_lifespan',
+    ]);
+    expect(rules(result, 'warnings')).toEqual(['nation: publication_nation', 'authors.0.authorBirthYear: work_for_hire']);
+  });
+});
@@ -0,0 +1,376 @@
+import { FormType } from '@prisma/client';
+import { FormTemplate, TemplateField, getFormTemplate } from './form-templates';
+import { findAntecedentIssues, getClaims } from './claims';
+import { findIndefiniteWording, findMisclassifiedItems } from './goods-services';
+
+export interface ValidationIssue {
+  path: string;               // Dot path into Form.data, or the section id for section-level issues
+  rule: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface ValidationResult {
+  valid: boolean;             // No blocking errors; warnings don't count
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+type FormData = Record<string, any>;
+type FormRule = (data: FormData) => ValidationIssue[];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check form data against its template's field definitions and the filing rules
+ * for its type. Errors block submission; warnings are for a person to judge.
+ */
+export function validateForm(form: { type: FormType; templateVersion: number; data: unknown }): ValidationResult {
+  const template = getFormTemplate(form.type, form.templateVersion);
+  const data: FormData = form.data && typeof form.data === 'object' && !Array.isArray(form.data) ? (form.data as FormData) : {};
+
+  const issues = [
+    ...checkTemplateFields(template, data),
+    ...(FORM_RULES[form.type] || []).flatMap((rule) => rule(data)),
+  ];
+
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter((issue) => issue.severity === 'warning'),
+  };
+}
+
+// Field-level checks from the template: required, options, formats and bounds
+
+function checkTemplateFields(template: FormTemplate, data: FormData): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const section of template.sections) {
+    if (!section.repeatable) {
+      section.fields.forEach((field) => issues.push(...checkField(field, data[field.id], field.id)));
+      continue;
+    }
+
+    const entries: FormData[] = Array.isArray(data[section.id]) ? data[section.id] : [];
+    if (section.minEntries && entries.length < section.minEntries) {
+      issues.push(error(section.id, 'min_entries', `${section.title} needs at least ${section.minEntries} ${section.minEntries === 1 ? 'entry' : 'entries'}`));
+    }
+
+    entries.forEach((entry, index) =>
+      section.fields.forEach((field) =>
+        issues.push(...checkField(field, entry?.[field.id], `${section.id}.${index}.${field.id}`))
+      )
+    );
+  }
+
+  return issues;
+}
+
+function checkField(field: TemplateField, value: unknown, path: string): ValidationIssue[] {
+  if (isBlank(value)) {
+    return field.required ? [error(path, 'required', `${field.label} is required`)] : [];
+  }
+
+  const rules = field.validation || {};
+  const text = String(value);
+  const invalid = (rule: string, fallback: string) => [error(path, rule, rules.message || fallback)];
+
+  switch (field.type) {
+    case 'email':
+      if (!EMAIL_PATTERN.test(text)) return [error(path, 'email', `${field.label} must be a valid email address`)];
+      break;
+    case 'date':
+      if (!parseDate(text)) return [error(path, 'date', `${field.label} must be a date (YYYY-MM-DD)`)];
+      break;
+    case 'number': {
+      const number = Number(value);
+      if (!Number.isFinite(number)) return [error(path, 'number', `${field.label} must be a number`)];
+      if (rules.min !== undefined && number < rules.min) return invalid('min', `${field.label} must be at least ${rules.min}`);
+      if (rules.max !== undefined && number > rules.max) return invalid('max', `${field.label} must be at most ${rules.max}`);
+      break;
+    }
+    case 'select':
+      if (field.options && !field.options.includes(text)) {
+        return [error(path, 'options', `${field.label} must be one of: ${field.options.join(', ')}`)];
+      }
+      break;
+  }
+
+  if (rules.minLength !== undefined && text.length < rules.minLength) {
+    return invalid('min_length', `${field.label} must be at least ${rules.minLength} characters`);
+  }
+  if (rules.maxLength !== undefined && text.length > rules.maxLength) {
+    return invalid('max_length', `${field.label} must be at most ${rules.maxLength} characters`);
+  }
+  if (rules.pattern && !new RegExp(rules.pattern).test(text)) {
+    return invalid('pattern', `${field.label} is not in the expected format`);
+  }
+
+  return [];
+}
+
+// Filing rules that span fields
+
+const inventorCitizenship: FormRule = (data) => {
+  const inventors = entries(data, 'inventors');
+  return inventors.some((inventor) => !isBlank(inventor.inventorName) && !isBlank(inventor.inventorCitizenship))
+    ? []
+    : [error('inventors', 'inventor_citizenship', 'At least one inventor with a name and citizenship is required')];
+};
+
+const abstractLength: FormRule = (data) =>
+  wordCount(data.abstract) > 150
+    ? [error('abstract', 'abstract_length', `The abstract is ${wordCount(data.abstract)} words; the USPTO limit is 150`)]
+    : [];
+
+// A nonprovisional must be filed within 12 months of the provisional it claims benefit of
+const priorityWindow: FormRule = (data) => {
+  const priorityDate = parseDate(data.priorityDate);
+  const filingDate = parseDate(data.filingDate);
+  if (!priorityDate || !filingDate) return [];
+
+  if (filingDate < priorityDate) {
+    return [error('priorityDate', 'priority_order', 'The prior application must be filed before this one')];
+  }
+
+  const deadline = new Date(priorityDate);
+  deadline.setUTCFullYear(deadline.getUTCFullYear() + 1);
+  return filingDate > deadline
+    ? [warning('filingDate', 'priority_window', 'Filing date is more than 12 months after the prior application; benefit of a provisional will be lost')]
+    : [];
+};
+
+const claimDependencies: FormRule = (data) => {
+  const issues: ValidationIssue[] = [];
+  const claims = entries(data, 'claims');
+  const numbers = claims.map((claim) => Number(claim.claimNumber));
+
+  claims.forEach((claim, index) => {
+    const path = `claims.${index}`;
+
+    if (numbers[index] !== index + 1) {
+      issues.push(error(`${path}.claimNumber`, 'claim_numbering', `Claims must be numbered consecutively from 1; expected ${index + 1}`));
+    }
+
+    if (claim.claimType === 'Dependent') {
+      const parent = Number(claim.dependsOn);
+      if (!parent) {
+        issues.push(error(`${path}.dependsOn`, 'claim_dependency', `Dependent claim ${index + 1} must name the claim it depends on`));
+      } else if (parent >= numbers[index] || !numbers.includes(parent)) {
+        issues.push(error(`${path}.dependsOn`, 'claim_dependency', `Claim ${index + 1} must depend on an earlier claim`));
+      }
+    }
+  });
+
+  if (claims.length > 0 && claims[0].claimType !== 'Independent') {
+    issues.push(error('claims.0.claimType', 'first_claim', 'The first claim must be independent'));
+  }
+
+  return issues;
+};
+
+const antecedentBasis: FormRule = (data) =>
+  findAntecedentIssues(getClaims(data)).map((issue) =>
+    warning(`claims.${issue.index}.claimText`, 'antecedent_basis', `"${issue.term}" in claim ${issue.claimNumber} has no antecedent basis; introduce it with "a" or "an" first`)
+  );
+
+const officeActionReply: FormRule = (data) => {
+  const issues: ValidationIssue[] = [];
+  const mailingDate = parseDate(data.mailingDate);
+  const dueDate = parseDate(data.responseDueDate);
+
+  if (mailingDate && dueDate && dueDate <= mailingDate) {
+    issues.push(error('responseDueDate', 'response_due_order', 'The response cannot be due before the action was mailed'));
+  }
+
+  // A reply must address every ground of rejection and objection (37 CFR 1.111(b))
+  const rejections = entries(data, 'rejections').length;
+  const replies = entries(data, 'arguments').filter((argument) => !isBlank(argument.argument)).length;
+  if (rejections > 0 && replies < rejections && entries(data, 'amendments').length === 0) {
+    issues.push(warning('arguments', 'reply_complete', `${rejections - replies} of ${rejections} rejection(s) have no argument or amendment in reply`));
+  }
+
+  return issues;
+};
+
+// What 37 CFR 1.98(b) requires of each listed reference
+const idsReferences: FormRule = (data) => {
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+
+  entries(data, 'references').forEach((reference, index) => {
+    const path = `references.${index}`;
+
+    if (reference.category === 'Non-Patent Literature') {
+      if (isBlank(reference.citation)) {
+        issues.push(error(`${path}.citation`, 'ids_citation', 'Give the author, title, publication, date and pages of the document'));
+      }
+      return;
+    }
+
+    if (isBlank(reference.documentNumber)) {
+      issues.push(error(`${path}.documentNumber`, 'ids_document_number', 'A patent document needs its number'));
+    } else {
+      const number = String(reference.documentNumber).toUpperCase().replace(/[^A-Z0-9]/g, '');
+      if (seen.has(number)) {
+        issues.push(error(`${path}.documentNumber`, 'ids_duplicate', `${reference.documentNumber} is listed more than once`));
+      }
+      seen.add(number);
+    }
+    if (!parseDate(reference.date)) {
+      issues.push(error(`${path}.date`, 'ids_date', 'A patent document needs its issue or publication date'));
+    }
+    if (isBlank(reference.name)) {
+      issues.push(warning(`${path}.name`, 'ids_name', 'Give the patentee or applicant'));
+    }
+  });
+
+  return issues;
+};
+
+const firstUseDates: FormRule = (data) => {
+  const issues: ValidationIssue[] = [];
+  const anywhere = parseDate(data.firstUseDate);
+  const commerce = parseDate(data.firstUseInCommerce);
+  const today = new Date();
+
+  if (anywhere && commerce && commerce < anywhere) {
+    issues.push(error('firstUseInCommerce', 'first_use_order', 'First use in commerce cannot precede first use anywhere'));
+  }
+  if ((anywhere && anywhere > today) || (commerce && commerce > today)) {
+    issues.push(error(anywhere && anywhere > today ? 'firstUseDate' : 'firstUseInCommerce', 'first_use_future', 'First use dates cannot be in the future'));
+  }
+
+  if (data.filingBasis === 'Use in Commerce (1a)') {
+    if (!anywhere) issues.push(error('firstUseDate', 'use_basis', 'A use-in-commerce filing needs the date of first use anywhere'));
+    if (!commerce) issues.push(error('firstUseInCommerce', 'use_basis', 'A use-in-commerce filing needs the date of first use in commerce'));
+    if (isBlank(data.specimens)) issues.push(error('specimens', 'use_basis', 'A use-in-commerce filing needs a specimen showing the mark in use'));
+  } else if (data.filingBasis === 'Intent to Use (1b)' && (anywhere || commerce)) {
+    issues.push(warning('filingBasis', 'use_basis', 'First use dates are given; consider filing under use in commerce (1a) instead'));
+  }
+
+  return issues;
+};
+
+const uniqueClasses: FormRule = (data) => {
+  const seen = new Set<number>();
+  const issues: ValidationIssue[] = [];
+
+  entries(data, 'goodsServices').forEach((entry, index) => {
+    const niceClass = Number(entry.internationalClass);
+    if (!Number.isInteger(niceClass) || isBlank(entry.internationalClass)) return;
+    if (seen.has(niceClass)) {
+      issues.push(error(`goodsServices.${index}.internationalClass`, 'duplicate_class', `Class ${niceClass} is listed more than once; combine its goods and services`));
+    }
+    seen.add(niceClass);
+  });
+
+  return issues;
+};
+
+// Indefinite identifications draw an objection under TMEP 1402.03; unfilled placeholders can't be filed at all
+const goodsServicesWording: FormRule = (data) =>
+  entries(data, 'goodsServices').flatMap((entry, index) => {
+    const path = `goodsServices.${index}.goodsServicesDescription`;
+    const description = typeof entry.goodsServicesDescription === 'string' ? entry.goodsServicesDescription : '';
+    const niceClass = Number(entry.internationalClass);
+
+    return [
+      ...findIndefiniteWording(description).map((term) =>
+        term.rule === 'placeholder'
+          ? error(path, 'identification_placeholder', term.message)
+          : warning(path, 'indefinite_identification', term.message)
+      ),
+      ...(Number.isInteger(niceClass) && !isBlank(entry.internationalClass)
+        ? findMisclassifiedItems(niceClass, description).map((item) =>
+            warning(path, 'identification_class', `"${item.item}" belongs in class ${item.niceClass}, not class ${niceClass}`)
+          )
+        : []),
+    ];
+  });
+
+const publicationYear: FormRule = (data) => {
+  const issues: ValidationIssue[] = [];
+  const created = Number(data.yearCreated);
+  const published = Number(data.yearPublished);
+  const publicationDate = parseDate(data.publicationDate);
+
+  if (created > new Date().getUTCFullYear()) {
+    issues.push(error('yearCreated', 'year_created_future', 'Year of creation cannot be in the future'));
+  }
+  if (!isBlank(data.yearPublished) && !isBlank(data.yearCreated) && published < created) {
+    issues.push(error('yearPublished', 'publication_order', 'Year of publication cannot be before the year of creation'));
+  }
+  if (publicationDate && !isBlank(data.yearPublished) && publicationDate.getUTCFullYear() !== published) {
+    issues.push(error('publicationDate', 'publication_date', 'Publication date must fall in the year of publication'));
+  }
+  if (publicationDate && isBlank(data.nation)) {
+    issues.push(warning('nation', 'publication_nation', 'Give the nation of first publication for a published work'));
+  }
+
+  return issues;
+};
+
+const authorLifespans: FormRule = (data) =>
+  entries(data, 'authors').flatMap((author, index) => {
+    const path = `authors.${index}`;
+    const issues: ValidationIssue[] = [];
+
+    if (!isBlank(author.authorDeathYear) && Number(author.authorDeathYear) < Number(author.authorBirthYear)) {
+      issues.push(error(`${path}.authorDeathYear`, 'author_lifespan', 'Year of death cannot be before year of birth'));
+    }
+    if (author.workForHire === 'Yes' && !isBlank(author.authorBirthYear)) {
+      issues.push(warning(`${path}.authorBirthYear`, 'work_for_hire', 'The author of a work made for hire is the employer; leave the year of birth blank'));
+    }
+
+    return issues;
+  });
+
+const groupWorkYears: FormRule = (data) =>
+  entries(data, 'works').flatMap((work, index) =>
+    Number(work.yearCreated) > new Date().getUTCFullYear()
+      ? [error(`works.${index}.yearCreated`, 'year_created_future', 'Year of creation cannot be in the future')]
+      : []
+  );
+
+const FORM_RULES: Partial<Record<FormType, FormRule[]>> = {
+  PATENT_PROVISIONAL: [inventorCitizenship],
+  PATENT_NONPROVISIONAL: [inventorCitizenship, abstractLength, priorityWindow],
+  PATENT_CLAIMS: [claimDependencies, antecedentBasis],
+  OFFICE_ACTION_RESPONSE: [officeActionReply],
+  INFORMATION_DISCLOSURE_STATEMENT: [idsReferences],
+  TRADEMARK_TEAS_PLUS: [firstUseDates, uniqueClasses, goodsServicesWording],
+  TRADEMARK_TEAS_STANDARD: [firstUseDates, uniqueClasses, goodsServicesWording],
+  TRADEMARK_INTENT_TO_USE: [uniqueClasses, goodsServicesWording],
+  COPYRIGHT_STANDARD: [publicationYear, authorLifespans],
+  COPYRIGHT_GROUP: [groupWorkYears],
+};
+
+function entries(data: FormData, sectionId: string): FormData[] {
+  return Array.isArray(data[sectionId]) ? data[sectionId].filter((entry: unknown) => entry && typeof entry === 'object') : [];
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === false || (typeof value === 'string' && value.trim() === '');
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function wordCount(value: unknown): number {
+  return typeof value === 'string' ? value.trim().split(/\s+/).filter(Boolean).length : 0;
+}
+
+function error(path: string, rule: string, message: string): ValidationIssue {
+  return { path, rule, message, severity: 'error' };
+}
+
+function warning(path: string, rule: string, message: string): ValidationIssue {
+  return { path, rule, message, severity: 'warning' };
+}
@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import { Form, FormStatus, MemberRole } from '@prisma/client';
+import { db } from './db';
+import { hasRole } from './auth';
+
+export type ApprovalDecision = 'approved' | 'rejected';
+
+export interface WorkflowActor {
+  userId: string;
+  role: MemberRole;
+}
+
+/**
+ * Allowed status transitions and the minimum role for each. Approving and
+ * rejecting are also open to the assigned reviewer; see canTransition.
+ */
+export const FORM_TRANSITIONS: Record<FormStatus, Partial<Record<FormStatus, MemberRole>>> = {
+  DRAFT: { IN_REVIEW: 'MEMBER' },
+  IN_REVIEW: { DRAFT: 'MEMBER', APPROVED: 'ADMIN', REJECTED: 'ADMIN' },
+  APPROVED: { IN_REVIEW: 'MEMBER', SUBMITTED: 'ADMIN' },
+  SUBMITTED: { FILED: 'ADMIN' },
+  REJECTED: { DRAFT: 'MEMBER', IN_REVIEW: 'MEMBER' },
+  FILED: {},
+};
+
+// Statuses reached only through a reviewer decision, never a plain status update
+export const DECISION_STATUSES: FormStatus[] = ['APPROVED', 'REJECTED'];
+
+// Forms that have gone to the office can no longer be edited
+export const LOCKED_STATUSES: FormStatus[] = ['SUBMITTED', 'FILED'];
+
+export function isLocked(status: FormStatus): boolean {
+  return LOCKED_STATUSES.includes(status);
+}
+
+/**
+ * Role of a user in an organization. API keys act with the role of the member who created them.
+ */
+export async function getMemberRole(organizationId: string, userId: string): Promise<MemberRole> {
+  const member = await db.organizationMember.findUnique({
+    where: { organizationId_userId: { organizationId, userId } },
+    select: { role: true },
+  });
+  return member?.role || MemberRole.MEMBER;
+}
+
+/**
+ * Check a status change against the state machine. Returns why it isn't allowed, or null.
+ */
+export function checkTransition(
+  form: Pick<Form, 'status' | 'reviewerId' | 'createdBy'>,
+  to: FormStatus,
+  actor: WorkflowActor
+): string | null {
+  const requiredRole = FORM_TRANSITIONS[form.status][to];
+
+  if (!requiredRole) {
+    return `A ${label(form.status)} form can't be moved to ${label(to)}`;
+  }
+
+  if (!hasRole(actor.role, MemberRole.MEMBER)) {
+    return 'Viewers can\'t change form status';
+  }
+
+  if (DECISION_STATUSES.includes(to)) {
+    // A form needs a second pair of eyes, whatever its author's role
+    if (form.createdBy === actor.userId) {
+      return 'You can\'t approve or reject a form you created';
+    }
+
+    // The assigned reviewer decides in the admin's place
+    if (form.reviewerId === actor.userId) {
+      return null;
+    }
+  }
+
+  if (!hasRole(actor.role, requiredRole)) {
+    return DECISION_STATUSES.includes(to)
+      ? 'Only the assigned reviewer or an admin can approve or reject this form'
+      : `Only ${label(requiredRole)}s and above can move a form to ${label(to)}`;
+  }
+
+  return null;
+}
+
+export function canTransition(
+  form: Pick<Form, 'status' | 'reviewerId' | 'createdBy'>,
+  to: FormStatus,
+  actor: WorkflowActor
+): boolean {
+  return checkTransition(form, to, actor) === null;
+}
+
+/**
+ * Check an assignment of the reviewer, who can approve or reject the form in an
+ * admin's place. Admins assign reviewers; the current reviewer can hand the form
+ * on or step down. Returns why it isn't allowed, or null.
+ */
+export function checkReviewerChange(
+  form: Pick<Form, 'status' | 'reviewerId' | 'createdBy'>,
+  reviewerId: string | null,
+  actor: WorkflowActor
+): string | null {
+  if (isLocked(form.status)) {
+    return `The reviewer of a ${label(form.status)} form can't be changed`;
+  }
+
+  if (!hasRole(actor.role, MemberRole.ADMIN) && form.reviewerId !== actor.userId) {
+    return 'Only admins and the current reviewer can assign a reviewer';
+  }
+
+  if (reviewerId && (reviewerId === actor.userId || reviewerId === form.createdBy)) {
+    return 'The reviewer must be someone other than you and the form\'s author';
+  }
+
+  return null;
+}
+
+/**
+ * Check a form's deletion. Only admins delete forms, and never one that has been
+ * approved or sent to the office, so its revisions and approvals stay on record.
+ * Returns why it isn't allowed, or null.
+ */
+export function checkDelete(
+  form: Pick<Form, 'status'>,
+  approvalCount: number,
+  actor: WorkflowActor
+): string | null {
+  if (!hasRole(actor.role, MemberRole.ADMIN)) {
+    return 'Only admins can delete forms';
+  }
+
+  if (isLocked(form.status) || form.status === 'APPROVED') {
+    return `A ${label(form.status)} form can't be deleted`;
+  }
+
+  if (approvalCount > 0) {
+    return 'A form with an approval on record can\'t be deleted';
+  }
+
+  return null;
+}
+
+/**
+ * Status update for a change to an approved form's name or data: it goes back to
+ * review, since the approval only covers what the reviewer saw.
+ */
+export function reopenOnEdit(form: Pick<Form, 'status'>): { status?: FormStatus } {
+  return form.status === 'APPROVED' ? { status: 'IN_REVIEW' } : {};
+}
+
+/**
+ * SHA-256 of form data with object keys sorted, so the same values always hash the same
+ */
+export function hashFormData(data: unknown): string {
+  return crypto.createHash('sha256').update(canonicalJson(data)).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function label(value: string): string {
+  return value.toLowerCase().replace(/_/g, ' ');
+}
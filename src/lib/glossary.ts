@@ -0,0 +1,248 @@
+import { GlossaryCategory } from '@prisma/client';
+import { db } from './db';
+import { TranscriptData } from './transcription';
+import { applySegmentEdits } from './transcript-revisions';
+
+export type GlossarySource = 'organization' | 'case' | 'seeded';
+
+export interface GlossaryEntry {
+  id: string | null;   // null for terms seeded from the case
+  term: string;
+  category: GlossaryCategory;
+  variants: string[];
+  description: string | null;
+  source: GlossarySource;
+}
+
+export interface GlossaryTermInput {
+  term?: unknown;
+  category?: unknown;
+  variants?: unknown;
+  description?: unknown;
+}
+
+export interface GlossaryTermData {
+  term?: string;
+  category?: GlossaryCategory;
+  variants?: string[];
+  description?: string | null;
+}
+
+export const GLOSSARY_CATEGORIES: GlossaryCategory[] = ['TERM', 'NAME', 'ACRONYM'];
+
+// Whisper only reads the last 224 tokens of a prompt
+const MAX_PROMPT_CHARS = 800;
+const MAX_TERM_LENGTH = 100;
+const MAX_VARIANTS = 20;
+
+/**
+ * Get the glossary that applies to a recording: organization terms, the
+ * case's own terms, and terms seeded from the case's tags and client name.
+ * Case terms override organization terms with the same spelling.
+ */
+export async function getGlossary(organizationId: string, caseId?: string | null): Promise<GlossaryEntry[]> {
+  const [terms, caseData] = await Promise.all([
+    db.glossaryTerm.findMany({
+      where: {
+        organizationId,
+        OR: caseId ? [{ caseId: null }, { caseId }] : [{ caseId: null }],
+      },
+      orderBy: { term: 'asc' },
+    }),
+    caseId
+      ? db.case.findFirst({
+          where: { id: caseId, organizationId },
+          select: { clientName: true, tags: true },
+        })
+      : null,
+  ]);
+
+  const entries = new Map<string, GlossaryEntry>();
+  const add = (entry: GlossaryEntry) => {
+    const key = entry.term.toLowerCase();
+    const existing = entries.get(key);
+    if (!existing || existing.source === 'seeded' || entry.source === 'case') {
+      entries.set(key, entry);
+    }
+  };
+
+  for (const term of terms) {
+    add({
+      id: term.id,
+      term: term.term,
+      category: term.category,
+      variants: term.variants,
+      description: term.description,
+      source: term.caseId ? 'case' : 'organization',
+    });
+  }
+
+  if (caseData) {
+    const seeds: { term: string; category: GlossaryCategory }[] = [
+      ...(caseData.clientName ? [{ term: caseData.clientName, category: 'NAME' as const }] : []),
+      ...caseData.tags.map((tag) => ({ term: tag, category: 'TERM' as const })),
+    ];
+
+    for (const seed of seeds) {
+      const term = seed.term.trim();
+      if (term && !entries.has(term.toLowerCase())) {
+        add({ id: null, term, category: seed.category, variants: [], description: null, source: 'seeded' });
+      }
+    }
+  }
+
+  return Array.from(entries.values());
+}
+
+/**
+ * Validate a glossary term from a request body. Fields left undefined are
+ * omitted so the result can be used for partial updates.
+ */
+export function parseGlossaryTerm(
+  input: GlossaryTermInput,
+  partial = false
+): { data: GlossaryTermData | null; error: string | null } {
+  const data: GlossaryTermData = {};
+
+  if (input.term !== undefined || !partial) {
+    const term = typeof input.term === 'string' ? input.term.trim() : '';
+    if (!term) {
+      return { data: null, error: 'Term is required' };
+    }
+    if (term.length > MAX_TERM_LENGTH) {
+      return { data: null, error: `Term must be at most ${MAX_TERM_LENGTH} characters` };
+    }
+    data.term = term;
+  }
+
+  if (input.category !== undefined) {
+    if (!GLOSSARY_CATEGORIES.includes(input.category as GlossaryCategory)) {
+      return { data: null, error: `Category must be one of: ${GLOSSARY_CATEGORIES.join(', ')}` };
+    }
+    data.category = input.category as GlossaryCategory;
+  }
+
+  if (input.variants !== undefined) {
+    if (!Array.isArray(input.variants) || input.variants.some((variant) => typeof variant !== 'string')) {
+      return { data: null, error: 'Variants must be an array of strings' };
+    }
+    const variants = Array.from(new Set((input.variants as string[]).map((variant) => variant.trim()).filter(Boolean)));
+    if (variants.length > MAX_VARIANTS) {
+      return { data: null, error: `At most ${MAX_VARIANTS} variants are allowed` };
+    }
+    if (variants.some((variant) => variant.length > MAX_TERM_LENGTH)) {
+      return { data: null, error: `Variants must be at most ${MAX_TERM_LENGTH} characters` };
+    }
+    data.variants = variants;
+  }
+
+  if (input.description !== undefined) {
+    data.description = typeof input.description === 'string' && input.description.trim() ? input.description.trim() : null;
+  }
+
+  return { data, error: null };
+}
+
+/**
+ * Build a transcription prompt listing glossary spellings. Names and acronyms
+ * come first since they are the words speech models most often get wrong.
+ */
+export function buildTranscriptionPrompt(entries: GlossaryEntry[]): string | undefined {
+  const order: GlossaryCategory[] = ['NAME', 'ACRONYM', 'TERM'];
+  const terms = [...entries]
+    .sort((a, b) => order.indexOf(a.category) - order.indexOf(b.category))
+    .map((entry) => entry.term);
+
+  let prompt = '';
+  for (const term of terms) {
+    const next = prompt ? `${prompt}, ${term}` : term;
+    if (next.length > MAX_PROMPT_CHARS) break;
+    prompt = next;
+  }
+
+  return prompt ? `${prompt}.` : undefined;
+}
+
+/**
+ * Replace known misspellings with their canonical term. Matches are whole-word
+ * and case-insensitive, so the term's own casing is corrected as well.
+ */
+export function applyGlossary(
+  transcript: TranscriptData,
+  entries: GlossaryEntry[]
+): { transcript: TranscriptData; replacements: number } {
+  const rules = buildReplacementRules(entries);
+  if (rules.length === 0) {
+    return { transcript, replacements: 0 };
+  }
+
+  let replacements = 0;
+  const replace = (text: string) =>
+    rules.reduce(
+      (result, rule) =>
+        result.replace(rule.pattern, (match) => {
+          if (match !== rule.term) replacements++;
+          return rule.term;
+        }),
+      text
+    );
+
+  if (transcript.segments.length === 0) {
+    const text = replace(transcript.text);
+    return { transcript: { ...transcript, text }, replacements };
+  }
+
+  const edits = transcript.segments
+    .map((segment) => ({ id: segment.id, text: replace(segment.text) }))
+    .filter((edit, i) => edit.text !== transcript.segments[i].text);
+
+  return {
+    transcript: edits.length > 0 ? applySegmentEdits(transcript, edits) : transcript,
+    replacements,
+  };
+}
+
+/**
+ * Describe the glossary for the analysis prompt, empty when there are no terms
+ */
+export function formatGlossaryForAnalysis(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) return '';
+
+  const lines = entries.map((entry) => {
+    let line = `- ${entry.term} (${entry.category.toLowerCase()})`;
+    if (entry.variants.length > 0) {
+      line += `, may be transcribed as: ${entry.variants.join(', ')}`;
+    }
+    if (entry.description) {
+      line += ` — ${entry.description}`;
+    }
+    return line;
+  });
+
+  return `Glossary:\nUse these canonical spellings for every name, product, compound and acronym you extract, even where the transcription spells them differently.\n${lines.join('\n')}`;
+}
+
+/**
+ * Longest variants first so multi-word variants win over their parts
+ */
+function buildReplacementRules(entries: GlossaryEntry[]) {
+  return entries
+    .flatMap((entry) =>
+      [entry.term, ...entry.variants]
+        .map((variant) => variant.trim())
+        .filter(Boolean)
+        .map((variant) => ({ variant, term: entry.term }))
+    )
+    .sort((a, b) => b.variant.length - a.variant.length)
+    .map(({ variant, term }) => ({
+      term,
+      pattern: new RegExp(
+        `(?<![\\p{L}\\p{N}])${variant.split(/\s+/).map(escapeRegExp).join('\\s+')}(?![\\p{L}\\p{N}])`,
+        'giu'
+      ),
+    }));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,256 @@
+import { AnalysisResult } from './analysis-schema';
+import { IDENTIFICATIONS, NICE_CLASSES, NiceClass } from './nice-classes';
+
+// Enough to choose from; anything further down is rarely the right class
+const MAX_CLASSES = 5;
+const MAX_IDENTIFICATIONS = 5;
+
+// Share of an identification's (weighted) words the description has to mention
+const MIN_SCORE = 0.5;
+
+// Headings are broad, so matching one counts for less than matching an identification
+const HEADING_WEIGHT = 0.8;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'be', 'being', 'by', 'for', 'from', 'in', 'into', 'it', 'its', 'namely',
+  'nature', 'not', 'of', 'on', 'or', 'other', 'our', 'that', 'the', 'their', 'them', 'these', 'this',
+  'to', 'use', 'used', 'we', 'which', 'with', 'good', 'service', 'provid', 'featur', 'field',
+]);
+
+// Everyday words for things the ID Manual names differently
+const SYNONYMS: Record<string, string[]> = {
+  app: ['mobile', 'application'],
+  tee: ['t', 'shirt'],
+  hoodie: ['hooded', 'sweatshirt'],
+  sneaker: ['athletic', 'footwear'],
+  shoe: ['footwear'],
+  boot: ['footwear'],
+  saas: ['software'],
+  cloud: ['saas'],
+  cap: ['headwear'],
+  supplement: ['dietary'],
+  phone: ['smartphone'],
+  lotion: ['skin', 'care'],
+  moisturizer: ['skin', 'care'],
+  cafe: ['coffee'],
+};
+
+export interface IdentificationSuggestion {
+  description: string;
+  needsCompletion: boolean;     // Has a {placeholder} for the applicant to fill in
+}
+
+export interface ClassSuggestion {
+  niceClass: number;
+  kind: NiceClass['kind'];
+  heading: string;
+  score: number;                // 0-1, how much of the best identification or heading the description covers
+  identifications: IdentificationSuggestion[];
+}
+
+export type IndefiniteRule =
+  | 'open_list'
+  | 'vague_term'
+  | 'generic_noun'
+  | 'software_function'
+  | 'consulting_field'
+  | 'placeholder'
+  | 'catch_all'
+  | 'registered_mark';
+
+export interface IndefiniteTerm {
+  rule: IndefiniteRule;
+  term: string;
+  message: string;
+}
+
+const PLACEHOLDER = /[{[][^}\]]*[}\]]/g;
+
+// Words that make a broad noun definite, e.g. "accessories, namely, ..." or "equipment for ..."
+const QUALIFIER = /\b(namely|in the nature of|for|consisting of|featuring|in the field of|being|of)\b/i;
+
+const INDEFINITE_PATTERNS: { rule: IndefiniteRule; pattern: RegExp; message: (term: string) => string; unlessQualified?: boolean }[] = [
+  {
+    rule: 'placeholder',
+    pattern: PLACEHOLDER,
+    message: (term) => `Replace ${term} with the specific goods or services`,
+  },
+  {
+    rule: 'open_list',
+    pattern: /\b(?:including|includes|such as|for example|e\.g\.)/gi,
+    message: (term) => `"${term}" leaves the list open; use "namely" and name each item`,
+  },
+  {
+    rule: 'vague_term',
+    pattern: /\b(?:etc\.?|and the like|and so on|(?:and|or) (?:similar|related) (?:goods|products|services|items))/gi,
+    message: (term) => `"${term}" doesn't say what the goods or services are; list them instead`,
+  },
+  {
+    rule: 'catch_all',
+    pattern: /\b(?:(?:all|various|miscellaneous|assorted) (?:goods|products|services|items)|(?:goods|services) in class \d+|class heading)\b/gi,
+    message: (term) => `"${term}" is not accepted as an identification; list the goods or services`,
+  },
+  {
+    rule: 'generic_noun',
+    pattern: /\b(?:accessories|apparatus|devices|equipment|items|materials|merchandise|products|solutions|supplies|systems)\b/gi,
+    message: (term) => `"${term}" is too broad on its own; say what they are, e.g. "${term}, namely, ..." or "${term} for ..."`,
+    unlessQualified: true,
+  },
+  {
+    rule: 'registered_mark',
+    pattern: /[®™]/g,
+    message: () => 'Leave marks out of the identification; describe the goods or services by their common names',
+  },
+];
+
+/**
+ * Suggest Nice classes and ID Manual-style identifications for a description of
+ * goods or services, by matching its words against the bundled dataset. Rarer
+ * words count for more, so "guitar strings" points to class 15 rather than 22.
+ */
+export function classifyGoodsServices(text: string): ClassSuggestion[] {
+  const words = new Set(tokenize(text));
+  if (words.size === 0) return [];
+
+  const coverage = (tokens: string[]) => {
+    const total = tokens.reduce((sum, token) => sum + weight(token), 0);
+    const matched = tokens.filter((token) => words.has(token)).reduce((sum, token) => sum + weight(token), 0);
+    return total === 0 ? 0 : matched / total;
+  };
+
+  const suggestions = NICE_CLASSES.map((niceClass): ClassSuggestion => {
+    const identifications = indexed()
+      .filter((identification) => identification.niceClass === niceClass.number)
+      .map((identification) => ({ ...identification, score: coverage(identification.tokens) }))
+      .filter((identification) => identification.score >= MIN_SCORE)
+      .sort((a, b) => b.score - a.score || a.tokens.length - b.tokens.length);
+
+    const headingScore = Math.max(0, ...niceClass.heading.split(/[;,]/).map((phrase) => coverage(tokenize(phrase))));
+
+    return {
+      niceClass: niceClass.number,
+      kind: niceClass.kind,
+      heading: niceClass.heading,
+      score: Math.round(Math.max(identifications[0]?.score || 0, headingScore * HEADING_WEIGHT) * 100) / 100,
+      identifications: identifications.slice(0, MAX_IDENTIFICATIONS).map(({ description }) => ({
+        description,
+        needsCompletion: /[{}]/.test(description),
+      })),
+    };
+  });
+
+  return suggestions
+    .filter((suggestion) => suggestion.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score || b.identifications.length - a.identifications.length)
+    .slice(0, MAX_CLASSES);
+}
+
+/**
+ * What a recording's analysis says about the client's goods or services
+ */
+export function getAnalysisDescription(analysis: AnalysisResult): string {
+  return [analysis.summary, analysis.inventionDescription, ...analysis.technicalDetails].filter(Boolean).join('\n');
+}
+
+/**
+ * Wording in an identification that an examining attorney would object to as
+ * indefinite (TMEP 1402.03). Each ";"-separated item is checked on its own.
+ */
+export function findIndefiniteWording(description: string): IndefiniteTerm[] {
+  const found = new Map<string, IndefiniteTerm>();
+  const add = (rule: IndefiniteRule, term: string, message: string) => {
+    const key = `${rule}:${term.toLowerCase()}`;
+    if (!found.has(key)) found.set(key, { rule, term, message });
+  };
+
+  for (const item of splitItems(description)) {
+    for (const { rule, pattern, message, unlessQualified } of INDEFINITE_PATTERNS) {
+      // Placeholders are reported once as such, not for the wording inside them
+      const text = pattern === PLACEHOLDER ? item : item.replace(PLACEHOLDER, ' ');
+      const regex = new RegExp(pattern.source, pattern.flags);
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(text))) {
+        if (unlessQualified && QUALIFIER.test(text.slice(match.index + match[0].length))) continue;
+        add(rule, match[0], message(match[0]));
+      }
+    }
+
+    // Software is classified and examined by what it does
+    const software = item.match(/^(?:(?:downloadable|recorded|computer|mobile|web|online)\s+)*(software|applications?|apps?)\b/i);
+    if (software && !QUALIFIER.test(item.slice(software[0].length))) {
+      add('software_function', software[0], `"${software[0]}" needs its function, e.g. "${software[0]} for managing ..."`);
+    }
+
+    if (/^(?:consulting|consultation|consultancy|advisory)(?: services)?$/i.test(item)) {
+      add('consulting_field', item, `"${item}" needs its subject, e.g. "business consulting services" or "consulting in the field of ..."`);
+    }
+  }
+
+  return Array.from(found.values());
+}
+
+/**
+ * Items of a description that are dataset identifications of another class,
+ * e.g. "Hats" listed under class 18
+ */
+export function findMisclassifiedItems(niceClass: number, description: string): { item: string; niceClass: number }[] {
+  return splitItems(description).flatMap((item) => {
+    const normalized = item.toLowerCase();
+    const match = IDENTIFICATIONS.find(
+      (identification) => identification.niceClass !== niceClass && identification.description.toLowerCase() === normalized
+    );
+    return match ? [{ item, niceClass: match.niceClass }] : [];
+  });
+}
+
+function splitItems(description: string): string[] {
+  return description
+    .split(';')
+    .map((item) => item.trim().replace(/\.$/, '').trim())
+    .filter(Boolean);
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/\{[^}]*\}/g, ' ')
+    .split(/[^a-z0-9]+/)
+    .map(stem)
+    .flatMap((word) => [word, ...(SYNONYMS[word] || [])])
+    .filter((word) => word && !STOP_WORDS.has(word));
+}
+
+// Plural and "-ing" endings, enough to match "guitars" to "Guitar strings"
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && /(?:ss|x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !/(?:ss|us|is|aas)$/.test(word)) return word.slice(0, -1);
+  if (word.length > 6 && word.endsWith('ing')) return word.slice(0, -3);
+  return word;
+}
+
+let index: { niceClass: number; description: string; tokens: string[] }[] | null = null;
+let documentFrequency: Map<string, number> | null = null;
+
+function indexed() {
+  if (!index) {
+    index = IDENTIFICATIONS.map((identification) => ({ ...identification, tokens: Array.from(new Set(tokenize(identification.description))) }));
+  }
+  return index;
+}
+
+// Inverse document frequency over identifications and headings
+function weight(token: string): number {
+  if (!documentFrequency) {
+    documentFrequency = new Map();
+    const documents = [
+      ...indexed().map((identification) => identification.tokens),
+      ...NICE_CLASSES.map((niceClass) => Array.from(new Set(tokenize(niceClass.heading)))),
+    ];
+    for (const tokens of documents) {
+      tokens.forEach((token) => documentFrequency!.set(token, (documentFrequency!.get(token) || 0) + 1));
+    }
+  }
+  const documents = IDENTIFICATIONS.length + NICE_CLASSES.length;
+  return Math.log(1 + documents / (documentFrequency.get(token) || 1));
+}
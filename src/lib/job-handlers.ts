@@ -0,0 +1,462 @@
+import { Job, JobType, Prisma } from '@prisma/client';
+import { db } from './db';
+import { createAuditLog } from './audit';
+import { completeJob, extendJobLock, failJob, LOCK_HEARTBEAT_MS } from './jobs';
+import { getStorage } from './storage';
+import { transcribeAudio, TranscriptData } from './transcription';
+import { getTranscriptionProvider } from './transcription-providers';
+import { getOrganizationSettings } from './organization-settings';
+import {
+  assignSpeakers,
+  detectSpeakerTurns,
+  formatTranscriptForAnalysis,
+  isDiarizationConfigured,
+  normalizeSpeakers,
+} from './diarization';
+import { analyzeTranscript } from './analysis';
+import { LLMProviderName } from './llm-providers';
+import { populateForm } from './form-population';
+import { getFormTemplate } from './form-templates';
+import { needsReview } from './form-provenance';
+import { buildProposedChanges, parseProposedChanges } from './form-changes';
+import { initialRevision, updateFormWithRevision } from './form-revisions';
+import { createTranscriptRevision } from './transcript-revisions';
+import { applyGlossary, buildTranscriptionPrompt, formatGlossaryForAnalysis, getGlossary } from './glossary';
+import { buildResponseData, extractOfficeAction, extractPdfText } from './office-actions';
+import { DOCKET_EVENT_LABELS, docketEvent, formatDate, parseDocketEvent } from './docketing';
+import { importOfficeActionPriorArt, importRecordingPriorArt } from './prior-art';
+
+interface JobHandler {
+  run(job: Job): Promise<Record<string, unknown>>;
+  // Called once, after the final attempt has failed
+  onFailed?(job: Job, error: string): Promise<void>;
+}
+
+const handlers: Record<JobType, JobHandler> = {
+  TRANSCRIBE_RECORDING: {
+    run: transcribeRecording,
+    onFailed: markRecordingFailed,
+  },
+  ANALYZE_RECORDING: {
+    run: analyzeRecording,
+    onFailed: markRecordingFailed,
+  },
+  POPULATE_FORM: {
+    run: populateFormFromRecording,
+  },
+  PARSE_OFFICE_ACTION: {
+    run: parseOfficeAction,
+  },
+};
+
+/**
+ * Run a claimed job and record its outcome on the queue. Returns null if the
+ * worker lost the job's lock while running it.
+ */
+export async function runJob(job: Job) {
+  const handler = handlers[job.type];
+
+  // A job reclaimed after its worker died may already be past its last attempt
+  if (job.attempts > job.maxAttempts) {
+    return finishWithError(job, handler, 'Job timed out');
+  }
+
+  // Keep the lock fresh so long transcriptions are not reclaimed mid-run
+  const heartbeat = setInterval(() => {
+    extendJobLock(job)
+      .then((held) => {
+        if (!held) {
+          console.error(`Job ${job.id} (${job.type}) lost its lock`);
+          clearInterval(heartbeat);
+        }
+      })
+      .catch((error) => console.error(`Error extending lock on job ${job.id}:`, error));
+  }, LOCK_HEARTBEAT_MS);
+
+  try {
+    const result = await handler.run(job);
+    return await completeJob(job, result);
+  } catch (error: any) {
+    console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+    return finishWithError(job, handler, error?.message || 'Unknown error');
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function finishWithError(job: Job, handler: JobHandler, error: string) {
+  const updated = await failJob(job, error);
+
+  if (updated?.status === 'FAILED' && handler.onFailed) {
+    await handler.onFailed(job, error);
+  }
+
+  return updated;
+}
+
+async function transcribeRecording(job: Job) {
+  const { recordingId } = job.payload as { recordingId: string };
+
+  const recording = await db.recording.findUniqueOrThrow({
+    where: { id: recordingId },
+  });
+
+  if (!recording.fileUrl) {
+    throw new Error('No audio file uploaded');
+  }
+
+  await db.recording.update({
+    where: { id: recording.id },
+    data: { status: 'PROCESSING' },
+  });
+
+  // Read the audio file from storage
+  const audioBuffer = await getStorage().getObject(recording.fileUrl);
+  const fileName = recording.fileUrl.split('/').pop() || 'audio.webm';
+
+  // Transcribe with the organization's provider, splitting long recordings into segments
+  const { transcription: settings } = await getOrganizationSettings(recording.organizationId);
+  const provider = getTranscriptionProvider(settings);
+  const glossary = await getGlossary(recording.organizationId, recording.caseId);
+  const mimeType = recording.mimeType || 'audio/webm';
+  let transcription = await transcribeAudio(provider, audioBuffer, fileName, mimeType, {
+    language: settings?.language,
+    prompt: buildTranscriptionPrompt(glossary),
+  });
+
+  // Correct known misspellings the prompt did not prevent
+  const corrected = applyGlossary(transcription, glossary);
+  transcription = corrected.transcript;
+
+  // Label speakers with the diarization service when available, otherwise keep any labels from the provider
+  if (settings?.diarize !== false && isDiarizationConfigured()) {
+    const turns = await detectSpeakerTurns(audioBuffer, fileName, mimeType);
+    transcription = assignSpeakers(transcription, turns);
+  } else {
+    transcription = normalizeSpeakers(transcription);
+  }
+
+  await createTranscriptRevision({
+    recordingId: recording.id,
+    transcript: transcription,
+    source: 'transcription',
+    createdBy: job.createdBy,
+  });
+
+  await db.recording.update({
+    where: { id: recording.id },
+    data: {
+      duration: recording.duration || Math.round(transcription.duration),
+      status: 'TRANSCRIBED',
+      processedAt: new Date(),
+      error: null,
+    },
+  });
+
+  const wordCount = transcription.text.split(' ').length;
+
+  await createAuditLog({
+    organizationId: recording.organizationId,
+    userId: job.createdBy,
+    action: 'recording.transcribed',
+    entityType: 'recording',
+    entityId: recording.id,
+    description: `Recording "${recording.name}" transcribed`,
+    metadata: {
+      wordCount,
+      provider: provider.name,
+      speakers: transcription.speakers?.length || 0,
+      glossaryReplacements: corrected.replacements,
+      jobId: job.id,
+    },
+  });
+
+  // Create activity if linked to a case
+  if (recording.caseId) {
+    await db.activity.create({
+      data: {
+        type: 'RECORDING_TRANSCRIBED',
+        content: `Recording "${recording.name}" transcribed`,
+        caseId: recording.caseId,
+        createdBy: job.createdBy,
+      },
+    });
+  }
+
+  return { recordingId: recording.id, wordCount, provider: provider.name };
+}
+
+async function analyzeRecording(job: Job) {
+  const { recordingId, provider: preferredProvider } = job.payload as { recordingId: string; provider?: LLMProviderName };
+
+  const recording = await db.recording.findUniqueOrThrow({
+    where: { id: recordingId },
+  });
+
+  if (!recording.transcript) {
+    throw new Error('Recording not transcribed yet');
+  }
+
+  await db.recording.update({
+    where: { id: recording.id },
+    data: { status: 'PROCESSING' },
+  });
+
+  // Prefix each turn with the speaker so statements can be attributed
+  const transcript = formatTranscriptForAnalysis(
+    recording.transcriptData as TranscriptData | null,
+    recording.transcript
+  );
+  const glossary = await getGlossary(recording.organizationId, recording.caseId);
+  const { analysis, provider, model } = await analyzeTranscript(transcript, {
+    organizationId: recording.organizationId,
+    recordingId: recording.id,
+    userId: job.createdBy,
+    provider: preferredProvider,
+    glossary: formatGlossaryForAnalysis(glossary),
+  });
+
+  await db.recording.update({
+    where: { id: recording.id },
+    data: {
+      analysisProvider: provider,
+      analysisResult: analysis as Prisma.InputJsonValue,
+      status: 'ANALYZED',
+      processedAt: new Date(),
+      error: null,
+    },
+  });
+
+  const priorArt = recording.caseId
+    ? await importRecordingPriorArt({ ...recording, caseId: recording.caseId }, analysis, job.createdBy)
+    : null;
+
+  await createAuditLog({
+    organizationId: recording.organizationId,
+    userId: job.createdBy,
+    action: 'recording.analyzed',
+    entityType: 'recording',
+    entityId: recording.id,
+    description: `Recording "${recording.name}" analyzed with ${provider}`,
+    metadata: { provider, model, jobId: job.id, priorArtReferenceIds: priorArt?.references.map((reference) => reference.id) },
+  });
+
+  // Create activity if linked to a case
+  if (recording.caseId) {
+    await db.activity.create({
+      data: {
+        type: 'RECORDING_ANALYZED',
+        content: priorArt?.created
+          ? `Recording "${recording.name}" analyzed with ${provider}; ${priorArt.created} prior-art reference(s) added`
+          : `Recording "${recording.name}" analyzed with ${provider}`,
+        caseId: recording.caseId,
+        createdBy: job.createdBy,
+      },
+    });
+  }
+
+  return { recordingId: recording.id, provider, model, priorArtReferences: priorArt?.references.length || 0 };
+}
+
+async function populateFormFromRecording(job: Job) {
+  const { formId, recordingId } = job.payload as { formId: string; recordingId: string };
+
+  const [form, recording] = await Promise.all([
+    db.form.findUniqueOrThrow({ where: { id: formId } }),
+    db.recording.findUniqueOrThrow({ where: { id: recordingId } }),
+  ]);
+
+  if (!recording.analysisResult && !recording.transcript) {
+    throw new Error('Recording has no analysis or transcription');
+  }
+
+  const { populatedData, provenance } = await populateForm({
+    organizationId: form.organizationId,
+    formId: form.id,
+    recordingId: recording.id,
+    userId: job.createdBy,
+    jobId: job.id,
+    template: getFormTemplate(form.type, form.templateVersion),
+    data: form.data as Record<string, any>,
+    analysis: recording.analysisResult as Record<string, any> | null,
+    transcript: recording.transcript,
+    transcriptData: recording.transcriptData as TranscriptData | null,
+  });
+
+  // Values are only proposed; Form.data changes when someone accepts them
+  const proposals = buildProposedChanges(form.data, populatedData, provenance);
+  const proposedChanges = { ...parseProposedChanges(form.proposedChanges), ...proposals };
+
+  const fieldsProposed = Object.keys(proposals).length;
+  const lowConfidence = Object.values(proposals).filter((proposal) => needsReview(proposal.provenance)).length;
+
+  await db.$transaction(async (tx) => {
+    await updateFormWithRevision(
+      form,
+      {
+        extractedData: populatedData as Prisma.InputJsonValue,
+        proposedChanges: proposedChanges as unknown as Prisma.InputJsonValue,
+      },
+      {
+        source: 'populate',
+        note: `${fieldsProposed} change(s) proposed from recording "${recording.name}"`,
+        createdBy: job.createdBy,
+      },
+      tx
+    );
+    await tx.recording.update({
+      where: { id: recording.id },
+      data: { formId: form.id },
+    });
+  });
+
+  await createAuditLog({
+    organizationId: form.organizationId,
+    userId: job.createdBy,
+    action: 'form.populated',
+    entityType: 'form',
+    entityId: form.id,
+    description: `${fieldsProposed} change(s) proposed for form "${form.name}" from recording "${recording.name}"`,
+    metadata: { recordingId: recording.id, fieldsProposed, lowConfidence, jobId: job.id },
+  });
+
+  // Create activity if linked to a case
+  if (form.caseId && fieldsProposed > 0) {
+    await db.activity.create({
+      data: {
+        type: 'FORM_POPULATED',
+        content: `${fieldsProposed} change(s) proposed for form "${form.name}" from recording`,
+        caseId: form.caseId,
+        createdBy: job.createdBy,
+      },
+    });
+  }
+
+  return { formId: form.id, recordingId: recording.id, fieldsProposed, lowConfidence };
+}
+
+async function parseOfficeAction(job: Job) {
+  const { documentId, provider: preferredProvider } = job.payload as { documentId: string; provider?: LLMProviderName };
+
+  const document = await db.document.findUniqueOrThrow({
+    where: { id: documentId },
+    include: { case: { select: { id: true, organizationId: true, type: true, caseNumber: true } } },
+  });
+  const caseData = document.case;
+
+  // A retry after the writes committed has nothing left to do
+  if (document.formId) {
+    return { documentId: document.id, formId: document.formId, alreadyParsed: true };
+  }
+
+  const { text, pages } = await extractPdfText(await getStorage().getObject(document.fileUrl));
+  const { officeAction, provider, model } = await extractOfficeAction(text, {
+    organizationId: caseData.organizationId,
+    documentId: document.id,
+    userId: job.createdBy,
+    provider: preferredProvider,
+  });
+
+  // Docket the response deadline when the mailing date could be read. A response
+  // period outside what the rules allow falls back to the default of 3 months.
+  const mailed = { type: 'OFFICE_ACTION_MAILED', date: officeAction.mailingDate };
+  const event =
+    parseDocketEvent({ ...mailed, metadata: { responseMonths: officeAction.responseMonths } }, caseData.type).data ||
+    parseDocketEvent(mailed, caseData.type).data;
+
+  const template = getFormTemplate('OFFICE_ACTION_RESPONSE');
+  const name = event
+    ? `Response to ${officeAction.actionType} of ${formatDate(event.date)}`
+    : `Response to ${officeAction.actionType}`;
+
+  // All or nothing, so a retry doesn't docket the action or create its form twice
+  const { docketed, form, priorArt } = await db.$transaction(async (tx) => {
+    const docketed = event
+      ? await docketEvent(
+          {
+            organizationId: caseData.organizationId,
+            caseId: caseData.id,
+            caseType: caseData.type,
+            event,
+            note: `From "${document.name}"`,
+            createdBy: job.createdBy,
+          },
+          tx
+        )
+      : null;
+
+    const data = buildResponseData(template, officeAction, docketed?.deadlines[0]?.dueDate || null) as Prisma.InputJsonValue;
+    const form = await tx.form.create({
+      data: {
+        name,
+        type: template.type,
+        templateVersion: template.version,
+        data,
+        extractedData: { documentId: document.id, provider, model, officeAction } as Prisma.InputJsonValue,
+        status: 'DRAFT',
+        organizationId: caseData.organizationId,
+        caseId: caseData.id,
+        createdBy: job.createdBy,
+        revisions: { create: initialRevision({ name, data, createdBy: job.createdBy }) },
+      },
+    });
+    await tx.document.update({
+      where: { id: document.id },
+      data: { formId: form.id },
+    });
+
+    const priorArt = await importOfficeActionPriorArt(document, caseData.organizationId, officeAction, job.createdBy, tx);
+
+    return { docketed, form, priorArt };
+  });
+  const deadlines = docketed?.deadlines || [];
+
+  await createAuditLog({
+    organizationId: caseData.organizationId,
+    userId: job.createdBy,
+    action: 'office_action.parsed',
+    entityType: 'document',
+    entityId: document.id,
+    description: `${officeAction.rejections.length} rejection(s) read from "${document.name}" for ${caseData.caseNumber}`,
+    metadata: {
+      formId: form.id,
+      eventId: docketed?.event.id,
+      deadlineIds: deadlines.map((deadline) => deadline.id),
+      priorArtReferenceIds: priorArt.references.map((reference) => reference.id),
+      pages,
+      provider,
+      model,
+      jobId: job.id,
+    },
+  });
+
+  await db.activity.create({
+    data: {
+      type: 'OFFICE_ACTION_PARSED',
+      content: docketed
+        ? `${officeAction.actionType} read from "${document.name}"; ${DOCKET_EVENT_LABELS[docketed.event.type].toLowerCase()} and ${deadlines.length} deadline(s) docketed`
+        : `${officeAction.actionType} read from "${document.name}"; no mailing date found, so nothing was docketed`,
+      metadata: { documentId: document.id, formId: form.id },
+      caseId: caseData.id,
+      createdBy: job.createdBy,
+    },
+  });
+
+  return {
+    documentId: document.id,
+    formId: form.id,
+    rejections: officeAction.rejections.length,
+    deadlineIds: deadlines.map((deadline) => deadline.id),
+    provider,
+    model,
+  };
+}
+
+async function markRecordingFailed(job: Job, error: string) {
+  const { recordingId } = job.payload as { recordingId: string };
+
+  await db.recording.updateMany({
+    where: { id: recordingId },
+    data: { status: 'FAILED', error },
+  });
+}
@@ -0,0 +1,194 @@
+import { Job, JobType, Prisma } from '@prisma/client';
+import { db } from './db';
+
+// Workers refresh the lock of a running job this often; a RUNNING job whose
+// lock has not been refreshed within the timeout is assumed to have crashed
+// and becomes claimable again
+export const LOCK_HEARTBEAT_MS = 60 * 1000;
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Retry delays grow 30s, 2m, 8m, ... capped at one hour
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export interface EnqueueJobParams {
+  organizationId: string;
+  type: JobType;
+  entityType: string;
+  entityId: string;
+  payload?: Record<string, unknown>;
+  createdBy: string;
+  maxAttempts?: number;
+}
+
+/**
+ * Queue a job, or return the existing one if the same work is already queued or running.
+ * Jobs for the same entity from different recordings, e.g. populating a form from
+ * another recording, are different work.
+ */
+export async function enqueueJob(params: EnqueueJobParams) {
+  const recordingId = typeof params.payload?.recordingId === 'string' ? params.payload.recordingId : undefined;
+  const existing = await findActiveJob(params.type, params.entityType, params.entityId, recordingId);
+  if (existing) {
+    return existing;
+  }
+
+  return db.job.create({
+    data: {
+      organizationId: params.organizationId,
+      type: params.type,
+      entityType: params.entityType,
+      entityId: params.entityId,
+      payload: (params.payload || {}) as Prisma.InputJsonValue,
+      maxAttempts: params.maxAttempts,
+      createdBy: params.createdBy,
+    },
+  });
+}
+
+/**
+ * Find a queued or running job of a given type for an entity, optionally only one
+ * working from the given recording
+ */
+export async function findActiveJob(type: JobType, entityType: string, entityId: string, recordingId?: string) {
+  return db.job.findFirst({
+    where: {
+      type,
+      entityType,
+      entityId,
+      status: { in: ['QUEUED', 'RUNNING'] },
+      ...(recordingId && { payload: { path: ['recordingId'], equals: recordingId } }),
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Get the most recent job of any type for an entity
+ */
+export async function getLatestJob(entityType: string, entityId: string) {
+  return db.job.findFirst({
+    where: { entityType, entityId },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Atomically claim the next due job for a worker. SKIP LOCKED lets several
+ * workers poll the same table without blocking on or double-claiming a row.
+ */
+export async function claimNextJob(workerId: string): Promise<Job | null> {
+  const staleBefore = new Date(Date.now() - LOCK_TIMEOUT_MS);
+
+  const rows = await db.$queryRaw<{ id: string }[]>`
+    UPDATE "Job"
+    SET "status" = 'RUNNING',
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId},
+        "startedAt" = NOW(),
+        "attempts" = "attempts" + 1,
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "Job"
+      WHERE ("status" = 'QUEUED' AND "runAt" <= NOW())
+         OR ("status" = 'RUNNING' AND "lockedAt" < ${staleBefore})
+      ORDER BY "runAt" ASC
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING "id"
+  `;
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return db.job.findUnique({ where: { id: rows[0].id } });
+}
+
+/**
+ * Refresh the lock on a running job. Returns false if the job is no longer
+ * held by the worker that claimed it.
+ */
+export async function extendJobLock(job: Job): Promise<boolean> {
+  const { count } = await db.job.updateMany({
+    where: { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy },
+    data: { lockedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Mark a job as completed and store its result. Returns null if the worker has
+ * lost its lock, in which case whoever holds it now records the outcome.
+ */
+export async function completeJob(job: Job, result?: Record<string, unknown>): Promise<Job | null> {
+  return updateLockedJob(job, {
+    status: 'COMPLETED',
+    result: (result || {}) as Prisma.InputJsonValue,
+    error: null,
+    lockedAt: null,
+    lockedBy: null,
+    completedAt: new Date(),
+  });
+}
+
+/**
+ * Record a failed attempt. The job is re-queued with exponential backoff
+ * until it runs out of attempts, then marked FAILED. Returns null if the
+ * worker has lost its lock.
+ */
+export async function failJob(job: Job, error: string): Promise<Job | null> {
+  const willRetry = job.attempts < job.maxAttempts;
+
+  return updateLockedJob(job, {
+    status: willRetry ? 'QUEUED' : 'FAILED',
+    error,
+    lockedAt: null,
+    lockedBy: null,
+    runAt: willRetry ? new Date(Date.now() + getRetryDelay(job.attempts)) : job.runAt,
+    completedAt: willRetry ? null : new Date(),
+  });
+}
+
+// Only the worker still holding the lock may record a job's outcome
+async function updateLockedJob(job: Job, data: Prisma.JobUpdateManyMutationInput): Promise<Job | null> {
+  const { count } = await db.job.updateMany({
+    where: { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy },
+    data,
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  return db.job.findUnique({ where: { id: job.id } });
+}
+
+/**
+ * Delay before the next attempt, given how many attempts have been made
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(4, Math.max(0, attempts - 1)), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Public representation of a job for API responses
+ */
+export function serializeJob(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    entityType: job.entityType,
+    entityId: job.entityId,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    result: job.result,
+    error: job.error,
+    runAt: job.runAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    createdAt: job.createdAt,
+  };
+}
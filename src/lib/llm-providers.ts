@@ -0,0 +1,230 @@
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider, LLMRequest, LLMResponse } from './llm';
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'mock';
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'anthropic', 'mock'];
+
+/**
+ * Shape of Organization.settings.llm
+ */
+export interface LLMSettings {
+  provider?: LLMProviderName;                              // Preferred provider
+  models?: Partial<Record<LLMProviderName, string>>;       // Model to use per provider
+  fallback?: boolean;                                      // Retry with the other provider on errors (default true)
+}
+
+export const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: process.env.OPENAI_MODEL || 'gpt-4o',
+  anthropic: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-20250514',
+  mock: 'mock',
+};
+
+const DEFAULT_MAX_TOKENS = 8192;
+
+/**
+ * OpenAI chat completions. Structured requests use strict JSON schema output.
+ */
+export class OpenAILLMProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor() {
+    this.client = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+
+  isConfigured() {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  async complete(request: LLMRequest, model: string): Promise<LLMResponse> {
+    const response = await this.client.chat.completions.create({
+      model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      messages: [{ role: 'system', content: request.system }, ...request.messages],
+      response_format: request.schema
+        ? {
+            type: 'json_schema',
+            json_schema: { name: request.schema.name, schema: request.schema.jsonSchema, strict: true },
+          }
+        : request.json
+          ? { type: 'json_object' }
+          : undefined,
+    });
+
+    const message = response.choices[0]?.message;
+    if (message?.refusal) {
+      throw new Error(`Request refused: ${message.refusal}`);
+    }
+
+    return {
+      provider: this.name,
+      model,
+      content: message?.content || '',
+      usage: {
+        inputTokens: response.usage?.prompt_tokens || 0,
+        outputTokens: response.usage?.completion_tokens || 0,
+      },
+    };
+  }
+}
+
+/**
+ * Anthropic messages. Structured requests force a single tool call whose input
+ * is the JSON schema, which is how Claude produces schema-shaped output.
+ */
+export class AnthropicLLMProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor() {
+    this.client = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+    });
+  }
+
+  isConfigured() {
+    return !!process.env.ANTHROPIC_API_KEY;
+  }
+
+  async complete(request: LLMRequest, model: string): Promise<LLMResponse> {
+    const { schema } = request;
+
+    const response = await this.client.messages.create({
+      model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      system: request.system,
+      messages: request.messages,
+      ...(schema && {
+        tools: [
+          {
+            name: schema.name,
+            description: schema.description,
+            input_schema: schema.jsonSchema as Anthropic.Tool.InputSchema,
+          },
+        ],
+        tool_choice: { type: 'tool' as const, name: schema.name },
+      }),
+    });
+
+    let content: string;
+    if (schema) {
+      const toolUse = response.content.find(
+        (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
+      );
+      if (!toolUse) {
+        throw new Error(`No structured output returned (stop reason: ${response.stop_reason})`);
+      }
+      content = JSON.stringify(toolUse.input);
+    } else {
+      content = response.content
+        .map((block) => (block.type === 'text' ? block.text : ''))
+        .join('');
+      // Claude has no JSON mode; take the outermost object from the reply
+      if (request.json) {
+        content = content.match(/\{[\s\S]*\}/)?.[0] || content;
+      }
+    }
+
+    return {
+      provider: this.name,
+      model,
+      content,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    };
+  }
+}
+
+/**
+ * Deterministic offline responses for tests and local development. Structured
+ * requests get a sample object built from the schema; token counts are estimated.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+
+  isConfigured() {
+    return true;
+  }
+
+  async complete(request: LLMRequest, model: string): Promise<LLMResponse> {
+    const content = request.schema
+      ? JSON.stringify(sampleFromSchema(request.schema.jsonSchema, request.schema.jsonSchema, 'value'))
+      : request.json
+        ? '{}'
+        : 'Mock response.';
+    const prompt = request.system + request.messages.map((message) => message.content).join('');
+
+    return {
+      provider: this.name,
+      model,
+      content,
+      usage: {
+        inputTokens: Math.ceil(prompt.length / 4),
+        outputTokens: Math.ceil(content.length / 4),
+      },
+    };
+  }
+}
+
+/**
+ * Build a provider by name
+ */
+export function getLLMProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAILLMProvider();
+    case 'anthropic':
+      return new AnthropicLLMProvider();
+    case 'mock':
+      return new MockLLMProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+/**
+ * Smallest plausible value for a JSON schema: one item per array, the first
+ * enum value, and a placeholder string naming the property
+ */
+function sampleFromSchema(schema: any, root: any, key: string): unknown {
+  if (schema.$ref) {
+    const path = String(schema.$ref).replace(/^#\/?/, '').split('/').filter(Boolean);
+    return sampleFromSchema(path.reduce((node, part) => node[part], root), root, key);
+  }
+  if (schema.anyOf) {
+    const option = schema.anyOf.find((s: any) => s.type !== 'null') || schema.anyOf[0];
+    return sampleFromSchema(option, root, key);
+  }
+  if (schema.enum) {
+    return schema.enum[0];
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([name, property]) => [
+          name,
+          sampleFromSchema(property, root, name),
+        ])
+      );
+    case 'array':
+      return schema.items ? [sampleFromSchema(schema.items, root, key)] : [];
+    case 'integer':
+    case 'number':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      return `Mock ${key}`;
+  }
+}
@@ -0,0 +1,156 @@
+import { db } from './db';
+import { getOrganizationSettings } from './organization-settings';
+import { DEFAULT_MODELS, getLLMProvider, LLMProviderName } from './llm-providers';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  system: string;
+  messages: LLMMessage[];
+  // Ask for a JSON object instead of free text
+  json?: boolean;
+  // Ask for a JSON object matching this schema
+  schema?: {
+    name: string;
+    description?: string;
+    jsonSchema: Record<string, unknown>;
+  };
+  maxTokens?: number;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  provider: LLMProviderName;
+  model: string;
+  content: string;     // Text, or the JSON object as a string for JSON requests
+  usage: LLMUsage;
+}
+
+/**
+ * A language model backend. Implementations make one request; fallback
+ * between providers and usage accounting happen here.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  isConfigured(): boolean;
+  complete(request: LLMRequest, model: string): Promise<LLMResponse>;
+}
+
+/**
+ * Who a call is made for, recorded with its usage
+ */
+export interface LLMCallContext {
+  organizationId: string;
+  purpose: string;        // e.g., 'analysis', 'form_population'
+  entityType?: string;
+  entityId?: string;
+  userId?: string;
+  provider?: LLMProviderName;   // Overrides the organization's preferred provider
+}
+
+// USD per million tokens
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-opus-4-20250514': { input: 15, output: 75 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  mock: { input: 0, output: 0 },
+};
+
+/**
+ * Cost of a call in USD, null when the model's pricing is unknown
+ */
+export function estimateCost(model: string, usage: LLMUsage): number | null {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return null;
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
+
+export class LLMUnavailableError extends Error {
+  constructor(public failures: { provider: LLMProviderName; model: string; error: string }[]) {
+    super(`All LLM providers failed: ${failures.map((f) => `${f.provider} (${f.model}): ${f.error}`).join('; ')}`);
+    this.name = 'LLMUnavailableError';
+  }
+}
+
+/**
+ * Send a request to the organization's preferred provider and model. If the
+ * call fails (including rate limits) and fallback is enabled, the other
+ * configured provider is tried. Every attempt is recorded as an LlmCall.
+ */
+export async function completeWithFallback(request: LLMRequest, context: LLMCallContext): Promise<LLMResponse> {
+  const { llm: settings = {} } = await getOrganizationSettings(context.organizationId);
+  const failures: { provider: LLMProviderName; model: string; error: string }[] = [];
+
+  for (const name of getProviderOrder(context.provider || settings.provider, settings.fallback !== false)) {
+    const provider = getLLMProvider(name);
+    const model = settings.models?.[name] || DEFAULT_MODELS[name];
+    const startedAt = Date.now();
+
+    try {
+      const response = await provider.complete(request, model);
+      await recordCall(context, { provider: name, model, usage: response.usage, latencyMs: Date.now() - startedAt });
+      return response;
+    } catch (error: any) {
+      const message = error?.message || 'Unknown error';
+      console.error(`LLM call to ${name} (${model}) failed:`, error);
+      await recordCall(context, { provider: name, model, latencyMs: Date.now() - startedAt, error: message });
+      failures.push({ provider: name, model, error: message });
+    }
+  }
+
+  throw new LLMUnavailableError(failures);
+}
+
+/**
+ * Preferred provider first, then the other hosted provider if it has an API
+ * key. The mock provider never falls back and is never a fallback target.
+ */
+function getProviderOrder(preferred: LLMProviderName | undefined, fallback: boolean): LLMProviderName[] {
+  const primary = preferred || (process.env.LLM_PROVIDER as LLMProviderName) || 'openai';
+  if (!fallback || primary === 'mock') {
+    return [primary];
+  }
+
+  const secondary: LLMProviderName = primary === 'openai' ? 'anthropic' : 'openai';
+  return getLLMProvider(secondary).isConfigured() ? [primary, secondary] : [primary];
+}
+
+async function recordCall(
+  context: LLMCallContext,
+  call: { provider: LLMProviderName; model: string; latencyMs: number; usage?: LLMUsage; error?: string }
+) {
+  try {
+    await db.llmCall.create({
+      data: {
+        organizationId: context.organizationId,
+        provider: call.provider,
+        model: call.model,
+        purpose: context.purpose,
+        success: !call.error,
+        error: call.error,
+        inputTokens: call.usage?.inputTokens || 0,
+        outputTokens: call.usage?.outputTokens || 0,
+        cost: call.usage ? estimateCost(call.model, call.usage) : 0,
+        latencyMs: call.latencyMs,
+        entityType: context.entityType,
+        entityId: context.entityId,
+        createdBy: context.userId,
+      },
+    });
+  } catch (error) {
+    // Usage accounting must never fail the call it describes
+    console.error('Failed to record LLM call:', error);
+  }
+}
@@ -0,0 +1,80 @@
+import dns from 'dns/promises';
+import net from 'net';
+
+/**
+ * Why a URL an organization configured must not be fetched from the server,
+ * or null if it may be: it has to be https and resolve only to public
+ * addresses, so settings can't be used to reach internal services or cloud
+ * metadata endpoints.
+ */
+export async function checkPublicHttpsUrl(value: unknown): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    return 'URL is not valid';
+  }
+
+  if (url.protocol !== 'https:') {
+    return 'URL must use https';
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = net.isIP(hostname)
+      ? [hostname]
+      : (await dns.lookup(hostname, { all: true })).map((result) => result.address);
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+
+  if (addresses.length === 0 || addresses.some((address) => !isPublicAddress(address))) {
+    return 'URL must point to a public address';
+  }
+
+  return null;
+}
+
+/**
+ * Whether an IP address is reachable on the public internet, i.e. not
+ * loopback, private, link-local, carrier-grade NAT, multicast or reserved
+ */
+export function isPublicAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return !(
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b < 128) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b < 32) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    );
+  }
+
+  if (net.isIPv6(address)) {
+    const normalized = address.toLowerCase();
+    // IPv4-mapped, written either way, e.g. ::ffff:127.0.0.1 or ::ffff:7f00:1
+    const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) {
+      return isPublicAddress(mapped[1]);
+    }
+    const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+      return isPublicAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+    }
+    return !(
+      normalized === '::' ||
+      normalized === '::1' ||
+      /^f[cd]/.test(normalized) ||
+      /^fe[89ab]/.test(normalized) ||
+      normalized.startsWith('ff')
+    );
+  }
+
+  return false;
+}
@@ -0,0 +1,279 @@
+/**
+ * Bundled Nice Classification data for the goods/services classifier: the class
+ * headings (abridged) and a selection of identifications in the style of the
+ * USPTO ID Manual. Text in braces is for the applicant to fill in, as in the ID
+ * Manual, e.g. "Printed books in the field of {indicate subject matter}".
+ */
+
+export interface NiceClass {
+  number: number;
+  kind: 'goods' | 'services';
+  heading: string;
+}
+
+export interface Identification {
+  niceClass: number;
+  description: string;
+}
+
+export const NICE_CLASSES: NiceClass[] = [
+  { number: 1, kind: 'goods', heading: 'Chemicals for use in industry, science and agriculture; unprocessed plastics; fertilizers; adhesives for industrial purposes' },
+  { number: 2, kind: 'goods', heading: 'Paints, varnishes, lacquers; preservatives against rust; colorants; inks for printing' },
+  { number: 3, kind: 'goods', heading: 'Non-medicated cosmetics and toiletries; dentifrices; perfumery, essential oils; cleaning and bleaching preparations' },
+  { number: 4, kind: 'goods', heading: 'Industrial oils and greases; lubricants; fuels; candles and wicks for lighting' },
+  { number: 5, kind: 'goods', heading: 'Pharmaceuticals, medical and veterinary preparations; dietary supplements; plasters and bandages; disinfectants; pesticides' },
+  { number: 6, kind: 'goods', heading: 'Common metals and their alloys; metal building materials; small items of metal hardware; safes' },
+  { number: 7, kind: 'goods', heading: 'Machines, machine tools, power-operated tools; motors and engines, except for land vehicles; agricultural implements' },
+  { number: 8, kind: 'goods', heading: 'Hand tools and implements, hand-operated; cutlery; razors' },
+  { number: 9, kind: 'goods', heading: 'Scientific, audiovisual, photographic and measuring apparatus; computers and computer software; recorded and downloadable media; protective equipment' },
+  { number: 10, kind: 'goods', heading: 'Surgical, medical, dental and veterinary apparatus and instruments; orthopedic articles; suture materials' },
+  { number: 11, kind: 'goods', heading: 'Apparatus for lighting, heating, cooling, cooking, drying, ventilating, water supply and sanitary purposes' },
+  { number: 12, kind: 'goods', heading: 'Vehicles; apparatus for locomotion by land, air or water' },
+  { number: 13, kind: 'goods', heading: 'Firearms; ammunition and projectiles; explosives; fireworks' },
+  { number: 14, kind: 'goods', heading: 'Precious metals; jewelry, precious and semi-precious stones; horological and chronometric instruments' },
+  { number: 15, kind: 'goods', heading: 'Musical instruments; music stands; conductors\' batons' },
+  { number: 16, kind: 'goods', heading: 'Paper and cardboard; printed matter; stationery and office requisites; artists\' materials; plastic materials for wrapping and packaging' },
+  { number: 17, kind: 'goods', heading: 'Unprocessed and semi-processed rubber and plastics; packing, stopping and insulating materials; flexible pipes, not of metal' },
+  { number: 18, kind: 'goods', heading: 'Leather and imitations of leather; luggage and carrying bags; umbrellas; harness and saddlery; collars and leashes for animals' },
+  { number: 19, kind: 'goods', heading: 'Building materials, not of metal; rigid pipes, not of metal, for building; asphalt, pitch; transportable buildings, not of metal' },
+  { number: 20, kind: 'goods', heading: 'Furniture, mirrors, picture frames; containers, not of metal, for storage or transport; bone, horn, shell' },
+  { number: 21, kind: 'goods', heading: 'Household or kitchen utensils and containers; cookware and tableware; combs and sponges; brushes; glassware, porcelain and earthenware' },
+  { number: 22, kind: 'goods', heading: 'Ropes and string; nets; tents and tarpaulins; awnings; sails; sacks for bulk materials; padding and stuffing materials' },
+  { number: 23, kind: 'goods', heading: 'Yarns and threads for textile use' },
+  { number: 24, kind: 'goods', heading: 'Textiles and substitutes for textiles; household linen; curtains of textile or plastic' },
+  { number: 25, kind: 'goods', heading: 'Clothing, footwear, headwear' },
+  { number: 26, kind: 'goods', heading: 'Lace, braid and embroidery; buttons, hooks and eyes, pins and needles; artificial flowers; hair decorations' },
+  { number: 27, kind: 'goods', heading: 'Carpets, rugs, mats, linoleum and other materials for covering floors; wall hangings, not of textile' },
+  { number: 28, kind: 'goods', heading: 'Games, toys and playthings; video game apparatus; gymnastic and sporting articles; decorations for Christmas trees' },
+  { number: 29, kind: 'goods', heading: 'Meat, fish, poultry and game; preserved, dried and cooked fruits and vegetables; jellies, jams; eggs; milk and dairy products; edible oils and fats' },
+  { number: 30, kind: 'goods', heading: 'Coffee, tea, cocoa; rice, pasta; bread, pastries and confectionery; sugar, honey; salt, spices, sauces and other condiments' },
+  { number: 31, kind: 'goods', heading: 'Raw and unprocessed agricultural and horticultural products; fresh fruits and vegetables; seeds; live plants and flowers; foodstuffs for animals' },
+  { number: 32, kind: 'goods', heading: 'Beers; non-alcoholic beverages; mineral and aerated waters; fruit beverages and fruit juices; syrups for making beverages' },
+  { number: 33, kind: 'goods', heading: 'Alcoholic beverages, except beers; alcoholic preparations for making beverages' },
+  { number: 34, kind: 'goods', heading: 'Tobacco and tobacco substitutes; cigarettes and cigars; electronic cigarettes; smokers\' articles; matches' },
+  { number: 35, kind: 'services', heading: 'Advertising; business management, organization and administration; office functions; retail store services' },
+  { number: 36, kind: 'services', heading: 'Financial, monetary and banking services; insurance services; real estate affairs' },
+  { number: 37, kind: 'services', heading: 'Construction services; installation and repair services; mining extraction, oil and gas drilling' },
+  { number: 38, kind: 'services', heading: 'Telecommunications services' },
+  { number: 39, kind: 'services', heading: 'Transport; packaging and storage of goods; travel arrangement' },
+  { number: 40, kind: 'services', heading: 'Treatment of materials; recycling of waste; custom manufacturing; printing services; water treatment' },
+  { number: 41, kind: 'services', heading: 'Education; providing of training; entertainment; sporting and cultural activities' },
+  { number: 42, kind: 'services', heading: 'Scientific and technological services and research; industrial analysis; design and development of computer hardware and software; software as a service' },
+  { number: 43, kind: 'services', heading: 'Services for providing food and drink; temporary accommodation' },
+  { number: 44, kind: 'services', heading: 'Medical services; veterinary services; hygienic and beauty care for human beings or animals; agriculture, horticulture and forestry services' },
+  { number: 45, kind: 'services', heading: 'Legal services; security services for the protection of property and individuals; personal and social services' },
+];
+
+const ids = (niceClass: number, descriptions: string[]): Identification[] =>
+  descriptions.map((description) => ({ niceClass, description }));
+
+export const IDENTIFICATIONS: Identification[] = [
+  ...ids(1, ['Fertilizers', 'Potting soil', 'Adhesives for industrial purposes', 'Unprocessed plastics in all forms', 'Chemical additives for use in the manufacture of {indicate product}']),
+  ...ids(2, ['Exterior paints', 'Interior paints', 'Wood stains', 'Printing ink', 'Anti-rust coatings']),
+  ...ids(3, [
+    'Cosmetics',
+    'Non-medicated skin care preparations',
+    'Shampoos',
+    'Hair conditioners',
+    'Perfumes',
+    'Essential oils for aromatherapy use',
+    'Toothpaste',
+    'Lip balm',
+    'Non-medicated soaps for body care',
+    'Laundry detergents',
+  ]),
+  ...ids(4, ['Candles', 'Lubricating oils', 'Motor fuel', 'Firelighters']),
+  ...ids(5, [
+    'Dietary supplements',
+    'Vitamin supplements',
+    'Protein supplements',
+    'Pharmaceutical preparations for the treatment of {indicate disease or condition}',
+    'Medicated skin care preparations',
+    'Adhesive bandages for skin wounds',
+    'Disinfectants',
+    'Insecticides',
+  ]),
+  ...ids(6, ['Metal hardware, namely, screws, nails, bolts and hinges', 'Metal door frames', 'Metal roofing', 'Metal key rings', 'Safes']),
+  ...ids(7, ['Electric food processors', 'Lawn mowers', 'Power drills', 'Industrial robots', 'Dishwashers', 'Washing machines', '3D printers']),
+  ...ids(8, ['Hand tools, namely, {indicate specific hand tools}', 'Kitchen knives', 'Razors', 'Table cutlery, namely, knives, forks and spoons', 'Garden shears']),
+  ...ids(9, [
+    'Downloadable mobile applications for {indicate the function of the programs}',
+    'Recorded computer software for {indicate the function of the programs}',
+    'Computer hardware',
+    'Smartphones',
+    'Smartwatches',
+    'Headphones',
+    'Cameras',
+    'Batteries',
+    'Battery chargers for mobile phones',
+    'Cell phone cases',
+    'Eyeglasses',
+    'Sunglasses',
+    'Protective helmets for sports',
+    'Downloadable electronic publications in the nature of {indicate type, e.g., books, magazines} in the field of {indicate subject matter}',
+  ]),
+  ...ids(10, ['Surgical instruments', 'Hearing aids', 'Orthopedic braces', 'Blood pressure monitors', 'Medical thermometers', 'Electric massage apparatus for household use']),
+  ...ids(11, [
+    'LED light bulbs',
+    'Electric lamps',
+    'Air purifiers',
+    'Air conditioners',
+    'Electric space heaters',
+    'Electric coffee makers',
+    'Water filtering units for domestic use',
+    'Toilets',
+  ]),
+  ...ids(12, ['Bicycles', 'Automobiles', 'Motorized scooters', 'Camera drones', 'Tires for automobiles', 'Baby strollers']),
+  ...ids(13, ['Firearms', 'Ammunition', 'Fireworks']),
+  ...ids(14, ['Jewelry', 'Necklaces', 'Rings being jewelry', 'Watches', 'Key rings of precious metal']),
+  ...ids(15, ['Musical instruments', 'Guitars', 'Guitar strings', 'Drums being musical instruments']),
+  ...ids(16, [
+    'Printed books in the field of {indicate subject matter}',
+    'Printed periodicals in the field of {indicate subject matter}',
+    'Notebooks',
+    'Stickers',
+    'Greeting cards',
+    'Posters',
+    'Calendars',
+    'Pens',
+    'Paper bags',
+  ]),
+  ...ids(17, ['Garden hoses', 'Insulating tape', 'Plastic film other than for wrapping', 'Rubber seals for {indicate use}']),
+  ...ids(18, ['Handbags', 'Backpacks', 'Tote bags', 'Wallets', 'Luggage', 'Umbrellas', 'Leashes for animals', 'Collars for pets']),
+  ...ids(19, ['Wood flooring', 'Ceramic tiles for floors and facings', 'Cement', 'Non-metal fencing panels']),
+  ...ids(20, ['Furniture', 'Office furniture', 'Mattresses', 'Pillows', 'Mirrors', 'Picture frames', 'Pet beds']),
+  ...ids(21, [
+    'Cookware, namely, pots and pans',
+    'Drinking glasses',
+    'Mugs',
+    'Water bottles sold empty',
+    'Lunch boxes',
+    'Cutting boards for the kitchen',
+    'Toothbrushes',
+    'Combs',
+  ]),
+  ...ids(22, ['Tents', 'Hammocks', 'Ropes', 'Tarpaulins']),
+  ...ids(23, ['Yarns', 'Threads for textile use']),
+  ...ids(24, ['Bed sheets', 'Towels', 'Blankets', 'Curtains', 'Fabrics for textile use']),
+  ...ids(25, [
+    'Clothing, namely, {indicate specific items of clothing}',
+    'T-shirts',
+    'Shirts',
+    'Hooded sweatshirts',
+    'Jackets',
+    'Pants',
+    'Dresses',
+    'Socks',
+    'Swimwear',
+    'Scarves',
+    'Hats',
+    'Caps being headwear',
+    'Footwear',
+    'Athletic footwear',
+  ]),
+  ...ids(26, ['Buttons', 'Hair clips', 'Embroidered patches for clothing', 'Ribbons for the hair']),
+  ...ids(27, ['Rugs', 'Carpets', 'Yoga mats', 'Wallpaper']),
+  ...ids(28, [
+    'Stuffed toys',
+    'Dolls',
+    'Board games',
+    'Jigsaw puzzles',
+    'Playing cards',
+    'Video game consoles',
+    'Sports balls',
+    'Golf clubs',
+    'Skateboards',
+    'Fishing tackle',
+    'Christmas tree ornaments',
+  ]),
+  ...ids(29, ['Cheese', 'Yogurt', 'Milk', 'Jams', 'Beef jerky', 'Potato chips', 'Nut butters', 'Processed nuts']),
+  ...ids(30, ['Coffee', 'Tea', 'Chocolate', 'Candy', 'Cookies', 'Bread', 'Pasta', 'Granola', 'Honey', 'Spices', 'Hot sauce', 'Ice cream']),
+  ...ids(31, ['Fresh fruits', 'Fresh vegetables', 'Live plants', 'Natural flowers', 'Plant seeds', 'Pet food', 'Edible pet treats']),
+  ...ids(32, ['Beer', 'Energy drinks', 'Isotonic beverages', 'Bottled water', 'Fruit juices', 'Soft drinks']),
+  ...ids(33, ['Wine', 'Distilled spirits', 'Vodka', 'Whiskey', 'Hard cider', 'Prepared alcoholic cocktails']),
+  ...ids(34, ['Cigarettes', 'Cigars', 'Tobacco', 'Electronic cigarettes', 'Lighters for smokers']),
+  ...ids(35, [
+    'Advertising agency services',
+    'Promoting the goods and services of others',
+    'Marketing services in the field of {indicate field}',
+    'Business consulting services',
+    'Business management services',
+    'Accounting services',
+    'Employment agency services',
+    'Retail store services featuring {indicate field or type of goods}',
+    'Online retail store services featuring {indicate field or type of goods}',
+    'Providing an online marketplace for buyers and sellers of goods and services',
+  ]),
+  ...ids(36, [
+    'Banking services',
+    'Insurance brokerage',
+    'Real estate brokerage',
+    'Financial investment in the field of {indicate field}',
+    'Financial consultation',
+    'Charitable fundraising services',
+    'Cryptocurrency exchange services',
+  ]),
+  ...ids(37, [
+    'Building construction services',
+    'Plumbing services',
+    'Installation of solar energy panels',
+    'Repair of computer hardware',
+    'Vehicle maintenance and repair',
+    'Janitorial services',
+    'Carpet cleaning',
+  ]),
+  ...ids(38, [
+    'Streaming of audio and video material on the Internet',
+    'Providing access to the Internet',
+    'Providing internet chatrooms',
+    'Electronic mail services',
+    'Video conferencing services',
+    'Podcasting services',
+  ]),
+  ...ids(39, ['Freight forwarding', 'Courier services', 'Delivery of goods by truck', 'Warehouse storage services', 'Taxi transport', 'Arranging travel tours']),
+  ...ids(40, ['Custom manufacturing of {indicate goods}', 'Custom 3D printing for others', 'Recycling of waste', 'Water treatment services', 'Tailoring services', 'Engraving']),
+  ...ids(41, [
+    'Educational services, namely, conducting classes, seminars and workshops in the field of {indicate subject matter}',
+    'Entertainment services, namely, {indicate specific entertainment services}',
+    'Providing non-downloadable videos in the field of {indicate subject matter} via the Internet',
+    'Arranging and conducting conferences in the field of {indicate subject matter}',
+    'Personal fitness training services',
+    'Yoga instruction',
+    'Publication of books',
+    'Production of podcasts',
+  ]),
+  ...ids(42, [
+    'Software as a service (SAAS) services featuring software for {indicate the function of the software}',
+    'Platform as a service (PAAS) featuring computer software platforms for {indicate the function of the software}',
+    'Providing temporary use of non-downloadable software for {indicate the function of the software}',
+    'Design and development of computer software',
+    'Designing websites for others',
+    'Hosting of digital content on the Internet',
+    'Information technology consulting services',
+    'Data encryption services',
+    'Scientific research in the field of {indicate field}',
+    'Engineering services in the field of {indicate field}',
+    'Industrial design services',
+  ]),
+  ...ids(43, ['Restaurant services', 'Take-out restaurant services', 'Cafe services', 'Bar services', 'Catering services', 'Hotel services', 'Temporary accommodation reservation services']),
+  ...ids(44, [
+    'Medical services',
+    'Telemedicine services',
+    'Dentistry services',
+    'Veterinary services',
+    'Beauty salon services',
+    'Hair salon services',
+    'Massage',
+    'Day spa services, namely, {indicate specific services}',
+    'Landscape gardening',
+  ]),
+  ...ids(45, [
+    'Legal services',
+    'Licensing of intellectual property',
+    'Intellectual property consultation',
+    'Security guard services',
+    'Online social networking services',
+    'Dating services',
+    'Funeral services',
+  ]),
+];
@@ -0,0 +1,36 @@
+import { Prisma } from '@prisma/client';
+import { db } from './db';
+
+export interface NotifyParams {
+  organizationId: string;
+  userIds: string[];
+  type: string;
+  title: string;
+  body?: string;
+  link?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Create the same in-app notification for each recipient
+ */
+export async function notifyUsers(params: NotifyParams, client: Prisma.TransactionClient = db) {
+  const userIds = Array.from(new Set(params.userIds));
+  if (userIds.length === 0) {
+    return 0;
+  }
+
+  const { count } = await client.notification.createMany({
+    data: userIds.map((userId) => ({
+      organizationId: params.organizationId,
+      userId,
+      type: params.type,
+      title: params.title,
+      body: params.body,
+      link: params.link,
+      metadata: (params.metadata || {}) as Prisma.InputJsonValue,
+    })),
+  });
+
+  return count;
+}
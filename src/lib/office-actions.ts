@@ -0,0 +1,191 @@
+import { z } from 'zod';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import pdfParse from 'pdf-parse';
+import { formatValidationIssues } from './analysis-schema';
+import { AnalysisValidationError } from './analysis';
+import { completeWithFallback, LLMMessage } from './llm';
+import { LLMProviderName } from './llm-providers';
+import { FormTemplate, OFFICE_ACTION_TYPES, REJECTION_TYPES, buildFormData } from './form-templates';
+import { formatDate, parseDate } from './docketing';
+
+// Model calls per office action, including repairs of invalid output
+const MAX_EXTRACTION_ATTEMPTS = 3;
+
+// Fewer characters than this means the PDF is a scan without a text layer
+const MIN_TEXT_LENGTH = 200;
+
+// Long actions are cut here; the rejections come well before the end
+const MAX_TEXT_LENGTH = 120000;
+
+const OFFICE_ACTION_PROMPT = `You are an expert US patent paralegal. Read the following USPTO office action and extract what is needed to prepare the response.
+
+Record:
+1. **Bibliographic data**: Application number, examiner, art unit, and the notification or mailing date
+2. **Action type**: Whether the action is a non-final or final rejection, restriction requirement, Ex parte Quayle action or advisory action
+3. **Response period**: The shortened statutory period for reply in months, if the action sets one
+4. **Claim status**: The pending and rejected claims from the office action summary
+5. **Rejections**: Every rejection and objection in the detailed action, in order. Classify each by its statutory ground: § 101, § 102, § 103, § 112(a) (written description or enablement), § 112(b) (indefiniteness), § 112(d) (improper dependent claims), double patenting, or an objection to the claims, specification or drawings. Give the claims it applies to, each reference the examiner relies on as the examiner names it together with its number, and a short summary of the examiner's reasoning.
+
+Use null or an empty list for anything the office action does not state. Never invent references, claim numbers or dates.`;
+
+const OFFICE_ACTION_SCHEMA_NAME = 'record_office_action';
+
+export const officeActionSchema = z.object({
+  applicationNumber: z.string().nullable().describe('e.g. 16/123,456'),
+  examiner: z.string().nullable(),
+  artUnit: z.string().nullable(),
+  actionType: z.enum(OFFICE_ACTION_TYPES),
+  mailingDate: z.string().nullable().describe('Notification or mailing date, YYYY-MM-DD'),
+  responseMonths: z.number().int().nullable().describe('Shortened statutory period for reply, in months'),
+  claimsPending: z.string().nullable().describe('e.g. "1-20"'),
+  claimsRejected: z.string().nullable().describe('e.g. "1-8, 11-20"'),
+  rejections: z.array(
+    z.object({
+      type: z.enum(REJECTION_TYPES),
+      claims: z.string().describe('Claims the rejection or objection applies to, e.g. "1-5, 9"'),
+      references: z.array(z.string()).describe('Cited references, e.g. "Smith (US 9,123,456 B2)"'),
+      reasoning: z.string().describe("Short summary of the examiner's reasoning"),
+    })
+  ),
+});
+
+export type OfficeAction = z.infer<typeof officeActionSchema>;
+
+const officeActionJsonSchema = zodResponseFormat(officeActionSchema, OFFICE_ACTION_SCHEMA_NAME).json_schema.schema as Record<string, unknown>;
+
+export class OfficeActionTextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OfficeActionTextError';
+  }
+}
+
+/**
+ * Extract the text layer of an office action PDF. Nothing leaves the server
+ * here; scanned actions without a text layer have to be OCRed first.
+ */
+export async function extractPdfText(pdf: Buffer): Promise<{ text: string; pages: number }> {
+  let result: Awaited<ReturnType<typeof pdfParse>>;
+  try {
+    // pdf.js misreads Node Buffers and needs a plain Uint8Array, which the typings don't allow for
+    result = await pdfParse(new Uint8Array(pdf) as Buffer);
+  } catch {
+    throw new OfficeActionTextError('The file could not be read as a PDF');
+  }
+
+  const text = result.text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  if (text.replace(/\s/g, '').length < MIN_TEXT_LENGTH) {
+    throw new OfficeActionTextError('The PDF has no text layer. Run it through OCR and upload it again.');
+  }
+
+  return { text: text.slice(0, MAX_TEXT_LENGTH), pages: result.numpages };
+}
+
+/**
+ * Classify the rejections in an office action's text and return them with the
+ * provider and model that produced them. Invalid output is sent back to the
+ * model with the validation errors to repair, as for recording analysis.
+ */
+export async function extractOfficeAction(
+  text: string,
+  context: {
+    organizationId: string;
+    documentId: string;
+    userId?: string;
+    provider?: LLMProviderName;
+  }
+): Promise<{ officeAction: OfficeAction; provider: LLMProviderName; model: string }> {
+  const messages: LLMMessage[] = [{ role: 'user', content: `Office action:\n${text}` }];
+  let provider = context.provider;
+  let issues = '';
+
+  for (let attempt = 1; attempt <= MAX_EXTRACTION_ATTEMPTS; attempt++) {
+    const response = await completeWithFallback(
+      {
+        system: OFFICE_ACTION_PROMPT,
+        messages,
+        schema: {
+          name: OFFICE_ACTION_SCHEMA_NAME,
+          description: 'Record the rejections and bibliographic data of the office action',
+          jsonSchema: officeActionJsonSchema,
+        },
+      },
+      {
+        organizationId: context.organizationId,
+        purpose: 'office_action',
+        entityType: 'document',
+        entityId: context.documentId,
+        userId: context.userId,
+        provider,
+      }
+    );
+
+    const result = validateOfficeAction(response.content);
+    if (result.officeAction) {
+      return { officeAction: result.officeAction, provider: response.provider, model: response.model };
+    }
+
+    provider = response.provider;
+    issues = result.issues;
+    messages.push(
+      { role: 'assistant', content: response.content },
+      { role: 'user', content: `Your answer did not match the required schema:\n${issues}\n\nReturn the complete answer again, corrected.` }
+    );
+  }
+
+  throw new AnalysisValidationError(`Office action did not match the schema after ${MAX_EXTRACTION_ATTEMPTS} attempts`, issues);
+}
+
+/**
+ * Form.data for an office action response. Each rejection gets an argument to
+ * write; amendments are left to the attorney.
+ */
+export function buildResponseData(
+  template: FormTemplate,
+  officeAction: OfficeAction,
+  responseDueDate: Date | null
+): Record<string, unknown> {
+  const mailingDate = parseDate(officeAction.mailingDate);
+
+  return {
+    ...buildFormData(template),
+    applicationNumber: officeAction.applicationNumber || '',
+    examiner: officeAction.examiner || '',
+    artUnit: officeAction.artUnit || '',
+    actionType: officeAction.actionType,
+    mailingDate: mailingDate ? formatDate(mailingDate) : '',
+    responseDueDate: responseDueDate ? formatDate(responseDueDate) : '',
+    claimsPending: officeAction.claimsPending || '',
+    claimsRejected: officeAction.claimsRejected || '',
+    rejections: officeAction.rejections.map((rejection) => ({
+      rejectionType: rejection.type,
+      rejectedClaims: rejection.claims,
+      references: rejection.references.join('\n'),
+      examinerReasoning: rejection.reasoning,
+    })),
+    arguments: officeAction.rejections.map((rejection) => ({
+      addresses: `${rejection.type} ${rejection.type === 'Objection' ? 'to' : 'rejection of'} claims ${rejection.claims}`,
+      argument: '',
+    })),
+  };
+}
+
+function validateOfficeAction(output: string): { officeAction: OfficeAction | null; issues: string } {
+  let value: unknown;
+  try {
+    value = JSON.parse(output);
+  } catch {
+    return { officeAction: null, issues: '- (root): Response was not valid JSON' };
+  }
+
+  const result = officeActionSchema.safeParse(value);
+  if (!result.success) {
+    return { officeAction: null, issues: formatValidationIssues(result.error) };
+  }
+
+  return { officeAction: result.data, issues: '' };
+}
@@ -0,0 +1,48 @@
+import { Prisma } from '@prisma/client';
+import { db } from './db';
+import { TranscriptionSettings } from './transcription-providers';
+import { LLMSettings } from './llm-providers';
+import type { ReminderSettings } from './deadline-reminders';
+
+/**
+ * Shape of Organization.settings
+ */
+export interface OrganizationSettings {
+  transcription?: TranscriptionSettings;
+  llm?: LLMSettings;
+  reminders?: ReminderSettings;
+}
+
+/**
+ * Get an organization's settings, empty if it has none
+ */
+export async function getOrganizationSettings(organizationId: string): Promise<OrganizationSettings> {
+  const organization = await db.organization.findUnique({
+    where: { id: organizationId },
+    select: { settings: true },
+  });
+
+  const settings = organization?.settings;
+  return settings && typeof settings === 'object' && !Array.isArray(settings)
+    ? (settings as OrganizationSettings)
+    : {};
+}
+
+/**
+ * Replace one section of an organization's settings, leaving the others untouched
+ */
+export async function updateOrganizationSettings<K extends keyof OrganizationSettings>(
+  organizationId: string,
+  section: K,
+  value: OrganizationSettings[K]
+): Promise<OrganizationSettings> {
+  const settings = await getOrganizationSettings(organizationId);
+  const updated = { ...settings, [section]: value };
+
+  await db.organization.update({
+    where: { id: organizationId },
+    data: { settings: updated as Prisma.InputJsonValue },
+  });
+
+  return updated;
+}
@@ -0,0 +1,257 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+
+/**
+ * Content of a generated document, laid out top to bottom
+ */
+export type PdfBlock =
+  | { type: 'title'; text: string; subtitle?: string }
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'fields'; rows: [label: string, value: string][] }
+  | { type: 'table'; columns: string[]; rows: string[][] }
+  | { type: 'signatures'; parties: { role: string; name: string }[] }
+  | { type: 'pageBreak' };
+
+export interface PdfDocumentSpec {
+  title: string;
+  subject?: string;
+  footer: string;
+  // Written as the creation date so the same input always renders the same bytes
+  date: Date;
+  blocks: PdfBlock[];
+}
+
+const PAGE_WIDTH = 612; // US Letter
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = 40;
+
+const TEXT_SIZE = 10;
+const LINE_HEIGHT = 14;
+const LABEL_WIDTH = 170;
+const CELL_PADDING = 4;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const RULE_COLOR = rgb(0.75, 0.75, 0.75);
+
+/**
+ * Render blocks to a PDF with the standard Helvetica fonts. Output depends only on
+ * the spec: metadata dates come from spec.date and nothing else varies between runs.
+ */
+export async function renderPdf(spec: PdfDocumentSpec): Promise<Buffer> {
+  const pdf = await PDFDocument.create({ updateMetadata: false });
+  pdf.setTitle(spec.title);
+  if (spec.subject) pdf.setSubject(spec.subject);
+  pdf.setCreator('IP Paralegal');
+  pdf.setProducer('IP Paralegal');
+  pdf.setCreationDate(spec.date);
+  pdf.setModificationDate(spec.date);
+
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const layout = new Layout(pdf, regular, bold);
+
+  for (const block of spec.blocks) {
+    layout.render(block);
+  }
+
+  // Footers go on last, once the page count is known
+  const pages = pdf.getPages();
+  pages.forEach((page, index) => {
+    const footer = layout.encode(`${spec.footer}  |  Page ${index + 1} of ${pages.length}`);
+    page.drawText(footer, { x: MARGIN, y: FOOTER_Y, size: 8, font: regular, color: MUTED_COLOR });
+  });
+
+  return Buffer.from(await pdf.save({ useObjectStreams: false }));
+}
+
+class Layout {
+  private page!: PDFPage;
+  private y = 0;
+  private readonly supported: Set<number>;
+
+  constructor(
+    private readonly pdf: PDFDocument,
+    private readonly regular: PDFFont,
+    private readonly bold: PDFFont
+  ) {
+    this.supported = new Set(regular.getCharacterSet());
+    this.addPage();
+  }
+
+  render(block: PdfBlock) {
+    switch (block.type) {
+      case 'title':
+        this.text(block.text, { font: this.bold, size: 16 });
+        if (block.subtitle) this.text(block.subtitle, { color: MUTED_COLOR });
+        this.y -= LINE_HEIGHT / 2;
+        this.rule();
+        break;
+
+      case 'heading':
+        this.ensureSpace(LINE_HEIGHT * 3);
+        this.y -= LINE_HEIGHT / 2;
+        this.text(block.text, { font: this.bold, size: 12 });
+        this.y -= 4;
+        break;
+
+      case 'paragraph':
+        for (const paragraph of block.text.split(/\n{2,}/)) {
+          this.text(paragraph);
+          this.y -= LINE_HEIGHT / 2;
+        }
+        break;
+
+      case 'fields':
+        for (const [label, value] of block.rows) {
+          const labelLines = this.wrap(label, this.bold, TEXT_SIZE, LABEL_WIDTH - 10);
+          const valueLines = this.wrap(value, this.regular, TEXT_SIZE, CONTENT_WIDTH - LABEL_WIDTH);
+
+          for (let i = 0; i < Math.max(labelLines.length, valueLines.length); i++) {
+            this.ensureSpace(LINE_HEIGHT);
+            if (labelLines[i]) this.draw(labelLines[i], MARGIN, this.y, this.bold, TEXT_SIZE);
+            if (valueLines[i]) this.draw(valueLines[i], MARGIN + LABEL_WIDTH, this.y, this.regular, TEXT_SIZE);
+            this.y -= LINE_HEIGHT;
+          }
+          this.y -= 2;
+        }
+        break;
+
+      case 'table':
+        this.table(block.columns, block.rows);
+        break;
+
+      case 'signatures':
+        for (const party of block.parties) {
+          this.ensureSpace(LINE_HEIGHT * 6);
+          this.y -= LINE_HEIGHT * 2;
+          this.page.drawLine({
+            start: { x: MARGIN, y: this.y },
+            end: { x: MARGIN + 240, y: this.y },
+            thickness: 0.75,
+            color: TEXT_COLOR,
+          });
+          this.draw('Date:', MARGIN + 280, this.y + 2, this.regular, TEXT_SIZE);
+          this.page.drawLine({
+            start: { x: MARGIN + 310, y: this.y },
+            end: { x: MARGIN + CONTENT_WIDTH, y: this.y },
+            thickness: 0.75,
+            color: TEXT_COLOR,
+          });
+          this.y -= LINE_HEIGHT;
+          this.draw(party.name || ' ', MARGIN, this.y, this.bold, TEXT_SIZE);
+          this.y -= LINE_HEIGHT;
+          this.draw(party.role, MARGIN, this.y, this.regular, TEXT_SIZE, MUTED_COLOR);
+          this.y -= LINE_HEIGHT;
+        }
+        break;
+
+      case 'pageBreak':
+        this.addPage();
+        break;
+    }
+  }
+
+  encode(text: string): string {
+    return Array.from(text.normalize('NFC'))
+      .map((char) => (this.supported.has(char.codePointAt(0)!) ? char : '?'))
+      .join('');
+  }
+
+  private addPage() {
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < MARGIN) this.addPage();
+  }
+
+  private text(text: string, options: { font?: PDFFont; size?: number; color?: ReturnType<typeof rgb> } = {}) {
+    const font = options.font || this.regular;
+    const size = options.size || TEXT_SIZE;
+    const lineHeight = Math.max(LINE_HEIGHT, size + 4);
+
+    for (const line of this.wrap(text, font, size, CONTENT_WIDTH)) {
+      this.ensureSpace(lineHeight);
+      this.draw(line, MARGIN, this.y, font, size, options.color);
+      this.y -= lineHeight;
+    }
+  }
+
+  private table(columns: string[], rows: string[][]) {
+    const width = CONTENT_WIDTH / columns.length;
+    const drawRow = (cells: string[], font: PDFFont) => {
+      const lines = cells.map((cell) => this.wrap(cell, font, TEXT_SIZE, width - CELL_PADDING * 2));
+      const height = Math.max(...lines.map((cellLines) => cellLines.length)) * LINE_HEIGHT + CELL_PADDING;
+      this.ensureSpace(height + LINE_HEIGHT);
+
+      lines.forEach((cellLines, column) =>
+        cellLines.forEach((line, i) =>
+          this.draw(line, MARGIN + column * width + CELL_PADDING, this.y - i * LINE_HEIGHT, font, TEXT_SIZE)
+        )
+      );
+      this.y -= height;
+      this.page.drawLine({
+        start: { x: MARGIN, y: this.y + LINE_HEIGHT - 2 },
+        end: { x: MARGIN + CONTENT_WIDTH, y: this.y + LINE_HEIGHT - 2 },
+        thickness: 0.5,
+        color: RULE_COLOR,
+      });
+    };
+
+    drawRow(columns, this.bold);
+    if (rows.length === 0) {
+      this.text('None', { color: MUTED_COLOR });
+    }
+    rows.forEach((row) => drawRow(row, this.regular));
+    this.y -= LINE_HEIGHT / 2;
+  }
+
+  private rule() {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y + LINE_HEIGHT / 2 },
+      end: { x: MARGIN + CONTENT_WIDTH, y: this.y + LINE_HEIGHT / 2 },
+      thickness: 1,
+      color: RULE_COLOR,
+    });
+    this.y -= LINE_HEIGHT / 2;
+  }
+
+  private draw(text: string, x: number, y: number, font: PDFFont, size: number, color = TEXT_COLOR) {
+    this.page.drawText(text, { x, y, size, font, color });
+  }
+
+  /**
+   * Split text into lines that fit the width, breaking on spaces and, for
+   * words longer than a line, inside the word
+   */
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of this.encode(text).split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= width) {
+          line = candidate;
+          continue;
+        }
+        if (line) lines.push(line);
+
+        line = word;
+        while (font.widthOfTextAtSize(line, size) > width) {
+          let cut = line.length - 1;
+          while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > width) cut--;
+          lines.push(line.slice(0, cut));
+          line = line.slice(cut);
+        }
+      }
+      lines.push(line);
+    }
+
+    return lines;
+  }
+}
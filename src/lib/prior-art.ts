@@ -0,0 +1,271 @@
+import { Prisma, PriorArtCategory, PriorArtReference } from '@prisma/client';
+import { db } from './db';
+import { FormTemplate, IDS_REFERENCE_CATEGORIES, buildFormData } from './form-templates';
+import { AnalysisResult } from './analysis-schema';
+import { OfficeAction } from './office-actions';
+import { formatDate } from './docketing';
+
+export interface PatentReference {
+  category: Exclude<PriorArtCategory, 'NON_PATENT_LITERATURE'>;
+  country: string;
+  number: string;             // Without separators, e.g. 9123456, D912345 or 20190123456
+  kindCode: string | null;
+  key: string;
+  text: string;               // The text the number was read from
+}
+
+export interface PriorArtCitation {
+  reference: PatentReference | { category: 'NON_PATENT_LITERATURE'; key: string };
+  citation: string;
+  excerpt?: string | null;
+  recordingId?: string;
+  documentId?: string;
+}
+
+// Order of the parts of an SB/08 listing
+export const PRIOR_ART_CATEGORY_LABELS: Record<PriorArtCategory, (typeof IDS_REFERENCE_CATEGORIES)[number]> = {
+  US_PATENT: 'U.S. Patent',
+  US_PUBLICATION: 'U.S. Patent Application Publication',
+  FOREIGN_PATENT: 'Foreign Patent Document',
+  NON_PATENT_LITERATURE: 'Non-Patent Literature',
+};
+
+// "US 2019/0123456 A1", "U.S. Patent Application Publication No. 2019/0123456", "US20190123456A1"
+const US_PUBLICATION =
+  /\b[Uu]\.?\s?[Ss]\.?\s*(?:[Pp]at(?:ent)?\.?\s*)?(?:[Aa]pp(?:lication|l)?\.?\s*)?(?:[Pp]ub(?:lication|l)?\.?\s*)?(?:[Nn]o\.?\s*)?((?:19|20)\d{2})\s?\/?\s?(\d{7})(?!\d)(?:\s?-?\s?(A\d)(?![A-Za-z0-9]))?/g;
+
+// "US 9,123,456 B2", "U.S. Pat. No. 9,123,456", "patent 9123456", "US D912,345 S"
+const US_PATENT =
+  /\b(?:[Uu]\.?\s?[Ss]\.?\s*(?:[Pp]at(?:ent)?\.?\s*)?|[Pp]at(?:ent)?\.?\s*)(?:[Nn]o\.?\s*|[Nn]umber\s*)?(RE|D|PP)?\s?(\d{1,3}(?:,?\d{3}){1,2})(?!\d)(?:\s?-?\s?(B[12]|E|S|P[23]?|A)(?![A-Za-z0-9]))?/g;
+
+// "EP 1 234 567 A1", "WO 2019/123456 A1", "JP 2005-123456 A"
+const FOREIGN_PATENT =
+  /\b(EP|WO|JP|CN|KR|DE|GB|FR|CA|AU|TW|CH|RU|ES|IT|NL|SE|BR|MX|IN)\s?-?\s?(\d+(?:[\s\/.,-]\d+)*)(?:\s?-?\s?([A-Z]\d?)(?![A-Za-z0-9]))?/g;
+
+/**
+ * Patent and publication numbers mentioned in a piece of text, in the order they
+ * appear. Bare numbers without "US", "patent" or an office code are not read.
+ */
+export function findPatentReferences(text: string): PatentReference[] {
+  const found: (PatentReference & { start: number; end: number })[] = [];
+  const overlaps = (start: number, end: number) => found.some((reference) => start < reference.end && end > reference.start);
+
+  const scan = (pattern: RegExp, read: (match: RegExpExecArray) => Omit<PatentReference, 'key' | 'text'> | null) => {
+    const regex = new RegExp(pattern.source, pattern.flags);
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text))) {
+      const end = match.index + match[0].length;
+      const reference = overlaps(match.index, end) ? null : read(match);
+      if (reference) {
+        found.push({ ...reference, key: `${reference.country}${reference.number}`, text: match[0].trim(), start: match.index, end });
+      }
+    }
+  };
+
+  scan(US_PUBLICATION, (match) => ({
+    category: 'US_PUBLICATION',
+    country: 'US',
+    number: `${match[1]}${match[2]}`,
+    kindCode: match[3] || null,
+  }));
+
+  scan(US_PATENT, (match) => {
+    const digits = match[2].replace(/,/g, '');
+    // Utility patents have had seven digits since 1911; design, reissue and plant patents fewer
+    if (match[1] ? digits.length < 5 : digits.length < 7) return null;
+    return { category: 'US_PATENT', country: 'US', number: `${match[1] || ''}${digits}`, kindCode: match[3] || null };
+  });
+
+  scan(FOREIGN_PATENT, (match) => {
+    const digits = match[2].replace(/\D/g, '');
+    if (digits.length < 5) return null;
+    return { category: 'FOREIGN_PATENT', country: match[1], number: digits, kindCode: match[3] || null };
+  });
+
+  return found.sort((a, b) => a.start - b.start).map(({ start, end, ...reference }) => reference);
+}
+
+/**
+ * Dedup key for non-patent literature: the citation without case or punctuation
+ */
+export function literatureKey(citation: string): string {
+  return `NPL:${citation.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()}`;
+}
+
+/**
+ * Document number as listed on SB/08, e.g. 9,123,456-B2, 2019/0123456-A1 or EP 1234567 A1
+ */
+export function formatDocumentNumber(reference: Pick<PriorArtReference, 'category' | 'country' | 'number' | 'kindCode'>): string {
+  const { number, kindCode } = reference;
+  if (!number) return '';
+
+  if (reference.category === 'US_PATENT') {
+    const [, prefix, digits] = number.match(/^([A-Z]*)(\d+)$/) || [null, '', number];
+    return `${prefix}${Number(digits).toLocaleString('en-US')}${kindCode ? `-${kindCode}` : ''}`;
+  }
+  if (reference.category === 'US_PUBLICATION') {
+    return `${number.slice(0, 4)}/${number.slice(4)}${kindCode ? `-${kindCode}` : ''}`;
+  }
+  return [reference.country, number, kindCode].filter(Boolean).join(' ');
+}
+
+/**
+ * Add references to a case's prior-art list, merging with what is already there
+ * by number or normalized citation, and record where each was cited
+ */
+export async function addPriorArt(
+  params: { organizationId: string; caseId: string; createdBy: string; citations: PriorArtCitation[] },
+  client: Prisma.TransactionClient = db
+): Promise<{ references: PriorArtReference[]; created: number }> {
+  const references = new Map<string, PriorArtReference>();
+  let created = 0;
+
+  for (const { reference, citation, excerpt, recordingId, documentId } of params.citations) {
+    let saved = references.get(reference.key) || (await client.priorArtReference.findUnique({
+      where: { caseId_key: { caseId: params.caseId, key: reference.key } },
+    }));
+
+    if (!saved) {
+      saved = await client.priorArtReference.create({
+        data: {
+          organizationId: params.organizationId,
+          caseId: params.caseId,
+          category: reference.category,
+          key: reference.key,
+          ...('number' in reference && { country: reference.country, number: reference.number, kindCode: reference.kindCode }),
+          citation,
+          createdBy: params.createdBy,
+        },
+      });
+      created++;
+    } else if ('number' in reference && reference.kindCode && !saved.kindCode) {
+      saved = await client.priorArtReference.update({
+        where: { id: saved.id },
+        data: { kindCode: reference.kindCode },
+      });
+    }
+    references.set(reference.key, saved);
+
+    await client.priorArtSource.create({
+      data: {
+        referenceId: saved.id,
+        recordingId,
+        documentId,
+        excerpt: excerpt || null,
+        createdBy: params.createdBy,
+      },
+    });
+  }
+
+  return { references: Array.from(references.values()), created };
+}
+
+/**
+ * Bring the patent documents from a recording's Prior Art/References into its
+ * case's list. Citations from an earlier analysis of the recording are replaced.
+ * Products and trademarks mentioned there are not prior art for an IDS and are left out.
+ */
+export async function importRecordingPriorArt(
+  recording: { id: string; organizationId: string; caseId: string; name: string },
+  analysis: AnalysisResult,
+  createdBy: string
+) {
+  const citations: PriorArtCitation[] = analysis.priorArt.flatMap((item) =>
+    findPatentReferences(item.reference).map((reference) => ({
+      reference,
+      citation: item.reference,
+      excerpt: item.description,
+      recordingId: recording.id,
+    }))
+  );
+
+  return db.$transaction(async (tx) => {
+    await tx.priorArtSource.deleteMany({ where: { recordingId: recording.id } });
+    return addPriorArt({ organizationId: recording.organizationId, caseId: recording.caseId, createdBy, citations }, tx);
+  });
+}
+
+/**
+ * Bring the references an examiner applied in an office action into its case's list.
+ * Runs in its own transaction unless given one to join.
+ */
+export async function importOfficeActionPriorArt(
+  document: { id: string; caseId: string },
+  organizationId: string,
+  officeAction: OfficeAction,
+  createdBy: string,
+  client?: Prisma.TransactionClient
+): Promise<{ references: PriorArtReference[]; created: number }> {
+  if (!client) {
+    return db.$transaction((tx) => importOfficeActionPriorArt(document, organizationId, officeAction, createdBy, tx));
+  }
+
+  const citations: PriorArtCitation[] = officeAction.rejections.flatMap((rejection) =>
+    rejection.references.flatMap((cited) =>
+      findPatentReferences(cited).map((reference) => ({
+        reference,
+        citation: cited,
+        excerpt: `${rejection.type} ${rejection.type === 'Objection' ? 'objection to' : 'rejection of'} claims ${rejection.claims}`,
+        documentId: document.id,
+      }))
+    )
+  );
+
+  await client.priorArtSource.deleteMany({ where: { documentId: document.id } });
+  return addPriorArt({ organizationId, caseId: document.caseId, createdBy, citations }, client);
+}
+
+/**
+ * References cited by the examiner are already of record and don't need to be
+ * listed in an IDS. A reference that also came up elsewhere still does.
+ */
+export function isExaminerCited(reference: { sources: { documentId: string | null }[] }): boolean {
+  return reference.sources.length > 0 && reference.sources.every((source) => source.documentId);
+}
+
+/**
+ * Application details for an IDS from the case's other patent forms, newest
+ * first, so a later office action response wins over the application as drafted
+ */
+export function getIdsApplicationData(forms: { data: unknown }[]): Record<string, string> {
+  const application: Record<string, string> = {};
+  const keep = (field: string, value: unknown) => {
+    if (!application[field] && typeof value === 'string' && value.trim()) application[field] = value.trim();
+  };
+
+  for (const form of forms) {
+    const data = (form.data && typeof form.data === 'object' ? form.data : {}) as Record<string, any>;
+    ['applicationNumber', 'examiner', 'artUnit', 'attorneyDocketNumber'].forEach((field) => keep(field, data[field]));
+    keep('firstNamedInventor', Array.isArray(data.inventors) ? data.inventors[0]?.inventorName : null);
+  }
+
+  return application;
+}
+
+/**
+ * Form.data for an IDS listing the references in SB/08 order: U.S. patents,
+ * U.S. publications, foreign documents, then literature
+ */
+export function buildIdsData(
+  template: FormTemplate,
+  references: PriorArtReference[],
+  application: Record<string, unknown>
+): Record<string, unknown> {
+  const order = Object.keys(PRIOR_ART_CATEGORY_LABELS) as PriorArtCategory[];
+  const sorted = [...references].sort(
+    (a, b) => order.indexOf(a.category) - order.indexOf(b.category) || a.key.localeCompare(b.key)
+  );
+
+  return {
+    ...buildFormData(template),
+    ...application,
+    references: sorted.map((reference) => ({
+      category: PRIOR_ART_CATEGORY_LABELS[reference.category],
+      documentNumber: formatDocumentNumber(reference),
+      date: reference.date ? formatDate(reference.date) : '',
+      name: reference.name || '',
+      citation: reference.category === 'NON_PATENT_LITERATURE' ? reference.citation : '',
+      translation: false,
+    })),
+  };
+}
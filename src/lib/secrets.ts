@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+
+/**
+ * Encrypt a credential for storage in the database, e.g. an API key in
+ * Organization.settings. Uses AES-256-GCM with a key derived from
+ * SETTINGS_ENCRYPTION_KEY.
+ */
+export function encryptSecret(value: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+  return ENCRYPTED_PREFIX + [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join(':');
+}
+
+/**
+ * Decrypt a value from encryptSecret. Values saved before encryption was
+ * introduced are returned unchanged.
+ */
+export function decryptSecret(value: string): string {
+  if (!value.startsWith(ENCRYPTED_PREFIX)) {
+    return value;
+  }
+
+  const [iv, tag, encrypted] = value.slice(ENCRYPTED_PREFIX.length).split(':').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+export function isSecretEncryptionConfigured(): boolean {
+  return !!process.env.SETTINGS_ENCRYPTION_KEY;
+}
+
+function getKey(): Buffer {
+  const secret = process.env.SETTINGS_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('SETTINGS_ENCRYPTION_KEY is required to store credentials');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
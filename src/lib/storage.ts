@@ -0,0 +1,431 @@
+import crypto from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { finished, pipeline } from 'stream/promises';
+import {
+  S3Client,
+  GetObjectCommand,
+  PutObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  CompletedPart,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+export type StorageDriverName = 'local' | 's3';
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  contentType: string;
+}
+
+export interface SignedUrl {
+  url: string;
+  method: 'GET' | 'PUT';
+  headers: Record<string, string>;
+  expiresAt: Date;
+}
+
+/**
+ * Common interface implemented by every storage backend.
+ * Object keys are always relative paths such as `recordings/{orgId}/{id}.webm`.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  putObject(key: string, body: Buffer, contentType: string): Promise<StoredObject>;
+  /** Write the given objects, in order, as one object without holding them all in memory */
+  composeObject(key: string, sourceKeys: string[], contentType: string): Promise<StoredObject>;
+  getObject(key: string): Promise<Buffer>;
+  headObject(key: string): Promise<StoredObject | null>;
+  deleteObject(key: string): Promise<void>;
+  getUploadUrl(key: string, contentType: string, expiresIn?: number): Promise<SignedUrl>;
+  getDownloadUrl(key: string, expiresIn?: number): Promise<SignedUrl>;
+}
+
+const DEFAULT_URL_TTL = 15 * 60; // 15 minutes
+
+// S3 rejects multipart parts under 5MB other than the last
+const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+// ============================================
+// LOCAL FILESYSTEM DRIVER
+// ============================================
+
+/**
+ * Stores objects on the local filesystem. Signed URLs point at
+ * /api/v1/storage/{key} and are authorized with an HMAC signature.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+
+  constructor(
+    private readonly rootDir: string,
+    private readonly signingSecret: string
+  ) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+
+  async putObject(key: string, body: Buffer, contentType: string): Promise<StoredObject> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+    await fs.writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }));
+    return { key, size: body.length, contentType };
+  }
+
+  async composeObject(key: string, sourceKeys: string[], contentType: string): Promise<StoredObject> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    const output = createWriteStream(filePath);
+    try {
+      for (const sourceKey of sourceKeys) {
+        await pipeline(createReadStream(this.resolve(sourceKey)), output, { end: false });
+      }
+      output.end();
+      await finished(output);
+    } catch (err) {
+      output.destroy();
+      await fs.rm(filePath, { force: true });
+      throw err;
+    }
+
+    await fs.writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }));
+    const { size } = await fs.stat(filePath);
+    return { key, size, contentType };
+  }
+
+  async getObject(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async headObject(key: string): Promise<StoredObject | null> {
+    const filePath = this.resolve(key);
+    try {
+      const stat = await fs.stat(filePath);
+      const meta = await fs
+        .readFile(`${filePath}.meta.json`, 'utf8')
+        .then((raw) => JSON.parse(raw) as { contentType?: string })
+        .catch(() => ({ contentType: undefined }));
+      return {
+        key,
+        size: stat.size,
+        contentType: meta.contentType || 'application/octet-stream',
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.rm(filePath, { force: true });
+    await fs.rm(`${filePath}.meta.json`, { force: true });
+  }
+
+  async getUploadUrl(key: string, contentType: string, expiresIn = DEFAULT_URL_TTL): Promise<SignedUrl> {
+    return this.sign('PUT', key, expiresIn, { 'Content-Type': contentType });
+  }
+
+  async getDownloadUrl(key: string, expiresIn = DEFAULT_URL_TTL): Promise<SignedUrl> {
+    return this.sign('GET', key, expiresIn, {});
+  }
+
+  /**
+   * Verify a signature produced by getUploadUrl/getDownloadUrl
+   */
+  verifySignature(method: string, key: string, expires: string, signature: string): boolean {
+    const expiresAt = parseInt(expires, 10);
+    if (!expiresAt || expiresAt * 1000 < Date.now()) {
+      return false;
+    }
+
+    const expected = this.computeSignature(method, key, expiresAt);
+    return (
+      expected.length === signature.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+    );
+  }
+
+  private sign(
+    method: 'GET' | 'PUT',
+    key: string,
+    expiresIn: number,
+    headers: Record<string, string>
+  ): SignedUrl {
+    const expiresAt = Math.floor(Date.now() / 1000) + expiresIn;
+    const signature = this.computeSignature(method, key, expiresAt);
+    const url = `${APP_URL}/api/v1/storage/${key
+      .split('/')
+      .map(encodeURIComponent)
+      .join('/')}?expires=${expiresAt}&signature=${signature}`;
+
+    return { url, method, headers, expiresAt: new Date(expiresAt * 1000) };
+  }
+
+  private computeSignature(method: string, key: string, expiresAt: number): string {
+    return crypto
+      .createHmac('sha256', this.signingSecret)
+      .update(`${method}\n${key}\n${expiresAt}`)
+      .digest('hex');
+  }
+}
+
+// ============================================
+// S3-COMPATIBLE DRIVER
+// ============================================
+
+/**
+ * Stores objects in AWS S3 or any S3-compatible service (MinIO, R2, GCS interop)
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+  private readonly client: S3Client;
+
+  constructor(
+    private readonly bucket: string,
+    options: {
+      region: string;
+      endpoint?: string;
+      accessKeyId?: string;
+      secretAccessKey?: string;
+      forcePathStyle?: boolean;
+    }
+  ) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+          : undefined,
+    });
+  }
+
+  async putObject(key: string, body: Buffer, contentType: string): Promise<StoredObject> {
+    await this.client.send(
+      new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: body, ContentType: contentType })
+    );
+    return { key, size: body.length, contentType };
+  }
+
+  /**
+   * Multipart upload of the sources. Parts other than the last must be at least
+   * 5MB, so small sources are gathered into a part before it is sent.
+   */
+  async composeObject(key: string, sourceKeys: string[], contentType: string): Promise<StoredObject> {
+    const { UploadId } = await this.client.send(
+      new CreateMultipartUploadCommand({ Bucket: this.bucket, Key: key, ContentType: contentType })
+    );
+
+    const parts: CompletedPart[] = [];
+    let pending: Buffer[] = [];
+    let pendingSize = 0;
+    let size = 0;
+
+    const uploadPart = async () => {
+      const PartNumber = parts.length + 1;
+      const { ETag } = await this.client.send(
+        new UploadPartCommand({ Bucket: this.bucket, Key: key, UploadId, PartNumber, Body: Buffer.concat(pending) })
+      );
+      parts.push({ ETag, PartNumber });
+      pending = [];
+      pendingSize = 0;
+    };
+
+    try {
+      for (const sourceKey of sourceKeys) {
+        const body = await this.getObject(sourceKey);
+        pending.push(body);
+        pendingSize += body.length;
+        size += body.length;
+        if (pendingSize >= MULTIPART_PART_SIZE) {
+          await uploadPart();
+        }
+      }
+      if (pendingSize > 0 || parts.length === 0) {
+        await uploadPart();
+      }
+
+      await this.client.send(
+        new CompleteMultipartUploadCommand({ Bucket: this.bucket, Key: key, UploadId, MultipartUpload: { Parts: parts } })
+      );
+    } catch (err) {
+      await this.client
+        .send(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: key, UploadId }))
+        .catch(() => undefined);
+      throw err;
+    }
+
+    return { key, size, contentType };
+  }
+
+  async getObject(key: string): Promise<Buffer> {
+    const response = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+    if (!response.Body) {
+      throw new Error(`Object not found: ${key}`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async headObject(key: string): Promise<StoredObject | null> {
+    try {
+      const response = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      return {
+        key,
+        size: response.ContentLength || 0,
+        contentType: response.ContentType || 'application/octet-stream',
+      };
+    } catch (err: any) {
+      if (err?.name === 'NotFound' || err?.$metadata?.httpStatusCode === 404) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async getUploadUrl(key: string, contentType: string, expiresIn = DEFAULT_URL_TTL): Promise<SignedUrl> {
+    const url = await getSignedUrl(
+      this.client,
+      new PutObjectCommand({ Bucket: this.bucket, Key: key, ContentType: contentType }),
+      { expiresIn }
+    );
+    return {
+      url,
+      method: 'PUT',
+      headers: { 'Content-Type': contentType },
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    };
+  }
+
+  async getDownloadUrl(key: string, expiresIn = DEFAULT_URL_TTL): Promise<SignedUrl> {
+    const url = await getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      { expiresIn }
+    );
+    return {
+      url,
+      method: 'GET',
+      headers: {},
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    };
+  }
+}
+
+// ============================================
+// DRIVER SELECTION
+// ============================================
+
+const globalForStorage = globalThis as unknown as {
+  storage: StorageDriver | undefined;
+};
+
+/**
+ * Get the configured storage driver (STORAGE_DRIVER=local|s3)
+ */
+export function getStorage(): StorageDriver {
+  if (globalForStorage.storage) {
+    return globalForStorage.storage;
+  }
+
+  const driver = (process.env.STORAGE_DRIVER || 'local') as StorageDriverName;
+
+  if (driver === 's3') {
+    if (!process.env.AWS_S3_BUCKET) {
+      throw new Error('AWS_S3_BUCKET is required for the s3 storage driver');
+    }
+    globalForStorage.storage = new S3StorageDriver(process.env.AWS_S3_BUCKET, {
+      region: process.env.AWS_REGION || 'us-east-1',
+      endpoint: process.env.AWS_S3_ENDPOINT,
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.AWS_S3_FORCE_PATH_STYLE === 'true',
+    });
+  } else {
+    const secret = process.env.STORAGE_SIGNING_SECRET;
+    if (!secret) {
+      throw new Error('STORAGE_SIGNING_SECRET is required for the local storage driver');
+    }
+    globalForStorage.storage = new LocalStorageDriver(
+      path.resolve(process.env.STORAGE_LOCAL_PATH || './uploads'),
+      secret
+    );
+  }
+
+  return globalForStorage.storage;
+}
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/m4a': 'm4a',
+  'audio/x-m4a': 'm4a',
+};
+
+const DOCUMENT_EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+};
+
+/**
+ * Allowed audio MIME types for recordings
+ */
+export const AUDIO_MIME_TYPES = Object.keys(AUDIO_EXTENSIONS);
+
+/**
+ * Strip codec parameters, e.g. "audio/webm;codecs=opus" -> "audio/webm"
+ */
+export function normalizeMimeType(mimeType: string): string {
+  return mimeType.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Build the object key for a recording's audio file
+ */
+export function getRecordingKey(organizationId: string, recordingId: string, mimeType: string): string {
+  const extension = AUDIO_EXTENSIONS[normalizeMimeType(mimeType)] || 'bin';
+  return `recordings/${organizationId}/${recordingId}.${extension}`;
+}
+
+/**
+ * Build the object key for a document generated from a form
+ */
+export function getFormDocumentKey(organizationId: string, formId: string, generatedAt: Date): string {
+  return `documents/${organizationId}/${formId}/${generatedAt.getTime()}.pdf`;
+}
+
+/**
+ * Build the object key for a document uploaded to a case
+ */
+export function getCaseDocumentKey(organizationId: string, caseId: string, uploadedAt: Date, mimeType: string): string {
+  const extension = DOCUMENT_EXTENSIONS[normalizeMimeType(mimeType)] || 'bin';
+  return `documents/${organizationId}/cases/${caseId}/${uploadedAt.getTime()}.${extension}`;
+}
@@ -89,11 +89,13 @@ export function getPlanFeatures(plan: Plan): PlanFeatures {
 }
 
 /**
- * Check if organization can perform action based on plan limits
+ * Check if organization can perform action based on plan limits.
+ * additionalBytes counts toward storage, e.g. an upload still in progress.
  */
 export async function checkPlanLimit(
   organizationId: string,
-  limitType: 'members' | 'cases' | 'recordings' | 'storage'
+  limitType: 'members' | 'cases' | 'recordings' | 'storage',
+  additionalBytes = 0
 ): Promise<{ allowed: boolean; limit: number; current: number }> {
   const org = await db.organization.findUnique({
     where: { id: organizationId },
@@ -144,9 +146,11 @@ export async function checkPlanLimit(
         where: { organizationId },
         _sum: { fileSize: true },
       });
-      current = Math.ceil((totalSize._sum.fileSize || 0) / (1024 * 1024 * 1024)); // Convert to GB
+      const usedBytes = (totalSize._sum.fileSize || 0) + additionalBytes;
+      current = Math.ceil(usedBytes / (1024 * 1024 * 1024)); // Convert to GB
       limit = features.maxStorageGB;
-      break;
+      // Compared in bytes, since rounding up to whole GB would leave no room on a 1GB plan
+      return { allowed: limit === -1 || usedBytes < limit * 1024 * 1024 * 1024, limit, current };
   }
 
   // -1 means unlimited
@@ -0,0 +1,118 @@
+import { Prisma } from '@prisma/client';
+import { db } from './db';
+import { TranscriptData, TranscriptWord } from './transcription';
+
+export type TranscriptSource = 'transcription' | 'edit';
+
+export interface SegmentEdit {
+  id: number;
+  text: string;
+  speaker?: string;
+}
+
+/**
+ * Get the current transcript revision for a recording
+ */
+export async function getLatestRevision(recordingId: string) {
+  return db.transcriptRevision.findFirst({
+    where: { recordingId },
+    orderBy: { version: 'desc' },
+  });
+}
+
+/**
+ * Store a new transcript revision and make it the recording's current transcript.
+ * Concurrent saves of the same version fail on the (recordingId, version) unique index.
+ */
+export async function createTranscriptRevision(params: {
+  recordingId: string;
+  transcript: TranscriptData;
+  source: TranscriptSource;
+  note?: string;
+  createdBy: string;
+}) {
+  const latest = await getLatestRevision(params.recordingId);
+  const transcriptData = params.transcript as unknown as Prisma.InputJsonValue;
+
+  const [revision] = await db.$transaction([
+    db.transcriptRevision.create({
+      data: {
+        recordingId: params.recordingId,
+        version: (latest?.version || 0) + 1,
+        transcript: params.transcript.text,
+        transcriptData,
+        source: params.source,
+        note: params.note,
+        createdBy: params.createdBy,
+      },
+    }),
+    db.recording.update({
+      where: { id: params.recordingId },
+      data: {
+        transcript: params.transcript.text,
+        transcriptData,
+      },
+    }),
+  ]);
+
+  return revision;
+}
+
+/**
+ * Apply corrected segment text to a transcript. Word timings are kept when a
+ * correction has the same number of words, otherwise the new words are spread
+ * evenly across the segment.
+ */
+export function applySegmentEdits(transcript: TranscriptData, edits: SegmentEdit[]): TranscriptData {
+  const editsById = new Map(edits.map((edit) => [edit.id, edit]));
+
+  const segments = transcript.segments.map((segment) => {
+    const edit = editsById.get(segment.id);
+    if (!edit) return segment;
+    return { ...segment, text: edit.text.trim(), speaker: edit.speaker ?? segment.speaker };
+  });
+
+  // Keep words outside edited segments as they are
+  const editedSegments = transcript.segments.filter((segment) => editsById.has(segment.id));
+  const words = transcript.words.filter(
+    (word) => !editedSegments.some((segment) => isInSegment(word, segment))
+  );
+
+  for (const original of editedSegments) {
+    const segment = segments.find((s) => s.id === original.id)!;
+    const originalWords = transcript.words.filter((word) => isInSegment(word, original));
+    const tokens = segment.text.split(/\s+/).filter(Boolean);
+
+    if (tokens.length === originalWords.length) {
+      tokens.forEach((token, j) => words.push({ ...originalWords[j], word: token, speaker: segment.speaker }));
+      continue;
+    }
+
+    const step = (segment.end - segment.start) / Math.max(tokens.length, 1);
+    tokens.forEach((token, j) => {
+      words.push({
+        word: token,
+        start: Math.round((segment.start + j * step) * 1000) / 1000,
+        end: Math.round((segment.start + (j + 1) * step) * 1000) / 1000,
+        speaker: segment.speaker,
+      });
+    });
+  }
+
+  words.sort((a, b) => a.start - b.start);
+
+  return {
+    ...transcript,
+    text: segments.map((segment) => segment.text).join(' '),
+    segments,
+    words,
+  };
+}
+
+/**
+ * Words belong to the segment their midpoint falls in
+ */
+function isInSegment(word: TranscriptWord, segment: { start: number; end: number }): boolean {
+  const mid = (word.start + word.end) / 2;
+  return mid >= segment.start && mid < segment.end;
+}
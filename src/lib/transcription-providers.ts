@@ -0,0 +1,216 @@
+import OpenAI from 'openai';
+import {
+  TranscriptData,
+  TranscriptionOptions,
+  TranscriptionProvider,
+  TranscriptSegment,
+  TranscriptWord,
+} from './transcription';
+import { checkPublicHttpsUrl } from './network';
+import { decryptSecret } from './secrets';
+
+export type TranscriptionProviderName = 'openai' | 'whisper-http' | 'fake';
+
+export const TRANSCRIPTION_PROVIDERS: TranscriptionProviderName[] = ['openai', 'whisper-http', 'fake'];
+
+/**
+ * Shape of Organization.settings.transcription
+ */
+export interface TranscriptionSettings {
+  provider?: TranscriptionProviderName;
+  url?: string;        // whisper-http: full transcription endpoint URL
+  apiKey?: string;     // whisper-http: sent as a bearer token, encrypted with encryptSecret
+  model?: string;      // Model name passed to the backend
+  language?: string;   // Default language hint
+  diarize?: boolean;   // Label speakers when a diarization service is configured (default true)
+}
+
+// Whisper rejects uploads over 25MB; leave headroom for multipart overhead
+const OPENAI_MAX_FILE_BYTES = 24 * 1024 * 1024;
+
+const WHISPER_HTTP_MAX_FILE_BYTES = parseInt(process.env.WHISPER_HTTP_MAX_FILE_BYTES || String(100 * 1024 * 1024), 10);
+const WHISPER_HTTP_TIMEOUT_MS = parseInt(process.env.WHISPER_HTTP_TIMEOUT_MS || String(10 * 60 * 1000), 10);
+
+/**
+ * Response shape shared by OpenAI, faster-whisper-server and whisper.cpp
+ * (whisper.cpp nests word timings inside each segment)
+ */
+interface VerboseTranscription {
+  text: string;
+  language?: string;
+  duration?: number;
+  segments?: { id?: number; start: number; end: number; text: string; speaker?: string; words?: TranscriptWord[] }[];
+  words?: TranscriptWord[];
+}
+
+function toTranscriptData(transcription: VerboseTranscription): TranscriptData {
+  const segments = transcription.segments || [];
+  const words = transcription.words || segments.flatMap((segment) => segment.words || []);
+
+  return {
+    text: transcription.text.trim(),
+    language: transcription.language || null,
+    duration: transcription.duration || (segments.length > 0 ? segments[segments.length - 1].end : 0),
+    segments: segments.map((segment, index) => ({
+      id: segment.id ?? index,
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim(),
+      speaker: segment.speaker,
+    })),
+    words: words.map((word) => ({
+      word: word.word,
+      start: word.start,
+      end: word.end,
+      speaker: word.speaker,
+    })),
+  };
+}
+
+/**
+ * OpenAI hosted Whisper
+ */
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'openai';
+  readonly maxFileBytes = OPENAI_MAX_FILE_BYTES;
+  private client: OpenAI;
+
+  constructor(private model = 'whisper-1') {
+    this.client = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+
+  async transcribe(audio: Buffer, fileName: string, mimeType: string, options: TranscriptionOptions = {}) {
+    const file = new File([new Uint8Array(audio)], fileName, { type: mimeType });
+
+    const transcription = await this.client.audio.transcriptions.create({
+      file,
+      model: this.model,
+      language: options.language,
+      prompt: options.prompt,
+      response_format: 'verbose_json',
+      timestamp_granularities: ['segment', 'word'],
+    });
+
+    return toTranscriptData(transcription);
+  }
+}
+
+/**
+ * Self-hosted whisper.cpp server or faster-whisper-server. Audio never leaves
+ * the infrastructure the URL points at. URLs from organization settings must
+ * be public https endpoints; the server's own WHISPER_HTTP_URL may be internal.
+ */
+export class WhisperHttpTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'whisper-http';
+  readonly maxFileBytes = WHISPER_HTTP_MAX_FILE_BYTES;
+
+  constructor(private config: { url: string; apiKey?: string; model?: string; publicOnly?: boolean }) {}
+
+  async transcribe(audio: Buffer, fileName: string, mimeType: string, options: TranscriptionOptions = {}) {
+    if (this.config.publicOnly) {
+      const reason = await checkPublicHttpsUrl(this.config.url);
+      if (reason) {
+        throw new Error(`Whisper server URL rejected: ${reason}`);
+      }
+    }
+
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(audio)], { type: mimeType }), fileName);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'segment');
+    form.append('timestamp_granularities[]', 'word');
+    if (this.config.model) {
+      form.append('model', this.config.model);
+    }
+    if (options.language) {
+      form.append('language', options.language);
+    }
+    if (options.prompt) {
+      form.append('prompt', options.prompt);
+    }
+
+    const response = await fetch(this.config.url, {
+      method: 'POST',
+      headers: this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : undefined,
+      body: form,
+      signal: AbortSignal.timeout(WHISPER_HTTP_TIMEOUT_MS),
+      // A redirect could lead anywhere, including addresses the URL check rejects
+      redirect: this.config.publicOnly ? 'error' : 'follow',
+    });
+
+    // The body is left out; it is stored on the job and may echo the request
+    if (!response.ok) {
+      throw new Error(`Whisper server returned ${response.status}`);
+    }
+
+    return toTranscriptData(await response.json());
+  }
+}
+
+/**
+ * Deterministic transcripts derived from the input size, for tests and local
+ * development without a speech backend. Segments alternate between two speakers.
+ */
+export class FakeTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'fake';
+  readonly maxFileBytes = Number.MAX_SAFE_INTEGER;
+
+  async transcribe(audio: Buffer, fileName: string, _mimeType: string, options: TranscriptionOptions = {}) {
+    // Assume ~16KB per second of audio, with one segment every five seconds
+    const duration = Math.max(1, Math.round(audio.length / 16000));
+    const segments: TranscriptSegment[] = [];
+    const words: TranscriptWord[] = [];
+
+    for (let start = 0; start < duration; start += 5) {
+      const end = Math.min(start + 5, duration);
+      const text = `Segment ${segments.length + 1} of ${fileName}.`;
+      const speaker = `SPEAKER_0${segments.length % 2}`;
+      segments.push({ id: segments.length, start, end, text, speaker });
+
+      const tokens = text.split(' ');
+      const step = (end - start) / tokens.length;
+      tokens.forEach((word, i) => {
+        words.push({ word, start: start + i * step, end: start + (i + 1) * step, speaker });
+      });
+    }
+
+    return {
+      text: segments.map((segment) => segment.text).join(' '),
+      language: options.language || 'en',
+      duration,
+      segments,
+      words,
+    };
+  }
+}
+
+/**
+ * Build the provider an organization has selected, falling back to the
+ * TRANSCRIPTION_PROVIDER environment default
+ */
+export function getTranscriptionProvider(settings: TranscriptionSettings = {}): TranscriptionProvider {
+  const provider = settings.provider || (process.env.TRANSCRIPTION_PROVIDER as TranscriptionProviderName) || 'openai';
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAITranscriptionProvider(settings.model);
+    case 'whisper-http': {
+      const url = settings.url || process.env.WHISPER_HTTP_URL;
+      if (!url) {
+        throw new Error('No whisper server URL configured');
+      }
+      return new WhisperHttpTranscriptionProvider({
+        url,
+        apiKey: settings.apiKey ? decryptSecret(settings.apiKey) : process.env.WHISPER_HTTP_API_KEY,
+        model: settings.model || process.env.WHISPER_HTTP_MODEL,
+        publicOnly: !!settings.url,
+      });
+    }
+    case 'fake':
+      return new FakeTranscriptionProvider();
+    default:
+      throw new Error(`Unknown transcription provider: ${provider}`);
+  }
+}
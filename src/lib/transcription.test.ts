@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { mergeTranscripts, transcribeAudio, TranscriptData } from './transcription';
+import { FakeTranscriptionProvider } from './transcription-providers';
+
+function transcript(items: { start: number; end: number; text: string }[]): TranscriptData {
+  return {
+    text: items.map((item) => item.text).join(' '),
+    language: 'en',
+    duration: 0,
+    segments: items.map((item, id) => ({ id, ...item })),
+    words: items.map((item) => ({ word: item.text, start: item.start, end: item.end })),
+  };
+}
+
+describe('mergeTranscripts', () => {
+  // Two segments overlapping from 598s to 602s, so the cut is at 600s
+  const first = { index: 0, start: 0, end: 602, cutStart: 0 };
+  const second = { index: 1, start: 598, end: 900, cutStart: 600 };
+
+  it('keeps speech in the overlap once, on the side of the midpoint it starts on', () => {
+    const merged = mergeTranscripts(
+      [
+        { segment: first, transcript: transcript([{ start: 10, end: 12, text: 'opening' }, { start: 599, end: 600.5, text: 'before' }, { start: 600.5, end: 601.5, text: 'after' }]) },
+        { segment: second, transcript: transcript([{ start: 1, end: 2.5, text: 'before' }, { start: 2.5, end: 3.5, text: 'after' }, { start: 50, end: 52, text: 'closing' }]) },
+      ],
+      900
+    );
+
+    expect(merged.segments).toEqual([
+      { id: 0, start: 10, end: 12, text: 'opening', speaker: undefined },
+      { id: 1, start: 599, end: 600.5, text: 'before', speaker: undefined },
+      { id: 2, start: 600.5, end: 601.5, text: 'after', speaker: undefined },
+      { id: 3, start: 648, end: 650, text: 'closing', speaker: undefined },
+    ]);
+    expect(merged.words.map((word) => word.word)).toEqual(['opening', 'before', 'after', 'closing']);
+    expect(merged.text).toBe('opening before after closing');
+  });
+
+  it('records the source range of each part and the overall duration', () => {
+    const merged = mergeTranscripts(
+      [
+        { segment: first, transcript: { ...transcript([]), language: null } },
+        { segment: second, transcript: transcript([]) },
+      ],
+      900
+    );
+
+    expect(merged.parts).toEqual([
+      { start: 0, end: 602 },
+      { start: 598, end: 900 },
+    ]);
+    expect(merged.duration).toBe(900);
+    expect(merged.language).toBe('en');
+  });
+});
+
+describe('transcribeAudio', () => {
+  it('transcribes a file the provider accepts in one request', async () => {
+    const result = await transcribeAudio(new FakeTranscriptionProvider(), Buffer.alloc(16000 * 12), 'interview.webm', 'audio/webm', {
+      language: 'de',
+    });
+
+    expect(result.provider).toBe('fake');
+    expect(result.language).toBe('de');
+    expect(result.duration).toBe(12);
+    expect(result.segments).toEqual([
+      { id: 0, start: 0, end: 5, text: 'Segment 1 of interview.webm.', speaker: 'SPEAKER_00' },
+      { id: 1, start: 5, end: 10, text: 'Segment 2 of interview.webm.', speaker: 'SPEAKER_01' },
+      { id: 2, start: 10, end: 12, text: 'Segment 3 of interview.webm.', speaker: 'SPEAKER_00' },
+    ]);
+    expect(result.words.filter((word) => word.start >= 10 && word.end <= 12)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,155 @@
+import { splitAudio, AudioSegment } from './audio-segmentation';
+
+export interface TranscriptSegment {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;    // TranscriptSpeaker id, present when diarized
+}
+
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+  speaker?: string;
+}
+
+export type SpeakerRole = 'attorney' | 'paralegal' | 'inventor' | 'client' | 'other';
+
+export const SPEAKER_ROLES: SpeakerRole[] = ['attorney', 'paralegal', 'inventor', 'client', 'other'];
+
+/**
+ * A diarized speaker, optionally mapped to a person
+ */
+export interface TranscriptSpeaker {
+  id: string;          // e.g., 'speaker-1'
+  label: string;       // e.g., 'Speaker 1'
+  name?: string;       // Person's name once mapped
+  role?: SpeakerRole;
+  userId?: string;     // Clerk user ID when the speaker is a team member
+}
+
+/**
+ * Shape of Recording.transcriptData
+ */
+export interface TranscriptData {
+  text: string;
+  language: string | null;
+  duration: number;
+  segments: TranscriptSegment[];
+  words: TranscriptWord[];
+  // Source ranges that were transcribed separately, present when the audio was split
+  parts?: { start: number; end: number }[];
+  // Name of the provider that produced the transcript
+  provider?: string;
+  // Present when the transcript has been diarized
+  speakers?: TranscriptSpeaker[];
+}
+
+export interface TranscriptionOptions {
+  language?: string;   // ISO-639-1 hint, auto-detected when omitted
+  prompt?: string;     // Vocabulary hint biasing the spelling of uncommon words
+}
+
+/**
+ * A speech-to-text backend. Implementations transcribe a single file with
+ * timestamps relative to its start; splitting and stitching happen here.
+ */
+export interface TranscriptionProvider {
+  readonly name: string;
+  // Largest file the backend accepts in one request
+  readonly maxFileBytes: number;
+  transcribe(
+    audio: Buffer,
+    fileName: string,
+    mimeType: string,
+    options?: TranscriptionOptions
+  ): Promise<TranscriptData>;
+}
+
+/**
+ * Transcribe a recording, splitting it on silence first if it is too large
+ * to send to the provider in one request.
+ */
+export async function transcribeAudio(
+  provider: TranscriptionProvider,
+  audio: Buffer,
+  fileName: string,
+  mimeType: string,
+  options: TranscriptionOptions = {}
+): Promise<TranscriptData> {
+  if (audio.length <= provider.maxFileBytes) {
+    const transcript = await provider.transcribe(audio, fileName, mimeType, options);
+    return { ...transcript, provider: provider.name };
+  }
+
+  const extension = fileName.split('.').pop() || 'webm';
+  const { duration, segments } = await splitAudio(audio, extension);
+
+  const results: { segment: AudioSegment; transcript: TranscriptData }[] = [];
+  for (const segment of segments) {
+    const transcript = await provider.transcribe(segment.audio, `segment-${segment.index}.mp3`, 'audio/mpeg', options);
+    results.push({ segment, transcript });
+  }
+
+  return { ...mergeTranscripts(results, duration), provider: provider.name };
+}
+
+/**
+ * Stitch separately transcribed segments back into one transcript.
+ * Timestamps are re-based onto the source timeline. Neighbouring segments
+ * overlap, and each keeps only what starts on its side of the overlap's
+ * midpoint, so speech near a cut is neither lost nor repeated.
+ */
+export function mergeTranscripts(
+  results: { segment: AudioSegment; transcript: TranscriptData }[],
+  duration: number
+): TranscriptData {
+  const segments: TranscriptSegment[] = [];
+  const words: TranscriptWord[] = [];
+
+  results.forEach(({ segment, transcript }, i) => {
+    const offset = segment.start;
+    const previous = results[i - 1]?.segment;
+    const next = results[i + 1]?.segment;
+    // Midpoints of the overlaps with the previous and next segment
+    const from = previous ? (segment.start + previous.end) / 2 : -Infinity;
+    const until = next ? (next.start + segment.end) / 2 : Infinity;
+    const owns = (start: number) => start + offset >= from && start + offset < until;
+
+    for (const item of transcript.segments) {
+      if (!owns(item.start)) continue;
+      segments.push({
+        id: segments.length,
+        start: round(item.start + offset),
+        end: round(item.end + offset),
+        text: item.text,
+        speaker: item.speaker,
+      });
+    }
+
+    for (const item of transcript.words) {
+      if (!owns(item.start)) continue;
+      words.push({
+        word: item.word,
+        start: round(item.start + offset),
+        end: round(item.end + offset),
+        speaker: item.speaker,
+      });
+    }
+  });
+
+  return {
+    text: segments.map((segment) => segment.text).join(' '),
+    language: results.find((result) => result.transcript.language)?.transcript.language || null,
+    duration,
+    segments,
+    words,
+    parts: results.map(({ segment }) => ({ start: segment.start, end: segment.end })),
+  };
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}